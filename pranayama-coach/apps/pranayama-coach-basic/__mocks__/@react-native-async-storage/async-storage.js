@@ -0,0 +1,19 @@
+// In-memory AsyncStorage for tests; values persist for the whole test file
+const store = new Map();
+
+const AsyncStorage = {
+  getItem: jest.fn(async key => (store.has(key) ? store.get(key) : null)),
+  setItem: jest.fn(async (key, value) => {
+    store.set(key, value);
+  }),
+  removeItem: jest.fn(async key => {
+    store.delete(key);
+  }),
+  clear: jest.fn(async () => {
+    store.clear();
+  }),
+  getAllKeys: jest.fn(async () => Array.from(store.keys())),
+};
+
+module.exports = AsyncStorage;
+module.exports.default = AsyncStorage;
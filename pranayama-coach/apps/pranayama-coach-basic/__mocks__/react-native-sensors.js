@@ -0,0 +1,12 @@
+// Native sensor streams never emit in tests; MotionService is fed through
+// FileReplayMotionSource instead
+const stream = () => ({ subscribe: jest.fn(() => ({ unsubscribe: jest.fn() })) });
+
+module.exports = {
+  accelerometer: stream(),
+  gyroscope: stream(),
+  magnetometer: stream(),
+  barometer: stream(),
+  setUpdateIntervalForType: jest.fn(),
+  SensorTypes: { accelerometer: 'accelerometer', gyroscope: 'gyroscope', magnetometer: 'magnetometer', barometer: 'barometer' },
+};
@@ -0,0 +1,31 @@
+// Sound playback does nothing in tests; the callback reports a loaded file
+function Sound(filename, basePath, callback) {
+  this.filename = filename;
+  if (typeof callback === 'function') {
+    setImmediate(() => callback(null));
+  }
+}
+
+Sound.prototype.play = jest.fn(function (onEnd) {
+  if (onEnd) onEnd(true);
+  return this;
+});
+Sound.prototype.stop = jest.fn(function (callback) {
+  if (callback) callback();
+  return this;
+});
+Sound.prototype.release = jest.fn();
+Sound.prototype.setVolume = jest.fn(function () {
+  return this;
+});
+Sound.prototype.setNumberOfLoops = jest.fn(function () {
+  return this;
+});
+Sound.prototype.isLoaded = () => true;
+
+Sound.setCategory = jest.fn();
+Sound.MAIN_BUNDLE = '';
+Sound.DOCUMENT = '';
+
+module.exports = Sound;
+module.exports.default = Sound;
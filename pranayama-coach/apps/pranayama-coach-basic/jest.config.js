@@ -0,0 +1,4 @@
+module.exports = {
+  preset: 'react-native',
+  roots: ['<rootDir>/src', '<rootDir>/__mocks__'],
+};
@@ -9,6 +9,8 @@ import {
   Dimensions,
 } from 'react-native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
+import { BreathingPattern, TechniqueDifficulty } from '../types/session';
+import { TechniqueCatalogService } from '../services/TechniqueCatalogService';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -17,16 +19,11 @@ interface Activity {
   name: string;
   description: string;
   duration: number;
-  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  difficulty: TechniqueDifficulty;
   type: 'pranayama' | 'meditation';
   icon: string;
   color: string;
-  breathPattern?: {
-    inhale: number;
-    hold: number;
-    exhale: number;
-    pause: number;
-  };
+  breathPattern?: BreathingPattern;
   benefits: string[];
   instructions: string[];
 }
@@ -48,106 +45,22 @@ export const ActivitySelector: React.FC<ActivitySelectorProps> = ({
   const [selectedDifficulty, setSelectedDifficulty] = useState<'all' | 'beginner' | 'intermediate' | 'advanced'>('all');
 
   const activities: Activity[] = [
-    {
-      id: 'nadi-shodhana',
-      name: 'Nadi Shodhana',
-      description: 'Alternate nostril breathing for balance and focus',
-      duration: 10,
-      difficulty: 'beginner',
-      type: 'pranayama',
-      icon: 'leaf-outline',
-      color: '#22c55e',
-      breathPattern: { inhale: 4, hold: 0, exhale: 4, pause: 0 },
-      benefits: ['Balances nervous system', 'Improves focus', 'Reduces stress'],
-      instructions: [
-        'Sit comfortably with spine straight',
-        'Use right thumb to close right nostril',
-        'Inhale through left nostril for 4 counts',
-        'Close left nostril with ring finger, release thumb',
-        'Exhale through right nostril for 4 counts',
-        'Inhale through right nostril, then switch',
-      ],
-    },
-    {
-      id: 'box-breathing',
-      name: 'Box Breathing',
-      description: 'Four-part breath for calm and concentration',
-      duration: 15,
-      difficulty: 'beginner',
-      type: 'pranayama',
-      icon: 'square-outline',
-      color: '#3b82f6',
-      breathPattern: { inhale: 4, hold: 4, exhale: 4, pause: 4 },
-      benefits: ['Calms mind', 'Reduces anxiety', 'Improves concentration'],
-      instructions: [
-        'Sit or lie in a comfortable position',
-        'Inhale slowly for 4 counts',
-        'Hold your breath for 4 counts',
-        'Exhale slowly for 4 counts',
-        'Hold empty for 4 counts',
-        'Repeat the cycle',
-      ],
-    },
-    {
-      id: 'ujjayi',
-      name: 'Ujjayi Pranayama',
-      description: 'Ocean breath for deep relaxation',
-      duration: 20,
-      difficulty: 'intermediate',
-      type: 'pranayama',
-      icon: 'water-outline',
-      color: '#06b6d4',
-      breathPattern: { inhale: 6, hold: 0, exhale: 6, pause: 0 },
-      benefits: ['Deep relaxation', 'Improves focus', 'Generates internal heat'],
-      instructions: [
-        'Breathe through your nose only',
-        'Slightly constrict throat muscles',
-        'Create a soft ocean-like sound',
-        'Inhale for 6 counts with the sound',
-        'Exhale for 6 counts maintaining the sound',
-        'Keep the breath steady and rhythmic',
-      ],
-    },
-    {
-      id: 'bhramari',
-      name: 'Bhramari Pranayama',
-      description: 'Humming bee breath for tranquility',
-      duration: 12,
-      difficulty: 'intermediate',
-      type: 'pranayama',
-      icon: 'musical-note-outline',
-      color: '#f59e0b',
-      breathPattern: { inhale: 4, hold: 0, exhale: 8, pause: 0 },
-      benefits: ['Calms nervous system', 'Reduces stress', 'Improves concentration'],
-      instructions: [
-        'Sit comfortably with eyes closed',
-        'Place thumbs in ears, index fingers above eyebrows',
-        'Place remaining fingers over closed eyes',
-        'Inhale normally through nose',
-        'Exhale while humming like a bee',
-        'Focus on the vibration and sound',
-      ],
-    },
-    {
-      id: '4-7-8-breathing',
-      name: '4-7-8 Breathing',
-      description: 'Natural tranquilizer for the nervous system',
-      duration: 8,
-      difficulty: 'advanced',
-      type: 'pranayama',
-      icon: 'timer-outline',
-      color: '#8b5cf6',
-      breathPattern: { inhale: 4, hold: 7, exhale: 8, pause: 0 },
-      benefits: ['Promotes sleep', 'Reduces anxiety', 'Lowers heart rate'],
-      instructions: [
-        'Exhale completely through mouth',
-        'Close mouth, inhale through nose for 4 counts',
-        'Hold breath for 7 counts',
-        'Exhale through mouth for 8 counts with whoosh sound',
-        'This completes one cycle',
-        'Repeat for 3-4 cycles initially',
-      ],
-    },
+    // The resonance pattern is only meaningful once the user has been assessed
+    ...TechniqueCatalogService.list()
+      .filter(technique => technique.id !== 'resonance')
+      .map((technique): Activity => ({
+        id: technique.id,
+        name: technique.name,
+        description: technique.description,
+        duration: technique.duration.default,
+        difficulty: technique.difficulty,
+        type: 'pranayama',
+        icon: technique.appearance.icon,
+        color: technique.appearance.color,
+        breathPattern: technique.defaultPattern,
+        benefits: technique.benefits,
+        instructions: technique.instructions,
+      })),
     {
       id: 'mindfulness-meditation',
       name: 'Mindfulness Meditation',
@@ -258,8 +171,8 @@ export const ActivitySelector: React.FC<ActivitySelectorProps> = ({
         <View style={styles.breathPattern}>
           <Text style={styles.patternLabel}>Breath Pattern:</Text>
           <Text style={styles.patternText}>
-            {activity.breathPattern.inhale}-{activity.breathPattern.hold}-{activity.breathPattern.exhale}
-            {activity.breathPattern.pause > 0 && `-${activity.breathPattern.pause}`}
+            {activity.breathPattern.inhale}-{activity.breathPattern.holdAfterInhale}-{activity.breathPattern.exhale}
+            {activity.breathPattern.holdAfterExhale > 0 && `-${activity.breathPattern.holdAfterExhale}`}
           </Text>
         </View>
       )}
@@ -6,43 +6,157 @@ import {
   Animated,
   Dimensions,
   Easing,
+  TouchableOpacity,
 } from 'react-native';
+import { BreathingPattern, GuidedBreathPhase, NostrilSide, RoundPosition, RoundStage } from '../types/session';
+import { BreathPhaseScheduler } from '../services/BreathPhaseScheduler';
+import { RoundBreathingScheduler } from '../services/RoundBreathingScheduler';
+import { TechniqueCatalogService } from '../services/TechniqueCatalogService';
 
 const { width } = Dimensions.get('window');
+const PROGRESS_INTERVAL = 50; // ms between progress ring updates
 
-interface BreathingPattern {
-  inhale: number;
-  hold1: number;
-  exhale: number;
-  hold2: number;
-}
+const STAGE_TEXT: Record<RoundStage, string> = {
+  pumping: 'Pump',
+  retention: 'Hold',
+  rest: 'Rest',
+};
+
+const STAGE_COLORS: Record<RoundStage, string> = {
+  pumping: '#f093fb',
+  retention: '#43e97b',
+  rest: '#feca57',
+};
 
 interface BreathingPacerProps {
   pattern: BreathingPattern;
   isActive: boolean;
-  onPhaseChange?: (phase: 'inhale' | 'hold' | 'exhale' | 'pause') => void;
+  onPhaseChange?: (phase: GuidedBreathPhase) => void;
   technique: string;
   size?: number;
+  scheduler?: BreathPhaseScheduler; // follow a session's scheduler instead of pacing on its own
+  rounds?: RoundBreathingScheduler; // rapid breathing: beat each pump like a metronome
 }
 
+interface MetronomePacerProps {
+  scheduler: RoundBreathingScheduler;
+  isActive: boolean;
+  technique: string;
+  size: number;
+}
+
+/**
+ * Pacer for rapid breathing. At one or two pumps a second a full breathing
+ * animation cannot keep up, so each pump is a short beat of the circle with
+ * a pump count; during the hold the user taps the circle to breathe again.
+ */
+const MetronomePacer: React.FC<MetronomePacerProps> = ({ scheduler, isActive, technique, size }) => {
+  const beatAnim = useRef(new Animated.Value(0.7)).current;
+  const [position, setPosition] = useState<RoundPosition | null>(scheduler.getPosition());
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const beatDuration = Math.min(400, 30000 / scheduler.getPattern().tempo); // half a pump at most
+    const unsubscribe = scheduler.subscribe(event => {
+      setPosition(event.position);
+      if (event.type !== 'pump') return;
+
+      beatAnim.setValue(1);
+      Animated.timing(beatAnim, {
+        toValue: 0.7,
+        duration: beatDuration,
+        easing: Easing.out(Easing.quad),
+        useNativeDriver: true,
+      }).start();
+    });
+    const progressTimer = setInterval(() => setPosition(scheduler.getPosition()), PROGRESS_INTERVAL);
+
+    return () => {
+      unsubscribe();
+      clearInterval(progressTimer);
+    };
+  }, [isActive, scheduler]);
+
+  const stage = position?.stage ?? 'pumping';
+  const cue = TechniqueCatalogService.get(technique)?.coaching.stageCues?.[stage] ?? '';
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        activeOpacity={0.8}
+        disabled={stage !== 'retention'}
+        onPress={() => scheduler.endRetention()}
+      >
+        <Animated.View
+          style={[
+            styles.breathingCircle,
+            {
+              width: size,
+              height: size,
+              borderRadius: size / 2,
+              backgroundColor: STAGE_COLORS[stage],
+              transform: [{ scale: stage === 'pumping' ? beatAnim : 1 }],
+            },
+          ]}
+        >
+          <View style={styles.centerContent}>
+            <Text style={styles.phaseText}>{STAGE_TEXT[stage]}</Text>
+            <Text style={styles.techniqueText}>{cue}</Text>
+            <Text style={styles.counterText}>
+              {stage === 'pumping'
+                ? `${position?.pump ?? 0} / ${position?.totalPumps ?? scheduler.getPattern().pumps}`
+                : `${Math.ceil(position?.stageRemaining ?? 0)}s`}
+            </Text>
+          </View>
+        </Animated.View>
+      </TouchableOpacity>
+
+      <View style={styles.phaseIndicator}>
+        <Text style={styles.cycleCounter}>
+          Round {position?.round ?? 1} of {position?.totalRounds ?? scheduler.getPattern().rounds}
+        </Text>
+      </View>
+
+      <View style={styles.progressBar}>
+        <View style={styles.progressBarBg}>
+          <View
+            style={[
+              styles.progressBarFill,
+              {
+                width: `${(position?.progress ?? 0) * 100}%`,
+                backgroundColor: STAGE_COLORS[stage],
+              },
+            ]}
+          />
+        </View>
+      </View>
+    </View>
+  );
+};
+
 const BreathingPacer: React.FC<BreathingPacerProps> = ({
   pattern,
   isActive,
   onPhaseChange,
   technique,
   size = 200,
+  scheduler,
+  rounds,
 }) => {
   const scaleAnim = useRef(new Animated.Value(0.3)).current;
   const opacityAnim = useRef(new Animated.Value(1)).current;
   const rotateAnim = useRef(new Animated.Value(0)).current;
   const colorAnim = useRef(new Animated.Value(0)).current;
   
-  const [currentPhase, setCurrentPhase] = useState<'inhale' | 'hold' | 'exhale' | 'pause'>('inhale');
+  const [currentPhase, setCurrentPhase] = useState<GuidedBreathPhase>('inhale');
+  const [phaseDuration, setPhaseDuration] = useState(pattern.inhale);
   const [phaseProgress, setPhaseProgress] = useState(0);
   const [totalCycles, setTotalCycles] = useState(0);
   
-  const phaseTimers = useRef<NodeJS.Timeout[]>([]);
+  const ownScheduler = useRef<BreathPhaseScheduler | null>(null);
   const progressTimer = useRef<NodeJS.Timeout | null>(null);
+  const schedulerSubscription = useRef<(() => void) | null>(null);
 
   const getPhaseColor = (phase: string) => {
     switch (phase) {
@@ -64,167 +178,141 @@ const BreathingPacer: React.FC<BreathingPacerProps> = ({
     }
   };
 
-  const getTechniqueSpecificText = () => {
-    switch (technique) {
-      case 'nadi-shodhana':
-        return currentPhase === 'inhale' ? 'Through left nostril' : 
-               currentPhase === 'exhale' ? 'Through right nostril' : '';
-      case 'ujjayi':
-        return 'With throat constriction';
-      case 'bhramari':
-        return currentPhase === 'exhale' ? 'Hum like a bee' : '';
-      case 'emergency':
-        return 'Focus on the circle';
-      default:
-        return '';
+  const getTechniqueSpecificText = () => TechniqueCatalogService.getCue(technique, currentPhase, totalCycles + 1) ?? '';
+
+  const usesNostrils = !!TechniqueCatalogService.get(technique)?.nostrils;
+  const currentNostril = TechniqueCatalogService.getNostril(technique, currentPhase, totalCycles + 1);
+
+  // Animations run over the time left in the phase, which is less than its
+  // duration when picking up mid-phase (e.g. after a pause)
+  const animatePhase = (name: GuidedBreathPhase, duration: number, remaining: number = duration) => {
+    setCurrentPhase(name);
+    setPhaseDuration(duration);
+    onPhaseChange?.(name);
+
+    // Animate based on phase
+    const animations: Animated.CompositeAnimation[] = [];
+
+    switch (name) {
+      case 'inhale':
+        animations.push(
+          Animated.timing(scaleAnim, {
+            toValue: 1,
+            duration: remaining * 1000,
+            easing: Easing.inOut(Easing.ease),
+            useNativeDriver: true,
+          })
+        );
+        animations.push(
+          Animated.timing(colorAnim, {
+            toValue: 0,
+            duration: remaining * 1000,
+            useNativeDriver: false,
+          })
+        );
+        break;
+
+      case 'hold':
+        animations.push(
+          Animated.timing(opacityAnim, {
+            toValue: 0.8,
+            duration: remaining * 1000,
+            useNativeDriver: true,
+          })
+        );
+        animations.push(
+          Animated.timing(colorAnim, {
+            toValue: 1,
+            duration: remaining * 1000,
+            useNativeDriver: false,
+          })
+        );
+        break;
+
+      case 'exhale':
+        animations.push(
+          Animated.timing(scaleAnim, {
+            toValue: 0.3,
+            duration: remaining * 1000,
+            easing: Easing.inOut(Easing.ease),
+            useNativeDriver: true,
+          })
+        );
+        animations.push(
+          Animated.timing(colorAnim, {
+            toValue: 2,
+            duration: remaining * 1000,
+            useNativeDriver: false,
+          })
+        );
+        break;
+
+      case 'pause':
+        animations.push(
+          Animated.timing(opacityAnim, {
+            toValue: 1,
+            duration: remaining * 1000,
+            useNativeDriver: true,
+          })
+        );
+        animations.push(
+          Animated.timing(colorAnim, {
+            toValue: 3,
+            duration: remaining * 1000,
+            useNativeDriver: false,
+          })
+        );
+        break;
     }
+
+    // Rotation animation (continuous)
+    Animated.timing(rotateAnim, {
+      toValue: rotateAnim._value + 0.25,
+      duration: remaining * 1000,
+      easing: Easing.linear,
+      useNativeDriver: true,
+    }).start();
+
+    // Run all animations in parallel
+    Animated.parallel(animations).start();
   };
 
   const startBreathingCycle = () => {
-    const phases = [
-      { name: 'inhale' as const, duration: pattern.inhale },
-      { name: 'hold' as const, duration: pattern.hold1 },
-      { name: 'exhale' as const, duration: pattern.exhale },
-      { name: 'pause' as const, duration: pattern.hold2 },
-    ];
-
-    let currentPhaseIndex = 0;
-
-    const runPhase = () => {
-      if (!isActive) return;
-
-      const phase = phases[currentPhaseIndex];
-      setCurrentPhase(phase.name);
-      onPhaseChange?.(phase.name);
-
-      // Reset progress
-      setPhaseProgress(0);
-
-      // Start progress tracking
-      const progressInterval = 50; // Update every 50ms
-      const totalSteps = (phase.duration * 1000) / progressInterval;
-      let currentStep = 0;
-
-      progressTimer.current = setInterval(() => {
-        currentStep++;
-        const progress = Math.min(currentStep / totalSteps, 1);
-        setPhaseProgress(progress);
-
-        if (progress >= 1) {
-          if (progressTimer.current) {
-            clearInterval(progressTimer.current);
-          }
-        }
-      }, progressInterval);
-
-      // Animate based on phase
-      const animations: Animated.CompositeAnimation[] = [];
-
-      switch (phase.name) {
-        case 'inhale':
-          animations.push(
-            Animated.timing(scaleAnim, {
-              toValue: 1,
-              duration: phase.duration * 1000,
-              easing: Easing.inOut(Easing.ease),
-              useNativeDriver: true,
-            })
-          );
-          animations.push(
-            Animated.timing(colorAnim, {
-              toValue: 0,
-              duration: phase.duration * 1000,
-              useNativeDriver: false,
-            })
-          );
-          break;
-
-        case 'hold':
-          animations.push(
-            Animated.timing(opacityAnim, {
-              toValue: 0.8,
-              duration: phase.duration * 1000,
-              useNativeDriver: true,
-            })
-          );
-          animations.push(
-            Animated.timing(colorAnim, {
-              toValue: 1,
-              duration: phase.duration * 1000,
-              useNativeDriver: false,
-            })
-          );
-          break;
-
-        case 'exhale':
-          animations.push(
-            Animated.timing(scaleAnim, {
-              toValue: 0.3,
-              duration: phase.duration * 1000,
-              easing: Easing.inOut(Easing.ease),
-              useNativeDriver: true,
-            })
-          );
-          animations.push(
-            Animated.timing(colorAnim, {
-              toValue: 2,
-              duration: phase.duration * 1000,
-              useNativeDriver: false,
-            })
-          );
-          break;
-
-        case 'pause':
-          animations.push(
-            Animated.timing(opacityAnim, {
-              toValue: 1,
-              duration: phase.duration * 1000,
-              useNativeDriver: true,
-            })
-          );
-          animations.push(
-            Animated.timing(colorAnim, {
-              toValue: 3,
-              duration: phase.duration * 1000,
-              useNativeDriver: false,
-            })
-          );
-          break;
-      }
-
-      // Rotation animation (continuous)
-      Animated.timing(rotateAnim, {
-        toValue: rotateAnim._value + 0.25,
-        duration: phase.duration * 1000,
-        easing: Easing.linear,
-        useNativeDriver: true,
-      }).start();
+    // Follow the session's scheduler when given one, otherwise pace alone
+    const source = scheduler ?? new BreathPhaseScheduler(pattern);
+    if (!scheduler) {
+      ownScheduler.current = source;
+    }
 
-      // Run all animations in parallel
-      Animated.parallel(animations).start();
-
-      // Schedule next phase
-      const timer = setTimeout(() => {
-        currentPhaseIndex = (currentPhaseIndex + 1) % phases.length;
-        
-        if (currentPhaseIndex === 0) {
-          setTotalCycles(prev => prev + 1);
-        }
-        
-        runPhase();
-      }, phase.duration * 1000);
-
-      phaseTimers.current.push(timer);
-    };
+    const position = source.getPosition();
+    if (position) {
+      setTotalCycles(position.cycle - 1);
+      animatePhase(position.phase, position.phaseDuration, position.phaseRemaining);
+    }
+
+    schedulerSubscription.current = source.subscribe(event => {
+      if (event.type !== 'phase_started') return;
+      setTotalCycles(event.position.cycle - 1);
+      animatePhase(event.position.phase, event.position.phaseDuration, event.position.phaseRemaining);
+    });
+
+    if (!scheduler) {
+      source.start();
+    }
 
-    // Start the first phase
-    runPhase();
+    // Progress is read from the scheduler rather than counted here, so it
+    // stays in step through late timers and pauses
+    progressTimer.current = setInterval(() => {
+      setPhaseProgress(source.getPosition()?.progress ?? 0);
+    }, PROGRESS_INTERVAL);
   };
 
   const stopBreathingCycle = () => {
-    // Clear all timers
-    phaseTimers.current.forEach(timer => clearTimeout(timer));
-    phaseTimers.current = [];
+    schedulerSubscription.current?.();
+    schedulerSubscription.current = null;
+
+    ownScheduler.current?.stop();
+    ownScheduler.current = null;
 
     if (progressTimer.current) {
       clearInterval(progressTimer.current);
@@ -252,7 +340,7 @@ const BreathingPacer: React.FC<BreathingPacerProps> = ({
   };
 
   useEffect(() => {
-    if (isActive) {
+    if (isActive && !rounds) {
       startBreathingCycle();
     } else {
       stopBreathingCycle();
@@ -261,7 +349,12 @@ const BreathingPacer: React.FC<BreathingPacerProps> = ({
     return () => {
       stopBreathingCycle();
     };
-  }, [isActive, pattern]);
+  }, [isActive, scheduler, rounds]);
+
+  // A new pattern takes over at the next cycle instead of restarting the pacer
+  useEffect(() => {
+    ownScheduler.current?.setPattern(pattern);
+  }, [pattern]);
 
   // Interpolate colors
   const animatedBackgroundColor = colorAnim.interpolate({
@@ -289,6 +382,10 @@ const BreathingPacer: React.FC<BreathingPacerProps> = ({
     outputRange: ['0deg', '360deg'],
   });
 
+  if (rounds) {
+    return <MetronomePacer scheduler={rounds} isActive={isActive} technique={technique} size={size} />;
+  }
+
   return (
     <View style={styles.container}>
       {/* Progress Ring */}
@@ -357,7 +454,7 @@ const BreathingPacer: React.FC<BreathingPacerProps> = ({
             {getTechniqueSpecificText()}
           </Text>
           <Text style={styles.counterText}>
-            {pattern[currentPhase as keyof BreathingPattern]}s
+            {phaseDuration}s
           </Text>
         </View>
       </Animated.View>
@@ -379,6 +476,18 @@ const BreathingPacer: React.FC<BreathingPacerProps> = ({
         <Text style={styles.cycleCounter}>
           Cycle {totalCycles + 1}
         </Text>
+        {usesNostrils && (
+          <View style={styles.nostrilSides}>
+            {(['left', 'right'] as NostrilSide[]).map(side => (
+              <Text
+                key={side}
+                style={[styles.nostrilSide, currentNostril === side && styles.activeNostrilSide]}
+              >
+                {side === 'left' ? '◀ Left' : 'Right ▶'}
+              </Text>
+            ))}
+          </View>
+        )}
       </View>
 
       {/* Progress bar */}
@@ -475,6 +584,19 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.8)',
     fontWeight: '500',
   },
+  nostrilSides: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  nostrilSide: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.4)',
+    marginHorizontal: 12,
+  },
+  activeNostrilSide: {
+    color: 'white',
+    fontWeight: '600',
+  },
   progressBar: {
     marginTop: 20,
     width: width - 60,
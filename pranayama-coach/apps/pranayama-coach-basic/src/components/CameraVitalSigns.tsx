@@ -12,12 +12,13 @@ import {
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { RNCamera } from 'react-native-camera';
 import CameraVitalSignsService from '../services/CameraVitalSignsService';
+import { SignalGuidance } from '../types/vitalSigns';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
 interface VitalSignsReading {
   heartRate: number;
-  hrv: number;
+  hrv?: number;
   spO2?: number;
   breathingRate?: number;
   confidence: number;
@@ -31,6 +32,9 @@ interface SignalQualityMetrics {
   motionLevel: number;
   lightingLevel: number;
   contactQuality: number;
+  beatAcceptance: number;
+  perfusionIndex: number;
+  guidance: SignalGuidance | null;
   overallQuality: 'poor' | 'fair' | 'good' | 'excellent';
 }
 
@@ -166,6 +170,14 @@ export const CameraVitalSigns: React.FC<CameraVitalSignsProps> = ({
     }
   };
 
+  const getGuidanceMessage = (guidance: SignalGuidance) => {
+    switch (guidance) {
+      case 'cover_camera': return 'Cover the camera and flash fully with your fingertip';
+      case 'press_lighter': return 'Press more lightly - your finger is blocking the pulse';
+      case 'hold_still': return 'Hold your finger and phone still';
+    }
+  };
+
   const getInstructions = () => {
     if (method === 'ppg') {
       return [
@@ -250,6 +262,12 @@ export const CameraVitalSigns: React.FC<CameraVitalSignsProps> = ({
     return (
       <View style={styles.signalQuality}>
         <Text style={styles.qualityTitle}>Signal Quality</Text>
+        {signalQuality.guidance && (
+          <View style={styles.guidanceBanner}>
+            <Ionicons name="hand-left-outline" size={16} color="#f59e0b" />
+            <Text style={styles.guidanceText}>{getGuidanceMessage(signalQuality.guidance)}</Text>
+          </View>
+        )}
         <View style={styles.qualityMetrics}>
           <View style={styles.qualityItem}>
             <Text style={styles.qualityLabel}>Overall</Text>
@@ -280,6 +298,18 @@ export const CameraVitalSigns: React.FC<CameraVitalSignsProps> = ({
                 <Text style={styles.qualityDetailText}>Contact: {signalQuality.contactQuality.toFixed(0)}%</Text>
               </View>
             )}
+            
+            <View style={styles.qualityDetail}>
+              <Ionicons name="heart-outline" size={16} color="#6b7280" />
+              <Text style={styles.qualityDetailText}>Beats: {signalQuality.beatAcceptance.toFixed(0)}%</Text>
+            </View>
+            
+            {method === 'ppg' && (
+              <View style={styles.qualityDetail}>
+                <Ionicons name="water-outline" size={16} color="#6b7280" />
+                <Text style={styles.qualityDetailText}>PI: {signalQuality.perfusionIndex.toFixed(1)}%</Text>
+              </View>
+            )}
           </View>
         </View>
       </View>
@@ -303,7 +333,7 @@ export const CameraVitalSigns: React.FC<CameraVitalSignsProps> = ({
           <View style={styles.readingItem}>
             <Ionicons name="pulse" size={20} color="#22c55e" />
             <Text style={styles.readingLabel}>HRV</Text>
-            <Text style={styles.readingValue}>{currentReading.hrv} ms</Text>
+            <Text style={styles.readingValue}>{currentReading.hrv ?? '--'} ms</Text>
           </View>
           
           {currentReading.spO2 && (
@@ -589,6 +619,22 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     textAlign: 'center',
   },
+  guidanceBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  guidanceText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#f59e0b',
+    marginLeft: 6,
+  },
   qualityMetrics: {
     alignItems: 'center',
   },
@@ -8,6 +8,7 @@ import {
 } from 'react-native';
 import { LineChart, BarChart, PieChart, ProgressChart } from 'react-native-chart-kit';
 import Ionicons from 'react-native-vector-icons/Ionicons';
+import { SyntheticVitalSignsGenerator } from '../services/SyntheticVitalSignsGenerator';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -465,10 +466,13 @@ const styles = StyleSheet.create({
 });
 
 // Example usage and data generators for testing
-export const generateMockLineData = (points: number = 7): ChartData => ({
-  labels: Array.from({ length: points }, (_, i) => `Day ${i + 1}`),
+export const generateMockLineData = (points: number = 7, seed: number = 1): ChartData => ({
+  labels: Array.from({ length: points }, (_, i) => `${i * 2}s`),
   datasets: [{
-    data: Array.from({ length: points }, () => Math.floor(Math.random() * 40) + 60),
+    // Heart rate rising and falling with paced breathing (RSA)
+    data: new SyntheticVitalSignsGenerator({ seed })
+      .heartRateSeries(points, 2)
+      .map(bpm => Math.round(bpm)),
   }],
 });
 
@@ -0,0 +1,105 @@
+import React from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+import { BaselineCalibrationService } from '../services/BaselineCalibrationService';
+import { ClockService } from '../services/ClockService';
+import { FakeClock } from '../services/FakeClock';
+import { HealthBaselineService } from '../services/HealthBaselineService';
+import { SessionEngine } from '../services/SessionEngine';
+import { SyntheticVitalSignsGenerator } from '../services/SyntheticVitalSignsGenerator';
+import { TechniqueCatalogService } from '../services/TechniqueCatalogService';
+import { VitalSignsService } from '../services/VitalSignsService';
+import { VitalSignsCycle } from '../types/vitalSigns';
+import { useVitalSigns, VitalSignsProvider } from './VitalSignsContext';
+
+const RESTING_SECONDS = BaselineCalibrationService.WINDOW_SECONDS;
+const BREATHING_SECONDS = 180;
+
+describe('VitalSignsProvider baseline calibration', () => {
+  let clock: FakeClock;
+  let context: ReturnType<typeof useVitalSigns>;
+  let renderer: TestRenderer.ReactTestRenderer;
+
+  const Probe = () => {
+    context = useVitalSigns();
+    return null;
+  };
+
+  /**
+   * One reading a second, as collectLatestData gives them: a steady 62 bpm
+   * at rest and a faster, swinging rate during the guided breathing
+   */
+  const readings = (engine: SessionEngine) => {
+    const resting = new SyntheticVitalSignsGenerator({ seed: 18, heartRate: 62, rsaAmplitude: 1 });
+    const breathing = new SyntheticVitalSignsGenerator({ seed: 18, heartRate: 75, rsaAmplitude: 8 });
+
+    return async (): Promise<VitalSignsCycle> => {
+      const now = clock.now();
+      const generator = engine.getState().currentPhase === 'breathing' ? breathing : resting;
+      return {
+        heartRate: { timestamp: new Date(now), bpm: Math.round(generator.heartRateAt(now)), confidence: 0.9, source: 'camera_ppg' },
+      };
+    };
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    clock = new FakeClock(0);
+    ClockService.setClock(clock);
+    await HealthBaselineService.clearBaseline();
+    jest.spyOn(VitalSignsService, 'initialize').mockResolvedValue();
+    jest.spyOn(VitalSignsService, 'startDataCollection').mockResolvedValue();
+    jest.spyOn(VitalSignsService, 'stopDataCollection').mockResolvedValue();
+
+    await act(async () => {
+      renderer = TestRenderer.create(
+        <VitalSignsProvider>
+          <Probe />
+        </VitalSignsProvider>
+      );
+    });
+  });
+
+  afterEach(() => {
+    act(() => renderer.unmount());
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    ClockService.setClock(null);
+  });
+
+  it('calibrates from the preparation and the cooldown of a long session', async () => {
+    const engine = new SessionEngine({
+      plannedDuration: BREATHING_SECONDS,
+      pattern: TechniqueCatalogService.getPattern('resonance'),
+      technique: 'resonance',
+      preparationDuration: RESTING_SECONDS,
+      cooldownDuration: RESTING_SECONDS,
+    });
+    jest.spyOn(VitalSignsService, 'collectLatestData').mockImplementation(readings(engine));
+
+    await act(async () => {
+      await context.startMonitoring([]);
+    });
+    engine.start();
+
+    // The provider collects once a second, in step with the session clock
+    const totalSeconds = 2 * RESTING_SECONDS + BREATHING_SECONDS;
+    for (let second = 0; second < totalSeconds; second++) {
+      await act(async () => {
+        jest.advanceTimersByTime(1000);
+      });
+      clock.advance(1000);
+    }
+    expect(engine.getStatus()).toBe('completed');
+    // Far more than the display history keeps
+    expect(context.currentVitalSigns.heartRate).toHaveLength(100);
+
+    await act(async () => {
+      await context.calibrateBaseline(engine.getRestingPeriods());
+    });
+
+    const [sample] = await HealthBaselineService.getHistory();
+    expect(sample.windows).toBe(2);
+    expect(Math.abs(sample.restingHeartRate! - 62)).toBeLessThanOrEqual(1);
+    expect(await HealthBaselineService.getBaseline()).toMatchObject({ sessionsCalibrated: 1 });
+  });
+});
@@ -15,7 +15,8 @@ import {
   RealTimeMetrics,
   VitalSignsError,
   CameraConfig,
-  ProcessingConfig
+  ProcessingConfig,
+  VitalSignsCycle
 } from '../types/vitalSigns';
 import { VitalSignsService } from '../services/VitalSignsService';
 import { CameraService } from '../services/CameraService';
@@ -40,7 +41,7 @@ interface VitalSignsContextType {
   // Control methods
   startMonitoring: (methods: MonitoringMethod[]) => Promise<void>;
   stopMonitoring: () => Promise<void>;
-  calibrateBaseline: () => Promise<void>;
+  calibrateBaseline: (restingPeriods?: { start: Date; end: Date }[]) => Promise<void>;
   updateConfiguration: (config: Partial<ProcessingConfig>) => void;
   clearErrors: () => void;
   
@@ -51,6 +52,46 @@ interface VitalSignsContextType {
 
 export type MonitoringMethod = 'camera_ppg' | 'camera_rppg' | 'audio_breathing' | 'motion_sensors';
 
+const MAX_DISPLAY_READINGS = 100;
+// Two hours at one reading a second
+const MAX_SESSION_READINGS = 7200;
+
+const emptyVitalSigns = (): VitalSigns => ({
+  heartRate: [],
+  heartRateVariability: [],
+  oxygenSaturation: [],
+  breathing: [],
+  stressLevel: [],
+});
+
+/**
+ * Append one cycle's readings, keeping the most recent limit of each
+ */
+const appendReadings = (vitalSigns: VitalSigns, data: VitalSignsCycle, limit: number): VitalSigns => {
+  const updated = { ...vitalSigns };
+
+  if (data.heartRate) {
+    updated.heartRate = [...vitalSigns.heartRate, data.heartRate].slice(-limit);
+  }
+  if (data.hrv) {
+    updated.heartRateVariability = [...vitalSigns.heartRateVariability, data.hrv].slice(-limit);
+  }
+  if (data.spo2) {
+    updated.oxygenSaturation = [...vitalSigns.oxygenSaturation, data.spo2].slice(-limit);
+  }
+  if (data.breathing) {
+    updated.breathing = [...vitalSigns.breathing, data.breathing].slice(-limit);
+  }
+  if (data.stress) {
+    updated.stressLevel = [...vitalSigns.stressLevel, data.stress].slice(-limit);
+  }
+  if (data.coherence) {
+    updated.coherence = [...(vitalSigns.coherence ?? []), data.coherence].slice(-limit);
+  }
+
+  return updated;
+};
+
 const VitalSignsContext = createContext<VitalSignsContextType | undefined>(undefined);
 
 interface VitalSignsProviderProps {
@@ -59,13 +100,7 @@ interface VitalSignsProviderProps {
 
 export const VitalSignsProvider: React.FC<VitalSignsProviderProps> = ({ children }) => {
   // State management
-  const [currentVitalSigns, setCurrentVitalSigns] = useState<VitalSigns>({
-    heartRate: [],
-    heartRateVariability: [],
-    oxygenSaturation: [],
-    breathing: [],
-    stressLevel: [],
-  });
+  const [currentVitalSigns, setCurrentVitalSigns] = useState<VitalSigns>(emptyVitalSigns);
 
   const [realTimeMetrics, setRealTimeMetrics] = useState<RealTimeMetrics>({});
   
@@ -128,6 +163,10 @@ export const VitalSignsProvider: React.FC<VitalSignsProviderProps> = ({ children
   // Refs for cleanup
   const monitoringInterval = useRef<NodeJS.Timeout | null>(null);
   const dataProcessingRef = useRef<boolean>(false);
+  // Every reading since monitoring started. The display history only keeps
+  // the last 100, which a session's preparation has long left by its end,
+  // and baseline calibration needs the resting phases at both ends.
+  const sessionVitalSigns = useRef<VitalSigns>(emptyVitalSigns());
 
   useEffect(() => {
     // Initialize vital signs service
@@ -155,6 +194,7 @@ export const VitalSignsProvider: React.FC<VitalSignsProviderProps> = ({ children
     try {
       setErrors([]);
       setMonitoringMethods(methods);
+      sessionVitalSigns.current = emptyVitalSigns();
 
       // Initialize monitoring services based on selected methods
       const initPromises = methods.map(async (method) => {
@@ -255,31 +295,8 @@ export const VitalSignsProvider: React.FC<VitalSignsProviderProps> = ({ children
   };
 
   const updateVitalSigns = (data: any) => {
-    setCurrentVitalSigns(prev => {
-      const updated = { ...prev };
-      
-      // Add new heart rate data
-      if (data.heartRate) {
-        updated.heartRate = [...prev.heartRate, data.heartRate].slice(-100); // Keep last 100 readings
-      }
-      
-      // Add new HRV data
-      if (data.hrv) {
-        updated.heartRateVariability = [...prev.heartRateVariability, data.hrv].slice(-100);
-      }
-      
-      // Add new breathing data
-      if (data.breathing) {
-        updated.breathing = [...prev.breathing, data.breathing].slice(-100);
-      }
-      
-      // Add new stress data
-      if (data.stress) {
-        updated.stressLevel = [...prev.stressLevel, data.stress].slice(-100);
-      }
-      
-      return updated;
-    });
+    sessionVitalSigns.current = appendReadings(sessionVitalSigns.current, data, MAX_SESSION_READINGS);
+    setCurrentVitalSigns(prev => appendReadings(prev, data, MAX_DISPLAY_READINGS));
   };
 
   const updateRealTimeMetrics = (data: any) => {
@@ -289,7 +306,7 @@ export const VitalSignsProvider: React.FC<VitalSignsProviderProps> = ({ children
       currentHRV: data.hrv?.rmssd,
       currentStressLevel: data.stress?.value,
       currentBreathingRate: data.breathing?.breathsPerMinute,
-      coherenceScore: calculateCoherence(data),
+      coherenceScore: calculateCoherence(data) ?? prev.coherenceScore,
       sessionQuality: calculateSessionQuality(data),
     }));
   };
@@ -299,6 +316,7 @@ export const VitalSignsProvider: React.FC<VitalSignsProviderProps> = ({ children
     setDataQuality(prev => ({
       ...prev,
       overallScore: qualityScore.overall,
+      artifactsDetected: qualityScore.artifactsDetected,
       confidenceIntervals: qualityScore.confidence,
       qualityFlags: qualityScore.flags,
       usableForAnalysis: qualityScore.overall > 0.7,
@@ -310,10 +328,10 @@ export const VitalSignsProvider: React.FC<VitalSignsProviderProps> = ({ children
     setAnalytics(analyticsData);
   };
 
-  const calculateCoherence = (data: any): number => {
-    // Implement heart-brain coherence calculation
-    // This would analyze the synchronization between heart rate and breathing
-    return 0.5; // Placeholder
+  const calculateCoherence = (data: any): number | undefined => {
+    // VitalSignsService computes coherence over a sliding beat window; it is
+    // absent until the window is long enough, so keep the last value
+    return data.coherence?.score;
   };
 
   const calculateSessionQuality = (data: any): number => {
@@ -321,9 +339,9 @@ export const VitalSignsProvider: React.FC<VitalSignsProviderProps> = ({ children
     return dataQuality.overallScore * 0.7 + (data.consistency || 0.5) * 0.3;
   };
 
-  const calibrateBaseline = async () => {
+  const calibrateBaseline = async (restingPeriods?: { start: Date; end: Date }[]) => {
     try {
-      await VitalSignsService.calibrateBaseline(currentVitalSigns);
+      await VitalSignsService.calibrateBaseline(sessionVitalSigns.current, restingPeriods);
     } catch (error) {
       console.error('Baseline calibration failed:', error);
       addError({
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -17,9 +17,15 @@ import { useVitalSigns } from '../context/VitalSignsContext';
 import { useAudio } from '../context/AudioContext';
 import VitalSignsDisplay from '../components/VitalSignsDisplay';
 import StressMeter from '../components/StressMeter';
+import { HealthBaselineService } from '../services/HealthBaselineService';
+import { ResonanceAssessmentService } from '../services/ResonanceAssessmentService';
+import { TechniqueCatalogService } from '../services/TechniqueCatalogService';
+import { PranayamaTechnique, PranayamaTechniqueDefinition } from '../types/session';
 
 const { width, height } = Dimensions.get('window');
 
+const HOME_TECHNIQUES: PranayamaTechnique[] = ['box_breathing', 'nadi_shodhana', 'ujjayi', 'bhramari'];
+
 const HomeScreen: React.FC = () => {
   const navigation = useNavigation();
   const { user } = useUser();
@@ -27,6 +33,9 @@ const HomeScreen: React.FC = () => {
   const { isPlaying } = useAudio();
   
   const [timeOfDay, setTimeOfDay] = useState('morning');
+  const [resonanceRate, setResonanceRate] = useState<number | null>(null);
+  const [assessmentStep, setAssessmentStep] = useState<string | null>(null);
+  const assessmentRef = useRef<ResonanceAssessmentService | null>(null);
   const [dailyProgress, setDailyProgress] = useState({
     sessionsCompleted: 2,
     totalMinutes: 25,
@@ -41,6 +50,19 @@ const HomeScreen: React.FC = () => {
     else setTimeOfDay('evening');
   }, []);
 
+  useEffect(() => {
+    // Offer the user's own resonance pace once it has been assessed
+    HealthBaselineService.getBaseline().then(baseline => {
+      setResonanceRate(baseline?.resonanceBreathingRate ?? null);
+    });
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      assessmentRef.current?.cancel();
+    };
+  }, []);
+
   const getGreeting = () => {
     const name = user?.profile?.firstName || 'there';
     switch (timeOfDay) {
@@ -51,43 +73,24 @@ const HomeScreen: React.FC = () => {
     }
   };
 
+  const toCard = (technique: PranayamaTechniqueDefinition, description: string = technique.description) => ({
+    id: technique.id,
+    name: technique.name,
+    description,
+    duration: `${technique.duration.min}-${technique.duration.max} min`,
+    difficulty: technique.difficulty.charAt(0).toUpperCase() + technique.difficulty.slice(1),
+    icon: technique.appearance.emoji,
+    gradient: technique.appearance.gradient,
+  });
+
+  const resonance = TechniqueCatalogService.get('resonance');
   const pranayamaTypes = [
-    {
-      id: 'box-breathing',
-      name: 'Box Breathing',
-      description: 'Equal count inhale, hold, exhale, hold',
-      duration: '5-15 min',
-      difficulty: 'Beginner',
-      icon: '⬜',
-      gradient: ['#667eea', '#764ba2'],
-    },
-    {
-      id: 'nadi-shodhana',
-      name: 'Nadi Shodhana',
-      description: 'Alternate nostril breathing',
-      duration: '10-20 min',
-      difficulty: 'Intermediate',
-      icon: '🌬️',
-      gradient: ['#f093fb', '#f5576c'],
-    },
-    {
-      id: 'ujjayi',
-      name: 'Ujjayi',
-      description: 'Ocean breath with throat constriction',
-      duration: '5-30 min',
-      difficulty: 'Advanced',
-      icon: '🌊',
-      gradient: ['#4facfe', '#00f2fe'],
-    },
-    {
-      id: 'bhramari',
-      name: 'Bhramari',
-      description: 'Humming bee breath',
-      duration: '5-10 min',
-      difficulty: 'Beginner',
-      icon: '🐝',
-      gradient: ['#43e97b', '#38f9d7'],
-    },
+    ...HOME_TECHNIQUES.map(id => TechniqueCatalogService.get(id))
+      .filter((technique): technique is PranayamaTechniqueDefinition => technique !== null)
+      .map(technique => toCard(technique)),
+    ...(resonanceRate !== null && resonance
+      ? [toCard(resonance, `Your resonance pace, ${resonanceRate} breaths/min`)]
+      : []),
   ];
 
   const quickActions = [
@@ -127,11 +130,41 @@ const HomeScreen: React.FC = () => {
   const startEmergencySession = () => {
     navigation.navigate('Session', {
       sessionType: 'emergency',
-      technique: 'box-breathing',
+      technique: 'box_breathing',
       duration: 5,
     });
   };
 
+  const startResonanceAssessment = async () => {
+    if (assessmentRef.current) return;
+
+    const assessment = new ResonanceAssessmentService();
+    assessmentRef.current = assessment;
+    setAssessmentStep('Starting heart rate monitoring');
+
+    try {
+      // The assessment measures heart rate oscillations at each pace
+      if (!isMonitoring) {
+        await startMonitoring(['camera_ppg']);
+      }
+      const result = await assessment.start({}, progress => {
+        setAssessmentStep(
+          `Step ${progress.stepIndex + 1} of ${progress.totalSteps}: ${progress.breathsPerMinute} breaths/min`
+        );
+      });
+      setResonanceRate(result.resonanceRate);
+    } catch (error) {
+      console.error('Resonance assessment did not finish:', error);
+    } finally {
+      assessmentRef.current = null;
+      setAssessmentStep(null);
+    }
+  };
+
+  const cancelResonanceAssessment = () => {
+    assessmentRef.current?.cancel();
+  };
+
   const handleVitalSignsToggle = () => {
     if (isMonitoring) {
       // Stop monitoring logic handled in context
@@ -242,6 +275,32 @@ const HomeScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Resonance Assessment, until the user's pace is known */}
+        {resonanceRate === null && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Find Your Resonance</Text>
+              <TouchableOpacity
+                style={[
+                  styles.monitorButton,
+                  assessmentStep !== null && styles.monitorButtonActive
+                ]}
+                onPress={assessmentStep !== null ? cancelResonanceAssessment : startResonanceAssessment}
+              >
+                <Text style={[
+                  styles.monitorButtonText,
+                  assessmentStep !== null && styles.monitorButtonTextActive
+                ]}>
+                  {assessmentStep !== null ? 'Cancel' : 'Start'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.assessmentText}>
+              {assessmentStep ?? 'A 10 minute paced breathing test that finds the breathing rate where your heart rate varies most.'}
+            </Text>
+          </View>
+        )}
+
         {/* Pranayama Techniques */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Pranayama Techniques</Text>
@@ -393,6 +452,11 @@ const styles = StyleSheet.create({
   monitorButtonTextActive: {
     color: 'white',
   },
+  assessmentText: {
+    fontSize: 14,
+    color: '#4a5568',
+    lineHeight: 20,
+  },
   vitalSignsContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
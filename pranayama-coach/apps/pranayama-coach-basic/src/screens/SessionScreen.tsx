@@ -13,14 +13,41 @@ import {
 import LinearGradient from 'react-native-linear-gradient';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { useVitalSigns } from '../context/VitalSignsContext';
-import { useAudio } from '../context/AudioContext';
 import BreathingPacer from '../components/BreathingPacer';
 import VitalSignsDisplay from '../components/VitalSignsDisplay';
 import StressMeter from '../components/StressMeter';
 import SessionControls from '../components/SessionControls';
+import { AudioCoachingService } from '../services/AudioCoachingService';
+import { BaselineCalibrationService } from '../services/BaselineCalibrationService';
+import { ResonanceAssessmentService } from '../services/ResonanceAssessmentService';
+import { RoundBreathingScheduler } from '../services/RoundBreathingScheduler';
+import { SessionEngine } from '../services/SessionEngine';
+import { SessionHistoryService } from '../services/SessionHistoryService';
+import { TechniqueCatalogService } from '../services/TechniqueCatalogService';
+import {
+  BreathingPattern,
+  GuidedBreathPhase,
+  NostrilSide,
+  RoundStage,
+  SessionPhase,
+  SessionStatus,
+  SessionType,
+} from '../types/session';
 
 const { width, height } = Dimensions.get('window');
 
+// Settling in before the guided breathing and resting after it, each long
+// enough for one resting baseline window
+const PREPARATION_SECONDS = BaselineCalibrationService.WINDOW_SECONDS;
+const COOLDOWN_SECONDS = BaselineCalibrationService.WINDOW_SECONDS;
+
+// How each kind of session is recorded
+const SESSION_TYPES: Record<SessionParams['sessionType'], SessionType> = {
+  pranayama: 'pranayama',
+  meditation: 'meditation_stationary',
+  emergency: 'stress_relief',
+};
+
 interface SessionParams {
   sessionType: 'pranayama' | 'meditation' | 'emergency';
   technique: string;
@@ -32,31 +59,50 @@ const SessionScreen: React.FC = () => {
   const route = useRoute();
   const params = route.params as SessionParams;
   
-  const { currentData, isMonitoring, startMonitoring, stopMonitoring } = useVitalSigns();
-  const { playGuidance, stopGuidance, isPlaying } = useAudio();
+  const { currentData, realTimeMetrics, isMonitoring, startMonitoring, stopMonitoring, calibrateBaseline } = useVitalSigns();
   
-  // Session state
-  const [sessionState, setSessionState] = useState<'preparing' | 'active' | 'paused' | 'completed'>('preparing');
+  // Session state, driven by the session engine's events
+  const [engine, setEngine] = useState<SessionEngine | null>(null);
+  const [sessionState, setSessionState] = useState<SessionStatus>('not_started');
   const [duration, setDuration] = useState(params.duration || 10); // minutes
   const [elapsedTime, setElapsedTime] = useState(0); // seconds
-  const [breathingPhase, setBreathingPhase] = useState<'inhale' | 'hold' | 'exhale' | 'pause'>('inhale');
+  const [remainingTime, setRemainingTime] = useState(0); // seconds
+  const [sessionPhase, setSessionPhase] = useState<SessionPhase>('preparation');
+  const [breathingPhase, setBreathingPhase] = useState<GuidedBreathPhase>('inhale');
+  const [nostril, setNostril] = useState<NostrilSide | null>(null);
+  const [roundStage, setRoundStage] = useState<RoundStage | null>(null);
+  const [round, setRound] = useState(1);
   const [breathCount, setBreathCount] = useState(0);
   const [showExitModal, setShowExitModal] = useState(false);
+  const [resonancePattern, setResonancePattern] = useState<BreathingPattern | null>(null);
+  const coach = useRef(new AudioCoachingService()).current;
+  // Listeners and coaching attached to the engine, removed with it
+  const unsubscribers = useRef<Array<() => void>>([]);
+  const latestData = useRef(currentData);
+  latestData.current = currentData;
   
   // Animation values
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(1)).current;
   
-  // Breathing patterns
-  const breathingPatterns = {
-    'box-breathing': { inhale: 4, hold1: 4, exhale: 4, hold2: 4 },
-    'nadi-shodhana': { inhale: 4, hold1: 2, exhale: 6, hold2: 1 },
-    'ujjayi': { inhale: 5, hold1: 1, exhale: 7, hold2: 1 },
-    'bhramari': { inhale: 4, hold1: 1, exhale: 6, hold2: 2 },
-    'emergency': { inhale: 4, hold1: 4, exhale: 4, hold2: 4 },
-  };
-  
-  const currentPattern = breathingPatterns[params.technique as keyof typeof breathingPatterns] || breathingPatterns['box-breathing'];
+  // Breathing pattern
+  const techniqueId = TechniqueCatalogService.resolveId(params.technique) ?? 'box_breathing';
+  const technique = TechniqueCatalogService.get(techniqueId);
+  const currentPattern = resonancePattern || TechniqueCatalogService.getPattern(techniqueId);
+  // Rapid breathing runs in rounds, which set the session length themselves
+  const rounds = technique?.rounds ?? null;
+  const plannedSeconds = rounds ? RoundBreathingScheduler.maxSeconds(rounds) : duration * 60;
+
+  useEffect(() => {
+    if (techniqueId !== 'resonance') return;
+
+    // The pattern comes from the user's resonance assessment
+    ResonanceAssessmentService.getResonancePattern().then(pattern => {
+      if (pattern) {
+        setResonancePattern(pattern);
+      }
+    });
+  }, [techniqueId]);
   
   // Session metrics
   const [sessionMetrics, setSessionMetrics] = useState({
@@ -86,61 +132,100 @@ const SessionScreen: React.FC = () => {
     
     return () => {
       stopMonitoring();
-      stopGuidance();
     };
   }, []);
 
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (sessionState === 'active') {
-      interval = setInterval(() => {
-        setElapsedTime(prev => {
-          const newTime = prev + 1;
-          if (newTime >= duration * 60) {
-            completeSession();
-          }
-          return newTime;
-        });
-      }, 1000);
-    }
-    
+    if (!engine) return;
+
+    // Leaving the screen abandons a session that is still going
     return () => {
-      if (interval) clearInterval(interval);
+      unsubscribers.current.forEach(unsubscribe => unsubscribe());
+      unsubscribers.current = [];
+      if (SessionEngine.canTransition(engine.getStatus(), 'cancelled')) {
+        engine.cancel();
+      }
     };
-  }, [sessionState, duration]);
+  }, [engine]);
+
+  useEffect(() => {
+    engine?.updateMetrics(realTimeMetrics);
+  }, [engine, realTimeMetrics]);
 
   const startSession = () => {
-    setSessionState('active');
-    playGuidance(params.technique, currentPattern);
+    const sessionEngine = new SessionEngine({
+      plannedDuration: duration * 60,
+      pattern: currentPattern,
+      rounds,
+      technique: techniqueId,
+      preparationDuration: PREPARATION_SECONDS,
+      cooldownDuration: COOLDOWN_SECONDS,
+    });
+    let breaths = 0;
+
+    const unsubscribeSession = sessionEngine.subscribe(event => {
+      setSessionState(event.state.status);
+      setElapsedTime(Math.floor(event.state.elapsedTime));
+      setRemainingTime(Math.ceil(event.state.remainingTime));
+      setSessionPhase(event.state.currentPhase);
+
+      if (event.type === 'breath_phase_changed') {
+        setBreathingPhase(event.breathPhase!);
+        setNostril(event.nostril ?? null);
+        if (event.breathPhase === 'exhale') {
+          setBreathCount(++breaths);
+        }
+      } else if (event.type === 'round_stage_changed') {
+        setRoundStage(event.roundStage!);
+        setRound(event.state.currentRound ?? 1);
+      } else if (event.type === 'status_changed' && event.state.status === 'completed') {
+        completeSession(sessionEngine, breaths);
+      }
+    });
+    const unsubscribeRounds = sessionEngine.getRoundScheduler()?.subscribe(event => {
+      if (event.type === 'pump') {
+        setBreathCount(++breaths);
+      }
+    });
+    // The coach speaks the cues and follows pauses and the end of the session
+    const stopCoaching = coach.followSession(sessionEngine, { technique: techniqueId, enableBackground: false });
+    unsubscribers.current = [unsubscribeSession, stopCoaching, ...(unsubscribeRounds ? [unsubscribeRounds] : [])];
+
+    setEngine(sessionEngine);
+    sessionEngine.start();
   };
 
   const pauseSession = () => {
-    setSessionState('paused');
-    stopGuidance();
+    engine?.pause();
   };
 
   const resumeSession = () => {
-    setSessionState('active');
-    playGuidance(params.technique, currentPattern);
+    engine?.resume();
   };
 
-  const completeSession = () => {
-    setSessionState('completed');
-    stopGuidance();
+  const recordSession = (sessionEngine: SessionEngine) => {
+    SessionHistoryService.recordSession(sessionEngine, SESSION_TYPES[params.sessionType], true).catch(() => undefined);
+  };
+
+  const completeSession = (sessionEngine: SessionEngine, breathsCompleted: number) => {
+    recordSession(sessionEngine);
+
+    // Only the rest before and after the guided breathing is representative
+    // of the user's resting state
+    calibrateBaseline(sessionEngine.getRestingPeriods()).catch(() => undefined);
     stopMonitoring();
     
     // Calculate final metrics
-    const finalStress = currentData?.stressLevel || 0;
-    const stressReduction = Math.max(0, sessionMetrics.initialStress - finalStress);
+    const data = latestData.current;
+    const finalStress = data?.stressLevel || 0;
     
     setSessionMetrics(prev => ({
       ...prev,
       finalStress,
-      stressReduction,
-      breathsCompleted: breathCount,
-      avgHeartRate: currentData?.heartRate || 0,
-      avgHRV: currentData?.hrv || 0,
+      stressReduction: Math.max(0, prev.initialStress - finalStress),
+      breathsCompleted,
+      avgHeartRate: data?.heartRate || 0,
+      avgHRV: data?.hrv || 0,
     }));
   };
 
@@ -149,18 +234,14 @@ const SessionScreen: React.FC = () => {
   };
 
   const confirmExit = () => {
-    stopGuidance();
+    if (engine && SessionEngine.canTransition(engine.getStatus(), 'cancelled')) {
+      engine.cancel();
+      recordSession(engine);
+    }
     stopMonitoring();
     navigation.goBack();
   };
 
-  const onBreathComplete = (phase: string) => {
-    setBreathingPhase(phase as any);
-    if (phase === 'exhale') {
-      setBreathCount(prev => prev + 1);
-    }
-  };
-
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -168,32 +249,20 @@ const SessionScreen: React.FC = () => {
   };
 
   const getSessionTitle = () => {
-    switch (params.technique) {
-      case 'box-breathing': return 'Box Breathing';
-      case 'nadi-shodhana': return 'Nadi Shodhana';
-      case 'ujjayi': return 'Ujjayi Breathing';
-      case 'bhramari': return 'Bhramari Breathing';
-      case 'emergency': return 'Emergency Calm';
-      default: return 'Breathing Session';
-    }
+    if (params.sessionType === 'emergency') return 'Emergency Calm';
+    return technique?.name ?? 'Breathing Session';
   };
 
   const getGradientColors = () => {
-    switch (params.technique) {
-      case 'box-breathing': return ['#667eea', '#764ba2'];
-      case 'nadi-shodhana': return ['#f093fb', '#f5576c'];
-      case 'ujjayi': return ['#4facfe', '#00f2fe'];
-      case 'bhramari': return ['#43e97b', '#38f9d7'];
-      case 'emergency': return ['#ff6b6b', '#ee5a24'];
-      default: return ['#667eea', '#764ba2'];
-    }
+    if (params.sessionType === 'emergency') return ['#ff6b6b', '#ee5a24'];
+    return technique?.appearance.gradient ?? ['#667eea', '#764ba2'];
   };
 
   const renderPreparationScreen = () => (
     <Animated.View style={[styles.preparationContainer, { opacity: fadeAnim }]}>
       <Text style={styles.sessionTitle}>{getSessionTitle()}</Text>
       <Text style={styles.preparationText}>
-        Prepare yourself for a {duration} minute session
+        Prepare yourself for a {Math.ceil(plannedSeconds / 60)} minute session
       </Text>
       
       <View style={styles.preparationInstructions}>
@@ -220,7 +289,7 @@ const SessionScreen: React.FC = () => {
         <View style={styles.sessionInfo}>
           <Text style={styles.sessionTitleSmall}>{getSessionTitle()}</Text>
           <Text style={styles.timeRemaining}>
-            {formatTime((duration * 60) - elapsedTime)}
+            {formatTime(remainingTime)}
           </Text>
         </View>
         <View style={styles.placeholder} />
@@ -230,9 +299,10 @@ const SessionScreen: React.FC = () => {
       <View style={styles.breathingArea}>
         <BreathingPacer
           pattern={currentPattern}
-          isActive={sessionState === 'active'}
-          onPhaseChange={onBreathComplete}
-          technique={params.technique}
+          isActive={sessionState === 'running'}
+          technique={techniqueId}
+          scheduler={engine?.getBreathScheduler() ?? undefined}
+          rounds={engine?.getRoundScheduler() ?? undefined}
         />
         
         <View style={styles.breathingStats}>
@@ -240,8 +310,20 @@ const SessionScreen: React.FC = () => {
             Breaths: {breathCount}
           </Text>
           <Text style={styles.phaseText}>
-            {breathingPhase.charAt(0).toUpperCase() + breathingPhase.slice(1)}
+            {sessionPhase === 'preparation'
+              ? 'Settle in'
+              : sessionPhase === 'cooldown'
+              ? 'Rest'
+              : roundStage
+              ? `Round ${round} · ${roundStage.charAt(0).toUpperCase() + roundStage.slice(1)}`
+              : breathingPhase.charAt(0).toUpperCase() + breathingPhase.slice(1)}
+            {nostril && ` · ${nostril} nostril`}
           </Text>
+          {realTimeMetrics.coherenceScore !== undefined && (
+            <Text style={styles.phaseText}>
+              Coherence: {Math.round(realTimeMetrics.coherenceScore * 100)}%
+            </Text>
+          )}
         </View>
       </View>
 
@@ -260,7 +342,7 @@ const SessionScreen: React.FC = () => {
 
       {/* Controls */}
       <SessionControls
-        sessionState={sessionState}
+        sessionState={sessionState === 'running' ? 'active' : sessionState === 'paused' ? 'paused' : 'preparing'}
         onPause={pauseSession}
         onResume={resumeSession}
         onStop={exitSession}
@@ -314,9 +396,9 @@ const SessionScreen: React.FC = () => {
 
   const renderContent = () => {
     switch (sessionState) {
-      case 'preparing':
+      case 'not_started':
         return renderPreparationScreen();
-      case 'active':
+      case 'running':
       case 'paused':
         return renderActiveSession();
       case 'completed':
@@ -0,0 +1,53 @@
+import { ArtifactDetectionService } from './ArtifactDetectionService';
+import { SyntheticMotionArtifact, SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+const FPS = 30;
+
+/**
+ * Thirty seconds of fingertip PPG with the phone's motion alongside
+ */
+const session = (motionArtifacts: SyntheticMotionArtifact[] = []) => {
+  const generator = new SyntheticVitalSignsGenerator({ seed: 8, fps: FPS, motionArtifacts });
+  return { signal: generator.ppgSignal(0, 30), motion: generator.motionData(0, 30) };
+};
+
+describe('ArtifactDetectionService.detect', () => {
+  it('leaves a still recording untouched', () => {
+    const { signal, motion } = session();
+    const report = ArtifactDetectionService.detect(signal.timestamps, signal.redChannel, FPS, motion);
+
+    expect(report).toMatchObject({ segments: [], artifactFraction: 0, flags: [], usable: true });
+    expect(report.cleanMask.every(clean => clean)).toBe(true);
+  });
+
+  it('marks the stretch where the phone moved', () => {
+    const { signal, motion } = session([{ start: 10, duration: 4, intensity: 0.4 }]);
+    const report = ArtifactDetectionService.detect(signal.timestamps, signal.redChannel, FPS, motion);
+
+    expect(report.segments).toEqual([{ start: 10000, end: expect.any(Number), reasons: ['motion'] }]);
+    expect(report.segments[0].end).toBeLessThan(14000);
+    expect(report.flags).toEqual(['motion_artifact']);
+    expect(report.usable).toBe(true);
+    expect(ArtifactDetectionService.isIntervalClean(report, 2000, 9000)).toBe(true);
+    expect(ArtifactDetectionService.isIntervalClean(report, 9000, 11000)).toBe(false);
+  });
+
+  it('finds a saturated sensor from the waveform alone', () => {
+    const { signal } = session();
+    const clipped = signal.redChannel.map((value, i) => (i >= 20 * FPS && i < 22 * FPS ? 255 : value));
+    const report = ArtifactDetectionService.detect(signal.timestamps, clipped, FPS);
+
+    expect(report.segments).toHaveLength(1);
+    expect(report.segments[0].reasons).toContain('clipping');
+    expect(report.cleanMask.slice(20 * FPS, 22 * FPS).some(clean => clean)).toBe(false);
+  });
+
+  it('gives up on a window that is mostly artifact', () => {
+    const { signal, motion } = session([{ start: 2, duration: 24, intensity: 0.4 }]);
+    const report = ArtifactDetectionService.detect(signal.timestamps, signal.redChannel, FPS, motion);
+
+    expect(report.artifactFraction).toBeGreaterThan(ArtifactDetectionService.MAX_ARTIFACT_FRACTION);
+    expect(report.flags).toContain('excessive_artifacts');
+    expect(report.usable).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Artifact Detection Service
+ * Marks corrupted stretches of a PPG window from waveform morphology and,
+ * when available, accelerometer/gyroscope movement
+ */
+
+import { ArtifactReason, ArtifactReport, ArtifactSegment, MotionData } from '../types/vitalSigns';
+import { SignalProcessingService } from './SignalProcessingService';
+
+const REASON_FLAGS: Record<ArtifactReason, string> = {
+  clipping: 'signal_clipping',
+  flatline: 'signal_flatline',
+  amplitude_outlier: 'amplitude_artifact',
+  baseline_jump: 'baseline_jump',
+  motion: 'motion_artifact',
+};
+
+export class ArtifactDetectionService {
+  static readonly SEGMENT_SECONDS = 2;
+  static readonly MAX_ARTIFACT_FRACTION = 0.5;
+
+  // Morphology thresholds, relative to the median clean segment
+  static readonly CLIPPING_FRACTION = 0.1;
+  static readonly FLATLINE_RATIO = 0.25;
+  static readonly AMPLITUDE_RATIO = 4;
+  static readonly JUMP_RATIO = 3;
+
+  // Movement thresholds
+  static readonly ACCEL_VARIATION = 0.05; // SD / mean of acceleration magnitude
+  static readonly GYRO_RATE = 0.5; // rad/s
+
+  /**
+   * Split the window into short segments, mark each one that fails a
+   * morphology or movement check, and merge neighbouring bad segments.
+   */
+  static detect(
+    timestamps: number[],
+    waveform: number[],
+    fps: number,
+    motion?: MotionData | null
+  ): ArtifactReport {
+    const n = waveform.length;
+    const segmentLength = Math.max(2, Math.round(this.SEGMENT_SECONDS * fps));
+    if (!(fps > 0) || n < 2 * segmentLength || timestamps.length !== n) {
+      return { segments: [], artifactFraction: 0, cleanMask: new Array<boolean>(n).fill(true), flags: [], usable: n > 0 };
+    }
+
+    const pulse = SignalProcessingService.butterworthFilter(
+      SignalProcessingService.removeMean(waveform), 'bandpass', 2, fps, 0.5, Math.min(5, fps / 2 - 0.1)
+    );
+
+    const bounds: Array<[number, number]> = [];
+    for (let start = 0; start < n; start += segmentLength) {
+      // Fold a short tail into the previous segment
+      const end = n - (start + segmentLength) < segmentLength / 2 ? n : start + segmentLength;
+      bounds.push([start, end]);
+      if (end === n) break;
+    }
+
+    const spreads = bounds.map(([start, end]) => SignalProcessingService.standardDeviation(pulse.slice(start, end)));
+    const jumps = bounds.map(([start, end]) => this.maxStep(waveform, start, end));
+    const typicalSpread = this.median(spreads);
+    const typicalJump = this.median(jumps);
+
+    const reasonsPerSegment = bounds.map(([start, end], i) => {
+      const reasons: ArtifactReason[] = [];
+      const raw = waveform.slice(start, end);
+
+      const clipped = raw.filter(value => value >= 254 || value <= 1).length / raw.length;
+      if (clipped > this.CLIPPING_FRACTION) reasons.push('clipping');
+
+      if (typicalSpread > 0 && spreads[i] < this.FLATLINE_RATIO * typicalSpread) reasons.push('flatline');
+      if (typicalSpread > 0 && spreads[i] > this.AMPLITUDE_RATIO * typicalSpread) reasons.push('amplitude_outlier');
+      if (typicalJump > 0 && jumps[i] > this.JUMP_RATIO * typicalJump) reasons.push('baseline_jump');
+
+      if (motion && this.isMoving(motion, timestamps[start], timestamps[end - 1])) reasons.push('motion');
+
+      return reasons;
+    });
+
+    const cleanMask = new Array<boolean>(n).fill(true);
+    const segments: ArtifactSegment[] = [];
+    bounds.forEach(([start, end], i) => {
+      const reasons = reasonsPerSegment[i];
+      if (reasons.length === 0) return;
+
+      for (let j = start; j < end; j++) cleanMask[j] = false;
+
+      const previous = segments[segments.length - 1];
+      if (previous && i > 0 && reasonsPerSegment[i - 1].length > 0) {
+        previous.end = timestamps[end - 1];
+        reasons.forEach(reason => {
+          if (!previous.reasons.includes(reason)) previous.reasons.push(reason);
+        });
+      } else {
+        segments.push({ start: timestamps[start], end: timestamps[end - 1], reasons: reasons.slice() });
+      }
+    });
+
+    const artifactFraction = cleanMask.filter(clean => !clean).length / n;
+    const usable = artifactFraction <= this.MAX_ARTIFACT_FRACTION;
+
+    const flags: string[] = [];
+    segments.forEach(segment => segment.reasons.forEach(reason => {
+      if (!flags.includes(REASON_FLAGS[reason])) flags.push(REASON_FLAGS[reason]);
+    }));
+    if (!usable) flags.push('excessive_artifacts');
+
+    return { segments, artifactFraction, cleanMask, flags, usable };
+  }
+
+  /**
+   * Whether the stretch between two times (ms) avoids every artifact segment
+   */
+  static isIntervalClean(report: ArtifactReport, start: number, end: number): boolean {
+    return report.segments.every(segment => segment.end < start || segment.start > end);
+  }
+
+  // Helper methods
+
+  private static isMoving(motion: MotionData, start: number, end: number): boolean {
+    const magnitudes = motion.accelerometer
+      .filter(sample => sample.timestamp.getTime() >= start && sample.timestamp.getTime() <= end)
+      .map(sample => sample.magnitude);
+    if (magnitudes.length >= 2) {
+      // Relative spread, so it works whether the sensor reports g or m/s²
+      const mean = magnitudes.reduce((sum, value) => sum + value, 0) / magnitudes.length;
+      if (mean > 0 && SignalProcessingService.standardDeviation(magnitudes) / mean > this.ACCEL_VARIATION) {
+        return true;
+      }
+    }
+
+    return motion.gyroscope.some(sample => {
+      const time = sample.timestamp.getTime();
+      return time >= start && time <= end &&
+        Math.sqrt(sample.x * sample.x + sample.y * sample.y + sample.z * sample.z) > this.GYRO_RATE;
+    });
+  }
+
+  private static maxStep(signal: number[], start: number, end: number): number {
+    let max = 0;
+    for (let i = Math.max(1, start); i < end; i++) {
+      max = Math.max(max, Math.abs(signal[i] - signal[i - 1]));
+    }
+    return max;
+  }
+
+  private static median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = values.slice().sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
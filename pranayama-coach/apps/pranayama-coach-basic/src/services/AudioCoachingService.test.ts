@@ -0,0 +1,136 @@
+import { AudioCoachingService } from './AudioCoachingService';
+import { ClockService } from './ClockService';
+import { FakeClock } from './FakeClock';
+import { SessionEngine } from './SessionEngine';
+import { TechniqueCatalogService } from './TechniqueCatalogService';
+
+const flush = () => new Promise<void>(resolve => setImmediate(() => resolve()));
+
+describe('AudioCoachingService following a session engine', () => {
+  let clock: FakeClock;
+  let spoken: Array<{ time: number; text: string }>;
+  let stopFollowing: (() => void) | null;
+
+  /**
+   * Advance the clock in small steps, letting queued speech catch up
+   */
+  const run = async (ms: number) => {
+    for (let step = 0; step < ms; step += 100) {
+      await flush();
+      clock.advance(100);
+    }
+    await flush();
+  };
+
+  type Config = Parameters<AudioCoachingService['followSession']>[1];
+
+  const follow = (engine: SessionEngine, config: Config = { technique: 'box_breathing' }) => {
+    const coach = new AudioCoachingService();
+    stopFollowing = coach.followSession(engine, { hapticFeedback: false, ...config });
+    return coach;
+  };
+
+  beforeEach(() => {
+    clock = new FakeClock(0);
+    ClockService.setClock(clock);
+    spoken = [];
+    stopFollowing = null;
+    jest.spyOn(console, 'log').mockImplementation((message: string) => {
+      if (message.startsWith('TTS: ')) {
+        spoken.push({ time: clock.now(), text: message.slice(5) });
+      }
+    });
+  });
+
+  afterEach(() => {
+    stopFollowing?.();
+    jest.restoreAllMocks();
+    ClockService.setClock(null);
+  });
+
+  it('welcomes the user during preparation and cues the first breath on time', async () => {
+    const engine = new SessionEngine(
+      { plannedDuration: 32, pattern: TechniqueCatalogService.getPattern('box_breathing'), technique: 'box_breathing', preparationDuration: 10 },
+      clock
+    );
+    follow(engine);
+
+    engine.start();
+    await run(10500);
+
+    expect(spoken[0]).toEqual({ time: 0, text: expect.stringContaining('Welcome') });
+    expect(spoken.find(utterance => utterance.text.startsWith('Breathe in'))!.time).toBe(10000);
+  });
+
+  it('goes straight to the first cue without a preparation phase', async () => {
+    const engine = new SessionEngine(
+      { plannedDuration: 32, pattern: TechniqueCatalogService.getPattern('box_breathing'), technique: 'box_breathing' },
+      clock
+    );
+    follow(engine);
+
+    engine.start();
+    await run(500);
+
+    expect(spoken).toEqual([{ time: 0, text: expect.stringMatching(/^Breathe in for 4 seconds/) }]);
+  });
+
+  it('cues the nostrils in the coaching language', async () => {
+    const pattern = TechniqueCatalogService.getPattern('chandra_bhedana');
+    const engine = new SessionEngine({ plannedDuration: 12, pattern, technique: 'chandra_bhedana' }, clock);
+    follow(engine, { technique: 'chandra_bhedana', language: 'es' });
+
+    engine.start();
+    await run(10500);
+
+    expect(spoken.map(utterance => utterance.text)).toEqual([
+      'Inhala durante 4 segundos. Por la fosa nasal izquierda',
+      'Mantén la respiración durante 2 segundos',
+      'Exhala durante 6 segundos. Por la fosa nasal derecha',
+    ]);
+  });
+
+  it('adjusts the pattern through the engine from the next cycle', async () => {
+    const engine = new SessionEngine(
+      { plannedDuration: 60, pattern: TechniqueCatalogService.getPattern('box_breathing'), technique: 'box_breathing' },
+      clock
+    );
+    const coach = follow(engine);
+
+    engine.start();
+    await run(1000);
+    coach.adjustCoaching({ heartRate: 110 });
+
+    expect(engine.getBreathScheduler()!.getPattern()).toMatchObject({ inhale: 5, exhale: 5 });
+
+    await run(15500);
+    expect(spoken.filter(utterance => utterance.text.startsWith('Breathe in')).map(utterance => utterance.text)).toEqual([
+      expect.stringMatching(/^Breathe in for 4 seconds/),
+      expect.stringMatching(/^Breathe in for 5 seconds/),
+    ]);
+  });
+
+  it('leaves round-based sessions at their own pace', () => {
+    const rounds = TechniqueCatalogService.get('kapalabhati')!.rounds!;
+    const engine = new SessionEngine({ plannedDuration: 1, rounds, technique: 'kapalabhati' }, clock);
+    const coach = follow(engine);
+
+    engine.start();
+    expect(() => coach.adjustCoaching({ heartRate: 110, stressLevel: 9 })).not.toThrow();
+  });
+
+  it('reports the session time from the engine, pauses excluded', async () => {
+    const engine = new SessionEngine(
+      { plannedDuration: 60, pattern: TechniqueCatalogService.getPattern('box_breathing'), technique: 'box_breathing' },
+      clock
+    );
+    const coach = follow(engine);
+
+    engine.start();
+    await run(5000);
+    engine.pause();
+    clock.advance(20000);
+
+    expect(coach.getSessionStatus()).toMatchObject({ isActive: true, elapsedTime: 5000, remainingTime: 55000 });
+  });
+});
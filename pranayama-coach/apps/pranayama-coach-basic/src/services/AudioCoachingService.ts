@@ -1,12 +1,19 @@
 import { NativeModules, Platform } from 'react-native';
 import Sound from 'react-native-sound';
-
-interface BreathingPattern {
-  inhale: number;
-  hold: number;
-  exhale: number;
-  pause: number;
-}
+import {
+  BreathingPattern,
+  BreathPosition,
+  BreathSchedulerEvent,
+  GuidedBreathPhase,
+  NostrilSide,
+  PranayamaTechnique,
+  RoundSchedulerEvent,
+  SessionEvent,
+} from '../types/session';
+import { BreathPhaseScheduler } from './BreathPhaseScheduler';
+import { ClockService } from './ClockService';
+import { SessionEngine } from './SessionEngine';
+import { TechniqueCatalogService } from './TechniqueCatalogService';
 
 interface CoachingConfig {
   voiceType: 'male' | 'female' | 'neutral';
@@ -17,13 +24,16 @@ interface CoachingConfig {
   backgroundType: 'nature' | 'white-noise' | 'binaural' | 'silence';
   backgroundVolume: number; // 0-1
   hapticFeedback: boolean;
+  technique: PranayamaTechnique | null; // adds the technique's introduction and phase cues
+  welcome: boolean; // greet and introduce the technique first; applies to one session
 }
 
 interface BreathingPhase {
-  phase: 'inhale' | 'hold' | 'exhale' | 'pause';
+  phase: GuidedBreathPhase;
   duration: number;
   instruction: string;
   countdown?: number;
+  nostril?: NostrilSide; // for nostril-specific techniques
 }
 
 interface VitalSignsContext {
@@ -38,7 +48,8 @@ export class AudioCoachingService {
   private currentConfig: CoachingConfig;
   private currentPattern: BreathingPattern;
   private currentPhase: BreathingPhase | null = null;
-  private phaseTimer: NodeJS.Timeout | null = null;
+  private scheduler: BreathPhaseScheduler | null = null;
+  private engine: SessionEngine | null = null; // the session being followed
   private backgroundSound: Sound | null = null;
   private onPhaseChange?: (phase: BreathingPhase) => void;
   private onSessionComplete?: () => void;
@@ -46,6 +57,8 @@ export class AudioCoachingService {
   private sessionStartTime: Date | null = null;
   private cycleCount: number = 0;
   private targetCycles: number = 0;
+  private speech: Promise<void> = Promise.resolve();
+  private latestUtterance: number = 0;
 
   constructor() {
     this.currentConfig = {
@@ -57,14 +70,11 @@ export class AudioCoachingService {
       backgroundType: 'nature',
       backgroundVolume: 0.3,
       hapticFeedback: true,
+      technique: null,
+      welcome: true,
     };
 
-    this.currentPattern = {
-      inhale: 4,
-      hold: 4,
-      exhale: 4,
-      pause: 4,
-    };
+    this.currentPattern = TechniqueCatalogService.getPattern('box_breathing');
 
     // Enable playback in silence mode
     Sound.setCategory('Playback');
@@ -84,16 +94,16 @@ export class AudioCoachingService {
       throw new Error('Coaching session is already active');
     }
 
-    this.currentConfig = { ...this.currentConfig, ...config };
+    this.currentConfig = { ...this.currentConfig, welcome: true, ...config };
     this.currentPattern = pattern;
     this.sessionDuration = duration;
-    this.sessionStartTime = new Date();
+    this.sessionStartTime = new Date(ClockService.now());
     this.cycleCount = 0;
     this.onPhaseChange = onPhaseChange;
     this.onSessionComplete = onComplete;
 
     // Calculate target cycles based on duration
-    const cycleTime = pattern.inhale + pattern.hold + pattern.exhale + pattern.pause;
+    const cycleTime = TechniqueCatalogService.cycleSeconds(pattern);
     this.targetCycles = Math.floor((duration * 60) / cycleTime);
 
     try {
@@ -104,10 +114,13 @@ export class AudioCoachingService {
 
       // Start coaching sequence
       this.isActive = true;
-      await this.playWelcomeMessage();
-      await this.startBreathingCycle();
+      if (this.currentConfig.welcome) {
+        await this.playWelcomeMessage();
+        if (!this.isActive) return;
+      }
 
-      console.log(`Started audio coaching: ${pattern.inhale}-${pattern.hold}-${pattern.exhale}-${pattern.pause} for ${duration} minutes`);
+      console.log(`Started audio coaching: ${pattern.ratio} for ${duration} minutes`);
+      await this.runBreathingCycles();
     } catch (error) {
       console.error('Failed to start coaching:', error);
       this.stopCoaching();
@@ -115,6 +128,43 @@ export class AudioCoachingService {
     }
   }
 
+  /**
+   * Coach a session whose timing is run by a SessionEngine: cues follow the
+   * engine's breath phases, and pausing, completing or cancelling the
+   * session does the same to the coaching. Returns a function that stops
+   * following the session.
+   */
+  followSession(
+    engine: SessionEngine,
+    config?: Partial<CoachingConfig>,
+    onPhaseChange?: (phase: BreathingPhase) => void
+  ): () => void {
+    if (this.isActive) {
+      throw new Error('Coaching session is already active');
+    }
+
+    this.currentConfig = { ...this.currentConfig, welcome: true, ...config };
+    this.currentPattern = engine.getBreathScheduler()?.getPattern() ?? this.currentPattern;
+    this.engine = engine;
+    this.cycleCount = 0;
+    this.targetCycles = 0;
+    this.onPhaseChange = onPhaseChange;
+    this.onSessionComplete = undefined;
+    this.isActive = true;
+
+    // Breath and round cues come straight from the engine's schedulers; the
+    // engine itself only reports the session status
+    const unsubscribeBreath = engine.getBreathScheduler()?.subscribe(event => this.handleBreathEvent(event));
+    const unsubscribeRounds = engine.getRoundScheduler()?.subscribe(event => this.handleRoundEvent(event));
+    const unsubscribe = engine.subscribe(event => this.handleSessionEvent(event));
+    return () => {
+      unsubscribe();
+      unsubscribeBreath?.();
+      unsubscribeRounds?.();
+      this.stopCoaching();
+    };
+  }
+
   /**
    * Stop audio coaching session
    */
@@ -124,10 +174,11 @@ export class AudioCoachingService {
     }
 
     this.isActive = false;
+    this.engine = null;
     
-    if (this.phaseTimer) {
-      clearTimeout(this.phaseTimer);
-      this.phaseTimer = null;
+    if (this.scheduler) {
+      this.scheduler.stop();
+      this.scheduler = null;
     }
 
     if (this.backgroundSound) {
@@ -146,10 +197,7 @@ export class AudioCoachingService {
   pauseCoaching(): void {
     if (!this.isActive) return;
 
-    if (this.phaseTimer) {
-      clearTimeout(this.phaseTimer);
-      this.phaseTimer = null;
-    }
+    this.scheduler?.pause();
 
     if (this.backgroundSound) {
       this.backgroundSound.pause();
@@ -162,14 +210,14 @@ export class AudioCoachingService {
    * Resume coaching session
    */
   resumeCoaching(): void {
-    if (!this.isActive || !this.currentPhase) return;
+    if (!this.isActive) return;
 
     if (this.backgroundSound) {
       this.backgroundSound.play();
     }
 
-    // Resume current phase with remaining time
-    this.scheduleNextPhase(this.currentPhase.duration);
+    // Resume current phase with the time it had left
+    this.scheduler?.resume();
     console.log('Resumed audio coaching');
   }
 
@@ -181,8 +229,13 @@ export class AudioCoachingService {
 
     const adjustments = this.calculateAdjustments(vitalSigns);
     
-    if (adjustments.shouldAdjustPattern) {
+    // A followed session is paced by its engine's scheduler; rounds have no
+    // pattern to adjust
+    const scheduler = this.engine ? this.engine.getBreathScheduler() : this.scheduler;
+    if (adjustments.shouldAdjustPattern && scheduler) {
+      // Takes over from the next breath cycle
       this.currentPattern = adjustments.newPattern;
+      scheduler.setPattern(adjustments.newPattern);
       console.log('Adjusted breathing pattern based on vital signs');
     }
 
@@ -208,14 +261,20 @@ export class AudioCoachingService {
    * Get current session status
    */
   getSessionStatus() {
+    // A followed session keeps its own time, pauses excluded
+    const state = this.engine?.getState();
+    const elapsedTime = state
+      ? state.elapsedTime * 1000
+      : this.sessionStartTime ? ClockService.now() - this.sessionStartTime.getTime() : 0;
+
     return {
       isActive: this.isActive,
       currentPhase: this.currentPhase,
       cycleCount: this.cycleCount,
       targetCycles: this.targetCycles,
       progress: this.targetCycles > 0 ? (this.cycleCount / this.targetCycles) * 100 : 0,
-      elapsedTime: this.sessionStartTime ? Date.now() - this.sessionStartTime.getTime() : 0,
-      remainingTime: this.sessionDuration * 60 * 1000 - (this.sessionStartTime ? Date.now() - this.sessionStartTime.getTime() : 0),
+      elapsedTime,
+      remainingTime: state ? state.remainingTime * 1000 : this.sessionDuration * 60 * 1000 - elapsedTime,
     };
   }
 
@@ -258,79 +317,146 @@ export class AudioCoachingService {
   private async playWelcomeMessage(): Promise<void> {
     const message = this.getLocalizedMessage('welcome');
     await this.speakText(message);
+
+    const technique = TechniqueCatalogService.get(this.currentConfig.technique);
+    if (technique && this.isActive) {
+      await this.speakText(technique.coaching.introduction);
+    }
     await this.delay(1000);
   }
 
   /**
-   * Start breathing cycle
+   * Run the breathing cycles; resolves when they are done or coaching stops
    */
-  private async startBreathingCycle(): Promise<void> {
-    if (!this.isActive) return;
+  private async runBreathingCycles(): Promise<void> {
+    const scheduler = new BreathPhaseScheduler(this.currentPattern, { maxCycles: this.targetCycles });
+    this.scheduler = scheduler;
+
+    await new Promise<void>(resolve => {
+      scheduler.subscribe(event => {
+        this.handleBreathEvent(event);
+        if (event.type === 'completed' || event.type === 'stopped') {
+          resolve();
+        }
+      });
+      scheduler.start();
+    });
 
-    const phases: Array<keyof BreathingPattern> = ['inhale', 'hold', 'exhale', 'pause'];
-    
-    for (const phaseName of phases) {
-      if (!this.isActive) break;
+    if (this.isActive && this.scheduler === scheduler) {
+      this.scheduler = null;
+      await this.completeSession();
+    }
+  }
 
-      const duration = this.currentPattern[phaseName];
-      if (duration === 0) continue;
+  /**
+   * Announce a breath phase
+   */
+  private cuePhase({ phase: phaseName, phaseDuration: duration, countdown, cycle }: BreathPosition): void {
+    const phase: BreathingPhase = {
+      phase: phaseName,
+      duration,
+      instruction: this.getPhaseInstruction(phaseName, duration, cycle),
+      countdown,
+      nostril: TechniqueCatalogService.getNostril(this.currentConfig.technique, phaseName, cycle) ?? undefined,
+    };
 
-      const phase: BreathingPhase = {
-        phase: phaseName,
-        duration,
-        instruction: this.getPhaseInstruction(phaseName, duration),
-      };
+    this.currentPhase = phase;
+    this.onPhaseChange?.(phase);
 
-      this.currentPhase = phase;
-      this.onPhaseChange?.(phase);
+    // Queued over the phase rather than awaited before it, so speech does
+    // not stretch the breathing pace
+    this.speakText(phase.instruction);
 
-      // Speak phase instruction
-      await this.speakText(phase.instruction);
+    // Apply haptic feedback
+    if (this.currentConfig.hapticFeedback) {
+      this.triggerHapticFeedback(phaseName);
+    }
+  }
 
-      // Apply haptic feedback
-      if (this.currentConfig.hapticFeedback) {
-        this.triggerHapticFeedback(phaseName);
-      }
+  /**
+   * Cues and countdown driven by a breath phase scheduler
+   */
+  private handleBreathEvent(event: BreathSchedulerEvent): void {
+    switch (event.type) {
+      case 'phase_started':
+        this.cuePhase(event.position);
+        break;
 
-      // Wait for phase duration
-      await this.waitForPhase(duration);
-    }
+      case 'countdown':
+        if (this.currentPhase) {
+          this.currentPhase.countdown = event.position.countdown;
+          this.onPhaseChange?.(this.currentPhase);
+        }
+        break;
 
-    // Complete cycle
-    this.cycleCount++;
-    
-    // Check if session should continue
-    if (this.cycleCount < this.targetCycles && this.isActive) {
-      await this.startBreathingCycle();
-    } else {
-      await this.completeSession();
+      case 'cycle_completed':
+        this.cycleCount++;
+        break;
     }
   }
 
   /**
-   * Wait for phase duration with countdown
+   * Cues for rapid breathing: each stage of a round is announced, pumps get
+   * a haptic beat and every tenth is counted aloud
    */
-  private async waitForPhase(duration: number): Promise<void> {
-    return new Promise((resolve) => {
-      let remaining = duration;
-      
-      const countdown = () => {
-        if (!this.isActive || remaining <= 0) {
-          resolve();
-          return;
-        }
+  private handleRoundEvent(event: RoundSchedulerEvent): void {
+    const { round, totalRounds, stage, pump, totalPumps, stageRemaining } = event.position;
+
+    switch (event.type) {
+      case 'stage_started': {
+        this.targetCycles = totalRounds;
+        const message = stage === 'pumping'
+          ? this.getLocalizedMessage('round_start', { round, rounds: totalRounds, pumps: totalPumps })
+          : this.getLocalizedMessage(stage, { duration: Math.round(stageRemaining) });
+        const cue = TechniqueCatalogService.get(this.currentConfig.technique)?.coaching.stageCues?.[stage];
+        this.speakText(cue ? `${message}. ${cue}` : message);
+        break;
+      }
 
-        if (this.currentPhase) {
-          this.currentPhase.countdown = remaining;
-          this.onPhaseChange?.(this.currentPhase);
+      case 'pump':
+        if (this.currentConfig.hapticFeedback) {
+          this.triggerHapticFeedback('exhale');
+        }
+        if (pump % 10 === 0) {
+          this.speakText(String(pump));
         }
+        break;
 
-        remaining--;
-        this.phaseTimer = setTimeout(countdown, 1000);
-      };
+      case 'round_completed':
+        this.cycleCount++;
+        break;
+    }
+  }
 
-      countdown();
-    });
+  /**
+   * Session status and progress driven by a session engine's events
+   */
+  private handleSessionEvent(event: SessionEvent): void {
+    switch (event.type) {
+      case 'breath_phase_changed':
+        this.targetCycles = event.state.totalCycles ?? this.targetCycles;
+        break;
+
+      case 'phase_changed':
+        // Welcome the user while they settle in; a session that opens with
+        // the breathing goes straight to its first cue instead
+        if (event.state.currentPhase === 'preparation' && this.currentConfig.welcome) {
+          this.playWelcomeMessage();
+        }
+        break;
+
+      case 'status_changed':
+        if (event.state.status === 'running') {
+          this.backgroundSound?.play();
+        } else if (event.state.status === 'paused') {
+          this.backgroundSound?.pause();
+        } else if (event.state.status === 'completed') {
+          this.completeSession();
+        } else if (event.state.status === 'cancelled') {
+          this.stopCoaching();
+        }
+        break;
+    }
   }
 
   /**
@@ -344,22 +470,13 @@ export class AudioCoachingService {
     this.onSessionComplete?.();
   }
 
-  /**
-   * Schedule next phase
-   */
-  private scheduleNextPhase(delay: number): void {
-    this.phaseTimer = setTimeout(() => {
-      // Continue with current cycle
-    }, delay * 1000);
-  }
-
   /**
    * Calculate adjustments based on vital signs
    */
   private calculateAdjustments(vitalSigns: VitalSignsContext) {
     const adjustments = {
       shouldAdjustPattern: false,
-      newPattern: { ...this.currentPattern },
+      newPattern: { ...this.currentPattern } as BreathingPattern,
       shouldAdjustSpeed: false,
       newSpeed: this.currentConfig.speed,
     };
@@ -391,25 +508,30 @@ export class AudioCoachingService {
     if (vitalSigns.hrv && vitalSigns.hrv < 20) {
       // Low HRV indicates stress - gentler pattern
       adjustments.shouldAdjustPattern = true;
-      adjustments.newPattern.hold = Math.max(this.currentPattern.hold - 1, 0);
-      adjustments.newPattern.pause = Math.max(this.currentPattern.pause - 1, 0);
+      adjustments.newPattern.holdAfterInhale = Math.max(this.currentPattern.holdAfterInhale - 1, 0);
+      adjustments.newPattern.holdAfterExhale = Math.max(this.currentPattern.holdAfterExhale - 1, 0);
     }
 
+    const { inhale, holdAfterInhale, exhale, holdAfterExhale } = adjustments.newPattern;
+    adjustments.newPattern = TechniqueCatalogService.createPattern(inhale, holdAfterInhale, exhale, holdAfterExhale);
+
     return adjustments;
   }
 
   /**
    * Get phase instruction text
    */
-  private getPhaseInstruction(phase: keyof BreathingPattern, duration: number): string {
-    const instructions = {
-      inhale: `Breathe in for ${duration} seconds`,
-      hold: `Hold your breath for ${duration} seconds`,
-      exhale: `Breathe out for ${duration} seconds`,
-      pause: `Pause for ${duration} seconds`,
-    };
-
-    return this.getLocalizedMessage(phase, { duration });
+  private getPhaseInstruction(phase: GuidedBreathPhase, duration: number, cycle: number): string {
+    const instruction = this.getLocalizedMessage(phase, { duration });
+    const nostril = TechniqueCatalogService.getNostril(this.currentConfig.technique, phase, cycle);
+    // The catalog's other cues are English copy, so translated coaching leaves them out
+    const cue = nostril
+      ? this.getLocalizedMessage(`nostril_${nostril}`)
+      : this.currentConfig.language === 'en'
+        ? TechniqueCatalogService.getCue(this.currentConfig.technique, phase, cycle)
+        : null;
+
+    return cue ? `${instruction}. ${cue}` : instruction;
   }
 
   /**
@@ -424,6 +546,11 @@ export class AudioCoachingService {
         hold: params ? `Hold your breath for ${params.duration} seconds` : 'Hold',
         exhale: params ? `Breathe out for ${params.duration} seconds` : 'Breathe out',
         pause: params ? `Pause for ${params.duration} seconds` : 'Pause',
+        round_start: params ? `Round ${params.round} of ${params.rounds}. ${params.pumps} quick breaths` : 'Next round',
+        retention: params ? `Hold for up to ${params.duration} seconds` : 'Hold',
+        rest: params ? `Rest for ${params.duration} seconds` : 'Rest',
+        nostril_left: 'Through left nostril',
+        nostril_right: 'Through right nostril',
         completion: 'Excellent work. Your breathing session is complete.',
       },
       es: {
@@ -432,6 +559,11 @@ export class AudioCoachingService {
         hold: params ? `Mantén la respiración durante ${params.duration} segundos` : 'Mantén',
         exhale: params ? `Exhala durante ${params.duration} segundos` : 'Exhala',
         pause: params ? `Pausa durante ${params.duration} segundos` : 'Pausa',
+        round_start: params ? `Ronda ${params.round} de ${params.rounds}. ${params.pumps} respiraciones rápidas` : 'Siguiente ronda',
+        retention: params ? `Mantén hasta ${params.duration} segundos` : 'Mantén',
+        rest: params ? `Descansa durante ${params.duration} segundos` : 'Descansa',
+        nostril_left: 'Por la fosa nasal izquierda',
+        nostril_right: 'Por la fosa nasal derecha',
         completion: 'Excelente trabajo. Tu sesión de respiración está completa.',
       },
     };
@@ -441,21 +573,31 @@ export class AudioCoachingService {
   }
 
   /**
-   * Speak text using text-to-speech
+   * Speak text using text-to-speech. Utterances never overlap: each waits
+   * for the one being spoken, and a newer one replaces any still waiting,
+   * so cues that fall behind the pace are dropped rather than piling up.
+   * Resolves once the text has been spoken or dropped.
    */
-  private async speakText(text: string): Promise<void> {
-    // In a real implementation, would use react-native-tts or similar
-    // For now, simulate TTS with a delay
-    console.log(`TTS: ${text}`);
-    
-    const speechDuration = (text.length * 50) / this.currentConfig.speed; // Approximate duration
-    await this.delay(Math.min(speechDuration, 3000)); // Max 3 seconds per phrase
+  private speakText(text: string): Promise<void> {
+    const utterance = ++this.latestUtterance;
+
+    this.speech = this.speech.then(async () => {
+      if (utterance !== this.latestUtterance) return;
+
+      // In a real implementation, would use react-native-tts or similar
+      // For now, simulate TTS with a delay
+      console.log(`TTS: ${text}`);
+
+      const speechDuration = (text.length * 50) / this.currentConfig.speed; // Approximate duration
+      await this.delay(Math.min(speechDuration, 3000)); // Max 3 seconds per phrase
+    });
+    return this.speech;
   }
 
   /**
    * Trigger haptic feedback
    */
-  private triggerHapticFeedback(phase: keyof BreathingPattern): void {
+  private triggerHapticFeedback(phase: GuidedBreathPhase): void {
     if (!this.currentConfig.hapticFeedback) return;
 
     // In a real implementation, would use react-native-haptic-feedback
@@ -473,7 +615,7 @@ export class AudioCoachingService {
    * Utility delay function
    */
   private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return new Promise(resolve => ClockService.getClock().setTimeout(resolve, ms));
   }
 
   /**
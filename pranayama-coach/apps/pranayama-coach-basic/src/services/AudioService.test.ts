@@ -0,0 +1,39 @@
+import { AudioService } from './AudioService';
+import { WavFileAudioSource } from './WavFileAudioSource';
+
+const SAMPLE_RATE = 8000;
+
+/**
+ * Tone bursts of breath-like noise: 3 s on, 2 s off
+ */
+const breathRecording = (seconds: number): number[] => {
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  };
+  return Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => ((i / SAMPLE_RATE) % 5 < 3 ? 0.5 : 0.01) * noise());
+};
+
+describe('AudioService breath capture', () => {
+  afterEach(async () => {
+    await AudioService.stopBreathingAnalysis();
+    AudioService.setAudioSource(null);
+    AudioService.clearBreathingBuffer();
+  });
+
+  it.each([256, 5 * 60 * SAMPLE_RATE])('cuts frames of %i samples into one feature per hop', async frameSize => {
+    const samples = breathRecording(5 * 60);
+    AudioService.setAudioSource(
+      new WavFileAudioSource({ sampleRate: SAMPLE_RATE, channels: 1, samples }, { realtime: false, frameSize })
+    );
+
+    await AudioService.startBreathingAnalysis();
+    const signal = (await AudioService.getBreathingSignal(60))!;
+
+    expect(signal.sampleRate).toBe(20);
+    expect(signal.timestamps).toHaveLength(60 * 20 + 1);
+    expect(signal.timestamps[1] - signal.timestamps[0]).toBe(50);
+    expect(signal.timestamps[signal.timestamps.length - 1]).toBe(5 * 60 * 1000 - 50);
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Audio Service
+ * Guidance and background playback, and breath-sound capture from a
+ * pluggable audio source (microphone or WAV replay)
+ */
+
+import Sound from 'react-native-sound';
+import { AudioBreathingSignal, AudioEnvelopeSample, AudioFrame, AudioFrameSource } from '../types/vitalSigns';
+import { BreathSoundAnalysis } from '../types/session';
+import { BreathSoundAnalysisService } from './BreathSoundAnalysisService';
+import { NativeMicrophoneSource } from './NativeMicrophoneSource';
+
+type PlaybackCategory = 'guidance' | 'background' | 'notification';
+
+interface PlayAudioOptions {
+  volume?: number;
+  loop?: boolean;
+  category?: PlaybackCategory;
+}
+
+interface AudioServiceSettings {
+  masterVolume: number;
+  guidanceVolume: number;
+  backgroundVolume: number;
+  breathingAnalysis: boolean;
+}
+
+interface ActivePlayer {
+  sound: Sound;
+  volume: number; // before the master volume is applied
+}
+
+export class AudioService {
+  // Breath capture
+  private static audioSource: AudioFrameSource | null = null;
+  private static isAnalyzing = false;
+  private static pendingSamples: number[] = [];
+  private static pendingTimestamp = 0;
+  private static features: AudioEnvelopeSample[] = [];
+  private static featureRate = BreathSoundAnalysisService.FEATURE_RATE;
+
+  private static readonly BUFFER_SECONDS = 120;
+  private static readonly WINDOW_SECONDS = 60;
+  private static readonly MIN_WINDOW_SECONDS = 15;
+
+  // Playback
+  private static isInitialized = false;
+  private static players: Partial<Record<PlaybackCategory, ActivePlayer>> = {};
+  private static preloaded = new Map<string, Sound>();
+  private static settings: AudioServiceSettings = {
+    masterVolume: 0.8,
+    guidanceVolume: 1,
+    backgroundVolume: 1,
+    breathingAnalysis: true,
+  };
+
+  /**
+   * Initialize playback
+   */
+  static async initialize(): Promise<void> {
+    try {
+      if (this.isInitialized) return;
+
+      // Keep playing with the ringer switch off, and allow recording alongside
+      Sound.setCategory('PlayAndRecord', true);
+
+      this.isInitialized = true;
+      console.log('AudioService initialized successfully');
+    } catch (error) {
+      console.error('Failed to initialize AudioService:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the audio source (e.g. with a WAV replay for offline analysis).
+   * Takes effect on the next call to startBreathingAnalysis.
+   */
+  static setAudioSource(source: AudioFrameSource | null): void {
+    this.audioSource = source;
+  }
+
+  /**
+   * Get the active audio source, creating the native microphone source by default
+   */
+  static getAudioSource(): AudioFrameSource {
+    if (!this.audioSource) {
+      this.audioSource = new NativeMicrophoneSource();
+    }
+    return this.audioSource;
+  }
+
+  /**
+   * Start capturing breath sounds
+   */
+  static async startBreathingAnalysis(): Promise<void> {
+    try {
+      if (this.isAnalyzing) return;
+
+      this.pendingSamples = [];
+      this.features = [];
+      this.isAnalyzing = true;
+      await this.getAudioSource().start((frame) => this.handleFrame(frame));
+
+      console.log(`AudioService breathing analysis started with ${this.getAudioSource().name} source`);
+    } catch (error) {
+      this.isAnalyzing = false;
+      console.error('Failed to start breathing analysis:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop capturing breath sounds. Buffered features are kept so the last
+   * window can still be analyzed.
+   */
+  static async stopBreathingAnalysis(): Promise<void> {
+    try {
+      if (!this.isAnalyzing) return;
+
+      await this.getAudioSource().stop();
+      this.isAnalyzing = false;
+    } catch (error) {
+      console.error('Failed to stop breathing analysis:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Feed breath-sound features recorded earlier (e.g. a session replay) as
+   * if they had just been computed from captured audio, oldest first
+   */
+  static addEnvelopeSamples(samples: AudioEnvelopeSample[], sampleRate: number): void {
+    if (samples.length === 0) return;
+
+    this.featureRate = sampleRate;
+    this.features.push(...samples.map(sample => ({ ...sample })));
+    this.trimFeatures(samples[samples.length - 1].timestamp);
+  }
+
+  /**
+   * Discard buffered breath-sound features
+   */
+  static clearBreathingBuffer(): void {
+    this.pendingSamples = [];
+    this.features = [];
+    this.featureRate = BreathSoundAnalysisService.FEATURE_RATE;
+  }
+
+  /**
+   * Envelope and spectral features of the most recent window of breath sounds
+   */
+  static async getBreathingSignal(windowSeconds: number = this.WINDOW_SECONDS): Promise<AudioBreathingSignal | null> {
+    if (this.features.length < 2) return null;
+
+    const latest = this.features[this.features.length - 1].timestamp;
+    const window = this.features.filter(feature => feature.timestamp >= latest - windowSeconds * 1000);
+    const span = (window[window.length - 1].timestamp - window[0].timestamp) / 1000;
+    if (span < this.MIN_WINDOW_SECONDS) return null;
+
+    const amplitude = window.map(feature => feature.amplitude);
+    return {
+      timestamps: window.map(feature => feature.timestamp),
+      amplitude,
+      frequency: window.map(feature => feature.frequency),
+      sampleRate: this.featureRate,
+      quality: BreathSoundAnalysisService.signalQuality(amplitude),
+    };
+  }
+
+  /**
+   * Breath-sound summary for adaptive coaching
+   */
+  static async getBreathingAnalysis(): Promise<BreathSoundAnalysis | null> {
+    try {
+      const signal = await this.getBreathingSignal();
+      if (!signal) return null;
+
+      const breathing = BreathSoundAnalysisService.analyze(signal);
+      if (!breathing) return null;
+
+      return {
+        breathingPatternDetected: breathing.breathPattern,
+        breathingQuality: breathing.confidence,
+        nostrilDominance: 'balanced', // needs a stereo or nasal microphone
+        soundPurity: signal.quality,
+      };
+    } catch (error) {
+      console.error('Breath sound analysis failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether breath sounds are currently being captured
+   */
+  static isCurrentlyAnalyzing(): boolean {
+    return this.isAnalyzing;
+  }
+
+  /**
+   * Play a track in a category, replacing whatever that category was playing
+   */
+  static async playAudio(fileUrl: string, options: PlayAudioOptions = {}): Promise<void> {
+    const category = options.category ?? 'guidance';
+    const volume = options.volume ?? 1;
+
+    try {
+      await this.stopAudio(category);
+
+      const sound = this.preloaded.get(fileUrl) ?? await this.loadSound(fileUrl);
+      this.preloaded.delete(fileUrl);
+
+      sound.setNumberOfLoops(options.loop ? -1 : 0);
+      this.players[category] = { sound, volume };
+      this.applyVolume(category);
+
+      sound.play((success) => {
+        if (!success) {
+          console.warn(`Playback of ${fileUrl} did not finish`);
+        }
+        if (this.players[category]?.sound === sound && !options.loop) {
+          sound.release();
+          delete this.players[category];
+        }
+      });
+    } catch (error) {
+      console.error('Failed to play audio:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop and release the track playing in a category
+   */
+  static async stopAudio(category: PlaybackCategory): Promise<void> {
+    const player = this.players[category];
+    if (!player) return;
+
+    delete this.players[category];
+    await new Promise<void>(resolve => player.sound.stop(() => resolve()));
+    player.sound.release();
+  }
+
+  /**
+   * Set the master volume (0-1) applied on top of each track's own volume
+   */
+  static setMasterVolume(volume: number): void {
+    this.settings.masterVolume = Math.max(0, Math.min(1, volume));
+    (Object.keys(this.players) as PlaybackCategory[]).forEach(category => this.applyVolume(category));
+  }
+
+  /**
+   * Change the speed of the guidance track (iOS only in react-native-sound)
+   */
+  static async adjustPlaybackSpeed(rate: number): Promise<void> {
+    this.players.guidance?.sound.setSpeed(Math.max(0.5, Math.min(2, rate)));
+  }
+
+  /**
+   * Play a short bundled notification sound
+   */
+  static async playNotificationSound(name: string): Promise<void> {
+    await this.playAudio(`${name}.mp3`, { category: 'notification' });
+  }
+
+  /**
+   * Update playback settings
+   */
+  static updateSettings(settings: Partial<AudioServiceSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    (Object.keys(this.players) as PlaybackCategory[]).forEach(category => this.applyVolume(category));
+  }
+
+  /**
+   * Load tracks ahead of time so playback starts without a delay
+   */
+  static async preloadTracks(tracks: string[]): Promise<void> {
+    const pending = tracks.filter(track => !this.preloaded.has(track));
+    const loaded = await Promise.all(pending.map(track => this.loadSound(track)));
+    loaded.forEach((sound, i) => this.preloaded.set(pending[i], sound));
+  }
+
+  // Helper methods
+
+  /**
+   * Cut incoming PCM into fixed hops and keep one feature per hop, so the
+   * feature rate does not depend on the source's frame size
+   */
+  private static handleFrame(frame: AudioFrame): void {
+    const hop = Math.max(2, Math.round(frame.sampleRate / BreathSoundAnalysisService.FEATURE_RATE));
+    this.featureRate = frame.sampleRate / hop;
+
+    if (this.pendingSamples.length === 0) {
+      this.pendingTimestamp = frame.timestamp;
+    }
+
+    // concat rather than push(...samples), which overflows the stack on large frames
+    const samples = this.pendingSamples.length > 0 ? this.pendingSamples.concat(frame.samples) : frame.samples;
+    let offset = 0;
+    while (samples.length - offset >= hop) {
+      const features = BreathSoundAnalysisService.blockFeatures(samples.slice(offset, offset + hop), frame.sampleRate);
+      this.features.push({ timestamp: this.pendingTimestamp, ...features });
+      this.pendingTimestamp += (hop / frame.sampleRate) * 1000;
+      offset += hop;
+    }
+    this.pendingSamples = samples.slice(offset);
+
+    this.trimFeatures(this.pendingTimestamp);
+  }
+
+  private static trimFeatures(latest: number): void {
+    const cutoff = latest - this.BUFFER_SECONDS * 1000;
+    while (this.features.length > 0 && this.features[0].timestamp < cutoff) {
+      this.features.shift();
+    }
+  }
+
+  private static loadSound(fileUrl: string): Promise<Sound> {
+    const isRemote = /^(https?|file):\/\//.test(fileUrl);
+    return new Promise((resolve, reject) => {
+      const sound = new Sound(fileUrl, isRemote ? '' : Sound.MAIN_BUNDLE, (error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(sound);
+        }
+      });
+    });
+  }
+
+  private static applyVolume(category: PlaybackCategory): void {
+    const player = this.players[category];
+    if (!player) return;
+
+    const categoryVolume =
+      category === 'background' ? this.settings.backgroundVolume :
+      category === 'guidance' ? this.settings.guidanceVolume : 1;
+    player.sound.setVolume(Math.max(0, Math.min(1, player.volume * categoryVolume * this.settings.masterVolume)));
+  }
+}
@@ -0,0 +1,86 @@
+import { BreathingData, HeartRateData, SpO2Data, VitalSigns } from '../types/vitalSigns';
+import { BaselineCalibrationService } from './BaselineCalibrationService';
+import { HealthBaselineService } from './HealthBaselineService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+/**
+ * A session with one reading a second: restSeconds at rest, then a minute
+ * of heart rate jumping about as the user moves
+ */
+const session = (restSeconds: number, heartRate: number = 66, breathsPerMinute: number = 12): VitalSigns => {
+  const generator = new SyntheticVitalSignsGenerator({ seed: 18, heartRate, rsaAmplitude: 2 });
+  const seconds = Array.from({ length: restSeconds + 60 }, (_, second) => second);
+  const at = (second: number) => new Date(second * 1000);
+
+  const heartRates: HeartRateData[] = seconds.map(second => ({
+    timestamp: at(second),
+    bpm: second < restSeconds ? Math.round(generator.heartRateAt(second * 1000)) : heartRate + (second % 2 ? 35 : 0),
+    confidence: 0.9,
+    source: 'camera_ppg',
+  }));
+  const breathing: BreathingData[] = seconds.filter(second => second % 5 === 0).map(second => ({
+    timestamp: at(second),
+    breathsPerMinute,
+    breathPattern: 'regular',
+    confidence: 0.8,
+    source: 'audio_analysis',
+  }));
+  const oxygenSaturation: SpO2Data[] = seconds.filter(second => second % 5 === 0).map(second => ({
+    timestamp: at(second),
+    value: Math.round(generator.spo2At(second * 1000)),
+    confidence: 0.8,
+    source: 'camera_analysis',
+  }));
+
+  return { heartRate: heartRates, heartRateVariability: [], oxygenSaturation, breathing, stressLevel: [] };
+};
+
+describe('BaselineCalibrationService', () => {
+  beforeEach(() => HealthBaselineService.clearBaseline());
+
+  it('summarizes the steady stretches of a session', () => {
+    const sample = BaselineCalibrationService.summarizeSession(session(120))!;
+
+    expect(sample.windows).toBe(2);
+    expect(Math.abs(sample.restingHeartRate! - 66)).toBeLessThanOrEqual(1);
+    expect(sample).toMatchObject({ breathingRate: 12, spo2: 98, rmssd: undefined });
+    expect(sample.timestamp.getTime()).toBe(120000);
+  });
+
+  it('keeps to the resting periods it is given', () => {
+    const sample = BaselineCalibrationService.summarizeSession(session(120), [{ start: new Date(0), end: new Date(60000) }])!;
+
+    expect(sample.windows).toBe(1);
+    expect(sample.timestamp.getTime()).toBe(60000);
+  });
+
+  it('leaves out paced breathing and sessions without rest', () => {
+    expect(BaselineCalibrationService.summarizeSession(session(60, 66, 6))!.breathingRate).toBeUndefined();
+    expect(BaselineCalibrationService.summarizeSession(session(0))).toBeNull();
+  });
+
+  it('personalises a metric once enough sessions have measured it', async () => {
+    await BaselineCalibrationService.calibrate(session(60, 64));
+    const early = await BaselineCalibrationService.calibrate(session(60, 66));
+    expect(early).toMatchObject({ sessionsCalibrated: 2 });
+    expect(early!.restingHeartRate).toBeUndefined();
+
+    const baseline = await BaselineCalibrationService.calibrate(session(60, 68));
+    expect(baseline).toMatchObject({ sessionsCalibrated: 3, breathingRate: 12, baselineSpO2: 98 });
+    expect(Math.abs(baseline!.restingHeartRate! - 66)).toBeLessThanOrEqual(1);
+  });
+
+  it('keeps counting sessions once the history is full', async () => {
+    for (let i = 0; i <= HealthBaselineService.MAX_HISTORY; i++) {
+      await BaselineCalibrationService.calibrate(session(60));
+    }
+
+    expect(await HealthBaselineService.getHistory()).toHaveLength(HealthBaselineService.MAX_HISTORY);
+    expect(await HealthBaselineService.getBaseline()).toMatchObject({ sessionsCalibrated: HealthBaselineService.MAX_HISTORY + 1 });
+  });
+
+  it('is not pulled by one unusual session', () => {
+    expect(BaselineCalibrationService.robustMean([60, 62, 61, 90])).toBe(61);
+    expect(BaselineCalibrationService.robustMean([])).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Baseline Calibration Service
+ * Builds the user's personal HealthBaseline from resting-phase windows.
+ * Each session contributes one resting sample (window medians); the
+ * baseline is a robust estimate over the recent samples, so one bad session
+ * or a noisy window does not shift it.
+ */
+
+import { BaselineSample, HealthBaseline } from '../types/user';
+import { VitalSigns } from '../types/vitalSigns';
+import { HealthBaselineService } from './HealthBaselineService';
+
+interface RestingPeriod {
+  start: Date;
+  end: Date;
+}
+
+type BaselineMetric = 'restingHeartRate' | 'rmssd' | 'breathingRate' | 'spo2';
+
+export class BaselineCalibrationService {
+  static readonly WINDOW_SECONDS = 60;
+  static readonly MIN_READINGS_PER_WINDOW = 10;
+  static readonly MIN_CONFIDENCE = 0.5;
+  static readonly MAX_RESTING_HR_SPREAD = 5; // bpm, robust SD within a window
+  static readonly MIN_RESTING_BREATHING_RATE = 8; // slower is paced breathing, not rest
+  static readonly MIN_SAMPLES = 3; // sessions before a metric is personalised
+  static readonly OUTLIER_MADS = 3;
+
+  /**
+   * Add a session's resting data to the history and rebuild the baseline.
+   * restingPeriods restricts calibration to known rest (e.g. the preparation
+   * phase); without them, steady stretches of the session are detected.
+   * Returns the stored baseline, unchanged when the session had no rest.
+   */
+  static async calibrate(vitalSigns: VitalSigns, restingPeriods?: RestingPeriod[]): Promise<HealthBaseline | null> {
+    try {
+      const sample = this.summarizeSession(vitalSigns, restingPeriods);
+      if (!sample) {
+        console.log('No resting windows in session; baseline unchanged');
+        return await HealthBaselineService.getBaseline();
+      }
+
+      // The history is capped, so the session count is kept on the baseline
+      const previous = await HealthBaselineService.getBaseline();
+      const history = await HealthBaselineService.addToHistory(sample);
+      return await HealthBaselineService.updateBaseline({
+        ...this.buildBaseline(history),
+        sessionsCalibrated: (previous?.sessionsCalibrated ?? 0) + 1,
+      });
+    } catch (error) {
+      console.error('Baseline calibration failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resting sample for one session: the median of each metric over its
+   * resting windows, or null when no window qualified
+   */
+  static summarizeSession(vitalSigns: VitalSigns, restingPeriods?: RestingPeriod[]): BaselineSample | null {
+    const windows = this.restingWindows(vitalSigns, restingPeriods);
+    if (windows.length === 0) return null;
+
+    const within = <T extends { timestamp: Date }>(readings: T[]) =>
+      readings.filter(reading => windows.some(([start, end]) => {
+        const time = reading.timestamp.getTime();
+        return time >= start && time < end;
+      }));
+
+    const heartRates = within(vitalSigns.heartRate)
+      .filter(reading => reading.confidence >= this.MIN_CONFIDENCE)
+      .map(reading => reading.bpm);
+    const rmssd = within(vitalSigns.heartRateVariability).map(reading => reading.rmssd);
+    const breathingRates = within(vitalSigns.breathing)
+      .filter(reading => reading.confidence >= this.MIN_CONFIDENCE && reading.breathsPerMinute >= this.MIN_RESTING_BREATHING_RATE)
+      .map(reading => reading.breathsPerMinute);
+    const spo2 = within(vitalSigns.oxygenSaturation)
+      .filter(reading => reading.confidence >= this.MIN_CONFIDENCE)
+      .map(reading => reading.value);
+
+    return {
+      timestamp: new Date(windows[windows.length - 1][1]),
+      restingHeartRate: this.median(heartRates) ?? undefined,
+      rmssd: this.median(rmssd) ?? undefined,
+      breathingRate: this.median(breathingRates) ?? undefined,
+      spo2: this.median(spo2) ?? undefined,
+      windows: windows.length,
+    };
+  }
+
+  /**
+   * Baseline fields from the session history. A metric is only included once
+   * MIN_SAMPLES sessions have measured it.
+   */
+  static buildBaseline(history: BaselineSample[]): Partial<HealthBaseline> {
+    const estimate = (metric: BaselineMetric) => {
+      const values = history
+        .map(sample => sample[metric])
+        .filter((value): value is number => value !== undefined && Number.isFinite(value));
+      return values.length >= this.MIN_SAMPLES ? this.robustMean(values) ?? undefined : undefined;
+    };
+
+    const round = (value: number | undefined, digits: number) =>
+      value === undefined ? undefined : Math.round(value * 10 ** digits) / 10 ** digits;
+
+    return {
+      restingHeartRate: round(estimate('restingHeartRate'), 1),
+      averageHRV: round(estimate('rmssd'), 1),
+      breathingRate: round(estimate('breathingRate'), 1),
+      baselineSpO2: round(estimate('spo2'), 1),
+    };
+  }
+
+  /**
+   * Mean after discarding values more than OUTLIER_MADS robust standard
+   * deviations from the median
+   */
+  static robustMean(values: number[]): number | null {
+    const center = this.median(values);
+    if (center === null) return null;
+
+    const spread = 1.4826 * (this.median(values.map(value => Math.abs(value - center))) as number);
+    if (spread === 0) return center;
+
+    const kept = values.filter(value => Math.abs(value - center) <= this.OUTLIER_MADS * spread);
+    return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+  }
+
+  // Helper methods
+
+  /**
+   * [start, end) ms ranges of WINDOW_SECONDS with steady, confident heart rate
+   */
+  private static restingWindows(vitalSigns: VitalSigns, restingPeriods?: RestingPeriod[]): Array<[number, number]> {
+    const readings = vitalSigns.heartRate
+      .filter(reading => reading.confidence >= this.MIN_CONFIDENCE)
+      .map(reading => ({ time: reading.timestamp.getTime(), bpm: reading.bpm }))
+      .sort((a, b) => a.time - b.time);
+    if (readings.length === 0) return [];
+
+    const periods = restingPeriods
+      ? restingPeriods.map(period => [period.start.getTime(), period.end.getTime()] as [number, number])
+      : [[readings[0].time, readings[readings.length - 1].time + 1] as [number, number]];
+
+    const windowMs = this.WINDOW_SECONDS * 1000;
+    const windows: Array<[number, number]> = [];
+
+    for (const [periodStart, periodEnd] of periods) {
+      for (let start = periodStart; start + windowMs <= periodEnd; start += windowMs) {
+        const bpm = readings.filter(reading => reading.time >= start && reading.time < start + windowMs).map(r => r.bpm);
+        if (bpm.length < this.MIN_READINGS_PER_WINDOW) continue;
+
+        // Known rest is trusted; detected rest must also be steady
+        const center = this.median(bpm) as number;
+        const spread = 1.4826 * (this.median(bpm.map(value => Math.abs(value - center))) as number);
+        if (restingPeriods || spread <= this.MAX_RESTING_HR_SPREAD) {
+          windows.push([start, start + windowMs]);
+        }
+      }
+    }
+
+    return windows;
+  }
+
+  private static median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = values.slice().sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
@@ -0,0 +1,112 @@
+import { BleHeartRateService } from './BleHeartRateService';
+import { ClockService } from './ClockService';
+import { FakeClock } from './FakeClock';
+import { MockBleTransport } from './MockBleTransport';
+import { VitalSignsService } from './VitalSignsService';
+
+const STRAP = { id: 'strap-1', name: 'Chest Strap' };
+
+const flush = () => new Promise<void>(resolve => setImmediate(() => resolve()));
+
+describe('BleHeartRateService through a mock transport', () => {
+  let clock: FakeClock;
+  let transport: MockBleTransport;
+  // The RR buffer is shared, so each test starts a minute after the last
+  let startTime = 0;
+
+  const connect = async (beats: Parameters<typeof MockBleTransport.heartRateMonitor>[1]) => {
+    transport = new MockBleTransport([MockBleTransport.heartRateMonitor(STRAP, beats)]);
+    BleHeartRateService.setTransport(transport);
+    await BleHeartRateService.connect(STRAP.id);
+  };
+
+  beforeEach(() => {
+    startTime += 60000;
+    clock = new FakeClock(startTime);
+    ClockService.setClock(clock);
+  });
+
+  afterEach(async () => {
+    await BleHeartRateService.disconnect();
+    transport.dispose();
+    BleHeartRateService.setTransport(null);
+    ClockService.setClock(null);
+  });
+
+  it('finds straps advertising the heart rate service', async () => {
+    transport = new MockBleTransport([
+      MockBleTransport.heartRateMonitor(STRAP, []),
+      { device: { id: 'scale', name: 'Scale', serviceUUIDs: ['181d'] } },
+    ]);
+    BleHeartRateService.setTransport(transport);
+
+    const scanning = BleHeartRateService.scan(5000);
+    await flush();
+    clock.advance(5000);
+
+    expect((await scanning).map(device => device.id)).toEqual([STRAP.id]);
+  });
+
+  it('parses measurements as they are notified', async () => {
+    await connect([
+      { bpm: 62, rrIntervals: [968], contact: true },
+      { bpm: 64, rrIntervals: [938, 937], energyExpended: 12, contact: true },
+    ]);
+
+    expect(BleHeartRateService.getConnectionState()).toBe('connected');
+    expect(BleHeartRateService.getBodySensorLocation()).toBe('chest');
+
+    clock.advance(1000);
+    expect(BleHeartRateService.getLatestMeasurement()).toMatchObject({ bpm: 62, sensorContact: 'contact' });
+    expect(BleHeartRateService.getLatestMeasurement()!.timestamp.getTime()).toBe(startTime + 1000);
+
+    clock.advance(1000);
+    const latest = BleHeartRateService.getLatestMeasurement()!;
+    expect(latest.bpm).toBe(64);
+    expect(latest.energyExpended).toBe(12);
+    // RR intervals travel in 1/1024 s units
+    latest.rrIntervals.forEach((interval, i) => expect(Math.abs(interval - [938, 937][i])).toBeLessThan(1));
+  });
+
+  it('feeds RR intervals from skin contact into the HRV buffer', async () => {
+    await connect([
+      { bpm: 60, rrIntervals: [1000], contact: true },
+      { bpm: 0, rrIntervals: [1000], contact: false },
+    ]);
+
+    clock.advance(2000);
+
+    const samples = VitalSignsService.getRRIntervalSamples(startTime);
+    expect(samples).toHaveLength(1);
+    expect(samples[0].timestamp).toBe(startTime + 1000);
+    expect(BleHeartRateService.getLatestMeasurement()!.sensorContact).toBe('no_contact');
+  });
+
+  it('writes the energy expended reset to the control point', async () => {
+    await connect([{ bpm: 60, energyExpended: 400 }]);
+    await BleHeartRateService.resetEnergyExpended();
+
+    expect(transport.writes).toEqual([
+      {
+        deviceId: STRAP.id,
+        serviceUUID: BleHeartRateService.SERVICE_UUID,
+        characteristicUUID: BleHeartRateService.CONTROL_POINT_UUID,
+        value: [0x01],
+      },
+    ]);
+  });
+
+  it('reports a dropped connection as an error', async () => {
+    await connect([{ bpm: 60 }, { bpm: 61 }]);
+    transport.dropConnection(STRAP.id, new Error('Connection lost'));
+    clock.advance(2000);
+
+    expect(BleHeartRateService.getConnectionState()).toBe('error');
+    expect(BleHeartRateService.getLatestMeasurement()?.bpm).not.toBe(61);
+  });
+
+  it('rejects truncated measurements', () => {
+    expect(() => BleHeartRateService.parseMeasurement(Uint8Array.of(0x01, 72))).toThrow('truncated');
+    expect(() => BleHeartRateService.parseMeasurement(Uint8Array.of(0x00))).toThrow('too short');
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * BLE Heart Rate Service
+ * Client for the Bluetooth Heart Rate Profile (service 0x180D). Parses Heart
+ * Rate Measurement notifications and feeds the strap's RR intervals straight
+ * into the HRV pipeline.
+ */
+
+import {
+  BleConnectionState,
+  BleDevice,
+  BleTransport,
+  BodySensorLocation,
+  HeartRateMeasurement,
+  SensorContactStatus,
+} from '../types/sensor';
+import { BleUuid } from './BleUuid';
+import { ClockService } from './ClockService';
+import { NativeBleTransport } from './NativeBleTransport';
+import { VitalSignsService } from './VitalSignsService';
+
+const BODY_SENSOR_LOCATIONS: BodySensorLocation[] = ['other', 'chest', 'wrist', 'finger', 'hand', 'ear_lobe', 'foot'];
+
+export class BleHeartRateService {
+  static readonly SERVICE_UUID = BleUuid.from16(0x180d);
+  static readonly MEASUREMENT_UUID = BleUuid.from16(0x2a37);
+  static readonly BODY_SENSOR_LOCATION_UUID = BleUuid.from16(0x2a38);
+  static readonly CONTROL_POINT_UUID = BleUuid.from16(0x2a39);
+
+  private static transport: BleTransport | null = null;
+  private static deviceId: string | null = null;
+  private static connectionState: BleConnectionState = 'disconnected';
+  private static unsubscribe: (() => void) | null = null;
+  private static latestMeasurement: HeartRateMeasurement | null = null;
+  private static bodySensorLocation: BodySensorLocation | null = null;
+
+  /**
+   * Replace the BLE transport (e.g. with a scripted mock peripheral).
+   * Takes effect on the next scan or connect.
+   */
+  static setTransport(transport: BleTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Get the active transport, creating the native transport by default
+   */
+  static getTransport(): BleTransport {
+    if (!this.transport) {
+      this.transport = new NativeBleTransport();
+    }
+    return this.transport;
+  }
+
+  /**
+   * Scan for heart-rate sensors for durationMs and return what was found
+   */
+  static async scan(durationMs: number = 10000, onDevice?: (device: BleDevice) => void): Promise<BleDevice[]> {
+    const found = new Map<string, BleDevice>();
+    const transport = this.getTransport();
+
+    try {
+      await transport.startScan([this.SERVICE_UUID], (device) => {
+        if (!found.has(device.id)) onDevice?.(device);
+        found.set(device.id, device);
+      });
+      await new Promise<void>(resolve => ClockService.getClock().setTimeout(resolve, durationMs));
+      await transport.stopScan();
+
+      return Array.from(found.values());
+    } catch (error) {
+      console.error('Heart rate sensor scan failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Connect to a sensor and start receiving measurements
+   */
+  static async connect(deviceId: string): Promise<void> {
+    const transport = this.getTransport();
+
+    try {
+      if (this.deviceId) {
+        await this.disconnect();
+      }
+
+      this.connectionState = 'connecting';
+      await transport.connect(deviceId, (error) => this.handleDisconnect(deviceId, error));
+      this.deviceId = deviceId;
+
+      // Body Sensor Location is optional in the profile
+      try {
+        const location = await transport.read(deviceId, this.SERVICE_UUID, this.BODY_SENSOR_LOCATION_UUID);
+        this.bodySensorLocation = BODY_SENSOR_LOCATIONS[location[0]] ?? 'other';
+      } catch {
+        this.bodySensorLocation = null;
+      }
+
+      this.unsubscribe = await transport.subscribe(
+        deviceId,
+        this.SERVICE_UUID,
+        this.MEASUREMENT_UUID,
+        (value) => this.handleMeasurement(value)
+      );
+      this.connectionState = 'connected';
+
+      console.log(`Connected to heart rate sensor ${deviceId} via ${transport.name}`);
+    } catch (error) {
+      this.connectionState = 'error';
+      this.deviceId = null;
+      console.error('Failed to connect to heart rate sensor:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop notifications and disconnect
+   */
+  static async disconnect(): Promise<void> {
+    try {
+      if (!this.deviceId) return;
+
+      const deviceId = this.deviceId;
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+      this.deviceId = null;
+      await this.getTransport().disconnect(deviceId);
+      this.connectionState = 'disconnected';
+    } catch (error) {
+      console.error('Failed to disconnect heart rate sensor:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reset the sensor's accumulated energy expended via the control point
+   */
+  static async resetEnergyExpended(): Promise<void> {
+    if (!this.deviceId) {
+      throw new Error('No heart rate sensor connected');
+    }
+    await this.getTransport().write(this.deviceId, this.SERVICE_UUID, this.CONTROL_POINT_UUID, Uint8Array.of(0x01));
+  }
+
+  /**
+   * Parse a Heart Rate Measurement (0x2A37) value.
+   * Flags: bit 0 UINT16 heart rate, bits 1-2 sensor contact, bit 3 energy
+   * expended present, bit 4 RR intervals present (UINT16, 1/1024 s each).
+   */
+  static parseMeasurement(value: Uint8Array, timestamp: Date = new Date(ClockService.now())): HeartRateMeasurement {
+    if (value.length < 2) {
+      throw new Error('Heart rate measurement is too short');
+    }
+
+    const flags = value[0];
+    const uint16 = (offset: number) => {
+      if (offset + 1 >= value.length) {
+        throw new Error('Heart rate measurement is truncated');
+      }
+      return value[offset] | (value[offset + 1] << 8);
+    };
+
+    let offset = 1;
+    let bpm: number;
+    if (flags & 0x01) {
+      bpm = uint16(offset);
+      offset += 2;
+    } else {
+      bpm = value[offset];
+      offset += 1;
+    }
+
+    let sensorContact: SensorContactStatus = 'not_supported';
+    if (flags & 0x04) {
+      sensorContact = flags & 0x02 ? 'contact' : 'no_contact';
+    }
+
+    let energyExpended: number | undefined;
+    if (flags & 0x08) {
+      energyExpended = uint16(offset);
+      offset += 2;
+    }
+
+    const rrIntervals: number[] = [];
+    if (flags & 0x10) {
+      for (; offset + 1 < value.length; offset += 2) {
+        rrIntervals.push((uint16(offset) * 1000) / 1024);
+      }
+    }
+
+    return { timestamp, bpm, sensorContact, energyExpended, rrIntervals };
+  }
+
+  static getLatestMeasurement(): HeartRateMeasurement | null {
+    return this.latestMeasurement;
+  }
+
+  static getConnectionState(): BleConnectionState {
+    return this.connectionState;
+  }
+
+  static getBodySensorLocation(): BodySensorLocation | null {
+    return this.bodySensorLocation;
+  }
+
+  // Helper methods
+
+  private static handleMeasurement(value: Uint8Array): void {
+    try {
+      const measurement = this.parseMeasurement(value);
+      this.latestMeasurement = measurement;
+
+      // Without skin contact the strap reports stale or invented values
+      if (measurement.sensorContact === 'no_contact' || measurement.bpm === 0) return;
+
+      if (measurement.rrIntervals.length > 0) {
+        VitalSignsService.addRRIntervals(measurement.rrIntervals, measurement.timestamp.getTime());
+      }
+
+      VitalSignsService.submitHeartRate({
+        timestamp: measurement.timestamp,
+        bpm: measurement.bpm,
+        confidence: measurement.sensorContact === 'contact' ? 1 : 0.8,
+        source: 'ble_heart_rate',
+        rrIntervals: measurement.rrIntervals,
+      });
+    } catch (error) {
+      console.error('Failed to handle heart rate measurement:', error);
+    }
+  }
+
+  private static handleDisconnect(deviceId: string, error?: Error): void {
+    if (this.deviceId !== deviceId) return;
+
+    this.unsubscribe = null;
+    this.deviceId = null;
+    this.connectionState = error ? 'error' : 'disconnected';
+    console.warn(`Heart rate sensor ${deviceId} disconnected`, error?.message ?? '');
+  }
+}
@@ -0,0 +1,84 @@
+import { BlePulseOximeterService } from './BlePulseOximeterService';
+import { ClockService } from './ClockService';
+import { FakeClock } from './FakeClock';
+import { MockBleTransport } from './MockBleTransport';
+
+const OXIMETER = { id: 'oximeter-1', name: 'Fingertip Oximeter' };
+
+// Spot-Check with measurement status: flags, SpO2 98 %, pulse rate 70 bpm, status
+const spotCheck = (measurementStatus: number): number[] => [
+  0x02, 0x62, 0x00, 0x46, 0x00, measurementStatus & 0xff, (measurementStatus >> 8) & 0xff,
+];
+
+describe('BlePulseOximeterService through a mock transport', () => {
+  let clock: FakeClock;
+  let transport: MockBleTransport;
+
+  beforeEach(() => {
+    clock = new FakeClock(1000);
+    ClockService.setClock(clock);
+  });
+
+  afterEach(async () => {
+    await BlePulseOximeterService.disconnect();
+    transport.dispose();
+    BlePulseOximeterService.setTransport(null);
+    ClockService.setClock(null);
+  });
+
+  it('parses continuous measurements as they are notified', async () => {
+    transport = new MockBleTransport([
+      MockBleTransport.pulseOximeter(OXIMETER, [
+        { spo2: 97, pulseRate: 64, pulseAmplitudeIndex: 2.5 },
+        { spo2: 93.5, pulseRate: 71 },
+      ]),
+    ]);
+    BlePulseOximeterService.setTransport(transport);
+    await BlePulseOximeterService.connect(OXIMETER.id);
+
+    expect(BlePulseOximeterService.getConnectionState()).toBe('connected');
+
+    clock.advance(1000);
+    expect(BlePulseOximeterService.getLatestMeasurement()).toMatchObject({
+      kind: 'continuous',
+      spo2: 97,
+      pulseRate: 64,
+      pulseAmplitudeIndex: 2.5,
+      measurementStatus: [],
+      deviceStatus: [],
+    });
+    expect(BlePulseOximeterService.getLatestMeasurement()!.timestamp.getTime()).toBe(2000);
+
+    clock.advance(1000);
+    expect(BlePulseOximeterService.getLatestMeasurement()).toMatchObject({ spo2: 93.5, pulseRate: 71 });
+  });
+
+  it('parses spot checks and weighs them by their status', async () => {
+    const serviceUUID = BlePulseOximeterService.SERVICE_UUID;
+    const characteristicUUID = BlePulseOximeterService.SPOT_CHECK_UUID;
+    transport = new MockBleTransport([
+      { device: { ...OXIMETER, serviceUUIDs: [serviceUUID] }, characteristics: [{ serviceUUID, characteristicUUID, value: [] }] },
+    ]);
+    BlePulseOximeterService.setTransport(transport);
+    await BlePulseOximeterService.connect(OXIMETER.id);
+
+    // Bit 14: questionable measurement
+    transport.notify(OXIMETER.id, serviceUUID, characteristicUUID, spotCheck(0x4000));
+    const questionable = BlePulseOximeterService.getLatestMeasurement()!;
+    expect(questionable).toMatchObject({ kind: 'spot_check', spo2: 98, pulseRate: 70 });
+    expect(questionable.measurementStatus).toEqual(['questionable_measurement']);
+    expect(BlePulseOximeterService.assessConfidence(questionable)).toBeCloseTo(0.6, 6);
+
+    // Bit 15: invalid measurement
+    transport.notify(OXIMETER.id, serviceUUID, characteristicUUID, spotCheck(0x8000));
+    expect(BlePulseOximeterService.assessConfidence(BlePulseOximeterService.getLatestMeasurement()!)).toBe(0);
+  });
+
+  it('refuses a device without PLX measurements', async () => {
+    transport = new MockBleTransport([{ device: OXIMETER }]);
+    BlePulseOximeterService.setTransport(transport);
+
+    await expect(BlePulseOximeterService.connect(OXIMETER.id)).rejects.toThrow('no PLX measurement');
+    expect(BlePulseOximeterService.getConnectionState()).toBe('error');
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * BLE Pulse Oximeter Service
+ * Client for the Bluetooth Pulse Oximeter Profile (service 0x1822). Parses
+ * Spot-Check and Continuous measurements and feeds SpO2 and pulse rate into
+ * the vital signs pipeline, so desaturation during breath holds is measured
+ * by a clinical sensor rather than estimated from the camera.
+ */
+
+import {
+  BleConnectionState,
+  BleDevice,
+  BleTransport,
+  PlxDeviceStatus,
+  PlxMeasurementStatus,
+  PulseOximeterMeasurement,
+} from '../types/sensor';
+import { BleUuid } from './BleUuid';
+import { BleValueParser } from './BleValueParser';
+import { ClockService } from './ClockService';
+import { NativeBleTransport } from './NativeBleTransport';
+import { VitalSignsService } from './VitalSignsService';
+
+const MEASUREMENT_STATUS_BITS: Array<PlxMeasurementStatus | null> = [
+  null, null, null, null, null, // reserved
+  'measurement_ongoing',
+  'early_estimated_data',
+  'validated_data',
+  'fully_qualified_data',
+  'data_from_storage',
+  'data_for_demonstration',
+  'data_for_testing',
+  'calibration_ongoing',
+  'measurement_unavailable',
+  'questionable_measurement',
+  'invalid_measurement',
+];
+
+const DEVICE_STATUS_BITS: PlxDeviceStatus[] = [
+  'extended_display_update',
+  'equipment_malfunction',
+  'signal_processing_irregularity',
+  'inadequate_signal',
+  'poor_signal',
+  'low_perfusion',
+  'erratic_signal',
+  'nonpulsatile_signal',
+  'questionable_pulse',
+  'signal_analysis_ongoing',
+  'sensor_interference',
+  'sensor_unconnected',
+  'unknown_sensor',
+  'sensor_displaced',
+  'sensor_malfunction',
+  'sensor_disconnected',
+];
+
+// Either of these means the reading must not be used at all
+const UNUSABLE_MEASUREMENT: PlxMeasurementStatus[] = [
+  'measurement_unavailable', 'invalid_measurement', 'data_for_demonstration', 'data_for_testing', 'calibration_ongoing',
+];
+const UNUSABLE_DEVICE: PlxDeviceStatus[] = [
+  'equipment_malfunction', 'sensor_unconnected', 'unknown_sensor', 'sensor_displaced', 'sensor_malfunction', 'sensor_disconnected',
+];
+
+// These lower confidence but keep the reading
+const DOUBTFUL_MEASUREMENT: PlxMeasurementStatus[] = ['early_estimated_data', 'questionable_measurement'];
+const DOUBTFUL_DEVICE: PlxDeviceStatus[] = [
+  'signal_processing_irregularity', 'inadequate_signal', 'poor_signal', 'low_perfusion', 'erratic_signal',
+  'nonpulsatile_signal', 'questionable_pulse', 'sensor_interference',
+];
+
+export class BlePulseOximeterService {
+  static readonly SERVICE_UUID = BleUuid.from16(0x1822);
+  static readonly SPOT_CHECK_UUID = BleUuid.from16(0x2a5e);
+  static readonly CONTINUOUS_UUID = BleUuid.from16(0x2a5f);
+
+  private static transport: BleTransport | null = null;
+  private static deviceId: string | null = null;
+  private static connectionState: BleConnectionState = 'disconnected';
+  private static unsubscribers: Array<() => void> = [];
+  private static latestMeasurement: PulseOximeterMeasurement | null = null;
+
+  /**
+   * Replace the BLE transport (e.g. with a scripted mock peripheral).
+   * Takes effect on the next scan or connect.
+   */
+  static setTransport(transport: BleTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Get the active transport, creating the native transport by default
+   */
+  static getTransport(): BleTransport {
+    if (!this.transport) {
+      this.transport = new NativeBleTransport();
+    }
+    return this.transport;
+  }
+
+  /**
+   * Scan for pulse oximeters for durationMs and return what was found
+   */
+  static async scan(durationMs: number = 10000, onDevice?: (device: BleDevice) => void): Promise<BleDevice[]> {
+    const found = new Map<string, BleDevice>();
+    const transport = this.getTransport();
+
+    try {
+      await transport.startScan([this.SERVICE_UUID], (device) => {
+        if (!found.has(device.id)) onDevice?.(device);
+        found.set(device.id, device);
+      });
+      await new Promise<void>(resolve => ClockService.getClock().setTimeout(resolve, durationMs));
+      await transport.stopScan();
+
+      return Array.from(found.values());
+    } catch (error) {
+      console.error('Pulse oximeter scan failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Connect and subscribe to whichever measurement characteristics the
+   * oximeter offers (Continuous, Spot-Check, or both)
+   */
+  static async connect(deviceId: string): Promise<void> {
+    const transport = this.getTransport();
+
+    try {
+      if (this.deviceId) {
+        await this.disconnect();
+      }
+
+      this.connectionState = 'connecting';
+      await transport.connect(deviceId, (error) => this.handleDisconnect(deviceId, error));
+      this.deviceId = deviceId;
+
+      const subscriptions: Array<[string, PulseOximeterMeasurement['kind']]> = [
+        [this.CONTINUOUS_UUID, 'continuous'],
+        [this.SPOT_CHECK_UUID, 'spot_check'],
+      ];
+      for (const [characteristicUUID, kind] of subscriptions) {
+        try {
+          this.unsubscribers.push(await transport.subscribe(
+            deviceId,
+            this.SERVICE_UUID,
+            characteristicUUID,
+            (value) => this.handleMeasurement(value, kind)
+          ));
+        } catch (error) {
+          console.warn(`Pulse oximeter does not offer ${kind} measurements`);
+        }
+      }
+
+      if (this.unsubscribers.length === 0) {
+        await transport.disconnect(deviceId);
+        throw new Error('Device exposes no PLX measurement characteristic');
+      }
+
+      this.connectionState = 'connected';
+      console.log(`Connected to pulse oximeter ${deviceId} via ${transport.name}`);
+    } catch (error) {
+      this.connectionState = 'error';
+      this.deviceId = null;
+      console.error('Failed to connect to pulse oximeter:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop notifications and disconnect
+   */
+  static async disconnect(): Promise<void> {
+    try {
+      if (!this.deviceId) return;
+
+      const deviceId = this.deviceId;
+      this.unsubscribers.forEach(unsubscribe => unsubscribe());
+      this.unsubscribers = [];
+      this.deviceId = null;
+      await this.getTransport().disconnect(deviceId);
+      this.connectionState = 'disconnected';
+    } catch (error) {
+      console.error('Failed to disconnect pulse oximeter:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a PLX Continuous Measurement (0x2A5F).
+   * Flags: bit 0 SpO2PR-Fast, bit 1 SpO2PR-Slow, bit 2 measurement status,
+   * bit 3 device and sensor status, bit 4 pulse amplitude index.
+   */
+  static parseContinuous(value: Uint8Array, timestamp: Date = new Date(ClockService.now())): PulseOximeterMeasurement {
+    const flags = BleValueParser.uint8(value, 0);
+    let offset = 1;
+
+    const pair = () => {
+      const reading = { spo2: BleValueParser.sfloat(value, offset), pulseRate: BleValueParser.sfloat(value, offset + 2) };
+      offset += 4;
+      return reading;
+    };
+
+    const normal = pair();
+    const fast = flags & 0x01 ? pair() : undefined;
+    const slow = flags & 0x02 ? pair() : undefined;
+    const status = this.parseStatus(value, offset, flags & 0x04, flags & 0x08, flags & 0x10);
+
+    return {
+      timestamp,
+      kind: 'continuous',
+      spo2: normal.spo2,
+      pulseRate: normal.pulseRate,
+      fast,
+      slow,
+      ...status,
+    };
+  }
+
+  /**
+   * Parse a PLX Spot-Check Measurement (0x2A5E).
+   * Flags: bit 0 timestamp, bit 1 measurement status, bit 2 device and
+   * sensor status, bit 3 pulse amplitude index, bit 4 device clock not set.
+   */
+  static parseSpotCheck(value: Uint8Array, timestamp: Date = new Date(ClockService.now())): PulseOximeterMeasurement {
+    const flags = BleValueParser.uint8(value, 0);
+    const spo2 = BleValueParser.sfloat(value, 1);
+    const pulseRate = BleValueParser.sfloat(value, 3);
+    let offset = 5;
+
+    let deviceTimestamp: Date | undefined;
+    if (flags & 0x01) {
+      // A timestamp from a device whose clock was never set is meaningless
+      if (!(flags & 0x10)) deviceTimestamp = BleValueParser.dateTime(value, offset);
+      offset += 7;
+    }
+
+    return {
+      timestamp,
+      kind: 'spot_check',
+      spo2,
+      pulseRate,
+      deviceTimestamp,
+      ...this.parseStatus(value, offset, flags & 0x02, flags & 0x04, flags & 0x08),
+    };
+  }
+
+  /**
+   * Confidence for a measurement from its status flags: 0 when it must not be
+   * used, reduced when the device doubts it
+   */
+  static assessConfidence(measurement: PulseOximeterMeasurement): number {
+    if (
+      measurement.measurementStatus.some(status => UNUSABLE_MEASUREMENT.includes(status)) ||
+      measurement.deviceStatus.some(status => UNUSABLE_DEVICE.includes(status))
+    ) {
+      return 0;
+    }
+
+    let confidence = 1;
+    if (measurement.measurementStatus.some(status => DOUBTFUL_MEASUREMENT.includes(status))) confidence *= 0.6;
+    if (measurement.deviceStatus.some(status => DOUBTFUL_DEVICE.includes(status))) confidence *= 0.6;
+    return confidence;
+  }
+
+  static getLatestMeasurement(): PulseOximeterMeasurement | null {
+    return this.latestMeasurement;
+  }
+
+  static getConnectionState(): BleConnectionState {
+    return this.connectionState;
+  }
+
+  // Helper methods
+
+  private static parseStatus(
+    value: Uint8Array,
+    start: number,
+    hasMeasurementStatus: number,
+    hasDeviceStatus: number,
+    hasPulseAmplitude: number
+  ): Pick<PulseOximeterMeasurement, 'measurementStatus' | 'deviceStatus' | 'pulseAmplitudeIndex'> {
+    let offset = start;
+    let measurementStatus: PlxMeasurementStatus[] = [];
+    let deviceStatus: PlxDeviceStatus[] = [];
+    let pulseAmplitudeIndex: number | undefined;
+
+    if (hasMeasurementStatus) {
+      measurementStatus = BleValueParser.bitFlags(BleValueParser.uint16(value, offset), MEASUREMENT_STATUS_BITS);
+      offset += 2;
+    }
+    if (hasDeviceStatus) {
+      deviceStatus = BleValueParser.bitFlags(BleValueParser.uint24(value, offset), DEVICE_STATUS_BITS);
+      offset += 3;
+    }
+    if (hasPulseAmplitude) {
+      pulseAmplitudeIndex = BleValueParser.sfloat(value, offset);
+    }
+
+    return { measurementStatus, deviceStatus, pulseAmplitudeIndex };
+  }
+
+  private static handleMeasurement(value: Uint8Array, kind: PulseOximeterMeasurement['kind']): void {
+    try {
+      const measurement = kind === 'continuous' ? this.parseContinuous(value) : this.parseSpotCheck(value);
+      this.latestMeasurement = measurement;
+
+      const confidence = this.assessConfidence(measurement);
+      if (confidence === 0) return;
+
+      // The fast average lags least behind a desaturation during a breath hold
+      const spo2 = Number.isFinite(measurement.fast?.spo2) ? (measurement.fast as { spo2: number }).spo2 : measurement.spo2;
+      const pulseAmplitude = Number.isFinite(measurement.pulseAmplitudeIndex) ? measurement.pulseAmplitudeIndex : undefined;
+
+      if (Number.isFinite(spo2) && spo2 > 0 && spo2 <= 100) {
+        VitalSignsService.submitSpO2({
+          timestamp: measurement.timestamp,
+          value: spo2,
+          confidence,
+          source: 'ble_pulse_oximeter',
+          pulseStrength: pulseAmplitude,
+        });
+      }
+
+      if (Number.isFinite(measurement.pulseRate) && measurement.pulseRate > 0) {
+        VitalSignsService.submitHeartRate({
+          timestamp: measurement.timestamp,
+          bpm: measurement.pulseRate,
+          confidence,
+          source: 'ble_pulse_oximeter',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to handle pulse oximeter measurement:', error);
+    }
+  }
+
+  private static handleDisconnect(deviceId: string, error?: Error): void {
+    if (this.deviceId !== deviceId) return;
+
+    this.unsubscribers = [];
+    this.deviceId = null;
+    this.connectionState = error ? 'error' : 'disconnected';
+    console.warn(`Pulse oximeter ${deviceId} disconnected`, error?.message ?? '');
+  }
+}
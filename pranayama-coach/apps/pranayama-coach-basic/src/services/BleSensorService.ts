@@ -0,0 +1,217 @@
+/**
+ * BLE Sensor Service
+ * Connects to a sensor described by configuration (a backend Sensor
+ * document) rather than code: subscribes to the mapped characteristics,
+ * interprets values with GattProfileInterpreter and feeds heart rate, RR
+ * intervals and SpO2 into the vital signs pipeline.
+ */
+
+import {
+  BleConnectionState,
+  BleTransport,
+  SensorDescription,
+  SensorMetricName,
+  SensorReading,
+} from '../types/sensor';
+import { ClockService } from './ClockService';
+import { GattProfileInterpreter } from './GattProfileInterpreter';
+import { NativeBleTransport } from './NativeBleTransport';
+import { VitalSignsService } from './VitalSignsService';
+
+export class BleSensorService {
+  private static transport: BleTransport | null = null;
+  private static deviceId: string | null = null;
+  private static interpreter: GattProfileInterpreter | null = null;
+  private static connectionState: BleConnectionState = 'disconnected';
+  private static unsubscribers: Array<() => void> = [];
+  private static latestReadings = new Map<SensorMetricName, SensorReading>();
+  private static readingListeners: Array<(reading: SensorReading) => void> = [];
+
+  /**
+   * Replace the BLE transport (e.g. with a scripted mock peripheral).
+   * Takes effect on the next connect.
+   */
+  static setTransport(transport: BleTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Get the active transport, creating the native transport by default
+   */
+  static getTransport(): BleTransport {
+    if (!this.transport) {
+      this.transport = new NativeBleTransport();
+    }
+    return this.transport;
+  }
+
+  /**
+   * Connect to a device and subscribe to every characteristic its
+   * configuration maps to a metric. Accepts a parsed description, a Sensor
+   * document or its configJson.
+   */
+  static async connect(
+    deviceId: string,
+    configuration: SensorDescription | GattProfileInterpreter | string | Record<string, unknown>
+  ): Promise<void> {
+    const transport = this.getTransport();
+
+    try {
+      if (this.deviceId) {
+        await this.disconnect();
+      }
+
+      const interpreter = configuration instanceof GattProfileInterpreter
+        ? configuration
+        : GattProfileInterpreter.fromConfigJson(configuration);
+
+      this.connectionState = 'connecting';
+      await transport.connect(deviceId, (error) => this.handleDisconnect(deviceId, error));
+      this.deviceId = deviceId;
+      this.interpreter = interpreter;
+      this.latestReadings.clear();
+
+      for (const { serviceUUID, characteristicUUID } of interpreter.getSubscriptions()) {
+        try {
+          this.unsubscribers.push(await transport.subscribe(
+            deviceId,
+            serviceUUID,
+            characteristicUUID,
+            (value) => this.handleValue(characteristicUUID, value)
+          ));
+        } catch (error) {
+          console.warn(`${interpreter.description.name} does not offer characteristic ${characteristicUUID}`);
+        }
+      }
+
+      if (this.unsubscribers.length === 0) {
+        await transport.disconnect(deviceId);
+        throw new Error(`${interpreter.description.name} exposes none of its configured characteristics`);
+      }
+
+      this.connectionState = 'connected';
+      console.log(`Connected to ${interpreter.description.name} ${deviceId} via ${transport.name}`);
+    } catch (error) {
+      this.connectionState = 'error';
+      this.deviceId = null;
+      this.interpreter = null;
+      console.error('Failed to connect to configured sensor:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop notifications and disconnect
+   */
+  static async disconnect(): Promise<void> {
+    try {
+      if (!this.deviceId) return;
+
+      const deviceId = this.deviceId;
+      this.unsubscribers.forEach(unsubscribe => unsubscribe());
+      this.unsubscribers = [];
+      this.deviceId = null;
+      this.interpreter = null;
+      await this.getTransport().disconnect(deviceId);
+      this.connectionState = 'disconnected';
+    } catch (error) {
+      console.error('Failed to disconnect configured sensor:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to every interpreted reading, valid or not
+   */
+  static onReading(listener: (reading: SensorReading) => void): () => void {
+    this.readingListeners.push(listener);
+    return () => {
+      this.readingListeners = this.readingListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Most recent reading per metric
+   */
+  static getLatestReadings(): SensorReading[] {
+    return Array.from(this.latestReadings.values());
+  }
+
+  /**
+   * Metrics that have stopped reporting for longer than the configured timeout
+   */
+  static getTimedOutMetrics(now: number = ClockService.now()): SensorMetricName[] {
+    return this.interpreter ? this.interpreter.checkTimeouts(now) : [];
+  }
+
+  static getInterpreter(): GattProfileInterpreter | null {
+    return this.interpreter;
+  }
+
+  static getConnectionState(): BleConnectionState {
+    return this.connectionState;
+  }
+
+  // Helper methods
+
+  private static handleValue(characteristicUUID: string, value: Uint8Array): void {
+    if (!this.interpreter) return;
+
+    try {
+      const readings = this.interpreter.decode(characteristicUUID, value, new Date(ClockService.now()));
+      readings.forEach(reading => {
+        this.latestReadings.set(reading.metric, reading);
+        this.readingListeners.forEach(listener => listener(reading));
+        if (reading.valid) this.forward(reading);
+      });
+    } catch (error) {
+      console.error('Failed to interpret sensor value:', error);
+    }
+  }
+
+  /**
+   * Hand the metrics the pipeline understands to VitalSignsService
+   */
+  private static forward(reading: SensorReading): void {
+    // Filter state was just reset, so the first value after a gap is less settled
+    const confidence = reading.flags.includes('after_timeout') ? 0.8 : 1;
+
+    switch (reading.metric) {
+      case 'heart_rate':
+        if (reading.rrIntervals) {
+          VitalSignsService.addRRIntervals(reading.rrIntervals, reading.timestamp.getTime());
+        }
+        if (reading.value > 0) {
+          VitalSignsService.submitHeartRate({
+            timestamp: reading.timestamp,
+            bpm: reading.value,
+            confidence,
+            source: 'ble_heart_rate',
+            rrIntervals: reading.rrIntervals,
+          });
+        }
+        break;
+      case 'oxygen_saturation':
+        if (reading.value > 0 && reading.value <= 100) {
+          VitalSignsService.submitSpO2({
+            timestamp: reading.timestamp,
+            value: reading.value,
+            confidence,
+            source: 'ble_pulse_oximeter',
+          });
+        }
+        break;
+    }
+  }
+
+  private static handleDisconnect(deviceId: string, error?: Error): void {
+    if (this.deviceId !== deviceId) return;
+
+    this.unsubscribers = [];
+    this.deviceId = null;
+    this.interpreter?.reset();
+    this.interpreter = null;
+    this.connectionState = error ? 'error' : 'disconnected';
+    console.warn(`Configured sensor ${deviceId} disconnected`, error?.message ?? '');
+  }
+}
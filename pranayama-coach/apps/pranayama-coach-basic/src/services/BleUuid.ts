@@ -0,0 +1,33 @@
+/**
+ * Bluetooth UUID helpers
+ * Expands 16-bit SIG-assigned numbers to full UUIDs so platforms that report
+ * short or upper-case forms can be compared directly
+ */
+
+const BASE_UUID_SUFFIX = '-0000-1000-8000-00805f9b34fb';
+
+export class BleUuid {
+  /**
+   * Full 128-bit UUID for a 16-bit assigned number (e.g. 0x180D)
+   */
+  static from16(shortId: number): string {
+    return `0000${shortId.toString(16).padStart(4, '0')}${BASE_UUID_SUFFIX}`;
+  }
+
+  /**
+   * Normalize a UUID in short ("180D") or full form to the full lower-case form
+   */
+  static normalize(uuid: string): string {
+    const value = uuid.trim().toLowerCase().replace(/^0x/, '');
+    if (/^[0-9a-f]{4}$/.test(value)) return `0000${value}${BASE_UUID_SUFFIX}`;
+    if (/^[0-9a-f]{8}$/.test(value)) return `${value}${BASE_UUID_SUFFIX}`;
+    return value;
+  }
+
+  /**
+   * Whether two UUIDs refer to the same service or characteristic
+   */
+  static equals(a: string, b: string): boolean {
+    return this.normalize(a) === this.normalize(b);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * BLE Value Parser
+ * Little-endian field readers for GATT characteristic values, including the
+ * IEEE 11073-20601 SFLOAT and FLOAT types used by the health profiles
+ */
+
+export class BleValueParser {
+  static uint8(value: Uint8Array, offset: number): number {
+    this.require(value, offset, 1);
+    return value[offset];
+  }
+
+  static uint16(value: Uint8Array, offset: number): number {
+    this.require(value, offset, 2);
+    return value[offset] | (value[offset + 1] << 8);
+  }
+
+  static uint24(value: Uint8Array, offset: number): number {
+    this.require(value, offset, 3);
+    return value[offset] | (value[offset + 1] << 8) | (value[offset + 2] << 16);
+  }
+
+  /**
+   * 16-bit SFLOAT: 4-bit signed exponent, 12-bit signed mantissa.
+   * NaN, NRes and the reserved value decode to NaN.
+   */
+  static sfloat(value: Uint8Array, offset: number): number {
+    const raw = this.uint16(value, offset);
+    const mantissa = raw & 0x0fff;
+
+    switch (mantissa) {
+      case 0x07ff: // NaN
+      case 0x0800: // NRes
+      case 0x0801: // reserved
+        return NaN;
+      case 0x07fe:
+        return Infinity;
+      case 0x0802:
+        return -Infinity;
+    }
+
+    const exponent = raw >> 12;
+    return this.scale(
+      mantissa >= 0x0800 ? mantissa - 0x1000 : mantissa,
+      exponent >= 0x8 ? exponent - 0x10 : exponent
+    );
+  }
+
+  /**
+   * 32-bit FLOAT: 8-bit signed exponent, 24-bit signed mantissa
+   */
+  static float(value: Uint8Array, offset: number): number {
+    const mantissa = this.uint24(value, offset);
+    const exponent = this.uint8(value, offset + 3);
+
+    switch (mantissa) {
+      case 0x7fffff:
+      case 0x800000:
+      case 0x800001:
+        return NaN;
+      case 0x7ffffe:
+        return Infinity;
+      case 0x800002:
+        return -Infinity;
+    }
+
+    return this.scale(
+      mantissa >= 0x800000 ? mantissa - 0x1000000 : mantissa,
+      exponent >= 0x80 ? exponent - 0x100 : exponent
+    );
+  }
+
+  /**
+   * Date Time (year UINT16, month, day, hours, minutes, seconds) in local time
+   */
+  static dateTime(value: Uint8Array, offset: number): Date {
+    const year = this.uint16(value, offset);
+    return new Date(
+      year,
+      Math.max(0, this.uint8(value, offset + 2) - 1),
+      Math.max(1, this.uint8(value, offset + 3)),
+      this.uint8(value, offset + 4),
+      this.uint8(value, offset + 5),
+      this.uint8(value, offset + 6)
+    );
+  }
+
+  /**
+   * Names of the set bits, by bit position
+   */
+  static bitFlags<T extends string>(bits: number, names: Array<T | null>): T[] {
+    return names.filter((name, bit): name is T => name !== null && (bits & (1 << bit)) !== 0);
+  }
+
+  // Helper methods
+
+  private static scale(mantissa: number, exponent: number): number {
+    // Round away binary noise so e.g. 975·10^-1 reads back as exactly 97.5
+    const result = mantissa * Math.pow(10, exponent);
+    return exponent < 0 ? Number(result.toFixed(-exponent)) : result;
+  }
+
+  private static require(value: Uint8Array, offset: number, length: number): void {
+    if (offset < 0 || offset + length > value.length) {
+      throw new Error(`Characteristic value is truncated (need ${offset + length} bytes, have ${value.length})`);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { BreathSchedulerEvent } from '../types/session';
+import { Clock } from '../types/vitalSigns';
+import { BreathPhaseScheduler } from './BreathPhaseScheduler';
+import { FakeClock } from './FakeClock';
+import { TechniqueCatalogService } from './TechniqueCatalogService';
+
+const BOX = TechniqueCatalogService.createPattern(4, 4, 4, 4);
+
+/**
+ * A clock whose timers all fire lateMs after they are due, like a busy
+ * JavaScript thread
+ */
+const lateClock = (clock: FakeClock, lateMs: number): Clock => ({
+  now: () => clock.now(),
+  setTimeout: (callback, delayMs) => clock.setTimeout(callback, delayMs + lateMs),
+  clearTimeout: timer => clock.clearTimeout(timer),
+});
+
+describe('BreathPhaseScheduler', () => {
+  let clock: FakeClock;
+  let events: BreathSchedulerEvent[];
+
+  const startScheduler = (limits: { maxCycles?: number; duration?: number } = {}, lateMs: number = 0) => {
+    const scheduler = new BreathPhaseScheduler(BOX, limits, lateClock(clock, lateMs));
+    scheduler.subscribe(event => events.push(event));
+    scheduler.start();
+    return scheduler;
+  };
+
+  const phaseStarts = () => events.filter(event => event.type === 'phase_started');
+
+  beforeEach(() => {
+    clock = new FakeClock(0);
+    events = [];
+  });
+
+  it('starts every phase on its boundary when timers fire late', () => {
+    const scheduler = startScheduler({ maxCycles: 10 }, 7);
+    clock.advance(10 * 16000 + 100);
+
+    expect(scheduler.getStatus()).toBe('completed');
+    expect(events.filter(event => event.type === 'cycle_completed')).toHaveLength(10);
+    // Each phase is late by one timer's lateness, never by the sum of them
+    const starts = phaseStarts().map(event => event.timestamp);
+    expect(starts).toHaveLength(40);
+    starts.slice(1).forEach((timestamp, i) => expect(timestamp).toBe((i + 1) * 4000 + 7));
+    expect(events[events.length - 1]).toMatchObject({ type: 'completed', timestamp: 160007 });
+  });
+
+  it('counts down each whole second of a phase', () => {
+    startScheduler();
+    clock.advance(3999);
+
+    expect(events.map(event => [event.type, event.position.countdown])).toEqual([
+      ['phase_started', 4],
+      ['countdown', 3],
+      ['countdown', 2],
+      ['countdown', 1],
+    ]);
+  });
+
+  it('keeps the time left in the phase across a pause', () => {
+    const scheduler = startScheduler();
+    clock.advance(2500);
+    scheduler.pause();
+    clock.advance(60000);
+
+    expect(scheduler.getPosition()).toMatchObject({ phase: 'inhale', phaseRemaining: 1.5 });
+
+    scheduler.resume();
+    clock.advance(1500);
+    expect(phaseStarts().map(event => [event.position.phase, event.timestamp])).toEqual([
+      ['inhale', 0],
+      ['hold', 64000],
+    ]);
+  });
+
+  it('switches to a new pattern at the next cycle boundary', () => {
+    const scheduler = startScheduler();
+    clock.advance(6000);
+    scheduler.setPattern(TechniqueCatalogService.createPattern(4, 0, 6, 0));
+
+    expect(scheduler.getPosition()).toMatchObject({ phase: 'hold', pattern: BOX });
+    expect(scheduler.getPattern().ratio).toBe('4:0:6:0');
+
+    clock.advance(10000 + 4000);
+    const changed = events.find(event => event.type === 'pattern_changed')!;
+    expect(changed.timestamp).toBe(16000);
+    expect(changed.position).toMatchObject({ cycle: 2, phase: 'inhale' });
+    expect(scheduler.getPosition()).toMatchObject({ cycle: 2, phase: 'exhale', phaseElapsed: 0 });
+  });
+
+  it('ends mid-cycle at its duration limit', () => {
+    const scheduler = startScheduler({ duration: 10 });
+    clock.advance(20000);
+
+    expect(scheduler.getStatus()).toBe('completed');
+    expect(events[events.length - 1]).toMatchObject({
+      type: 'completed',
+      timestamp: 10000,
+      position: { phase: 'exhale', phaseElapsed: 2, cycle: 1 },
+    });
+  });
+
+  it('refuses to start twice or to pace a pattern with no length', () => {
+    const scheduler = startScheduler();
+
+    expect(() => scheduler.start()).toThrow('Breath phase scheduler has already been started');
+    expect(() => new BreathPhaseScheduler(TechniqueCatalogService.createPattern(0, 0, 0, 0))).toThrow(
+      'Breathing pattern phases must be non-negative with a positive cycle length'
+    );
+  });
+});
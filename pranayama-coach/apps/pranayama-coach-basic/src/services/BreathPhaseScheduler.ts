@@ -0,0 +1,321 @@
+/**
+ * Breath Phase Scheduler
+ * Paces a breathing pattern phase by phase. Every boundary is computed from
+ * a single origin on the monotonic clock instead of chaining one timer per
+ * phase, so late timers never add up to drift. Pausing keeps the exact time
+ * left in the phase, and a new pattern takes over at the next cycle
+ * boundary. The pacer animation, spoken cues and haptics all follow it.
+ */
+
+import {
+  BreathingPattern,
+  BreathPosition,
+  BreathSchedulerEvent,
+  BreathSchedulerEventType,
+  BreathSchedulerStatus,
+} from '../types/session';
+import { Clock, ClockTimer } from '../types/vitalSigns';
+import { ClockService } from './ClockService';
+import { TechniqueCatalogService } from './TechniqueCatalogService';
+
+interface SchedulerLimits {
+  maxCycles: number | null; // complete after this many cycles
+  duration: number | null;  // seconds; complete at this point, mid-cycle if need be
+}
+
+interface Cursor {
+  cycle: number;
+  cycleStart: number; // seconds of active time
+  pattern: BreathingPattern;
+  pendingPattern: BreathingPattern | null;
+}
+
+export class BreathPhaseScheduler {
+  private clock: Clock;
+  private limits: SchedulerLimits;
+  private listeners = new Set<(event: BreathSchedulerEvent) => void>();
+  private status: BreathSchedulerStatus = 'idle';
+  private cursor: Cursor;
+  private origin = 0; // monotonic ms at which active time was zero
+  private pausedAt: number | null = null;
+  private lastElapsed = 0;
+  private finalPosition: BreathPosition | null = null;
+  private currentPhase: { cycle: number; phase: string } | null = null;
+  private countdown = 0;
+  private timer: ClockTimer | null = null;
+
+  constructor(pattern: BreathingPattern, limits: Partial<SchedulerLimits> = {}, clock: Clock = ClockService.getClock()) {
+    BreathPhaseScheduler.validatePattern(pattern);
+
+    this.clock = clock;
+    this.limits = { maxCycles: null, duration: null, ...limits };
+    this.cursor = { cycle: 1, cycleStart: 0, pattern, pendingPattern: null };
+  }
+
+  /**
+   * Listen for scheduler events; returns a function that removes the listener
+   */
+  subscribe(listener: (event: BreathSchedulerEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start pacing, optionally as if it had started elapsedSeconds ago (to
+   * line up with a session that is already under way)
+   */
+  start(elapsedSeconds: number = 0): void {
+    if (this.status !== 'idle') {
+      throw new Error('Breath phase scheduler has already been started');
+    }
+
+    this.origin = this.monotonicNow() - elapsedSeconds * 1000;
+    this.status = 'running';
+    this.update();
+  }
+
+  /**
+   * Pause, keeping the time left in the current phase
+   */
+  pause(): void {
+    if (this.status !== 'running') return;
+
+    this.pausedAt = this.monotonicNow();
+    this.status = 'paused';
+    this.clearTimer();
+  }
+
+  /**
+   * Resume with exactly the time that was left in the phase
+   */
+  resume(): void {
+    if (this.status !== 'paused') return;
+
+    this.origin += this.monotonicNow() - this.pausedAt!;
+    this.pausedAt = null;
+    this.status = 'running';
+    this.update();
+  }
+
+  /**
+   * Stop pacing for good
+   */
+  stop(): void {
+    if (this.status !== 'running' && this.status !== 'paused') return;
+
+    this.finish('stopped', this.positionAt(this.elapsed(), true));
+  }
+
+  /**
+   * Swap the pattern. It takes effect at the next cycle boundary so the
+   * breath in progress is never cut short, or at once before starting.
+   */
+  setPattern(pattern: BreathingPattern): void {
+    BreathPhaseScheduler.validatePattern(pattern);
+
+    if (this.status === 'idle') {
+      this.cursor = { ...this.cursor, pattern };
+    } else {
+      this.cursor = { ...this.cursor, pendingPattern: pattern };
+    }
+  }
+
+  /**
+   * The pattern to breathe, counting one waiting for the next cycle
+   */
+  getPattern(): BreathingPattern {
+    return this.cursor.pendingPattern ?? this.cursor.pattern;
+  }
+
+  /**
+   * Where in the pattern the breath is now, including progress through the
+   * phase for animation; null before starting
+   */
+  getPosition(): BreathPosition | null {
+    if (this.status === 'idle') return null;
+    if (this.finalPosition) return this.finalPosition;
+
+    const elapsed = this.elapsed();
+    const cursor = this.cursor;
+    this.cursor = this.advance(cursor, elapsed);
+    const position = this.positionAt(elapsed);
+    this.cursor = cursor;
+    return position;
+  }
+
+  getStatus(): BreathSchedulerStatus {
+    return this.status;
+  }
+
+  // Helper methods
+
+  private static validatePattern(pattern: BreathingPattern): void {
+    const durations = [pattern.inhale, pattern.holdAfterInhale, pattern.exhale, pattern.holdAfterExhale];
+    if (durations.some(duration => !(duration >= 0)) || !(TechniqueCatalogService.cycleSeconds(pattern) > 0)) {
+      throw new Error('Breathing pattern phases must be non-negative with a positive cycle length');
+    }
+  }
+
+  /**
+   * Seconds to whole ms, so float error never leaves a boundary a hair away
+   */
+  private static toMs(seconds: number): number {
+    return Math.round(seconds * 1000);
+  }
+
+  private monotonicNow(): number {
+    return this.clock.monotonicNow?.() ?? this.clock.now();
+  }
+
+  /**
+   * Active (unpaused) seconds since the start, never going backwards even
+   * if the clock does
+   */
+  private elapsed(): number {
+    const now = this.pausedAt ?? this.monotonicNow();
+    this.lastElapsed = Math.max(this.lastElapsed, (now - this.origin) / 1000);
+    return this.lastElapsed;
+  }
+
+  /**
+   * The cursor moved on to the cycle containing a time, applying a pending
+   * pattern at the first boundary crossed
+   */
+  private advance(cursor: Cursor, time: number): Cursor {
+    let next = cursor;
+    while (time >= next.cycleStart + TechniqueCatalogService.cycleSeconds(next.pattern)) {
+      next = {
+        cycle: next.cycle + 1,
+        cycleStart: next.cycleStart + TechniqueCatalogService.cycleSeconds(next.pattern),
+        pattern: next.pendingPattern ?? next.pattern,
+        pendingPattern: null,
+      };
+    }
+    return next;
+  }
+
+  /**
+   * Position at a time within the cursor's cycle. At a phase boundary the
+   * later phase is returned, or the earlier one with atEnd.
+   */
+  private positionAt(time: number, atEnd: boolean = false): BreathPosition {
+    const phases = TechniqueCatalogService.phases(this.cursor.pattern);
+
+    let phaseStart = this.cursor.cycleStart;
+    let current = phases[phases.length - 1];
+    for (const phase of phases) {
+      const phaseEnd = phaseStart + phase.duration;
+      if (atEnd ? time <= phaseEnd : time < phaseEnd) {
+        current = phase;
+        break;
+      }
+      phaseStart = phaseEnd;
+    }
+
+    const phaseElapsed = Math.min(Math.max(0, time - phaseStart), current.duration);
+    const phaseRemaining = current.duration - phaseElapsed;
+    return {
+      phase: current.phase,
+      phaseDuration: current.duration,
+      phaseElapsed,
+      phaseRemaining,
+      countdown: Math.ceil(BreathPhaseScheduler.toMs(phaseRemaining) / 1000),
+      progress: phaseElapsed / current.duration,
+      cycle: this.cursor.cycle,
+      cycleElapsed: time - this.cursor.cycleStart,
+      pattern: this.cursor.pattern,
+    };
+  }
+
+  private update(): void {
+    this.timer = null;
+    if (this.status !== 'running') return;
+
+    const elapsed = this.elapsed();
+    const limit = this.limits.duration ?? Infinity;
+
+    // Complete every cycle crossed since the last update, in order
+    let ending: BreathPosition | null = null;
+    while (this.status === 'running' && !this.cycleLimitReached()) {
+      const cycleEnd = this.cursor.cycleStart + TechniqueCatalogService.cycleSeconds(this.cursor.pattern);
+      if (elapsed < cycleEnd || cycleEnd > limit) break;
+
+      ending = this.positionAt(cycleEnd, true);
+      const swapped = this.cursor.pendingPattern !== null;
+      this.cursor = this.advance(this.cursor, cycleEnd);
+
+      this.emit('cycle_completed', ending);
+      if (swapped) {
+        this.emit('pattern_changed', this.positionAt(cycleEnd));
+      }
+    }
+    if (this.status !== 'running') return; // a listener paused or stopped it
+
+    if (this.cycleLimitReached()) {
+      this.finish('completed', ending ?? this.positionAt(this.cursor.cycleStart, true));
+      return;
+    }
+    if (elapsed >= limit) {
+      this.finish('completed', this.cursor.cycleStart >= limit && ending ? ending : this.positionAt(limit, true));
+      return;
+    }
+
+    const position = this.positionAt(elapsed);
+    if (!this.currentPhase || this.currentPhase.cycle !== position.cycle || this.currentPhase.phase !== position.phase) {
+      this.currentPhase = { cycle: position.cycle, phase: position.phase };
+      this.countdown = position.countdown;
+      this.emit('phase_started', position);
+    } else if (position.countdown < this.countdown) {
+      this.countdown = position.countdown;
+      this.emit('countdown', position);
+    }
+
+    this.schedule(elapsed, position, limit);
+  }
+
+  private cycleLimitReached(): boolean {
+    return this.limits.maxCycles !== null && this.cursor.cycle > this.limits.maxCycles;
+  }
+
+  /**
+   * Wake at the end of the phase, the next whole second of countdown or the
+   * duration limit, whichever comes first
+   */
+  private schedule(elapsed: number, position: BreathPosition, limit: number): void {
+    const remaining = BreathPhaseScheduler.toMs(position.phaseRemaining);
+    const untilCount = remaining % 1000 || Math.min(remaining, 1000);
+    const untilLimit = Math.ceil((limit - elapsed) * 1000);
+
+    // At least 1 ms, so a boundary a fraction of a ms away cannot spin
+    this.timer = this.clock.setTimeout(() => this.update(), Math.max(1, Math.min(untilCount, untilLimit)));
+  }
+
+  private finish(status: 'completed' | 'stopped', position: BreathPosition): void {
+    this.clearTimer();
+    this.pausedAt = null;
+    this.status = status;
+    this.finalPosition = position;
+    this.emit(status, position);
+  }
+
+  private emit(type: BreathSchedulerEventType, position: BreathPosition): void {
+    const event: BreathSchedulerEvent = { type, timestamp: this.clock.now(), position };
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Breath scheduler ${type} listener failed:`, error);
+      }
+    });
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { AudioBreathingSignal, BreathPhaseEvent } from '../types/vitalSigns';
+import { BreathSoundAnalysisService } from './BreathSoundAnalysisService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+const generator = new SyntheticVitalSignsGenerator({
+  seed: 9,
+  breathing: { inhale: 4, holdAfterInhale: 1, exhale: 6, holdAfterExhale: 1 },
+});
+
+/**
+ * Breath-sound phases that disagree with the breathing that produced them,
+ * judged at the middle of each phase
+ */
+const mislabelled = (phases: BreathPhaseEvent[]): BreathPhaseEvent[] =>
+  phases.filter(event => event.phase !== 'pause' && generator.breathPhaseAt((event.start + event.end) / 2) !== event.phase);
+
+/**
+ * The recording with the breath sound between two times replaced by the
+ * silence of a hold, as if the microphone had missed it
+ */
+const silence = (signal: AudioBreathingSignal, start: number, end: number): AudioBreathingSignal => {
+  const quiet = signal.timestamps.map(timestamp => timestamp >= start && timestamp < end);
+  return {
+    ...signal,
+    amplitude: signal.amplitude.map((value, i) => (quiet[i] ? 0.002 : value)),
+    frequency: signal.frequency.map((value, i) => (quiet[i] ? 300 : value)),
+  };
+};
+
+describe('BreathSoundAnalysisService.detectPhases', () => {
+  const signal = generator.audioBreathingSignal(0, 60);
+
+  it('labels every inhale and exhale of a recorded breathing pattern', () => {
+    const phases = BreathSoundAnalysisService.detectPhases(signal);
+
+    expect(phases.filter(event => event.phase === 'inhale').length).toBeGreaterThanOrEqual(4);
+    expect(phases.filter(event => event.phase === 'exhale').length).toBeGreaterThanOrEqual(4);
+    expect(mislabelled(phases)).toEqual([]);
+  });
+
+  it('keeps the labels after a missed exhale', () => {
+    // The second cycle's exhale runs from 17 s to 23 s
+    const phases = BreathSoundAnalysisService.detectPhases(silence(signal, 16500, 23500));
+
+    expect(phases.some(event => event.start >= 24000 && event.phase === 'inhale')).toBe(true);
+    expect(mislabelled(phases)).toEqual([]);
+  });
+
+  it('keeps the labels after an extra sound event', () => {
+    // A short bright sniff in the middle of the hold after the first exhale
+    const sniff = signal.timestamps.map(timestamp => timestamp >= 11200 && timestamp < 11800);
+    const noisy: AudioBreathingSignal = {
+      ...signal,
+      amplitude: signal.amplitude.map((value, i) => (sniff[i] ? 0.05 : value)),
+      frequency: signal.frequency.map((value, i) => (sniff[i] ? 1250 : value)),
+    };
+    const phases = BreathSoundAnalysisService.detectPhases(noisy);
+    const breaths = phases.filter(event => event.end <= 11000 || event.start >= 12000);
+
+    expect(breaths.filter(event => event.phase !== 'pause').length).toBeGreaterThanOrEqual(8);
+    expect(mislabelled(breaths)).toEqual([]);
+  });
+});
+
+describe('BreathSoundAnalysisService.analyze', () => {
+  it('measures the breathing rate and phase durations', () => {
+    const breathing = BreathSoundAnalysisService.analyze(generator.audioBreathingSignal(0, 60))!;
+
+    expect(breathing.breathsPerMinute).toBeCloseTo(5, 0);
+    expect(breathing.exhaleDuration!).toBeGreaterThan(breathing.inhaleDuration!);
+    expect(breathing.source).toBe('audio_analysis');
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Breath Sound Analysis Service
+ * Envelope and spectral features from microphone PCM, and inhale/exhale/pause
+ * segmentation of the resulting breathing signal
+ */
+
+import { AudioBreathingSignal, BreathingData, BreathPhaseEvent } from '../types/vitalSigns';
+import { SignalProcessingService } from './SignalProcessingService';
+import { ClockService } from './ClockService';
+
+interface BreathEvent {
+  start: number; // feature index
+  end: number; // feature index, exclusive
+  level: number; // mean dB
+  frequency: number; // amplitude-weighted mean RMS frequency, Hz
+}
+
+export class BreathSoundAnalysisService {
+  static readonly FEATURE_RATE = 20; // Hz, one feature per 50 ms of audio
+  static readonly MIN_EVENT_SECONDS = 0.3;
+  static readonly MIN_GAP_SECONDS = 0.1; // shorter dips are merged into the event
+  static readonly MIN_DYNAMIC_RANGE = 6; // dB between noise floor and breath level
+  static readonly FULL_DYNAMIC_RANGE = 20; // dB
+  static readonly MIN_EVENTS = 4;
+  static readonly MIN_FREQUENCY_SEPARATION = 0.05; // relative gap between inhale and exhale RMS frequency
+  static readonly MIN_LENGTH_SEPARATION = 0.15; // relative gap between inhale and exhale durations
+  static readonly MIN_CLUSTER_SEPARABILITY = 0.8; // share of the variance between the two groups (0.75 for evenly spread values)
+
+  /**
+   * Envelope and spectral features of one block of PCM. Amplitude is the RMS
+   * after pre-emphasis (which suppresses hum and handling rumble); frequency is
+   * the RMS frequency, the square root of the second spectral moment.
+   */
+  static blockFeatures(block: number[], sampleRate: number): { amplitude: number; frequency: number } {
+    if (block.length < 2) return { amplitude: 0, frequency: 0 };
+
+    const mean = block.reduce((sum, value) => sum + value, 0) / block.length;
+    let energy = 0;
+    let emphasized = 0;
+    let slope = 0;
+    for (let i = 0; i < block.length; i++) {
+      const value = block[i] - mean;
+      energy += value * value;
+      if (i > 0) {
+        const difference = block[i] - block[i - 1];
+        emphasized += (block[i] - 0.97 * block[i - 1]) ** 2;
+        slope += difference * difference;
+      }
+    }
+
+    return {
+      amplitude: Math.sqrt(emphasized / (block.length - 1)),
+      frequency: energy > 0 ? (sampleRate / (2 * Math.PI)) * Math.sqrt(slope / energy) : 0,
+    };
+  }
+
+  /**
+   * Features for a whole recording (e.g. a decoded WAV file)
+   */
+  static extractFeatures(samples: number[], sampleRate: number, startTime: number = 0): AudioBreathingSignal {
+    const hop = Math.max(2, Math.round(sampleRate / this.FEATURE_RATE));
+    const timestamps: number[] = [];
+    const amplitude: number[] = [];
+    const frequency: number[] = [];
+
+    for (let start = 0; start + hop <= samples.length; start += hop) {
+      const features = this.blockFeatures(samples.slice(start, start + hop), sampleRate);
+      timestamps.push(startTime + (start / sampleRate) * 1000);
+      amplitude.push(features.amplitude);
+      frequency.push(features.frequency);
+    }
+
+    return {
+      timestamps,
+      amplitude,
+      frequency,
+      sampleRate: sampleRate / hop,
+      quality: this.signalQuality(amplitude),
+    };
+  }
+
+  /**
+   * Quality from the envelope's dynamic range: 6 dB → 0, 20 dB → 1
+   */
+  static signalQuality(amplitude: number[]): number {
+    if (amplitude.length === 0) return 0;
+    const levels = this.toDecibels(amplitude);
+    const range = this.percentile(levels, 0.95) - this.percentile(levels, 0.1);
+    return Math.max(0, Math.min(1, (range - this.MIN_DYNAMIC_RANGE) / (this.FULL_DYNAMIC_RANGE - this.MIN_DYNAMIC_RANGE)));
+  }
+
+  /**
+   * Segment the signal into inhale, exhale and pause phases. Each sound event
+   * is classified from its own spectrum: events split into a higher and a
+   * lower RMS-frequency group, and the higher one is inhalation (turbulent
+   * flow at the nostrils). When the spectra are alike, the longer events are
+   * exhalation. Only when neither feature separates the events are they
+   * assumed to alternate, and the result is marked as not separated.
+   */
+  static detectPhases(signal: AudioBreathingSignal): BreathPhaseEvent[] {
+    return this.segment(signal)?.phases ?? [];
+  }
+
+  /**
+   * Breathing rate and per-phase durations from the segmented sound events
+   */
+  static analyze(signal: AudioBreathingSignal): BreathingData | null {
+    const segmentation = this.segment(signal);
+    if (!segmentation) return null;
+
+    const { phases, dynamicRange, separated } = segmentation;
+    const durations = (phase: BreathPhaseEvent['phase']) =>
+      phases.filter(event => event.phase === phase).map(event => (event.end - event.start) / 1000);
+
+    const inhaleOnsets = phases.filter(event => event.phase === 'inhale').map(event => event.start);
+    if (inhaleOnsets.length < 2) return null;
+
+    const cycles = inhaleOnsets.slice(1).map((onset, i) => (onset - inhaleOnsets[i]) / 1000);
+    const meanCycle = this.mean(cycles);
+    if (!(meanCycle > 0)) return null;
+
+    const inhales = durations('inhale');
+    const exhales = durations('exhale');
+    const pauses = durations('pause');
+    const cycleVariation = SignalProcessingService.standardDeviation(cycles) / meanCycle;
+
+    const rangeScore = Math.max(0, Math.min(1,
+      (dynamicRange - this.MIN_DYNAMIC_RANGE) / (this.FULL_DYNAMIC_RANGE - this.MIN_DYNAMIC_RANGE)
+    ));
+    const countScore = Math.min(1, cycles.length / 3);
+    const confidence = rangeScore * countScore * (separated ? 1 : 0.7);
+
+    return {
+      timestamp: new Date(ClockService.now()),
+      breathsPerMinute: Math.round((60 / meanCycle) * 10) / 10,
+      breathPattern: cycleVariation > 0.25 ? 'irregular' : 'regular',
+      inhaleDuration: inhales.length > 0 ? this.round(this.mean(inhales)) : undefined,
+      exhaleDuration: exhales.length > 0 ? this.round(this.mean(exhales)) : undefined,
+      holdDuration: pauses.length > 0 ? this.round(this.mean(pauses)) : undefined,
+      amplitude: Math.round(dynamicRange * 10) / 10,
+      confidence,
+      source: 'audio_analysis',
+      phases,
+    };
+  }
+
+  // Helper methods
+
+  private static segment(
+    signal: AudioBreathingSignal
+  ): { phases: BreathPhaseEvent[]; dynamicRange: number; separated: boolean } | null {
+    const { timestamps, amplitude, frequency, sampleRate } = signal;
+    if (amplitude.length < sampleRate * 4 || !(sampleRate > 0)) return null;
+
+    // Smooth the dB envelope to the time scale of a breath
+    const raw = this.toDecibels(amplitude);
+    const levels = sampleRate > 4
+      ? SignalProcessingService.butterworthFilter(raw, 'lowpass', 2, sampleRate, undefined, 3)
+      : raw;
+
+    const floor = this.percentile(levels, 0.1);
+    const peak = this.percentile(levels, 0.95);
+    const dynamicRange = peak - floor;
+    if (dynamicRange < this.MIN_DYNAMIC_RANGE) return null;
+
+    // Hysteresis thresholds between floor and breath level
+    const onThreshold = floor + 0.25 * dynamicRange;
+    const offThreshold = floor + 0.18 * dynamicRange;
+
+    let events: Array<{ start: number; end: number }> = [];
+    let start = -1;
+    for (let i = 0; i < levels.length; i++) {
+      if (start < 0 && levels[i] >= onThreshold) {
+        start = i;
+      } else if (start >= 0 && levels[i] < offThreshold) {
+        events.push({ start, end: i });
+        start = -1;
+      }
+    }
+    if (start >= 0) events.push({ start, end: levels.length });
+
+    const minGap = Math.round(this.MIN_GAP_SECONDS * sampleRate);
+    const minLength = Math.round(this.MIN_EVENT_SECONDS * sampleRate);
+    events = events.reduce<Array<{ start: number; end: number }>>((merged, event) => {
+      const previous = merged[merged.length - 1];
+      if (previous && event.start - previous.end < minGap) {
+        previous.end = event.end;
+      } else {
+        merged.push({ ...event });
+      }
+      return merged;
+    }, []).filter(event => event.end - event.start >= minLength);
+
+    // Events clipped by the window edges have unknown durations
+    events = events.filter(event => event.start > 0 && event.end < levels.length);
+    if (events.length < this.MIN_EVENTS) return null;
+
+    const described: BreathEvent[] = events.map(event => {
+      let weight = 0;
+      let weightedFrequency = 0;
+      for (let i = event.start; i < event.end; i++) {
+        weight += amplitude[i];
+        weightedFrequency += amplitude[i] * frequency[i];
+      }
+      return {
+        ...event,
+        level: this.mean(raw.slice(event.start, event.end)),
+        frequency: weight > 0 ? weightedFrequency / weight : 0,
+      };
+    });
+
+    // Classify every event on its own, so a missed or extra event cannot
+    // swap the labels of the events after it
+    const byFrequency = this.splitGroups(described.map(event => event.frequency), this.MIN_FREQUENCY_SEPARATION);
+    const byLength = this.splitGroups(described.map(event => event.end - event.start), this.MIN_LENGTH_SEPARATION);
+
+    let separated = true;
+    let isInhale: (event: BreathEvent, index: number) => boolean;
+    if (byFrequency !== null) {
+      isInhale = event => event.frequency > byFrequency;
+    } else if (byLength !== null) {
+      isInhale = event => event.end - event.start < byLength;
+    } else {
+      isInhale = (_, index) => index % 2 === 0;
+      separated = false;
+    }
+
+    const time = (index: number) =>
+      index < timestamps.length ? timestamps[index] : timestamps[timestamps.length - 1] + 1000 / sampleRate;
+
+    const phases: BreathPhaseEvent[] = [];
+    described.forEach((event, i) => {
+      const previous = described[i - 1];
+      if (previous && event.start > previous.end) {
+        phases.push({ phase: 'pause', start: time(previous.end), end: time(event.start) });
+      }
+      phases.push({ phase: isInhale(event, i) ? 'inhale' : 'exhale', start: time(event.start), end: time(event.end) });
+    });
+
+    return { phases, dynamicRange, separated };
+  }
+
+  /**
+   * Threshold splitting values into two groups (Otsu's method), or null when
+   * they do not form two distinct groups: the group means must differ by at
+   * least minSeparation of the larger one, and most of the variance must lie
+   * between the groups rather than within them
+   */
+  private static splitGroups(values: number[], minSeparation: number): number | null {
+    const sorted = values.slice().sort((a, b) => a - b);
+    const n = sorted.length;
+    const total = sorted.reduce((sum, value) => sum + value, 0);
+    const variance = sorted.reduce((sum, value) => sum + (value - total / n) ** 2, 0) / n;
+    if (n < 2 || !(variance > 0)) return null;
+
+    let best: { between: number; low: number; high: number } | null = null;
+    let lowSum = 0;
+    for (let i = 1; i < n; i++) {
+      lowSum += sorted[i - 1];
+      const low = lowSum / i;
+      const high = (total - lowSum) / (n - i);
+      const between = (i / n) * ((n - i) / n) * (high - low) ** 2;
+      if (!best || between > best.between) best = { between, low, high };
+    }
+
+    const { between, low, high } = best!;
+    if ((high - low) / Math.max(Math.abs(high), Math.abs(low)) < minSeparation) return null;
+    if (between / variance < this.MIN_CLUSTER_SEPARABILITY) return null;
+    return (low + high) / 2;
+  }
+
+  private static toDecibels(amplitude: number[]): number[] {
+    return amplitude.map(value => 20 * Math.log10(value + 1e-9));
+  }
+
+  private static percentile(values: number[], fraction: number): number {
+    if (values.length === 0) return 0;
+    const sorted = values.slice().sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(fraction * (sorted.length - 1))))];
+  }
+
+  private static mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private static round(seconds: number): number {
+    return Math.round(seconds * 10) / 10;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Camera Service
+ * Collects per-frame RGB means from a pluggable frame source and
+ * assembles them into PPG (finger) and rPPG (face) signal windows
+ */
+
+import {
+  CameraConfig,
+  CameraFrame,
+  FaceRegion,
+  FrameSource,
+  PPGSignal,
+  rPPGSignal,
+} from '../types/vitalSigns';
+import { NativeCameraFrameSource } from './NativeCameraFrameSource';
+
+export class CameraService {
+  private static frameSource: FrameSource | null = null;
+  private static frameBuffer: CameraFrame[] = [];
+  private static isMonitoring = false;
+
+  private static readonly BUFFER_SECONDS = 60;
+  private static readonly WINDOW_SECONDS = 10;
+  private static readonly MIN_WINDOW_SECONDS = 5;
+
+  /**
+   * Replace the frame source (e.g. with a file replay for offline debugging).
+   * Takes effect on the next call to startMonitoring.
+   */
+  static setFrameSource(source: FrameSource | null): void {
+    this.frameSource = source;
+  }
+
+  /**
+   * Get the active frame source, creating the native camera source by default
+   */
+  static getFrameSource(): FrameSource {
+    if (!this.frameSource) {
+      this.frameSource = new NativeCameraFrameSource();
+    }
+    return this.frameSource;
+  }
+
+  /**
+   * Start capturing frames
+   */
+  static async startMonitoring(config: CameraConfig): Promise<void> {
+    try {
+      if (this.isMonitoring) return;
+
+      this.frameBuffer = [];
+      await this.getFrameSource().start(config, (frame) => this.handleFrame(frame));
+      this.isMonitoring = true;
+
+      console.log(`CameraService started with ${this.getFrameSource().name} source`);
+    } catch (error) {
+      console.error('Failed to start camera monitoring:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop capturing frames
+   */
+  static async stopMonitoring(): Promise<void> {
+    try {
+      if (!this.isMonitoring) return;
+
+      await this.getFrameSource().stop();
+      this.isMonitoring = false;
+    } catch (error) {
+      console.error('Failed to stop camera monitoring:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a PPG signal from the most recent window of finger-on-lens frames.
+   * Respiration needs a longer window than heart rate, up to the buffer length.
+   */
+  static async getPPGSignal(windowSeconds: number = this.WINDOW_SECONDS): Promise<PPGSignal | null> {
+    const frames = this.getWindow(windowSeconds);
+    if (!frames) return null;
+
+    const redChannel = frames.map(frame => frame.red);
+    const greenChannel = frames.map(frame => frame.green);
+    const blueChannel = frames.map(frame => frame.blue);
+
+    return {
+      timestamps: frames.map(frame => frame.timestamp),
+      redChannel,
+      greenChannel,
+      blueChannel,
+      quality: this.assessContactQuality(redChannel, greenChannel),
+      fps: this.estimateFps(frames),
+    };
+  }
+
+  /**
+   * Build an rPPG signal from the most recent window of face frames
+   */
+  static async getrPPGSignal(): Promise<rPPGSignal | null> {
+    const frames = this.getWindow();
+    if (!frames) return null;
+
+    const faceFrames = frames.filter(frame => frame.faceRegion);
+    if (faceFrames.length === 0) return null;
+
+    const faceCoverage = faceFrames.length / frames.length;
+    const meanConfidence =
+      faceFrames.reduce((sum, frame) => sum + (frame.faceRegion as FaceRegion).confidence, 0) / faceFrames.length;
+
+    return {
+      timestamps: faceFrames.map(frame => frame.timestamp),
+      faceRegion: faceFrames[faceFrames.length - 1].faceRegion as FaceRegion,
+      roiSignal: faceFrames.map(frame => frame.green),
+      redChannel: faceFrames.map(frame => frame.red),
+      greenChannel: faceFrames.map(frame => frame.green),
+      blueChannel: faceFrames.map(frame => frame.blue),
+      quality: faceCoverage * meanConfidence,
+      fps: this.estimateFps(faceFrames),
+    };
+  }
+
+  /**
+   * Get a copy of the buffered frames
+   */
+  static getBufferedFrames(): CameraFrame[] {
+    return this.frameBuffer.slice();
+  }
+
+  /**
+   * Whether frames are currently being captured
+   */
+  static isCurrentlyMonitoring(): boolean {
+    return this.isMonitoring;
+  }
+
+  // Helper methods
+
+  private static handleFrame(frame: CameraFrame): void {
+    this.frameBuffer.push(frame);
+
+    const cutoff = frame.timestamp - this.BUFFER_SECONDS * 1000;
+    while (this.frameBuffer.length > 0 && this.frameBuffer[0].timestamp < cutoff) {
+      this.frameBuffer.shift();
+    }
+  }
+
+  private static getWindow(windowSeconds: number = this.WINDOW_SECONDS): CameraFrame[] | null {
+    if (this.frameBuffer.length < 2) return null;
+
+    const latest = this.frameBuffer[this.frameBuffer.length - 1].timestamp;
+    const window = this.frameBuffer.filter(frame => frame.timestamp >= latest - windowSeconds * 1000);
+    const span = (window[window.length - 1].timestamp - window[0].timestamp) / 1000;
+
+    return span >= this.MIN_WINDOW_SECONDS ? window : null;
+  }
+
+  private static estimateFps(frames: CameraFrame[]): number {
+    if (frames.length < 2) return 0;
+    const span = (frames[frames.length - 1].timestamp - frames[0].timestamp) / 1000;
+    return span > 0 ? (frames.length - 1) / span : 0;
+  }
+
+  /**
+   * A finger covering lens and flash saturates red while green and blue
+   * stay dark; anything else means the finger is off or only partly on.
+   */
+  private static assessContactQuality(red: number[], green: number[]): number {
+    const meanRed = red.reduce((sum, val) => sum + val, 0) / red.length;
+    const meanGreen = green.reduce((sum, val) => sum + val, 0) / green.length;
+
+    const brightness = Math.min(1, meanRed / 150);
+    const redDominance = meanRed > 0 ? Math.max(0, Math.min(1, (meanRed - meanGreen) / meanRed)) : 0;
+    const clipped = red.filter(val => val >= 254).length / red.length;
+
+    return Math.max(0, Math.min(1, brightness * redDominance * (1 - clipped)));
+  }
+}
@@ -0,0 +1,39 @@
+import { CameraVitalSignsService, VitalSignsReading } from './CameraVitalSignsService';
+import { FileReplayFrameSource } from './FileReplayFrameSource';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+describe('CameraVitalSignsService', () => {
+  const replay = (seconds: number) =>
+    new FileReplayFrameSource(new SyntheticVitalSignsGenerator({ seed: 2, heartRate: 70 }).frames(0, seconds), {
+      realtime: false,
+    });
+
+  it('analyzes the buffered frames once per hop rather than per frame', async () => {
+    const service = new CameraVitalSignsService();
+    service.setFrameSource(replay(20));
+    const readings: VitalSignsReading[] = [];
+    let qualityUpdates = 0;
+
+    await service.startMonitoring('ppg', reading => readings.push(reading), () => qualityUpdates++);
+
+    // 600 frames at a 1 s hop: one analysis per second of recording
+    expect(qualityUpdates).toBe(20);
+    expect(readings.length).toBeLessThanOrEqual(15);
+    expect(readings.length).toBeGreaterThan(0);
+    expect(Math.abs(readings[readings.length - 1].heartRate - 70)).toBeLessThanOrEqual(3);
+
+    await service.stopMonitoring();
+  });
+
+  it('follows the configured hop', async () => {
+    const service = new CameraVitalSignsService();
+    service.updateProcessingConfig({ analysisHopSeconds: 2 });
+    service.setFrameSource(replay(10));
+    let qualityUpdates = 0;
+
+    await service.startMonitoring('ppg', undefined, () => qualityUpdates++);
+
+    expect(qualityUpdates).toBe(5);
+    await service.stopMonitoring();
+  });
+});
@@ -1,8 +1,26 @@
 import { NativeModules, Platform } from 'react-native';
-
-interface VitalSignsReading {
+import {
+  ArtifactReport,
+  CameraConfig as FrameSourceConfig,
+  CameraFrame,
+  FrameSource,
+  MotionData,
+  PPGSignal,
+  PulseQualitySummary,
+  SignalGuidance,
+} from '../types/vitalSigns';
+import { SignalProcessingService } from './SignalProcessingService';
+import { SpO2Service } from './SpO2Service';
+import { RPPGService, RPPGAlgorithm } from './RPPGService';
+import { PPGRespirationService } from './PPGRespirationService';
+import { ArtifactDetectionService } from './ArtifactDetectionService';
+import { PulseQualityService } from './PulseQualityService';
+import { ClockService } from './ClockService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+export interface VitalSignsReading {
   heartRate: number;
-  hrv: number;
+  hrv?: number; // RMSSD, ms; needs a few clean beats in the window
   spO2?: number;
   breathingRate?: number;
   confidence: number;
@@ -23,12 +41,15 @@ interface CameraConfig {
 
 interface ProcessingConfig {
   windowSize: number; // Number of frames to analyze
+  respirationWindowSize: number; // Number of frames kept for breathing analysis
+  analysisHopSeconds: number; // Time between analyses of the buffered frames
   filterLowCut: number; // Hz
   filterHighCut: number; // Hz
   minHeartRate: number; // BPM
   maxHeartRate: number; // BPM
   noiseReduction: boolean;
   motionCompensation: boolean;
+  rppgAlgorithm: RPPGAlgorithm;
 }
 
 interface SignalQualityMetrics {
@@ -36,6 +57,9 @@ interface SignalQualityMetrics {
   motionLevel: number; // Motion artifact level
   lightingLevel: number; // Lighting quality
   contactQuality: number; // Finger contact quality (for PPG)
+  beatAcceptance: number; // Percentage of detected beats passing the SQI
+  perfusionIndex: number; // Pulsatile / static light, %
+  guidance: SignalGuidance | null; // What the user should adjust, if anything
   overallQuality: 'poor' | 'fair' | 'good' | 'excellent';
 }
 
@@ -43,8 +67,10 @@ export class CameraVitalSignsService {
   private isMonitoring: boolean = false;
   private currentConfig: CameraConfig;
   private processingConfig: ProcessingConfig;
-  private frameBuffer: number[][] = [];
-  private timeBuffer: number[] = [];
+  private frameBuffer: CameraFrame[] = [];
+  private latestMotion: MotionData | null = null;
+  private lastAnalysisTime: number | null = null; // timestamp of the frame last analyzed
+  private frameSource: FrameSource | null = null;
   private onVitalSignsUpdate?: (reading: VitalSignsReading) => void;
   private onSignalQualityUpdate?: (quality: SignalQualityMetrics) => void;
   private onError?: (error: string) => void;
@@ -62,12 +88,15 @@ export class CameraVitalSignsService {
 
     this.processingConfig = {
       windowSize: 300, // 10 seconds at 30 fps
+      respirationWindowSize: 1800, // 60 seconds at 30 fps
+      analysisHopSeconds: 1,
       filterLowCut: 0.5, // 30 BPM
       filterHighCut: 4.0, // 240 BPM
       minHeartRate: 40,
       maxHeartRate: 200,
       noiseReduction: true,
       motionCompensation: true,
+      rppgAlgorithm: 'pos',
     };
   }
 
@@ -125,7 +154,7 @@ export class CameraVitalSignsService {
       await this.stopCameraCapture();
       this.isMonitoring = false;
       this.frameBuffer = [];
-      this.timeBuffer = [];
+      this.lastAnalysisTime = null;
 
       console.log('Stopped vital signs monitoring');
     } catch (error) {
@@ -188,6 +217,11 @@ export class CameraVitalSignsService {
    * Start camera capture and frame processing
    */
   private async startCameraCapture(method: 'ppg' | 'rppg'): Promise<void> {
+    if (this.frameSource) {
+      await this.frameSource.start(this.frameSourceConfig(), (frame) => this.processFrame(method, frame));
+      return;
+    }
+
     // Simulate camera frame processing
     // In a real implementation, this would interface with native camera APIs
     this.simulateFrameProcessing(method);
@@ -197,10 +231,25 @@ export class CameraVitalSignsService {
    * Stop camera capture
    */
   private async stopCameraCapture(): Promise<void> {
+    await this.frameSource?.stop();
     // In a real implementation, this would stop native camera capture
     // NativeModules.CameraModule.stopCapture();
   }
 
+  /**
+   * Camera settings in the form frame sources take
+   */
+  private frameSourceConfig(): FrameSourceConfig {
+    return {
+      rearCamera: this.currentConfig.facing === 'back',
+      frontCamera: this.currentConfig.facing === 'front',
+      flashEnabled: this.currentConfig.torchEnabled,
+      resolution: `${this.currentConfig.resolution.width}x${this.currentConfig.resolution.height}`,
+      frameRate: this.currentConfig.fps,
+      autoFocus: this.currentConfig.autoFocus,
+    };
+  }
+
   /**
    * Request camera permission
    */
@@ -211,9 +260,16 @@ export class CameraVitalSignsService {
   }
 
   /**
-   * Simulate frame processing for demonstration
+   * Simulate frame processing for demonstration, with synthetic frames
+   * standing in for the native camera module
    */
   private simulateFrameProcessing(method: 'ppg' | 'rppg'): void {
+    const generator = new SyntheticVitalSignsGenerator({
+      method,
+      startTime: ClockService.now(),
+      fps: this.currentConfig.fps,
+    });
+
     const interval = setInterval(() => {
       if (!this.isMonitoring) {
         clearInterval(interval);
@@ -221,34 +277,38 @@ export class CameraVitalSignsService {
       }
 
       // Simulate frame capture and processing
-      const timestamp = Date.now();
-      
-      if (method === 'ppg') {
-        this.processPPGFrame(timestamp);
-      } else {
-        this.processRPPGFrame(timestamp);
-      }
+      this.processFrame(method, generator.frame(ClockService.now()));
     }, 1000 / this.currentConfig.fps);
   }
 
+  /**
+   * Route a captured frame to the pipeline for the monitoring method
+   */
+  private processFrame(method: 'ppg' | 'rppg', frame: CameraFrame): void {
+    if (method === 'ppg') {
+      this.processPPGFrame(frame);
+    } else {
+      this.processRPPGFrame(frame);
+    }
+  }
+
   /**
    * Process PPG frame (finger on camera)
    */
-  private processPPGFrame(timestamp: number): void {
-    // Simulate PPG signal extraction
-    const redChannel = this.extractRedChannel(); // Simulated
-    const signalQuality = this.assessSignalQuality(redChannel);
-    
+  private processPPGFrame(frame: CameraFrame): void {
     // Add to buffer
-    this.frameBuffer.push(redChannel);
-    this.timeBuffer.push(timestamp);
+    this.frameBuffer.push(frame);
     
     // Keep buffer size within limits
-    if (this.frameBuffer.length > this.processingConfig.windowSize) {
-      this.frameBuffer.shift();
-      this.timeBuffer.shift();
+    this.trimFrameBuffer();
+
+    // Frames are only buffered in between hops of the analysis
+    if (!this.isAnalysisDue(frame.timestamp)) {
+      return;
     }
 
+    const signalQuality = this.assessSignalQuality(this.analysisWindow().map(f => f.red), 'ppg');
+
     // Update signal quality
     this.onSignalQualityUpdate?.(signalQuality);
 
@@ -264,22 +324,20 @@ export class CameraVitalSignsService {
   /**
    * Process rPPG frame (face detection)
    */
-  private processRPPGFrame(timestamp: number): void {
-    // Simulate rPPG signal extraction from face regions
-    const faceROI = this.detectFaceROI(); // Simulated
-    const rgbSignals = this.extractRGBSignals(faceROI); // Simulated
-    const signalQuality = this.assessSignalQuality(rgbSignals);
-    
+  private processRPPGFrame(frame: CameraFrame): void {
     // Add to buffer
-    this.frameBuffer.push(rgbSignals);
-    this.timeBuffer.push(timestamp);
+    this.frameBuffer.push(frame);
     
     // Keep buffer size within limits
-    if (this.frameBuffer.length > this.processingConfig.windowSize) {
-      this.frameBuffer.shift();
-      this.timeBuffer.shift();
+    this.trimFrameBuffer();
+
+    // Frames are only buffered in between hops of the analysis
+    if (!this.isAnalysisDue(frame.timestamp)) {
+      return;
     }
 
+    const signalQuality = this.assessSignalQuality(this.analysisWindow().map(f => f.green), 'rppg');
+
     // Update signal quality
     this.onSignalQualityUpdate?.(signalQuality);
 
@@ -301,31 +359,42 @@ export class CameraVitalSignsService {
     }
 
     try {
+      // Finger PPG is strongest in red under the torch; face rPPG in green
+      const channel = this.analysisWindow().map(frame => (method === 'ppg' ? frame.red : frame.green));
+
+      // Skip the reading when too much of the window is corrupted
+      const artifacts = this.detectArtifacts(channel);
+      if (!artifacts.usable) {
+        return null;
+      }
+
       // Apply signal processing
-      const filteredSignal = this.applyBandpassFilter(this.frameBuffer);
-      const cleanSignal = this.removeNoiseAndArtifacts(filteredSignal);
+      const filteredSignal = this.applyBandpassFilter(channel);
+      const cleanSignal = this.removeNoiseAndArtifacts(filteredSignal, artifacts);
       
-      // Extract heart rate using FFT
-      const heartRate = this.extractHeartRate(cleanSignal);
-      
-      // Extract HRV from R-R intervals
-      const hrv = this.extractHRV(cleanSignal);
+      // Extract heart rate: chrominance projection for faces, spectral peak for fingers
+      const heartRate = method === 'rppg'
+        ? this.extractRPPGHeartRate() ?? this.extractHeartRate(cleanSignal)
+        : this.extractHeartRate(cleanSignal);
+      if (heartRate === null) {
+        return null;
+      }
+
+      // Extract HRV from R-R intervals between accepted beats
+      const pulseQuality = this.assessPulseQuality(channel);
+      const hrv = this.extractHRV(pulseQuality);
       
-      // Calculate confidence based on signal quality
-      const confidence = this.calculateConfidence(cleanSignal);
+      // Calculate confidence from the per-beat signal quality index
+      const confidence = this.calculateConfidence(pulseQuality);
       
       // Determine signal quality
       const signalQuality = this.determineSignalQuality(confidence);
 
-      // Additional metrics for rPPG
-      let spO2: number | undefined;
-      let breathingRate: number | undefined;
+      // Ratio-of-ratios SpO2 works on the raw channels, not the filtered trace
+      const spO2 = this.extractSpO2();
 
-      if (method === 'rppg') {
-        // rPPG can potentially extract SpO2 and breathing rate
-        spO2 = this.extractSpO2(cleanSignal);
-        breathingRate = this.extractBreathingRate(cleanSignal);
-      }
+      // Breathing modulates the pulse waveform; needs the longer respiration window
+      const breathingRate = this.extractBreathingRate(method);
 
       return {
         heartRate,
@@ -333,7 +402,7 @@ export class CameraVitalSignsService {
         spO2,
         breathingRate,
         confidence,
-        timestamp: new Date(),
+        timestamp: new Date(ClockService.now()),
         method,
         signalQuality,
       };
@@ -344,166 +413,197 @@ export class CameraVitalSignsService {
   }
 
   /**
-   * Simulate red channel extraction for PPG
+   * Apply bandpass filter to remove noise
    */
-  private extractRedChannel(): number[] {
-    // Simulate red channel intensity values
-    return Array.from({ length: 100 }, () => 
-      128 + 20 * Math.sin(Date.now() / 1000 * 2 * Math.PI) + Math.random() * 10
+  private applyBandpassFilter(signal: number[]): number[] {
+    // Zero-phase Butterworth over the heart-rate band (0.5-4 Hz by default)
+    return SignalProcessingService.butterworthFilter(
+      SignalProcessingService.removeMean(signal),
+      'bandpass',
+      4,
+      this.currentConfig.fps,
+      this.processingConfig.filterLowCut,
+      Math.min(this.processingConfig.filterHighCut, this.currentConfig.fps / 2 - 0.1)
     );
   }
 
   /**
-   * Simulate face ROI detection for rPPG
+   * Assemble frames (the analysis window by default) into a PPG signal
    */
-  private detectFaceROI(): { x: number; y: number; width: number; height: number } | null {
-    // Simulate face detection - in real implementation would use ML models
+  private buildPPGSignal(quality: number, frames: CameraFrame[] = this.analysisWindow()): PPGSignal {
     return {
-      x: 100,
-      y: 100,
-      width: 200,
-      height: 200,
+      timestamps: frames.map(frame => frame.timestamp),
+      redChannel: frames.map(frame => frame.red),
+      greenChannel: frames.map(frame => frame.green),
+      blueChannel: frames.map(frame => frame.blue),
+      quality,
+      fps: this.currentConfig.fps,
     };
   }
 
   /**
-   * Simulate RGB signal extraction from face ROI
+   * The most recent windowSize frames, used for heart rate, SpO2 and quality
    */
-  private extractRGBSignals(roi: any): number[] {
-    // Simulate RGB signals from face region
-    return Array.from({ length: 100 }, () => 
-      150 + 15 * Math.sin(Date.now() / 1000 * 2 * Math.PI) + Math.random() * 8
-    );
+  private analysisWindow(): CameraFrame[] {
+    return this.frameBuffer.slice(-this.processingConfig.windowSize);
   }
 
   /**
-   * Apply bandpass filter to remove noise
+   * Whether a hop has passed since the last analysis. A timestamp going
+   * backwards (a new recording) starts the hops again.
    */
-  private applyBandpassFilter(signal: number[][]): number[] {
-    // Simulate bandpass filtering (0.5-4 Hz for heart rate)
-    // In real implementation, would use proper DSP filtering
-    const flatSignal = signal.flat();
-    return flatSignal.map((value, index) => {
-      // Simple moving average as a basic low-pass filter
-      const windowSize = 5;
-      const start = Math.max(0, index - windowSize);
-      const end = Math.min(flatSignal.length, index + windowSize);
-      const sum = flatSignal.slice(start, end).reduce((a, b) => a + b, 0);
-      return sum / (end - start);
-    });
+  private isAnalysisDue(timestamp: number): boolean {
+    const last = this.lastAnalysisTime;
+    if (last !== null && timestamp >= last && timestamp - last < this.processingConfig.analysisHopSeconds * 1000) {
+      return false;
+    }
+
+    this.lastAnalysisTime = timestamp;
+    return true;
+  }
+
+  /**
+   * Drop frames older than both the analysis and respiration windows
+   */
+  private trimFrameBuffer(): void {
+    const capacity = Math.max(this.processingConfig.windowSize, this.processingConfig.respirationWindowSize);
+    if (this.frameBuffer.length > capacity) {
+      this.frameBuffer.splice(0, this.frameBuffer.length - capacity);
+    }
   }
 
   /**
    * Remove noise and motion artifacts
    */
-  private removeNoiseAndArtifacts(signal: number[]): number[] {
+  private removeNoiseAndArtifacts(signal: number[], artifacts: ArtifactReport): number[] {
     if (!this.processingConfig.noiseReduction) {
       return signal;
     }
 
-    // Simulate noise reduction and artifact removal
-    return signal.map((value, index) => {
-      // Simple outlier detection and replacement
-      if (index > 0 && index < signal.length - 1) {
-        const prev = signal[index - 1];
-        const next = signal[index + 1];
-        const diff1 = Math.abs(value - prev);
-        const diff2 = Math.abs(value - next);
-        
-        // If value is significantly different from neighbors, replace with average
-        if (diff1 > 30 && diff2 > 30) {
-          return (prev + next) / 2;
-        }
-      }
-      return value;
-    });
+    // The filtered signal is zero-mean, so muting bad stretches keeps them out of the spectrum
+    return signal.map((value, index) => (artifacts.cleanMask[index] === false ? 0 : value));
   }
 
   /**
-   * Extract heart rate using frequency domain analysis
+   * Run morphology (and, with motion compensation, accelerometer) artifact
+   * checks over a channel of the analysis window
    */
-  private extractHeartRate(signal: number[]): number {
-    // Simulate FFT-based heart rate extraction
-    // In real implementation, would use proper FFT and peak detection
-    
-    // Simulate heart rate between 60-100 BPM with some variation
-    const baseHeartRate = 70;
-    const variation = 10 * Math.sin(Date.now() / 10000);
-    const noise = (Math.random() - 0.5) * 5;
-    
-    let heartRate = baseHeartRate + variation + noise;
-    
-    // Clamp to realistic range
-    heartRate = Math.max(this.processingConfig.minHeartRate, 
-                        Math.min(this.processingConfig.maxHeartRate, heartRate));
-    
-    return Math.round(heartRate);
+  private detectArtifacts(channel: number[]): ArtifactReport {
+    return ArtifactDetectionService.detect(
+      this.analysisWindow().map(frame => frame.timestamp),
+      channel,
+      this.currentConfig.fps,
+      this.processingConfig.motionCompensation ? this.latestMotion : null
+    );
   }
 
   /**
-   * Extract HRV from R-R intervals
+   * Extract heart rate from the largest spectral peak in the allowed range
    */
-  private extractHRV(signal: number[]): number {
-    // Simulate HRV calculation
-    // In real implementation, would detect R peaks and calculate intervals
-    
-    // Simulate RMSSD (root mean square of successive differences)
-    const baseHRV = 35;
-    const variation = 10 * Math.cos(Date.now() / 15000);
-    const noise = (Math.random() - 0.5) * 8;
-    
-    let hrv = baseHRV + variation + noise;
-    hrv = Math.max(10, Math.min(80, hrv)); // Clamp to realistic range
-    
-    return Math.round(hrv);
+  private extractHeartRate(signal: number[]): number | null {
+    const peak = SignalProcessingService.dominantFrequency(
+      signal,
+      this.currentConfig.fps,
+      this.processingConfig.minHeartRate / 60,
+      this.processingConfig.maxHeartRate / 60
+    );
+
+    return peak ? Math.round(peak.frequency * 60) : null;
   }
 
   /**
-   * Extract SpO2 (oxygen saturation) for rPPG
+   * Extract heart rate from face RGB traces with CHROM or POS
    */
-  private extractSpO2(signal: number[]): number {
-    // Simulate SpO2 calculation
-    // In real implementation, would use red and infrared signal ratio
-    
-    const baseSpO2 = 98;
-    const variation = 2 * Math.sin(Date.now() / 20000);
-    const noise = (Math.random() - 0.5) * 1;
-    
-    let spO2 = baseSpO2 + variation + noise;
-    spO2 = Math.max(90, Math.min(100, spO2)); // Clamp to realistic range
-    
-    return Math.round(spO2);
+  private extractRPPGHeartRate(): number | null {
+    const frames = this.analysisWindow();
+    const faceFrames = frames.filter(frame => frame.faceRegion);
+    if (faceFrames.length === 0) return null;
+
+    const reading = RPPGService.estimateHeartRate(
+      {
+        timestamps: faceFrames.map(frame => frame.timestamp),
+        faceRegion: faceFrames[faceFrames.length - 1].faceRegion!,
+        roiSignal: faceFrames.map(frame => frame.green),
+        redChannel: faceFrames.map(frame => frame.red),
+        greenChannel: faceFrames.map(frame => frame.green),
+        blueChannel: faceFrames.map(frame => frame.blue),
+        quality: faceFrames.length / frames.length,
+        fps: this.currentConfig.fps,
+      },
+      this.processingConfig.rppgAlgorithm
+    );
+    if (!reading) return null;
+
+    return Math.max(this.processingConfig.minHeartRate,
+                    Math.min(this.processingConfig.maxHeartRate, reading.bpm));
   }
 
   /**
-   * Extract breathing rate from signal
+   * Extract HRV (RMSSD) from the intervals between consecutive accepted beats
    */
-  private extractBreathingRate(signal: number[]): number {
-    // Simulate breathing rate extraction
-    // In real implementation, would analyze low-frequency components
-    
-    const baseBreathingRate = 15;
-    const variation = 3 * Math.sin(Date.now() / 25000);
-    const noise = (Math.random() - 0.5) * 2;
-    
-    let breathingRate = baseBreathingRate + variation + noise;
-    breathingRate = Math.max(8, Math.min(25, breathingRate)); // Clamp to realistic range
-    
-    return Math.round(breathingRate);
+  private extractHRV(pulseQuality: PulseQualitySummary): number | undefined {
+    const beats = pulseQuality.beats;
+    const intervals: number[] = [];
+    for (let i = 1; i < beats.length; i++) {
+      if (beats[i - 1].accepted && beats[i].accepted) {
+        intervals.push(beats[i].timestamp - beats[i - 1].timestamp);
+      }
+    }
+    if (intervals.length < 3) return undefined;
+
+    let sumSquares = 0;
+    for (let i = 1; i < intervals.length; i++) {
+      sumSquares += (intervals[i] - intervals[i - 1]) ** 2;
+    }
+    return Math.round(Math.sqrt(sumSquares / (intervals.length - 1)));
   }
 
   /**
-   * Calculate confidence score based on signal quality
+   * Extract SpO2 (oxygen saturation) from the red/blue ratio of ratios
    */
-  private calculateConfidence(signal: number[]): number {
-    // Simulate confidence calculation based on signal stability
-    const variance = this.calculateVariance(signal);
-    const snr = this.calculateSNR(signal);
-    
-    // Higher confidence for lower variance and higher SNR
-    let confidence = Math.max(0, Math.min(100, 100 - variance / 10 + snr / 2));
-    
-    return Math.round(confidence);
+  private extractSpO2(): number | undefined {
+    const contactQuality = this.calculateContactQuality() / 100;
+    const estimate = SpO2Service.estimate(this.buildPPGSignal(contactQuality));
+
+    // Below the confidence gate we report nothing rather than a guess
+    return estimate ? Math.round(estimate.value) : undefined;
+  }
+
+  /**
+   * Extract breathing rate from the respiratory modulation of the pulse
+   */
+  private extractBreathingRate(method: 'ppg' | 'rppg'): number | undefined {
+    const frames = method === 'rppg'
+      ? this.frameBuffer.filter(frame => frame.faceRegion)
+      : this.frameBuffer;
+    if (frames.length < 2) return undefined;
+
+    const breathing = PPGRespirationService.estimateFromWaveform(
+      frames.map(frame => frame.timestamp),
+      frames.map(frame => (method === 'ppg' ? frame.red : frame.green)),
+      this.currentConfig.fps
+    );
+
+    // Until a full respiration window is buffered, or if the modulations disagree
+    return breathing ? Math.round(breathing.breathsPerMinute) : undefined;
+  }
+
+  /**
+   * Calculate confidence score from the beat-level SQI roll-up
+   */
+  private calculateConfidence(pulseQuality: PulseQualitySummary): number {
+    return Math.round(Math.max(0, Math.min(1, pulseQuality.quality)) * 100);
+  }
+
+  /**
+   * Score every beat in a channel of the analysis window
+   */
+  private assessPulseQuality(channel: number[]): PulseQualitySummary {
+    return PulseQualityService.assess(
+      this.analysisWindow().map(frame => frame.timestamp),
+      channel,
+      this.currentConfig.fps
+    );
   }
 
   /**
@@ -519,13 +619,23 @@ export class CameraVitalSignsService {
   /**
    * Assess signal quality metrics
    */
-  private assessSignalQuality(signal: number[]): SignalQualityMetrics {
-    const snr = this.calculateSNR(signal);
-    const motionLevel = this.calculateMotionLevel();
+  private assessSignalQuality(signal: number[], method: 'ppg' | 'rppg'): SignalQualityMetrics {
+    const pulseQuality = this.assessPulseQuality(signal);
+    const snr = pulseQuality.snr;
+    const motionLevel = this.calculateMotionLevel(signal);
     const lightingLevel = this.calculateLightingLevel();
     const contactQuality = this.calculateContactQuality();
+    const beatAcceptance = pulseQuality.acceptedRatio * 100;
     
-    const overallScore = (snr + (100 - motionLevel) + lightingLevel + contactQuality) / 4;
+    const overallScore = (pulseQuality.quality * 100 + (100 - motionLevel) + lightingLevel + contactQuality) / 4;
+
+    // Finger placement advice only makes sense for contact PPG
+    let guidance: SignalGuidance | null = null;
+    if (method === 'ppg') {
+      if (contactQuality < 50) guidance = 'cover_camera';
+      else if (motionLevel > 30) guidance = 'hold_still';
+      else guidance = pulseQuality.guidance;
+    }
     
     let overallQuality: 'poor' | 'fair' | 'good' | 'excellent';
     if (overallScore >= 90) overallQuality = 'excellent';
@@ -538,51 +648,64 @@ export class CameraVitalSignsService {
       motionLevel,
       lightingLevel,
       contactQuality,
+      beatAcceptance,
+      perfusionIndex: pulseQuality.perfusionIndex,
+      guidance,
       overallQuality,
     };
   }
 
   /**
-   * Calculate signal-to-noise ratio
+   * Motion level as the percentage of the window marked as artifact
    */
-  private calculateSNR(signal: number[]): number {
-    const mean = signal.reduce((a, b) => a + b, 0) / signal.length;
-    const signalPower = signal.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / signal.length;
-    const noisePower = Math.random() * 10 + 5; // Simulated noise
-    
-    return Math.max(0, Math.min(100, 20 * Math.log10(signalPower / noisePower)));
+  private calculateMotionLevel(signal: number[]): number {
+    return this.detectArtifacts(signal).artifactFraction * 100;
   }
 
   /**
-   * Calculate variance of signal
+   * Lighting level from the mean brightness of the analysis window: full
+   * marks between 60 and 200, falling towards black and towards clipping
    */
-  private calculateVariance(signal: number[]): number {
-    const mean = signal.reduce((a, b) => a + b, 0) / signal.length;
-    return signal.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / signal.length;
+  private calculateLightingLevel(): number {
+    const frames = this.analysisWindow();
+    if (frames.length === 0) return 0;
+
+    const brightness = frames.reduce((sum, frame) => sum + (frame.red + frame.green + frame.blue) / 3, 0) / frames.length;
+    if (brightness < 60) return (brightness / 60) * 100;
+    if (brightness > 200) return Math.max(0, ((255 - brightness) / 55) * 100);
+    return 100;
   }
 
   /**
-   * Simulate motion level assessment
+   * Finger contact quality (for PPG): a finger covering lens and torch
+   * saturates red while green stays dark, without clipping
    */
-  private calculateMotionLevel(): number {
-    // Simulate motion detection - in real implementation would use accelerometer
-    return Math.random() * 30; // 0-30% motion level
+  private calculateContactQuality(): number {
+    const frames = this.analysisWindow();
+    if (frames.length === 0) return 0;
+
+    const meanRed = frames.reduce((sum, frame) => sum + frame.red, 0) / frames.length;
+    const meanGreen = frames.reduce((sum, frame) => sum + frame.green, 0) / frames.length;
+    const brightness = Math.min(1, meanRed / 150);
+    const redDominance = meanRed > 0 ? Math.max(0, Math.min(1, (meanRed - meanGreen) / meanRed)) : 0;
+    const clipped = frames.filter(frame => frame.red >= 254).length / frames.length;
+
+    return brightness * redDominance * (1 - clipped) * 100;
   }
 
   /**
-   * Simulate lighting level assessment
+   * Replace the simulated camera with a frame source (e.g. a file replay).
+   * Takes effect on the next call to startMonitoring.
    */
-  private calculateLightingLevel(): number {
-    // Simulate lighting quality assessment
-    return 70 + Math.random() * 20; // 70-90% lighting quality
+  setFrameSource(source: FrameSource | null): void {
+    this.frameSource = source;
   }
 
   /**
-   * Simulate contact quality assessment (for PPG)
+   * Feed the latest accelerometer/gyroscope data used for motion artifact rejection
    */
-  private calculateContactQuality(): number {
-    // Simulate finger contact quality
-    return 80 + Math.random() * 15; // 80-95% contact quality
+  updateMotionData(motion: MotionData | null): void {
+    this.latestMotion = motion;
   }
 
   /**
@@ -0,0 +1,42 @@
+/**
+ * Clock Service
+ * The time source behind reading timestamps and replay scheduling. The
+ * system clock is used by default; a FakeClock makes offline replays
+ * deterministic.
+ */
+
+import { Clock, ClockTimer } from '../types/vitalSigns';
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  // Unaffected by wall-clock adjustments, for timing rather than timestamps
+  monotonicNow: () => performance.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (timer: ClockTimer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+};
+
+export class ClockService {
+  private static clock: Clock = systemClock;
+
+  /**
+   * Replace the clock (e.g. with a FakeClock for replay), or restore the
+   * system clock with null
+   */
+  static setClock(clock: Clock | null): void {
+    this.clock = clock ?? systemClock;
+  }
+
+  /**
+   * Get the active clock
+   */
+  static getClock(): Clock {
+    return this.clock;
+  }
+
+  /**
+   * Current time in ms
+   */
+  static now(): number {
+    return this.clock.now();
+  }
+}
@@ -0,0 +1,70 @@
+import { BreathPhaseEvent, CoherenceData, RRIntervalSample } from '../types/vitalSigns';
+import { CoherenceService } from './CoherenceService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+const rrIntervals = (generator: SyntheticVitalSignsGenerator, seconds: number): RRIntervalSample[] => {
+  const beats = generator.beatTimes(0, seconds * 1000);
+  return beats.slice(1).map((timestamp, i) => ({ timestamp, interval: timestamp - beats[i] }));
+};
+
+/**
+ * Inhale onsets every cycleSeconds, as a breathing sensor would report them
+ */
+const inhales = (cycleSeconds: number, seconds: number): BreathPhaseEvent[] =>
+  Array.from({ length: Math.floor(seconds / cycleSeconds) }, (_, i) => ({
+    phase: 'inhale',
+    start: i * cycleSeconds * 1000,
+    end: (i * cycleSeconds + 4) * 1000,
+  }));
+
+describe('CoherenceService.analyze', () => {
+  // The generator breathes 4 s in, 6 s out: 6 breaths/min, 0.1 Hz
+  const paced = () => new SyntheticVitalSignsGenerator({ seed: 17, rsaAmplitude: 8 });
+
+  it('finds a coherent rhythm at the paced breathing rate', () => {
+    const coherence = CoherenceService.analyze(rrIntervals(paced(), 70), inhales(10, 70))!;
+
+    expect(coherence.peakFrequency).toBeCloseTo(0.1, 3);
+    expect(coherence.score).toBeGreaterThan(0.8);
+    expect(coherence.ratio).toBeGreaterThan(4);
+    expect(coherence.breathingHeartSync).toBeGreaterThan(0.9);
+    expect(coherence.windowSeconds).toBe(CoherenceService.WINDOW_SECONDS);
+  });
+
+  it('sees no phase locking to breaths the heart is not following', () => {
+    const coherence = CoherenceService.analyze(rrIntervals(paced(), 70), inhales(7, 70))!;
+
+    expect(coherence.breathingHeartSync).toBeLessThan(0.3);
+  });
+
+  it('scores an erratic heart rhythm low', () => {
+    const erratic = new SyntheticVitalSignsGenerator({ seed: 17, rsaAmplitude: 0, beatJitter: 40 });
+    const coherence = CoherenceService.analyze(rrIntervals(erratic, 70))!;
+
+    expect(coherence.score).toBeLessThan(0.3);
+    expect(coherence.breathingHeartSync).toBeUndefined();
+  });
+
+  it('waits for a long enough window', () => {
+    expect(CoherenceService.analyze(rrIntervals(paced(), CoherenceService.MIN_WINDOW_SECONDS - 5))).toBeNull();
+  });
+});
+
+describe('CoherenceService.summarize', () => {
+  it('averages readings, counting sync only where it was measured', () => {
+    const reading = (score: number, ratio: number, breathingHeartSync?: number): CoherenceData => ({
+      timestamp: new Date(0),
+      score,
+      ratio,
+      peakFrequency: 0.1,
+      breathingHeartSync,
+      windowSeconds: 64,
+    });
+
+    const summary = CoherenceService.summarize([reading(0.8, 4, 0.9), reading(0.4, 2)]);
+
+    expect(summary.heartBrainCoherence).toBeCloseTo(0.6);
+    expect(summary.breathingHeartSync).toBeCloseTo(0.9);
+    expect(summary.coherenceRatio).toBe(3);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Coherence Service
+ * Heart rhythm coherence over a sliding window: how much of the heart rate
+ * power sits in a single narrow peak (the sine-wave-like rhythm of slow,
+ * paced breathing), and how tightly heart rate is phase-locked to breathing.
+ */
+
+import { BreathPhaseEvent, CoherenceData, RRIntervalSample } from '../types/vitalSigns';
+import { HRVAnalysisService } from './HRVAnalysisService';
+import { SignalProcessingService } from './SignalProcessingService';
+
+// Coherent rhythms fall in 0.04-0.26 Hz; total power spans VLF to HF
+const PEAK_SEARCH_BAND: [number, number] = [0.04, 0.26];
+const TOTAL_BAND: [number, number] = [0.0033, 0.4];
+
+export class CoherenceService {
+  static readonly WINDOW_SECONDS = 64;
+  static readonly MIN_WINDOW_SECONDS = 45;
+  static readonly PEAK_HALF_WIDTH = 0.015; // Hz either side of the peak
+  static readonly FREQUENCY_STEP = 0.002; // Hz
+  static readonly RESAMPLE_RATE = 4; // Hz, for phase synchrony
+  static readonly MIN_BREATH_CYCLES = 3;
+
+  /**
+   * Coherence of the RR intervals in the window ending at the latest beat.
+   * Breath phases, when given, add HR-breathing phase synchrony; they must
+   * come from an independent breathing sensor, not from the pulse itself.
+   */
+  static analyze(
+    samples: RRIntervalSample[],
+    breathPhases: BreathPhaseEvent[] = [],
+    windowSeconds: number = this.WINDOW_SECONDS
+  ): CoherenceData | null {
+    const clean = samples.filter(sample =>
+      sample.interval >= HRVAnalysisService.MIN_RR_MS && sample.interval <= HRVAnalysisService.MAX_RR_MS
+    );
+    if (clean.length < 3) return null;
+
+    const end = clean[clean.length - 1].timestamp;
+    const inWindow = clean.filter(sample => sample.timestamp >= end - windowSeconds * 1000);
+    const times = inWindow.map(sample => sample.timestamp / 1000);
+    const heartRate = inWindow.map(sample => 60000 / sample.interval);
+    if (times.length < 3 || times[times.length - 1] - times[0] < this.MIN_WINDOW_SECONDS) return null;
+
+    const spectrum = this.coherenceSpectrum(times, heartRate);
+    if (!spectrum) return null;
+
+    return {
+      timestamp: new Date(end),
+      ...spectrum,
+      breathingHeartSync: this.phaseSynchrony(times, heartRate, breathPhases) ?? undefined,
+      windowSeconds,
+    };
+  }
+
+  /**
+   * Average a series of windowed coherence readings for session analytics
+   */
+  static summarize(readings: CoherenceData[]): { heartBrainCoherence: number; breathingHeartSync: number; coherenceRatio: number } {
+    const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+    const synced = readings.filter(reading => reading.breathingHeartSync !== undefined);
+
+    return {
+      heartBrainCoherence: mean(readings.map(reading => reading.score)),
+      breathingHeartSync: mean(synced.map(reading => reading.breathingHeartSync as number)),
+      coherenceRatio: mean(readings.map(reading => reading.ratio)),
+    };
+  }
+
+  // Helper methods
+
+  private static coherenceSpectrum(
+    times: number[],
+    heartRate: number[]
+  ): Pick<CoherenceData, 'score' | 'ratio' | 'peakFrequency'> | null {
+    const frequencies: number[] = [];
+    for (let i = Math.ceil(TOTAL_BAND[0] / this.FREQUENCY_STEP); i * this.FREQUENCY_STEP <= TOTAL_BAND[1] + 1e-9; i++) {
+      frequencies.push(i * this.FREQUENCY_STEP);
+    }
+    const psd = HRVAnalysisService.lombScarglePSD(times, heartRate, frequencies);
+
+    let peakIndex = -1;
+    frequencies.forEach((frequency, i) => {
+      if (frequency >= PEAK_SEARCH_BAND[0] && frequency <= PEAK_SEARCH_BAND[1] && (peakIndex < 0 || psd[i] > psd[peakIndex])) {
+        peakIndex = i;
+      }
+    });
+    if (peakIndex < 0) return null;
+
+    const peakFrequency = frequencies[peakIndex];
+    let peakPower = 0;
+    let totalPower = 0;
+    for (let i = 0; i < frequencies.length; i++) {
+      const power = psd[i] * this.FREQUENCY_STEP;
+      totalPower += power;
+      if (Math.abs(frequencies[i] - peakFrequency) <= this.PEAK_HALF_WIDTH + 1e-9) peakPower += power;
+    }
+    if (totalPower <= 0) return null;
+
+    const remainder = totalPower - peakPower;
+    return {
+      score: peakPower / totalPower,
+      ratio: remainder > 0 ? peakPower / remainder : 0,
+      peakFrequency,
+    };
+  }
+
+  /**
+   * Phase-locking value between breathing and heart rate. Each signal's
+   * phase advances linearly by one cycle between its markers: inhale onsets
+   * for breathing, heart rate maxima for the pulse.
+   */
+  private static phaseSynchrony(times: number[], heartRate: number[], breathPhases: BreathPhaseEvent[]): number | null {
+    const onsets = breathPhases
+      .filter(event => event.phase === 'inhale')
+      .map(event => event.start / 1000)
+      .filter(onset => onset >= times[0] && onset <= times[times.length - 1])
+      .sort((a, b) => a - b);
+    if (onsets.length < this.MIN_BREATH_CYCLES + 1) return null;
+
+    const resampled = SignalProcessingService.resampleLinear(times, heartRate, this.RESAMPLE_RATE);
+    const filtered = SignalProcessingService.butterworthFilter(
+      resampled.values, 'bandpass', 2, this.RESAMPLE_RATE, 0.04, 0.5
+    );
+
+    // Heart rate maxima at least 60% of the typical breath apart
+    const cycles = onsets.slice(1).map((onset, i) => onset - onsets[i]).sort((a, b) => a - b);
+    const typicalCycle = cycles[Math.floor(cycles.length / 2)];
+    const minDistance = Math.max(1, Math.round(0.6 * typicalCycle * this.RESAMPLE_RATE));
+    const heartPeaks = SignalProcessingService.findPeaks(filtered, minDistance, 0).map(index => resampled.times[index]);
+    if (heartPeaks.length < this.MIN_BREATH_CYCLES + 1) return null;
+
+    let sumCos = 0;
+    let sumSin = 0;
+    let count = 0;
+    for (const t of resampled.times) {
+      const breathPhase = this.markerPhase(onsets, t);
+      const heartPhase = this.markerPhase(heartPeaks, t);
+      if (breathPhase === null || heartPhase === null) continue;
+
+      sumCos += Math.cos(breathPhase - heartPhase);
+      sumSin += Math.sin(breathPhase - heartPhase);
+      count++;
+    }
+
+    // Require at least a few breaths of overlap
+    if (count < this.MIN_BREATH_CYCLES * typicalCycle * this.RESAMPLE_RATE) return null;
+    return Math.sqrt(sumCos * sumCos + sumSin * sumSin) / count;
+  }
+
+  private static markerPhase(markers: number[], t: number): number | null {
+    for (let i = 0; i < markers.length - 1; i++) {
+      if (t >= markers[i] && t < markers[i + 1]) {
+        return (2 * Math.PI * (t - markers[i])) / (markers[i + 1] - markers[i]);
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Fake Clock
+ * Manually advanced clock for deterministic replay and tests. Timers fire
+ * only inside advance()/advanceTo(), in due-time order (ties in the order
+ * they were set), with now() reading the timer's due time.
+ */
+
+import { Clock, ClockTimer } from '../types/vitalSigns';
+
+interface PendingTimer {
+  id: number;
+  due: number;
+  callback: () => void;
+}
+
+export class FakeClock implements Clock {
+  private time: number;
+  private timers: PendingTimer[] = [];
+  private nextId = 1;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): ClockTimer {
+    const id = this.nextId++;
+    this.timers.push({ id, due: this.time + Math.max(0, delayMs || 0), callback });
+    return id;
+  }
+
+  clearTimeout(timer: ClockTimer): void {
+    this.timers = this.timers.filter(pending => pending.id !== timer);
+  }
+
+  /**
+   * Move time forward by ms, firing every timer that falls due on the way
+   */
+  advance(ms: number): void {
+    this.advanceTo(this.time + ms);
+  }
+
+  /**
+   * Move time forward to an absolute time, firing every timer that falls
+   * due on the way, including timers those callbacks set
+   */
+  advanceTo(time: number): void {
+    if (time < this.time) {
+      throw new Error('FakeClock cannot move backwards');
+    }
+
+    for (let next = this.nextDue(time); next; next = this.nextDue(time)) {
+      this.timers = this.timers.filter(pending => pending !== next);
+      this.time = next.due;
+      next.callback();
+    }
+    this.time = time;
+  }
+
+  /**
+   * Number of timers waiting to fire
+   */
+  pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  // Helper methods
+
+  private nextDue(limit: number): PendingTimer | null {
+    let next: PendingTimer | null = null;
+    for (const pending of this.timers) {
+      if (pending.due <= limit && (!next || pending.due < next.due || (pending.due === next.due && pending.id < next.id))) {
+        next = pending;
+      }
+    }
+    return next;
+  }
+}
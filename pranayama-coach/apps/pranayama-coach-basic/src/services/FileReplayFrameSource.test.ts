@@ -0,0 +1,64 @@
+import { CameraConfig, CameraFrame } from '../types/vitalSigns';
+import { FileReplayFrameSource } from './FileReplayFrameSource';
+
+const CAMERA_CONFIG: CameraConfig = {
+  rearCamera: true,
+  frontCamera: false,
+  flashEnabled: true,
+  resolution: '640x480',
+  frameRate: 30,
+  autoFocus: true,
+};
+
+describe('FileReplayFrameSource', () => {
+  it('parses an array of frames, sorted by timestamp', () => {
+    const source = FileReplayFrameSource.fromJSON(
+      JSON.stringify([
+        { timestamp: 66, red: 3, green: 2, blue: 1 },
+        { t: 33, r: 6, g: 5, b: 4 },
+      ])
+    );
+
+    expect(source.getFrames()).toEqual([
+      { timestamp: 33, red: 6, green: 5, blue: 4 },
+      { timestamp: 66, red: 3, green: 2, blue: 1 },
+    ]);
+  });
+
+  it('parses columnar channels', () => {
+    const source = FileReplayFrameSource.fromJSON(
+      JSON.stringify({ timestamps: [0, 33], redChannel: [1, 2], greenChannel: [3, 4], blueChannel: [5, 6] })
+    );
+
+    expect(source.getFrames()[1]).toEqual({ timestamp: 33, red: 2, green: 4, blue: 6 });
+  });
+
+  it('attaches face regions from CSV columns', () => {
+    const source = FileReplayFrameSource.fromCSV(
+      ['timestamp,red,green,blue,face_x,face_y,face_width,face_height', '0,10,20,30,1,2,3,4'].join('\n')
+    );
+
+    expect(source.getFrames()[0].faceRegion).toEqual({ x: 1, y: 2, width: 3, height: 4, confidence: 1 });
+  });
+
+  it('rejects rows that are not frames', () => {
+    expect(() => FileReplayFrameSource.fromJSON('[1, 2]')).toThrow('Invalid frame at row 1');
+    expect(() => FileReplayFrameSource.fromJSON('[{"timestamp": 0, "red": 1, "green": "x", "blue": 1}]')).toThrow(
+      'Invalid frame at row 1'
+    );
+    expect(() =>
+      FileReplayFrameSource.fromJSON('[{"timestamp": 0, "red": 1, "green": 1, "blue": 1, "faceRegion": {"x": 1}}]')
+    ).toThrow('Invalid face region at row 1');
+    expect(() => FileReplayFrameSource.fromJSON('"frames"')).toThrow('Unrecognized replay recording format');
+  });
+
+  it('replays every frame at once outside realtime mode', async () => {
+    const source = FileReplayFrameSource.fromCSV('t,r,g,b\n0,1,1,1\n33,2,2,2\n66,3,3,3', { realtime: false });
+    const frames: CameraFrame[] = [];
+
+    await source.start(CAMERA_CONFIG, frame => frames.push(frame));
+
+    expect(frames.map(frame => frame.red)).toEqual([1, 2, 3]);
+    expect(source.isRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * File Replay Frame Source
+ * Replays recorded RGB-mean traces (JSON or CSV) through the camera pipeline
+ * so customer-reported readings can be reproduced off-device
+ */
+
+import { CameraConfig, CameraFrame, ClockTimer, FaceRegion, FrameSource } from '../types/vitalSigns';
+import { ClockService } from './ClockService';
+
+interface ReplayOptions {
+  realtime: boolean; // false replays every frame as soon as start() is called
+  speed: number;     // playback speed multiplier in realtime mode
+  loop: boolean;
+}
+
+/**
+ * One frame as written in a recording, before it is validated. Columns may
+ * use the long or the short (t/r/g/b) names.
+ */
+interface ReplayRow {
+  timestamp?: unknown;
+  t?: unknown;
+  red?: unknown;
+  r?: unknown;
+  green?: unknown;
+  g?: unknown;
+  blue?: unknown;
+  b?: unknown;
+  faceRegion?: unknown;
+}
+
+export class FileReplayFrameSource implements FrameSource {
+  readonly name = 'file_replay';
+  private frames: CameraFrame[];
+  private options: ReplayOptions;
+  private timer: ClockTimer | null = null;
+  private running = false;
+
+  constructor(frames: CameraFrame[], options?: Partial<ReplayOptions>) {
+    if (frames.length === 0) {
+      throw new Error('Replay recording contains no frames');
+    }
+
+    this.frames = frames.slice().sort((a, b) => a.timestamp - b.timestamp);
+    this.options = { realtime: true, speed: 1, loop: false, ...options };
+  }
+
+  /**
+   * Parse a JSON recording. Accepts an array of frames, `{ frames: [...] }`,
+   * or columnar `{ timestamps, redChannel, greenChannel, blueChannel }` as
+   * produced by dumping a PPGSignal.
+   */
+  static fromJSON(text: string, options?: Partial<ReplayOptions>): FileReplayFrameSource {
+    const data: unknown = JSON.parse(text);
+
+    if (Array.isArray(data)) {
+      return new FileReplayFrameSource(data.map((row: unknown, index) => this.parseRow(row, index)), options);
+    }
+    if (!this.isObject(data)) {
+      throw new Error('Unrecognized replay recording format');
+    }
+
+    if (Array.isArray(data.frames)) {
+      return new FileReplayFrameSource(data.frames.map((row: unknown, index) => this.parseRow(row, index)), options);
+    }
+
+    if (Array.isArray(data.timestamps)) {
+      const red = data.redChannel ?? data.red;
+      const green = data.greenChannel ?? data.green;
+      const blue = data.blueChannel ?? data.blue;
+      if (!Array.isArray(red) || !Array.isArray(green) || !Array.isArray(blue)) {
+        throw new Error('Columnar recording must include red, green and blue channels');
+      }
+
+      const frames = data.timestamps.map((timestamp: unknown, index) =>
+        this.parseRow({ timestamp, red: red[index], green: green[index], blue: blue[index] }, index)
+      );
+      return new FileReplayFrameSource(frames, options);
+    }
+
+    throw new Error('Unrecognized replay recording format');
+  }
+
+  /**
+   * Parse a CSV recording with a header row. Required columns are
+   * timestamp (ms), red, green and blue (t/r/g/b also accepted); optional
+   * face_x, face_y, face_width, face_height and face_confidence columns
+   * attach a face region to each frame.
+   */
+  static fromCSV(text: string, options?: Partial<ReplayOptions>): FileReplayFrameSource {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0 && !line.startsWith('#'));
+    if (lines.length < 2) {
+      throw new Error('CSV recording must have a header and at least one frame');
+    }
+
+    const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+    const frames = lines.slice(1).map((line, index) => {
+      const values = line.split(',');
+      const row: Record<string, number> = {};
+      header.forEach((column, columnIndex) => {
+        row[column] = parseFloat(values[columnIndex]);
+      });
+
+      const frame: ReplayRow = { ...row };
+      if (row.face_x !== undefined && !isNaN(row.face_x)) {
+        const faceRegion: FaceRegion = {
+          x: row.face_x,
+          y: row.face_y,
+          width: row.face_width,
+          height: row.face_height,
+          confidence: row.face_confidence === undefined || isNaN(row.face_confidence) ? 1 : row.face_confidence,
+        };
+        frame.faceRegion = faceRegion;
+      }
+      return this.parseRow(frame, index);
+    });
+
+    return new FileReplayFrameSource(frames, options);
+  }
+
+  /**
+   * Load a recording through a caller-supplied file reader (fs.promises on a
+   * laptop, a file-system module on device). Format is chosen by extension.
+   */
+  static async fromFile(
+    path: string,
+    readFile: (path: string) => Promise<string>,
+    options?: Partial<ReplayOptions>
+  ): Promise<FileReplayFrameSource> {
+    const text = await readFile(path);
+    return path.toLowerCase().endsWith('.csv')
+      ? this.fromCSV(text, options)
+      : this.fromJSON(text, options);
+  }
+
+  async start(config: CameraConfig, onFrame: (frame: CameraFrame) => void): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    if (!this.options.realtime) {
+      // Looping has no meaning without a clock, so the recording plays once
+      this.frames.forEach(frame => onFrame({ ...frame }));
+      this.running = false;
+      return;
+    }
+
+    this.scheduleFrames(onFrame, 0);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      ClockService.getClock().clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Get the parsed frames
+   */
+  getFrames(): CameraFrame[] {
+    return this.frames.map(frame => ({ ...frame }));
+  }
+
+  // Helper methods
+
+  private scheduleFrames(onFrame: (frame: CameraFrame) => void, loopOffset: number): void {
+    const recordingStart = this.frames[0].timestamp;
+    const recordingSpan = this.frames[this.frames.length - 1].timestamp - recordingStart;
+    const clock = ClockService.getClock();
+    const clockStart = clock.now();
+    let index = 0;
+
+    const emitDue = () => {
+      if (!this.running) return;
+
+      const elapsed = (clock.now() - clockStart) * this.options.speed;
+      while (index < this.frames.length && this.frames[index].timestamp - recordingStart <= elapsed) {
+        const frame = this.frames[index];
+        // Shift timestamps on each loop so the stream stays monotonic
+        onFrame({ ...frame, timestamp: frame.timestamp + loopOffset });
+        index++;
+      }
+
+      if (index < this.frames.length) {
+        const wait = (this.frames[index].timestamp - recordingStart - elapsed) / this.options.speed;
+        this.timer = clock.setTimeout(emitDue, Math.max(0, wait));
+      } else if (this.options.loop) {
+        const frameInterval = recordingSpan / Math.max(1, this.frames.length - 1);
+        this.scheduleFrames(onFrame, loopOffset + recordingSpan + frameInterval);
+      } else {
+        this.running = false;
+        this.timer = null;
+      }
+    };
+
+    emitDue();
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static parseRow(value: unknown, index: number): CameraFrame {
+    if (!this.isObject(value)) {
+      throw new Error(`Invalid frame at row ${index + 1}`);
+    }
+
+    const row: ReplayRow = value;
+    const timestamp = Number(row.timestamp ?? row.t);
+    const red = Number(row.red ?? row.r);
+    const green = Number(row.green ?? row.g);
+    const blue = Number(row.blue ?? row.b);
+
+    if ([timestamp, red, green, blue].some(channel => !isFinite(channel))) {
+      throw new Error(`Invalid frame at row ${index + 1}`);
+    }
+
+    const frame: CameraFrame = { timestamp, red, green, blue };
+    if (row.faceRegion !== undefined && row.faceRegion !== null) {
+      frame.faceRegion = this.parseFaceRegion(row.faceRegion, index);
+    }
+    return frame;
+  }
+
+  private static parseFaceRegion(value: unknown, index: number): FaceRegion {
+    if (!this.isObject(value)) {
+      throw new Error(`Invalid face region at row ${index + 1}`);
+    }
+
+    const [x, y, width, height] = [value.x, value.y, value.width, value.height].map(Number);
+    const confidence = value.confidence === undefined ? 1 : Number(value.confidence);
+    if ([x, y, width, height, confidence].some(field => !isFinite(field))) {
+      throw new Error(`Invalid face region at row ${index + 1}`);
+    }
+
+    return { x, y, width, height, confidence };
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * File Replay Motion Source
+ * Replays recorded accelerometer and gyroscope samples through MotionService
+ * so motion-dependent readings can be reproduced off-device
+ */
+
+import { ClockTimer, MotionSample, MotionSensorSource } from '../types/vitalSigns';
+import { ClockService } from './ClockService';
+
+interface MotionReplayOptions {
+  realtime: boolean; // false replays every sample as soon as start() is called
+  speed: number;     // playback speed multiplier in realtime mode
+}
+
+interface MotionRecording {
+  accelerometer: MotionSample[];
+  gyroscope: MotionSample[];
+}
+
+interface TaggedSample {
+  sensor: 'accelerometer' | 'gyroscope';
+  sample: MotionSample;
+}
+
+export class FileReplayMotionSource implements MotionSensorSource {
+  readonly name = 'file_replay_motion';
+  private samples: TaggedSample[];
+  private options: MotionReplayOptions;
+  private timer: ClockTimer | null = null;
+  private running = false;
+
+  constructor(recording: MotionRecording, options?: Partial<MotionReplayOptions>) {
+    // One merged stream, so both sensors replay in recorded order
+    this.samples = [
+      ...recording.accelerometer.map(sample => ({ sensor: 'accelerometer' as const, sample })),
+      ...recording.gyroscope.map(sample => ({ sensor: 'gyroscope' as const, sample })),
+    ].sort((a, b) => a.sample.timestamp - b.sample.timestamp);
+
+    if (this.samples.length === 0) {
+      throw new Error('Motion recording contains no samples');
+    }
+
+    this.options = { realtime: true, speed: 1, ...options };
+  }
+
+  /**
+   * Recorded samples keep their own rate, so intervalMs is ignored
+   */
+  async start(
+    intervalMs: number,
+    onAccelerometer: (sample: MotionSample) => void,
+    onGyroscope: (sample: MotionSample) => void
+  ): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    const emit = ({ sensor, sample }: TaggedSample) =>
+      (sensor === 'accelerometer' ? onAccelerometer : onGyroscope)({ ...sample });
+
+    if (!this.options.realtime) {
+      this.samples.forEach(emit);
+      this.running = false;
+      return;
+    }
+
+    const clock = ClockService.getClock();
+    const clockStart = clock.now();
+    const recordingStart = this.samples[0].sample.timestamp;
+    let index = 0;
+
+    const emitDue = () => {
+      if (!this.running) return;
+
+      const elapsed = (clock.now() - clockStart) * this.options.speed;
+      while (index < this.samples.length && this.samples[index].sample.timestamp - recordingStart <= elapsed) {
+        emit(this.samples[index]);
+        index++;
+      }
+
+      if (index < this.samples.length) {
+        const wait = (this.samples[index].sample.timestamp - recordingStart - elapsed) / this.options.speed;
+        this.timer = clock.setTimeout(emitDue, Math.max(0, wait));
+      } else {
+        this.running = false;
+        this.timer = null;
+      }
+    };
+
+    emitDue();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      ClockService.getClock().clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+}
@@ -0,0 +1,379 @@
+import { GattCharacteristicDescription, SensorDescription, SensorReading } from '../types/sensor';
+import { BleSensorService } from './BleSensorService';
+import { BleUuid } from './BleUuid';
+import { ClockService } from './ClockService';
+import { FakeClock } from './FakeClock';
+import { GattProfileInterpreter } from './GattProfileInterpreter';
+import { MockBleTransport } from './MockBleTransport';
+import { VitalSignsService } from './VitalSignsService';
+
+const SERVICE_UUID = '0000fff0-0000-1000-8000-00805f9b34fb';
+const HEART_RATE_UUID = '0000fff1-0000-1000-8000-00805f9b34fb';
+
+const PULSE_SENSOR: SensorDescription = {
+  name: 'Pulse Sensor',
+  gattProfile: {
+    services: [{ uuid: SERVICE_UUID, characteristics: [{ uuid: HEART_RATE_UUID, dataFormat: 'uint8', unit: 'bpm' }] }],
+    standardProfiles: [
+      {
+        profileName: 'custom',
+        serviceUUID: SERVICE_UUID,
+        characteristicMappings: [{ metricName: 'heart_rate', characteristicUUID: HEART_RATE_UUID }],
+      },
+    ],
+  },
+  capabilities: { metrics: [{ name: 'heart_rate', unit: 'bpm', range: { min: 30, max: 220 } }] },
+};
+
+const THERMOMETER_UUID = '0000fff2-0000-1000-8000-00805f9b34fb';
+
+/**
+ * A single-characteristic sensor decoded from its dataFormat
+ */
+const thermometer = (characteristic: Omit<GattCharacteristicDescription, 'uuid'>): GattProfileInterpreter =>
+  new GattProfileInterpreter({
+    name: 'Thermometer',
+    gattProfile: {
+      services: [{ uuid: SERVICE_UUID, characteristics: [{ uuid: THERMOMETER_UUID, ...characteristic }] }],
+      standardProfiles: [
+        {
+          profileName: 'custom',
+          serviceUUID: SERVICE_UUID,
+          characteristicMappings: [{ metricName: 'body_temperature', characteristicUUID: THERMOMETER_UUID }],
+        },
+      ],
+    },
+  });
+
+const pulseSensorWith = (dataProcessing: SensorDescription['dataProcessing']): GattProfileInterpreter =>
+  new GattProfileInterpreter({ ...PULSE_SENSOR, dataProcessing });
+
+/**
+ * Decode one reading per second, or at the given times (ms)
+ */
+const decodeAll = (interpreter: GattProfileInterpreter, values: number[], times?: number[]): SensorReading[] =>
+  values.map((value, i) =>
+    interpreter.decode(HEART_RATE_UUID, Uint8Array.of(value), new Date(times ? times[i] : i * 1000))[0]
+  );
+
+const decodeValue = (interpreter: GattProfileInterpreter, bytes: number[]): number =>
+  interpreter.decode(THERMOMETER_UUID, Uint8Array.from(bytes), new Date(0))[0].rawValue;
+
+describe('GattProfileInterpreter decoding', () => {
+  it('honours the declared byte order, little-endian by default', () => {
+    expect(decodeValue(thermometer({ dataFormat: 'uint16' }), [0x01, 0x02])).toBe(0x0201);
+    expect(decodeValue(thermometer({ dataFormat: 'uint16', byteOrder: 'little' }), [0x01, 0x02])).toBe(0x0201);
+    expect(decodeValue(thermometer({ dataFormat: 'uint16', byteOrder: 'big' }), [0x01, 0x02])).toBe(0x0102);
+  });
+
+  it('reads signed, 32-bit and float formats', () => {
+    expect(decodeValue(thermometer({ dataFormat: 'int16' }), [0xfe, 0xff])).toBe(-2);
+    expect(decodeValue(thermometer({ dataFormat: 'int16', byteOrder: 'big' }), [0xff, 0x38])).toBe(-200);
+    expect(decodeValue(thermometer({ dataFormat: 'uint32' }), [0x01, 0x00, 0x00, 0x80])).toBe(0x80000001);
+    expect(decodeValue(thermometer({ dataFormat: 'uint32', byteOrder: 'big' }), [0x80, 0x00, 0x00, 0x01])).toBe(
+      0x80000001
+    );
+
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setFloat32(0, 36.6, true);
+    expect(decodeValue(thermometer({ dataFormat: 'float32' }), Array.from(bytes))).toBe(Math.fround(36.6));
+    new DataView(bytes.buffer).setFloat32(0, 36.6, false);
+    expect(decodeValue(thermometer({ dataFormat: 'float32', byteOrder: 'big' }), Array.from(bytes))).toBe(
+      Math.fround(36.6)
+    );
+  });
+
+  it('applies the scale factor, then the offset', () => {
+    const interpreter = thermometer({ dataFormat: 'int16', scaleFactor: 0.01, offset: -40, unit: '°C' });
+    const [reading] = interpreter.decode(THERMOMETER_UUID, Uint8Array.of(0x64, 0x19), new Date(0)); // 6500
+
+    expect(reading.rawValue).toBeCloseTo(25, 10);
+    expect(reading.unit).toBe('°C');
+  });
+});
+
+describe('GattProfileInterpreter filters', () => {
+  // A cutoff of 1/2π Hz makes RC one second, so readings a second apart mix half and half
+  const CUTOFF = 1 / (2 * Math.PI);
+  const values = (readings: SensorReading[]) => readings.map(reading => reading.value);
+
+  it('smooths with a first-order lowpass that adapts to the reading spacing', () => {
+    const lowpass = () => pulseSensorWith({ filters: [{ type: 'lowpass', parameters: { cutoff: CUTOFF } }] });
+
+    values(decodeAll(lowpass(), [60, 70, 70])).forEach((value, i) => expect(value).toBeCloseTo([60, 65, 67.5][i], 10));
+    // After a 3 s gap the new value weighs 3 / (1 + 3)
+    values(decodeAll(lowpass(), [60, 70, 70], [0, 1000, 4000])).forEach((value, i) =>
+      expect(value).toBeCloseTo([60, 65, 68.75][i], 10)
+    );
+  });
+
+  it('removes the level with a highpass', () => {
+    const highpass = pulseSensorWith({ filters: [{ type: 'highpass', parameters: { cutoff: CUTOFF } }] });
+
+    values(decodeAll(highpass, [60, 70, 70])).forEach((value, i) => expect(value).toBeCloseTo([0, 5, 2.5][i], 10));
+  });
+
+  it('chains highpass and lowpass for a bandpass', () => {
+    const bandpass = pulseSensorWith({
+      filters: [{ type: 'bandpass', parameters: { lowCutoff: CUTOFF, highCutoff: CUTOFF } }],
+    });
+
+    values(decodeAll(bandpass, [60, 70, 70])).forEach((value, i) => expect(value).toBeCloseTo([0, 2.5, 2.5][i], 10));
+  });
+
+  it('passes the level through a notch and cancels its frequency', () => {
+    const notch = pulseSensorWith({
+      filters: [{ type: 'notch', parameters: { frequency: 0.25, sampleRate: 1, quality: 1 } }],
+    });
+    // 0.25 Hz sampled once a second: 80, 90, 80, 70, ...
+    const input = Array.from({ length: 60 }, (_, i) => 80 + [0, 10, 0, -10][i % 4]);
+    const output = values(decodeAll(notch, input));
+
+    expect(output[0]).toBe(80);
+    output.slice(-8).forEach(value => expect(Math.abs(value - 80)).toBeLessThan(0.1));
+  });
+
+  it('skips a notch without a sample rate', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const notch = pulseSensorWith({ filters: [{ type: 'notch', parameters: { frequency: 0.25 } }] });
+
+    expect(warn).toHaveBeenCalledWith('Sensor filter "notch" is not supported and will be skipped');
+    expect(values(decodeAll(notch, [60, 70]))).toEqual([60, 70]);
+    warn.mockRestore();
+  });
+
+  it('tracks the level with a Kalman filter', () => {
+    const kalman = pulseSensorWith({
+      filters: [{ type: 'kalman', parameters: { processNoise: 1, measurementNoise: 4 } }],
+    });
+
+    // Gain 5/9 on the second reading, then the estimate already matches
+    values(decodeAll(kalman, [60, 69, 65])).forEach((value, i) => expect(value).toBeCloseTo([60, 65, 65][i], 10));
+  });
+});
+
+describe('GattProfileInterpreter timeouts', () => {
+  afterEach(() => ClockService.setClock(null));
+
+  it('reports a metric once it stops reporting for longer than the threshold', () => {
+    const interpreter = new GattProfileInterpreter(PULSE_SENSOR);
+    decodeAll(interpreter, [60, 61, 60]);
+
+    expect(interpreter.checkTimeouts(7000)).toEqual([]);
+    expect(interpreter.checkTimeouts(7001)).toEqual(['heart_rate']);
+  });
+
+  it('resets the filters and outlier history after a gap', () => {
+    const interpreter = pulseSensorWith({ filters: [{ type: 'moving_average', parameters: { windowSize: 3 } }] });
+    const readings = decodeAll(
+      interpreter,
+      [60, 61, 60, 61, 60, 61, 90, 91],
+      [0, 1000, 2000, 3000, 4000, 5000, 20000, 21000]
+    );
+
+    // Without the reset 90 would be an outlier and averaged with the old level
+    expect(readings[6]).toMatchObject({ value: 90, valid: true, flags: ['after_timeout'] });
+    expect(readings[7]).toMatchObject({ value: 90.5, valid: true, flags: [] });
+  });
+
+  it('times readings and timeouts with the injected clock', () => {
+    const clock = new FakeClock(100000);
+    ClockService.setClock(clock);
+    const interpreter = new GattProfileInterpreter(PULSE_SENSOR);
+
+    const [reading] = interpreter.decode(HEART_RATE_UUID, Uint8Array.of(60));
+    expect(reading.timestamp.getTime()).toBe(100000);
+
+    clock.advance(5000);
+    expect(interpreter.checkTimeouts()).toEqual([]);
+    clock.advance(1);
+    expect(interpreter.checkTimeouts()).toEqual(['heart_rate']);
+  });
+});
+
+describe('GattProfileInterpreter aggregation', () => {
+  // 100 bpm leaves the 10 s window; 250 bpm is out of range
+  const decodeWindow = (method: 'mean' | 'median' | 'max' | 'min' | 'rms') => {
+    const interpreter = pulseSensorWith({ aggregation: { windowSize: 10, method } });
+    decodeAll(interpreter, [100, 60, 64, 250, 62, 70], [0, 20000, 21000, 22000, 23000, 24000]);
+    return interpreter;
+  };
+
+  it.each([
+    ['mean', 64],
+    ['median', 63],
+    ['max', 70],
+    ['min', 60],
+    ['rms', Math.sqrt((60 ** 2 + 64 ** 2 + 62 ** 2 + 70 ** 2) / 4)],
+  ] as const)('aggregates the valid readings in the window by %s', (method, expected) => {
+    expect(decodeWindow(method).aggregate('heart_rate', 25000)).toBeCloseTo(expected, 10);
+  });
+
+  it('returns null for a metric without readings in the window', () => {
+    const interpreter = decodeWindow('mean');
+
+    expect(interpreter.aggregate('oxygen_saturation', 25000)).toBeNull();
+    expect(interpreter.aggregate('heart_rate', 40000)).toBeNull();
+  });
+
+  it('ends the window at the injected clock time', () => {
+    ClockService.setClock(new FakeClock(25000));
+    expect(decodeWindow('mean').aggregate('heart_rate')).toBe(64);
+    ClockService.setClock(null);
+  });
+});
+
+describe('GattProfileInterpreter validation', () => {
+  it('flags a lone spike as an outlier and keeps the readings around it', () => {
+    const readings = decodeAll(new GattProfileInterpreter(PULSE_SENSOR), [60, 60, 61, 60, 60, 61, 60, 95, 61, 60]);
+
+    expect(readings.map(reading => reading.valid)).toEqual([true, true, true, true, true, true, true, false, true, true]);
+    expect(readings[7].flags).toEqual(['outlier']);
+  });
+
+  it('follows a step change after a few consecutive outliers', () => {
+    const readings = decodeAll(
+      new GattProfileInterpreter(PULSE_SENSOR),
+      [60, 60, 61, 60, 60, 61, 60, 70, 71, 72, 71, 72, 73, 72, 71, 72]
+    );
+    const flagged = readings.filter(reading => reading.flags.includes('outlier')).map(reading => reading.rawValue);
+
+    expect(flagged).toEqual([70, 71, 72]);
+    expect(readings.slice(10).every(reading => reading.valid)).toBe(true);
+  });
+
+  it('rejects values outside the declared range', () => {
+    const [reading] = decodeAll(new GattProfileInterpreter(PULSE_SENSOR), [250]);
+    expect(reading.flags).toEqual(['out_of_range']);
+  });
+});
+
+describe('GattProfileInterpreter.fromConfigJson', () => {
+  it('reads a Sensor document with its configuration nested in configJson', () => {
+    const interpreter = GattProfileInterpreter.fromConfigJson(
+      JSON.stringify({
+        configJson: { configuration: PULSE_SENSOR },
+        dataProcessing: { filters: [{ type: 'moving_average', parameters: { windowSize: 2 } }] },
+      })
+    );
+
+    expect(interpreter.description.name).toBe('Pulse Sensor');
+    expect(interpreter.getSubscriptions()).toEqual([{ serviceUUID: SERVICE_UUID, characteristicUUID: HEART_RATE_UUID }]);
+    expect(decodeAll(interpreter, [60, 62]).map(reading => reading.value)).toEqual([60, 61]);
+  });
+
+  it('rejects malformed configurations', () => {
+    expect(() => GattProfileInterpreter.fromConfigJson('[]')).toThrow('must be an object');
+    expect(() => GattProfileInterpreter.fromConfigJson({ gattProfile: {} })).toThrow('no gattProfile.services');
+    expect(() => GattProfileInterpreter.fromConfigJson({ gattProfile: { services: [{ uuid: 1 }] } })).toThrow(
+      'Invalid GATT service at index 0'
+    );
+    expect(() =>
+      GattProfileInterpreter.fromConfigJson({
+        ...PULSE_SENSOR,
+        gattProfile: { ...PULSE_SENSOR.gattProfile, standardProfiles: [{ serviceUUID: SERVICE_UUID }] },
+      })
+    ).toThrow('Invalid standard profile at index 0');
+    expect(() => GattProfileInterpreter.fromConfigJson({ ...PULSE_SENSOR, capabilities: ['heart_rate'] })).toThrow(
+      'Sensor capabilities must list metrics'
+    );
+  });
+});
+
+describe('BleSensorService through a mock transport', () => {
+  const STRAP = { id: 'strap-1', name: 'Chest Strap' };
+  const HEART_RATE_SERVICE = BleUuid.from16(0x180d);
+  const HEART_RATE_MEASUREMENT = BleUuid.from16(0x2a37);
+  const STRAP_SENSOR = {
+    configJson: {
+      configuration: {
+        name: 'Configured Strap',
+        gattProfile: {
+          services: [{ uuid: '180d', characteristics: [{ uuid: '2a37', dataFormat: 'bytes' }] }],
+          standardProfiles: [
+            {
+              profileName: 'heart_rate',
+              serviceUUID: '180d',
+              characteristicMappings: [
+                { metricName: 'heart_rate', characteristicUUID: '2a37', parser: 'heart_rate_measurement' },
+              ],
+            },
+          ],
+        },
+        capabilities: { metrics: [{ name: 'heart_rate', unit: 'bpm', range: { min: 30, max: 220 } }] },
+      },
+    },
+  };
+
+  let clock: FakeClock;
+  let transport: MockBleTransport;
+  let submitHeartRate: jest.SpyInstance;
+
+  beforeEach(() => {
+    clock = new FakeClock(600000);
+    ClockService.setClock(clock);
+    submitHeartRate = jest.spyOn(VitalSignsService, 'submitHeartRate');
+    transport = new MockBleTransport([
+      MockBleTransport.heartRateMonitor(STRAP, [
+        { bpm: 60, rrIntervals: [1000], contact: true },
+        { bpm: 62, rrIntervals: [968], contact: true },
+      ]),
+    ]);
+    BleSensorService.setTransport(transport);
+  });
+
+  afterEach(async () => {
+    await BleSensorService.disconnect();
+    transport.dispose();
+    BleSensorService.setTransport(null);
+    submitHeartRate.mockRestore();
+    ClockService.setClock(null);
+  });
+
+  it('interprets notifications from a stored configuration and feeds the vital signs pipeline', async () => {
+    const readings: SensorReading[] = [];
+    const unsubscribe = BleSensorService.onReading(reading => readings.push(reading));
+
+    await BleSensorService.connect(STRAP.id, JSON.stringify(STRAP_SENSOR));
+    expect(BleSensorService.getConnectionState()).toBe('connected');
+
+    clock.advance(2000);
+    unsubscribe();
+
+    expect(readings.map(reading => [reading.value, reading.timestamp.getTime(), reading.unit])).toEqual([
+      [60, 601000, 'bpm'],
+      [62, 602000, 'bpm'],
+    ]);
+    expect(BleSensorService.getLatestReadings()).toEqual([readings[1]]);
+    expect(submitHeartRate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ bpm: 62, confidence: 1, source: 'ble_heart_rate' })
+    );
+    expect(VitalSignsService.getRRIntervalSamples(600000)).toHaveLength(2);
+  });
+
+  it('reports a silent sensor and lowers confidence in the first reading after the gap', async () => {
+    await BleSensorService.connect(STRAP.id, STRAP_SENSOR);
+    clock.advance(2000);
+
+    clock.advance(5000);
+    expect(BleSensorService.getTimedOutMetrics()).toEqual([]);
+    clock.advance(1000);
+    expect(BleSensorService.getTimedOutMetrics()).toEqual(['heart_rate']);
+
+    transport.notify(STRAP.id, HEART_RATE_SERVICE, HEART_RATE_MEASUREMENT, [0x06, 64]);
+
+    expect(BleSensorService.getLatestReadings()[0]).toMatchObject({ value: 64, flags: ['after_timeout'] });
+    expect(submitHeartRate).toHaveBeenLastCalledWith(expect.objectContaining({ bpm: 64, confidence: 0.8 }));
+    expect(BleSensorService.getTimedOutMetrics()).toEqual([]);
+  });
+
+  it('stops interpreting after a disconnect', async () => {
+    await BleSensorService.connect(STRAP.id, STRAP_SENSOR);
+    await BleSensorService.disconnect();
+    clock.advance(2000);
+
+    expect(BleSensorService.getConnectionState()).toBe('disconnected');
+    expect(BleSensorService.getLatestReadings()).toEqual([]);
+    expect(submitHeartRate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,534 @@
+/**
+ * GATT Profile Interpreter
+ * Turns raw characteristic values from a configured sensor into validated,
+ * filtered readings, using the sensor description stored by the backend
+ * (gattProfile, capabilities and dataProcessing). One instance per
+ * connected device, since filters and validation keep per-metric state.
+ */
+
+import {
+  CharacteristicMapping,
+  GattCharacteristicDescription,
+  SensorAggregationConfig,
+  SensorDescription,
+  SensorFilterConfig,
+  SensorMetricName,
+  SensorReading,
+  SensorReadingFlag,
+  SensorValidationConfig,
+} from '../types/sensor';
+import { BleHeartRateService } from './BleHeartRateService';
+import { BlePulseOximeterService } from './BlePulseOximeterService';
+import { BleUuid } from './BleUuid';
+import { BleValueParser } from './BleValueParser';
+import { ClockService } from './ClockService';
+
+type ParsedValues = { values: Partial<Record<SensorMetricName, number>>; rrIntervals?: number[] };
+type ValueParser = (value: Uint8Array, metric: SensorMetricName) => ParsedValues;
+type StreamingFilter = (value: number, time: number) => number;
+
+interface MetricState {
+  filters: StreamingFilter[];
+  history: number[]; // recent accepted raw values, for outlier detection
+  rejected: number[]; // consecutive outliers since the last accepted value
+  readings: SensorReading[]; // for aggregation
+  lastTime: number | null;
+}
+
+interface ResolvedMapping extends CharacteristicMapping {
+  serviceUUID: string;
+  description?: GattCharacteristicDescription;
+}
+
+// Parsers a configuration can name in characteristicMappings[].parser
+const BUILT_IN_PARSERS: Record<string, ValueParser> = {
+  heart_rate_measurement: (value) => {
+    const measurement = BleHeartRateService.parseMeasurement(value);
+    return { values: { heart_rate: measurement.bpm }, rrIntervals: measurement.rrIntervals };
+  },
+  plx_continuous: (value) => {
+    const measurement = BlePulseOximeterService.parseContinuous(value);
+    return { values: { oxygen_saturation: measurement.spo2, heart_rate: measurement.pulseRate } };
+  },
+  plx_spot_check: (value) => {
+    const measurement = BlePulseOximeterService.parseSpotCheck(value);
+    return { values: { oxygen_saturation: measurement.spo2, heart_rate: measurement.pulseRate } };
+  },
+  sfloat: (value, metric) => ({ values: { [metric]: BleValueParser.sfloat(value, 0) } }),
+  float: (value, metric) => ({ values: { [metric]: BleValueParser.float(value, 0) } }),
+};
+
+const DEFAULT_VALIDATION: SensorValidationConfig = {
+  outlierDetection: true,
+  outlierThreshold: 3,
+  rangeValidation: true,
+  timeoutDetection: true,
+  timeoutThreshold: 5000,
+};
+
+const DEFAULT_AGGREGATION: SensorAggregationConfig = {
+  windowSize: 30,
+  method: 'mean',
+  overlap: 0,
+};
+
+export class GattProfileInterpreter {
+  static readonly OUTLIER_HISTORY = 30;
+  static readonly MIN_OUTLIER_HISTORY = 5;
+  static readonly MAX_CONSECUTIVE_OUTLIERS = 3; // then the level itself has changed
+
+  readonly description: SensorDescription;
+  private mappings: ResolvedMapping[];
+  private validation: SensorValidationConfig;
+  private aggregation: SensorAggregationConfig;
+  private metrics = new Map<SensorMetricName, MetricState>();
+
+  constructor(description: SensorDescription) {
+    this.description = description;
+    this.validation = { ...DEFAULT_VALIDATION, ...description.dataProcessing?.validation };
+    this.aggregation = { ...DEFAULT_AGGREGATION, ...description.dataProcessing?.aggregation };
+    this.mappings = this.resolveMappings(description);
+
+    if (this.mappings.length === 0) {
+      throw new Error(`Sensor "${description.name}" maps no characteristic to a metric`);
+    }
+
+    // Filters are rebuilt after every timeout, so report unusable ones once
+    (description.dataProcessing?.filters ?? []).forEach(config => {
+      if (config.enabled !== false && !this.createFilter(config)) {
+        console.warn(`Sensor filter "${config.type}" is not supported and will be skipped`);
+      }
+    });
+  }
+
+  /**
+   * Build an interpreter from a stored configuration: either a whole Sensor
+   * document (using configJson.configuration when present) or the raw config
+   * JSON that Sensor.createFromConfig accepts
+   */
+  static fromConfigJson(config: unknown): GattProfileInterpreter {
+    const parsed: unknown = typeof config === 'string' ? JSON.parse(config) : config;
+    if (!this.isObject(parsed)) {
+      throw new Error('Sensor configuration must be an object');
+    }
+    const configuration = this.isObject(parsed.configJson) ? parsed.configJson.configuration : undefined;
+    const source = this.isObject(configuration) ? configuration : parsed;
+
+    const gattProfile = source.gattProfile;
+    if (!this.isObject(gattProfile) || !Array.isArray(gattProfile.services)) {
+      throw new Error('Sensor configuration has no gattProfile.services');
+    }
+    gattProfile.services.forEach((service, i) => {
+      if (!this.isObject(service) || typeof service.uuid !== 'string' || !Array.isArray(service.characteristics) ||
+        !service.characteristics.every(characteristic => this.isObject(characteristic) && typeof characteristic.uuid === 'string')) {
+        throw new Error(`Invalid GATT service at index ${i}`);
+      }
+    });
+    if (gattProfile.standardProfiles !== undefined) {
+      if (!Array.isArray(gattProfile.standardProfiles)) {
+        throw new Error('gattProfile.standardProfiles must be an array');
+      }
+      gattProfile.standardProfiles.forEach((profile, i) => {
+        if (!this.isObject(profile) || typeof profile.serviceUUID !== 'string' || !Array.isArray(profile.characteristicMappings) ||
+          !profile.characteristicMappings.every(mapping => this.isCharacteristicMapping(mapping))) {
+          throw new Error(`Invalid standard profile at index ${i}`);
+        }
+      });
+    }
+
+    const capabilities = source.capabilities;
+    if (capabilities !== undefined && (!this.isObject(capabilities) || !Array.isArray(capabilities.metrics))) {
+      throw new Error('Sensor capabilities must list metrics');
+    }
+    // dataProcessing lives on the Sensor document, not inside the config
+    const dataProcessing = source.dataProcessing ?? parsed.dataProcessing;
+    if (dataProcessing !== undefined && (!this.isObject(dataProcessing) ||
+      (dataProcessing.filters !== undefined && !Array.isArray(dataProcessing.filters)))) {
+      throw new Error('Sensor dataProcessing must be an object with a filters array');
+    }
+
+    const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+    return new GattProfileInterpreter({
+      name: text(source.name) ?? 'Unnamed sensor',
+      manufacturer: text(source.manufacturer),
+      model: text(source.model),
+      gattProfile: gattProfile as SensorDescription['gattProfile'],
+      capabilities: capabilities as SensorDescription['capabilities'],
+      dataProcessing: dataProcessing as SensorDescription['dataProcessing'],
+    });
+  }
+
+  /**
+   * Characteristics to subscribe to, one entry per (service, characteristic)
+   */
+  getSubscriptions(): Array<{ serviceUUID: string; characteristicUUID: string }> {
+    const seen = new Set<string>();
+    return this.mappings
+      .filter(mapping => {
+        const key = `${mapping.serviceUUID}/${mapping.characteristicUUID}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map(({ serviceUUID, characteristicUUID }) => ({ serviceUUID, characteristicUUID }));
+  }
+
+  /**
+   * Decode one characteristic value into a reading per mapped metric,
+   * stamped with the injected clock unless a time is given
+   */
+  decode(characteristicUUID: string, value: Uint8Array, timestamp: Date = new Date(ClockService.now())): SensorReading[] {
+    const uuid = BleUuid.normalize(characteristicUUID);
+    const mappings = this.mappings.filter(mapping => mapping.characteristicUUID === uuid);
+
+    return mappings.map(mapping => {
+      const parsed = mapping.parser
+        ? BUILT_IN_PARSERS[mapping.parser](value, mapping.metricName)
+        : { values: { [mapping.metricName]: this.decodeFormatted(value, mapping.description) } };
+      const rawValue = parsed.values[mapping.metricName] ?? NaN;
+
+      return this.process(mapping, rawValue, timestamp, parsed.rrIntervals);
+    });
+  }
+
+  /**
+   * Metrics whose last reading is older than the configured timeout
+   */
+  checkTimeouts(now: number = ClockService.now()): SensorMetricName[] {
+    if (!this.validation.timeoutDetection) return [];
+
+    const expired: SensorMetricName[] = [];
+    this.metrics.forEach((state, metric) => {
+      if (state.lastTime !== null && now - state.lastTime > this.validation.timeoutThreshold) {
+        expired.push(metric);
+      }
+    });
+    return expired;
+  }
+
+  /**
+   * Aggregate of the valid readings of a metric over the configured window
+   */
+  aggregate(metric: SensorMetricName, now: number = ClockService.now()): number | null {
+    const state = this.metrics.get(metric);
+    if (!state) return null;
+
+    const values = state.readings
+      .filter(reading => reading.valid && now - reading.timestamp.getTime() <= this.aggregation.windowSize * 1000)
+      .map(reading => reading.value);
+    if (values.length === 0) return null;
+
+    switch (this.aggregation.method) {
+      case 'median': {
+        const sorted = values.slice().sort((a, b) => a - b);
+        const middle = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+      }
+      case 'max':
+        return Math.max(...values);
+      case 'min':
+        return Math.min(...values);
+      case 'rms':
+        return Math.sqrt(values.reduce((sum, value) => sum + value * value, 0) / values.length);
+      default:
+        return values.reduce((sum, value) => sum + value, 0) / values.length;
+    }
+  }
+
+  /**
+   * Forget filter state and history (e.g. after a reconnect)
+   */
+  reset(): void {
+    this.metrics.clear();
+  }
+
+  // Helper methods
+
+  private process(
+    mapping: ResolvedMapping,
+    rawValue: number,
+    timestamp: Date,
+    rrIntervals?: number[]
+  ): SensorReading {
+    const state = this.getMetricState(mapping.metricName);
+    const time = timestamp.getTime();
+    const flags: SensorReadingFlag[] = [];
+
+    // A gap longer than the timeout makes the filter history stale
+    if (
+      this.validation.timeoutDetection &&
+      state.lastTime !== null &&
+      time - state.lastTime > this.validation.timeoutThreshold
+    ) {
+      flags.push('after_timeout');
+      state.filters = this.createFilters();
+      state.history = [];
+      state.rejected = [];
+    }
+    state.lastTime = time;
+
+    if (!Number.isFinite(rawValue)) {
+      flags.push('not_a_number');
+    } else {
+      if (this.validation.rangeValidation && !this.inRange(mapping.metricName, rawValue)) {
+        flags.push('out_of_range');
+      }
+      if (this.validation.outlierDetection && this.isOutlier(state.history, rawValue)) {
+        flags.push('outlier');
+        this.trackOutlier(state, rawValue);
+      }
+    }
+
+    const valid = !flags.some(flag => flag !== 'after_timeout');
+    let value = rawValue;
+    if (valid) {
+      value = state.filters.reduce((filtered, filter) => filter(filtered, time), rawValue);
+      state.rejected = [];
+      state.history.push(rawValue);
+      if (state.history.length > GattProfileInterpreter.OUTLIER_HISTORY) state.history.shift();
+    }
+
+    const reading: SensorReading = {
+      metric: mapping.metricName,
+      value,
+      rawValue,
+      unit: mapping.description?.unit ?? this.capability(mapping.metricName)?.unit,
+      timestamp,
+      characteristicUUID: mapping.characteristicUUID,
+      valid,
+      flags,
+      rrIntervals: valid && rrIntervals && rrIntervals.length > 0 ? rrIntervals : undefined,
+    };
+
+    const windowStart = time - this.aggregation.windowSize * 1000;
+    state.readings = state.readings.filter(previous => previous.timestamp.getTime() >= windowStart);
+    state.readings.push(reading);
+
+    return reading;
+  }
+
+  private resolveMappings(description: SensorDescription): ResolvedMapping[] {
+    const characteristics = new Map<string, { serviceUUID: string; description: GattCharacteristicDescription }>();
+    description.gattProfile.services.forEach(service => {
+      service.characteristics.forEach(characteristic => {
+        characteristics.set(BleUuid.normalize(characteristic.uuid), {
+          serviceUUID: BleUuid.normalize(service.uuid),
+          description: characteristic,
+        });
+      });
+    });
+
+    const mappings: ResolvedMapping[] = [];
+    (description.gattProfile.standardProfiles ?? []).forEach(profile => {
+      profile.characteristicMappings.forEach(mapping => {
+        const characteristicUUID = BleUuid.normalize(mapping.characteristicUUID);
+        const known = characteristics.get(characteristicUUID);
+
+        if (mapping.parser && !BUILT_IN_PARSERS[mapping.parser]) {
+          throw new Error(`Unknown parser "${mapping.parser}" for ${mapping.metricName}`);
+        }
+        const format = known?.description.dataFormat ?? 'bytes';
+        if (!mapping.parser && ['string', 'bytes', 'custom'].includes(format)) {
+          throw new Error(`${mapping.metricName} needs a parser for ${format} data`);
+        }
+
+        mappings.push({
+          ...mapping,
+          characteristicUUID,
+          serviceUUID: known?.serviceUUID ?? BleUuid.normalize(profile.serviceUUID),
+          description: known?.description,
+        });
+      });
+    });
+
+    return mappings;
+  }
+
+  private decodeFormatted(value: Uint8Array, description?: GattCharacteristicDescription): number {
+    if (!description) return NaN;
+
+    const view = new DataView(value.buffer, value.byteOffset, value.byteLength);
+    const little = (description.byteOrder ?? 'little') === 'little';
+    let raw: number;
+
+    switch (description.dataFormat) {
+      case 'uint8': raw = view.getUint8(0); break;
+      case 'int8': raw = view.getInt8(0); break;
+      case 'uint16': raw = view.getUint16(0, little); break;
+      case 'int16': raw = view.getInt16(0, little); break;
+      case 'uint32': raw = view.getUint32(0, little); break;
+      case 'int32': raw = view.getInt32(0, little); break;
+      case 'float32': raw = view.getFloat32(0, little); break;
+      default: return NaN;
+    }
+
+    return raw * (description.scaleFactor ?? 1) + (description.offset ?? 0);
+  }
+
+  private getMetricState(metric: SensorMetricName): MetricState {
+    let state = this.metrics.get(metric);
+    if (!state) {
+      state = { filters: this.createFilters(), history: [], rejected: [], readings: [], lastTime: null };
+      this.metrics.set(metric, state);
+    }
+    return state;
+  }
+
+  private createFilters(): StreamingFilter[] {
+    return (this.description.dataProcessing?.filters ?? [])
+      .filter(config => config.enabled !== false)
+      .map(config => this.createFilter(config))
+      .filter((filter): filter is StreamingFilter => filter !== null);
+  }
+
+  /**
+   * Streaming versions of the configured filters. Cutoffs are in Hz and
+   * adapt to the actual spacing of readings.
+   */
+  private createFilter(config: SensorFilterConfig): StreamingFilter | null {
+    const parameters = config.parameters ?? {};
+
+    switch (config.type) {
+      case 'moving_average': {
+        const size = Math.max(1, Math.round(parameters.windowSize ?? 5));
+        const window: number[] = [];
+        return (value) => {
+          window.push(value);
+          if (window.length > size) window.shift();
+          return window.reduce((sum, v) => sum + v, 0) / window.length;
+        };
+      }
+      case 'kalman': {
+        const processNoise = parameters.processNoise ?? 1;
+        const measurementNoise = parameters.measurementNoise ?? 4;
+        let estimate: number | null = null;
+        let variance = measurementNoise;
+        return (value) => {
+          if (estimate === null) {
+            estimate = value;
+            return value;
+          }
+          variance += processNoise;
+          const gain = variance / (variance + measurementNoise);
+          estimate += gain * (value - estimate);
+          variance *= 1 - gain;
+          return estimate;
+        };
+      }
+      case 'lowpass':
+        return this.firstOrderFilter(parameters.cutoff ?? parameters.highCutoff ?? 1, 'lowpass');
+      case 'highpass':
+        return this.firstOrderFilter(parameters.cutoff ?? parameters.lowCutoff ?? 0.01, 'highpass');
+      case 'bandpass': {
+        const highpass = this.firstOrderFilter(parameters.lowCutoff ?? 0.01, 'highpass');
+        const lowpass = this.firstOrderFilter(parameters.highCutoff ?? 1, 'lowpass');
+        return (value, time) => lowpass(highpass(value, time), time);
+      }
+      case 'notch':
+        return this.notchFilter(parameters.frequency, parameters.sampleRate, parameters.quality ?? 10);
+      default:
+        return null;
+    }
+  }
+
+  private firstOrderFilter(cutoff: number, type: 'lowpass' | 'highpass'): StreamingFilter {
+    const rc = 1 / (2 * Math.PI * cutoff);
+    let lastTime: number | null = null;
+    let lastInput = 0;
+    let lastOutput = 0;
+
+    return (value, time) => {
+      if (lastTime === null) {
+        lastTime = time;
+        lastInput = value;
+        lastOutput = type === 'lowpass' ? value : 0;
+        return lastOutput;
+      }
+
+      const dt = Math.max(1e-3, (time - lastTime) / 1000);
+      lastOutput = type === 'lowpass'
+        ? lastOutput + (dt / (rc + dt)) * (value - lastOutput)
+        : (rc / (rc + dt)) * (lastOutput + value - lastInput);
+      lastTime = time;
+      lastInput = value;
+      return lastOutput;
+    };
+  }
+
+  /**
+   * Biquad notch; needs a fixed sample rate, so it is skipped without one
+   */
+  private notchFilter(frequency?: number, sampleRate?: number, quality: number = 10): StreamingFilter | null {
+    if (!frequency || !sampleRate || frequency >= sampleRate / 2) {
+      return null;
+    }
+
+    const omega = (2 * Math.PI * frequency) / sampleRate;
+    const alpha = Math.sin(omega) / (2 * quality);
+    const a0 = 1 + alpha;
+    const b = [1 / a0, (-2 * Math.cos(omega)) / a0, 1 / a0];
+    const a = [(-2 * Math.cos(omega)) / a0, (1 - alpha) / a0];
+    let x1: number | null = null;
+    let x2 = 0;
+    let y1 = 0;
+    let y2 = 0;
+
+    return (value) => {
+      if (x1 === null) {
+        // Start at steady state so the first output is not a transient
+        x1 = x2 = y1 = y2 = value;
+        return value;
+      }
+      const output = b[0] * value + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+      x2 = x1;
+      x1 = value;
+      y2 = y1;
+      y1 = output;
+      return output;
+    };
+  }
+
+  private inRange(metric: SensorMetricName, value: number): boolean {
+    const range = this.capability(metric)?.range;
+    if (!range) return true;
+    return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+  }
+
+  private isOutlier(history: number[], value: number): boolean {
+    if (history.length < GattProfileInterpreter.MIN_OUTLIER_HISTORY) return false;
+
+    const mean = history.reduce((sum, v) => sum + v, 0) / history.length;
+    const sd = Math.sqrt(history.reduce((sum, v) => sum + (v - mean) ** 2, 0) / history.length);
+    return sd > 0 && Math.abs(value - mean) > this.validation.outlierThreshold * sd;
+  }
+
+  /**
+   * History only holds accepted values, so a genuine step change (e.g. heart
+   * rate rising at the start of exercise) would be rejected forever. A run of
+   * consecutive outliers becomes the new reference instead.
+   */
+  private trackOutlier(state: MetricState, rawValue: number): void {
+    state.rejected.push(rawValue);
+    if (state.rejected.length >= GattProfileInterpreter.MAX_CONSECUTIVE_OUTLIERS) {
+      state.history = state.rejected;
+      state.rejected = [];
+    }
+  }
+
+  private capability(metric: SensorMetricName) {
+    return this.description.capabilities?.metrics.find(capability => capability.name === metric);
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static isCharacteristicMapping(value: unknown): boolean {
+    return (
+      this.isObject(value) &&
+      typeof value.metricName === 'string' &&
+      typeof value.characteristicUUID === 'string' &&
+      (value.parser === undefined || typeof value.parser === 'string')
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { RRIntervalSample } from '../types/vitalSigns';
+import { HRVAnalysisService } from './HRVAnalysisService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+/**
+ * RR intervals between consecutive synthetic beats, timestamped by the beat
+ * that ends each one
+ */
+const rrSamples = (generator: SyntheticVitalSignsGenerator, seconds: number): RRIntervalSample[] => {
+  const beats = generator.beatTimes(0, seconds * 1000);
+  return beats.slice(1).map((timestamp, i) => ({ timestamp, interval: timestamp - beats[i] }));
+};
+
+describe('HRVAnalysisService.cleanRRIntervals', () => {
+  it('drops implausible and ectopic intervals', () => {
+    expect(HRVAnalysisService.cleanRRIntervals([800, 810, 250, 790, 1200, 805, 2500, 800])).toEqual([
+      800, 810, 790, 805, 800,
+    ]);
+  });
+
+  it('does not let a bad first interval reject the beats after it', () => {
+    const cleaned = HRVAnalysisService.cleanRRIntervals([1400, 800, 810, 790, 805, 800, 795, 810]);
+    expect(cleaned).toEqual([800, 810, 790, 805, 800, 795, 810]);
+  });
+
+  it('keeps the deep sinus arrhythmia of slow paced breathing', () => {
+    const generator = new SyntheticVitalSignsGenerator({
+      seed: 3,
+      heartRate: 66,
+      rsaAmplitude: 12,
+      breathing: { inhale: 5, holdAfterInhale: 0, exhale: 5, holdAfterExhale: 0 },
+    });
+    const intervals = rrSamples(generator, 120).map(sample => sample.interval);
+
+    expect(HRVAnalysisService.cleanRRIntervals(intervals)).toHaveLength(intervals.length);
+  });
+});
+
+describe('HRVAnalysisService.frequencyDomain', () => {
+  // 10 s breaths put respiratory sinus arrhythmia at 0.1 Hz, in the LF band
+  const generator = new SyntheticVitalSignsGenerator({ seed: 7 });
+  const samples = rrSamples(generator, 180);
+
+  it('needs at least a minute of beats', () => {
+    expect(HRVAnalysisService.frequencyDomain(samples.slice(0, 40))).toBeNull();
+  });
+
+  it('finds the breathing rate as the LF peak', () => {
+    const spectral = HRVAnalysisService.frequencyDomain(samples)!;
+
+    expect(spectral.lfPeak).toBeCloseTo(0.1, 2);
+    expect(spectral.lf).toBeGreaterThan(spectral.hf);
+  });
+
+  it('keeps beat times across the gaps left by removed beats', () => {
+    const gappy = samples.filter((_, i) => i % 6 !== 3);
+    const spectral = HRVAnalysisService.frequencyDomain(gappy)!;
+
+    expect(spectral.lfPeak).toBeCloseTo(0.1, 2);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * HRV Analysis Service
+ * RR-interval cleaning and frequency-domain heart rate variability
+ */
+
+import { FrequencyDomainHRV, RRIntervalSample } from '../types/vitalSigns';
+
+// Standard HRV frequency bands (Task Force of ESC/NASPE, 1996)
+const VLF_BAND: [number, number] = [0.0033, 0.04];
+const LF_BAND: [number, number] = [0.04, 0.15];
+const HF_BAND: [number, number] = [0.15, 0.4];
+
+export class HRVAnalysisService {
+  static readonly MIN_RR_MS = 300;  // 200 BPM
+  static readonly MAX_RR_MS = 2000; // 30 BPM
+  static readonly MAX_MEDIAN_DEVIATION = 0.2;
+  static readonly MEDIAN_WINDOW_BEATS = 5; // short enough to follow deep sinus arrhythmia
+  static readonly MIN_SPECTRAL_SECONDS = 60;
+  static readonly FREQUENCY_STEP = 0.001; // Hz
+
+  /**
+   * Remove physiologically implausible and ectopic intervals.
+   * Intervals differing by more than 20% from the median of the plausible
+   * intervals around them are dropped, so a bad beat never becomes the
+   * reference for the beats after it.
+   */
+  static cleanRRIntervals(rrIntervals: number[]): number[] {
+    const normal = this.normalBeats(rrIntervals);
+    return rrIntervals.filter((_, index) => normal[index]);
+  }
+
+  /**
+   * cleanRRIntervals for timestamped intervals, keeping each beat's time
+   */
+  static cleanRRSamples(samples: RRIntervalSample[]): RRIntervalSample[] {
+    const normal = this.normalBeats(samples.map(sample => sample.interval));
+    return samples.filter((_, index) => normal[index]).map(sample => ({ ...sample }));
+  }
+
+  /**
+   * Frequency-domain HRV from timestamped RR intervals using the Lomb-Scargle
+   * periodogram, which handles the uneven sampling of beat times without
+   * resampling, including the gaps left by removed beats.
+   * Returns null when the series is too short to resolve the LF band.
+   */
+  static frequencyDomain(samples: RRIntervalSample[]): FrequencyDomainHRV | null {
+    if (samples.length < 3) return null;
+
+    // Each interval is sampled at the time of the beat that ends it
+    const times = samples.map(sample => sample.timestamp / 1000);
+    const rrIntervals = samples.map(sample => sample.interval);
+
+    const span = times[times.length - 1] - times[0];
+    if (span < this.MIN_SPECTRAL_SECONDS) return null;
+
+    // Integer multiples of the step keep peak frequencies on round values
+    const frequencies: number[] = [];
+    const firstStep = Math.ceil(VLF_BAND[0] / this.FREQUENCY_STEP);
+    const lastStep = Math.floor(HF_BAND[1] / this.FREQUENCY_STEP + 1e-9);
+    for (let i = firstStep; i <= lastStep; i++) {
+      frequencies.push(i * this.FREQUENCY_STEP);
+    }
+
+    const psd = this.lombScarglePSD(times, rrIntervals, frequencies);
+
+    const vlf = this.bandPower(frequencies, psd, VLF_BAND);
+    const lf = this.bandPower(frequencies, psd, LF_BAND);
+    const hf = this.bandPower(frequencies, psd, HF_BAND);
+
+    return {
+      vlf,
+      lf,
+      hf,
+      totalPower: vlf + lf + hf,
+      lfHfRatio: hf > 0 ? lf / hf : 0,
+      peakFrequency: this.peakFrequency(frequencies, psd, [LF_BAND[0], HF_BAND[1]]),
+      lfPeak: this.peakFrequency(frequencies, psd, LF_BAND),
+      hfPeak: this.peakFrequency(frequencies, psd, HF_BAND),
+      frequencies,
+      psd,
+    };
+  }
+
+  /**
+   * One-sided Lomb-Scargle power spectral density (units of value²/Hz),
+   * scaled so that integrating over frequency approximates the variance.
+   */
+  static lombScarglePSD(times: number[], values: number[], frequencies: number[]): number[] {
+    const n = values.length;
+    const mean = values.reduce((sum, val) => sum + val, 0) / n;
+    const centered = values.map(val => val - mean);
+    const span = times[n - 1] - times[0];
+    const meanInterval = n > 1 ? span / (n - 1) : 1;
+
+    return frequencies.map(frequency => {
+      const omega = 2 * Math.PI * frequency;
+
+      // Time offset that makes the sine and cosine terms orthogonal
+      let sin2 = 0;
+      let cos2 = 0;
+      for (let i = 0; i < n; i++) {
+        sin2 += Math.sin(2 * omega * times[i]);
+        cos2 += Math.cos(2 * omega * times[i]);
+      }
+      const tau = Math.atan2(sin2, cos2) / (2 * omega);
+
+      let yCos = 0;
+      let ySin = 0;
+      let cosSq = 0;
+      let sinSq = 0;
+      for (let i = 0; i < n; i++) {
+        const phase = omega * (times[i] - tau);
+        const c = Math.cos(phase);
+        const s = Math.sin(phase);
+        yCos += centered[i] * c;
+        ySin += centered[i] * s;
+        cosSq += c * c;
+        sinSq += s * s;
+      }
+
+      const power = 0.5 * ((cosSq > 0 ? (yCos * yCos) / cosSq : 0) + (sinSq > 0 ? (ySin * ySin) / sinSq : 0));
+      return 2 * power * meanInterval;
+    });
+  }
+
+  // Helper methods
+
+  private static normalBeats(rrIntervals: number[]): boolean[] {
+    const plausible = rrIntervals.map(interval => interval >= this.MIN_RR_MS && interval <= this.MAX_RR_MS);
+    const halfWindow = Math.floor(this.MEDIAN_WINDOW_BEATS / 2);
+
+    return rrIntervals.map((interval, index) => {
+      if (!plausible[index]) return false;
+
+      const neighbours: number[] = [];
+      const last = Math.min(rrIntervals.length - 1, index + halfWindow);
+      for (let i = Math.max(0, index - halfWindow); i <= last; i++) {
+        if (plausible[i]) neighbours.push(rrIntervals[i]);
+      }
+      neighbours.sort((a, b) => a - b);
+
+      const middle = Math.floor(neighbours.length / 2);
+      const median = neighbours.length % 2 === 1
+        ? neighbours[middle]
+        : (neighbours[middle - 1] + neighbours[middle]) / 2;
+      return Math.abs(interval - median) / median <= this.MAX_MEDIAN_DEVIATION;
+    });
+  }
+
+  private static bandPower(frequencies: number[], psd: number[], band: [number, number]): number {
+    let power = 0;
+    for (let i = 1; i < frequencies.length; i++) {
+      const mid = (frequencies[i] + frequencies[i - 1]) / 2;
+      if (mid >= band[0] && mid < band[1]) {
+        power += ((psd[i] + psd[i - 1]) / 2) * (frequencies[i] - frequencies[i - 1]);
+      }
+    }
+    return power;
+  }
+
+  private static peakFrequency(frequencies: number[], psd: number[], band: [number, number]): number {
+    let peak = 0;
+    let peakPower = -Infinity;
+    for (let i = 0; i < frequencies.length; i++) {
+      if (frequencies[i] >= band[0] && frequencies[i] <= band[1] && psd[i] > peakPower) {
+        peakPower = psd[i];
+        peak = frequencies[i];
+      }
+    }
+    return peak;
+  }
+}
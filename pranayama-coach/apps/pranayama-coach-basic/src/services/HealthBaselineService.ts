@@ -0,0 +1,92 @@
+/**
+ * Health Baseline Service
+ * Persists the user's personal HealthBaseline on the device
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BaselineSample, HealthBaseline } from '../types/user';
+
+export class HealthBaselineService {
+  private static readonly BASELINE_KEY = 'health_baseline';
+  private static readonly HISTORY_KEY = 'health_baseline_history';
+  static readonly MAX_HISTORY = 30;
+
+  /**
+   * Get the stored baseline, or null before anything has been measured
+   */
+  static async getBaseline(): Promise<HealthBaseline | null> {
+    try {
+      const stored = await AsyncStorage.getItem(this.BASELINE_KEY);
+      if (!stored) return null;
+
+      const baseline = JSON.parse(stored);
+      return {
+        ...baseline,
+        lastUpdated: new Date(baseline.lastUpdated),
+        resonanceAssessedAt: baseline.resonanceAssessedAt ? new Date(baseline.resonanceAssessedAt) : undefined,
+      };
+    } catch (error) {
+      console.error('Failed to get health baseline:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Merge updates into the stored baseline
+   */
+  static async updateBaseline(updates: Partial<HealthBaseline>): Promise<HealthBaseline> {
+    try {
+      const current = await this.getBaseline();
+      const baseline: HealthBaseline = { ...current, ...updates, lastUpdated: new Date() };
+
+      await AsyncStorage.setItem(this.BASELINE_KEY, JSON.stringify(baseline));
+      return baseline;
+    } catch (error) {
+      console.error('Failed to update health baseline:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Per-session resting samples, oldest first
+   */
+  static async getHistory(): Promise<BaselineSample[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.HISTORY_KEY);
+      if (!stored) return [];
+
+      return JSON.parse(stored).map((sample: BaselineSample) => ({ ...sample, timestamp: new Date(sample.timestamp) }));
+    } catch (error) {
+      console.error('Failed to get baseline history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Append a session sample, keeping the most recent MAX_HISTORY
+   */
+  static async addToHistory(sample: BaselineSample): Promise<BaselineSample[]> {
+    try {
+      const history = [...(await this.getHistory()), sample].slice(-this.MAX_HISTORY);
+      await AsyncStorage.setItem(this.HISTORY_KEY, JSON.stringify(history));
+      return history;
+    } catch (error) {
+      console.error('Failed to store baseline sample:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Forget the stored baseline and its history
+   */
+  static async clearBaseline(): Promise<void> {
+    try {
+      await Promise.all([
+        AsyncStorage.removeItem(this.BASELINE_KEY),
+        AsyncStorage.removeItem(this.HISTORY_KEY),
+      ]);
+    } catch (error) {
+      console.error('Failed to clear health baseline:', error);
+    }
+  }
+}
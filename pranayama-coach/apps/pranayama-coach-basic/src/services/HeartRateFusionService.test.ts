@@ -0,0 +1,79 @@
+import { HeartRateData, HeartRateSource } from '../types/vitalSigns';
+import { HeartRateFusionService } from './HeartRateFusionService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+const reading = (source: HeartRateSource, bpm: number, time: number, confidence: number = 0.9): HeartRateData => ({
+  timestamp: new Date(time),
+  bpm,
+  confidence,
+  source,
+});
+
+describe('HeartRateFusionService.update', () => {
+  beforeEach(() => HeartRateFusionService.reset());
+
+  it('gives nothing without a usable reading', () => {
+    expect(HeartRateFusionService.update([])).toBeNull();
+    expect(HeartRateFusionService.update([reading('camera_ppg', 0, 0), reading('camera_rppg', 70, 0, 0)])).toBeNull();
+  });
+
+  it('weights each source by how much it can be trusted', () => {
+    const fused = HeartRateFusionService.update([reading('ble_heart_rate', 66, 0), reading('camera_rppg', 70, 0, 0.5)])!;
+
+    expect(fused.source).toBe('ble_heart_rate');
+    expect(fused.bpm).toBe(66);
+    expect(fused.provenance!.map(contribution => contribution.accepted)).toEqual([true, true]);
+    expect(fused.provenance![0].weight).toBeGreaterThan(0.9);
+  });
+
+  it('follows the heart rate through each breath', () => {
+    // RSA swings the generator's heart rate 60-72 bpm over each 10 s breath
+    const generator = new SyntheticVitalSignsGenerator({ seed: 12 });
+
+    for (let second = 0; second < 60; second++) {
+      const truth = generator.heartRateAt(second * 1000);
+      const fused = HeartRateFusionService.update([
+        reading('camera_ppg', truth + (second % 2 ? 3 : -3), second * 1000),
+        reading('ble_heart_rate', truth, second * 1000 + 200),
+      ])!;
+
+      expect(Math.abs(fused.bpm - truth)).toBeLessThan(2.5);
+    }
+  });
+
+  it('gates out a reading far from the track, then re-acquires if it persists', () => {
+    HeartRateFusionService.update([reading('ble_heart_rate', 66, 0)]);
+    const gated = HeartRateFusionService.update([reading('ble_heart_rate', 67, 1000), reading('camera_rppg', 140, 1000)])!;
+
+    expect(gated.bpm).toBe(67);
+    expect(gated.provenance![1]).toMatchObject({ source: 'camera_rppg', accepted: false, weight: 0 });
+
+    const rejected = [2, 3, 4].map(second => HeartRateFusionService.update([reading('camera_rppg', 140, second * 1000)])!);
+    expect(rejected.map(fused => fused.bpm)).toEqual([67, 67, 67]);
+
+    const reacquired = HeartRateFusionService.update([reading('camera_rppg', 140, 5000)])!;
+    expect(reacquired.bpm).toBe(140);
+    expect(reacquired.provenance![0].accepted).toBe(true);
+  });
+
+  it('reports only the track when every reading of a cycle is gated out', () => {
+    HeartRateFusionService.update([{ ...reading('ble_heart_rate', 66, 0), rrIntervals: [905, 915] }]);
+    const fused = HeartRateFusionService.update([
+      { ...reading('camera_rppg', 140, 1000), quality: 0.9, rrIntervals: [430, 425] },
+    ])!;
+
+    expect(fused.bpm).toBe(66);
+    expect(fused.source).toBe('ble_heart_rate');
+    expect(fused.rrIntervals).toBeUndefined();
+    expect(fused.quality).toBeUndefined();
+    expect(fused.provenance).toEqual([{ source: 'camera_rppg', bpm: 140, confidence: 0.9, weight: 0, accepted: false }]);
+  });
+
+  it('starts a new track after a long gap', () => {
+    HeartRateFusionService.update([reading('ble_heart_rate', 66, 0)]);
+    const fused = HeartRateFusionService.update([reading('camera_ppg', 80, HeartRateFusionService.MAX_GAP_MS + 1000)])!;
+
+    expect(fused.bpm).toBe(80);
+    expect(HeartRateFusionService.getState()!.time.getTime()).toBe(HeartRateFusionService.MAX_GAP_MS + 1000);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Heart Rate Fusion Service
+ * Combines simultaneous heart-rate readings (finger PPG, face rPPG, BLE
+ * strap) into one stream with a scalar Kalman filter. Each reading's noise
+ * comes from its source's typical error scaled by its confidence, and
+ * readings that disagree too strongly with the track are gated out.
+ */
+
+import { HeartRateContribution, HeartRateData, HeartRateSource } from '../types/vitalSigns';
+
+interface FusionState {
+  bpm: number;
+  variance: number; // bpm²
+  time: number; // ms
+  source: HeartRateSource; // largest contributor of the last cycle with an accepted reading
+}
+
+// Typical error (SD, bpm) of a full-confidence reading from each source
+const SOURCE_NOISE: Record<HeartRateSource, number> = {
+  ble_heart_rate: 1.5,
+  ble_pulse_oximeter: 2.5,
+  camera_ppg: 3,
+  camera_rppg: 5,
+  manual: 5,
+};
+
+export class HeartRateFusionService {
+  private static state: FusionState | null = null;
+  private static consecutiveRejections = 0;
+
+  static readonly PROCESS_NOISE = 2; // bpm² per second the true rate may drift
+  static readonly GATE = 9; // squared innovation over its variance (3 SD)
+  static readonly MAX_REJECTIONS = 3; // cycles of all-rejected readings before re-acquiring
+  static readonly MAX_GAP_MS = 30000; // restart the track after this long without readings
+  static readonly MIN_CONFIDENCE = 0.1;
+
+  /**
+   * Fold this cycle's readings into the track and return the fused reading,
+   * or null when there was nothing to fuse
+   */
+  static update(readings: HeartRateData[]): HeartRateData | null {
+    const valid = readings
+      .filter(reading => reading.bpm > 0 && reading.confidence > 0)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    if (valid.length === 0) return null;
+
+    const latest = valid[valid.length - 1].timestamp.getTime();
+    if (this.state && latest - this.state.time > this.MAX_GAP_MS) {
+      this.state = null;
+    }
+
+    // Start (or re-acquire) the track from the most trustworthy reading
+    let seed: HeartRateData | null = null;
+    if (!this.state || this.consecutiveRejections >= this.MAX_REJECTIONS) {
+      seed = valid.reduce((a, b) => (this.measurementVariance(b) < this.measurementVariance(a) ? b : a));
+      this.state = {
+        bpm: seed.bpm,
+        variance: this.measurementVariance(seed),
+        time: seed.timestamp.getTime(),
+        source: seed.source,
+      };
+      this.consecutiveRejections = 0;
+    }
+
+    const contributions: HeartRateContribution[] = valid.map(reading => {
+      const contribution = { source: reading.source, bpm: reading.bpm, confidence: reading.confidence, weight: 0 };
+      if (reading === seed) return { ...contribution, accepted: true };
+
+      const state = this.state as FusionState;
+      const time = reading.timestamp.getTime();
+
+      // Predict: the rate wanders as a random walk between readings
+      const dt = Math.max(0, time - state.time) / 1000;
+      state.variance += this.PROCESS_NOISE * dt;
+      state.time = Math.max(state.time, time);
+
+      const variance = this.measurementVariance(reading);
+      const innovation = reading.bpm - state.bpm;
+      const innovationVariance = state.variance + variance;
+      const accepted = (innovation * innovation) / innovationVariance <= this.GATE;
+
+      if (accepted) {
+        const gain = state.variance / innovationVariance;
+        state.bpm += gain * innovation;
+        state.variance *= 1 - gain;
+      }
+
+      return { ...contribution, accepted };
+    });
+
+    const acceptedReadings = valid.filter((_, i) => contributions[i].accepted);
+    this.consecutiveRejections = acceptedReadings.length > 0 ? 0 : this.consecutiveRejections + 1;
+
+    // Each accepted reading's share of the information added this cycle
+    const totalInformation = acceptedReadings.reduce((sum, reading) => sum + 1 / this.measurementVariance(reading), 0);
+    valid.forEach((reading, i) => {
+      if (contributions[i].accepted) {
+        contributions[i].weight = (1 / this.measurementVariance(reading)) / totalInformation;
+      }
+    });
+
+    const state = this.state as FusionState;
+    const fused: HeartRateData = {
+      timestamp: new Date(state.time),
+      bpm: Math.round(state.bpm),
+      // 3 bpm posterior SD maps to 0.5
+      confidence: 1 / (1 + state.variance / 9),
+      source: state.source,
+      provenance: contributions,
+    };
+
+    // With every reading gated out, only the track itself is reported; the
+    // rejected readings' beats and signal quality describe something else
+    if (acceptedReadings.length === 0) return fused;
+
+    const primaryIndex = contributions.reduce((top, contribution, i) =>
+      contribution.weight > contributions[top].weight ? i : top, 0);
+    const primary = valid[primaryIndex];
+    state.source = primary.source;
+
+    return {
+      ...fused,
+      source: primary.source,
+      quality: primary.quality,
+      signalStrength: primary.signalStrength,
+      rrIntervals: primary.rrIntervals,
+    };
+  }
+
+  /**
+   * Current track, if any
+   */
+  static getState(): { bpm: number; sd: number; time: Date } | null {
+    return this.state
+      ? { bpm: this.state.bpm, sd: Math.sqrt(this.state.variance), time: new Date(this.state.time) }
+      : null;
+  }
+
+  /**
+   * Drop the track (e.g. when a new session starts)
+   */
+  static reset(): void {
+    this.state = null;
+    this.consecutiveRejections = 0;
+  }
+
+  // Helper methods
+
+  private static measurementVariance(reading: HeartRateData): number {
+    const sd = SOURCE_NOISE[reading.source] / Math.max(reading.confidence, this.MIN_CONFIDENCE);
+    return sd * sd;
+  }
+}
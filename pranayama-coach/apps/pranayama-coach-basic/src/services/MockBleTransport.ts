@@ -0,0 +1,248 @@
+/**
+ * Mock BLE Transport
+ * Scripted peripherals for exercising the BLE sensor clients without
+ * hardware: readable characteristic values, timed notifications and
+ * disconnects, and a log of every write
+ */
+
+import { BleDevice, BleTransport } from '../types/sensor';
+import { ClockTimer } from '../types/vitalSigns';
+import { BleUuid } from './BleUuid';
+import { ClockService } from './ClockService';
+
+export interface MockCharacteristic {
+  serviceUUID: string;
+  characteristicUUID: string;
+  value: number[];
+}
+
+export interface MockNotification extends MockCharacteristic {
+  afterMs: number; // delay after the characteristic is subscribed
+}
+
+export interface MockPeripheral {
+  device: BleDevice;
+  characteristics?: MockCharacteristic[]; // values returned by read()
+  notifications?: MockNotification[];
+  disconnectAfterMs?: number; // delay after connect
+  failConnect?: boolean;
+}
+
+interface OximeterReading {
+  spo2: number; // %
+  pulseRate: number; // bpm
+  pulseAmplitudeIndex?: number; // %
+}
+
+interface HeartRateBeat {
+  bpm: number;
+  rrIntervals?: number[]; // ms
+  energyExpended?: number; // kJ
+  contact?: boolean;
+}
+
+export class MockBleTransport implements BleTransport {
+  readonly name = 'mock_ble';
+  readonly writes: Array<{ deviceId: string } & MockCharacteristic> = [];
+  private peripherals: Map<string, MockPeripheral>;
+  private connected = new Map<string, (error?: Error) => void>();
+  private listeners: Array<{ deviceId: string; key: string; onValue: (value: Uint8Array) => void }> = [];
+  private timers: ClockTimer[] = [];
+  private scanning = false;
+
+  constructor(peripherals: MockPeripheral[]) {
+    this.peripherals = new Map(peripherals.map(peripheral => [peripheral.device.id, peripheral]));
+  }
+
+  /**
+   * A chest strap that sends one Heart Rate Measurement per beat group,
+   * every intervalMs, using the same encoding as real straps
+   */
+  static heartRateMonitor(device: BleDevice, beats: HeartRateBeat[], intervalMs: number = 1000): MockPeripheral {
+    const serviceUUID = BleUuid.from16(0x180d);
+    return {
+      device: { ...device, serviceUUIDs: [serviceUUID] },
+      characteristics: [
+        { serviceUUID, characteristicUUID: BleUuid.from16(0x2a38), value: [1] }, // chest
+      ],
+      notifications: beats.map((beat, i) => ({
+        afterMs: (i + 1) * intervalMs,
+        serviceUUID,
+        characteristicUUID: BleUuid.from16(0x2a37),
+        value: this.encodeHeartRate(beat),
+      })),
+    };
+  }
+
+  /**
+   * A fingertip oximeter streaming PLX Continuous Measurements every intervalMs
+   */
+  static pulseOximeter(device: BleDevice, readings: OximeterReading[], intervalMs: number = 1000): MockPeripheral {
+    const serviceUUID = BleUuid.from16(0x1822);
+    return {
+      device: { ...device, serviceUUIDs: [serviceUUID] },
+      notifications: readings.map((reading, i) => ({
+        afterMs: (i + 1) * intervalMs,
+        serviceUUID,
+        characteristicUUID: BleUuid.from16(0x2a5f),
+        value: this.encodeContinuousPlx(reading),
+      })),
+    };
+  }
+
+  async startScan(serviceUUIDs: string[], onDevice: (device: BleDevice) => void): Promise<void> {
+    this.scanning = true;
+    const wanted = serviceUUIDs.map(uuid => BleUuid.normalize(uuid));
+
+    this.peripherals.forEach(({ device }) => {
+      const advertised = (device.serviceUUIDs ?? []).map(uuid => BleUuid.normalize(uuid));
+      if (wanted.length === 0 || wanted.some(uuid => advertised.includes(uuid))) {
+        this.schedule(0, () => this.scanning && onDevice({ ...device, serviceUUIDs: advertised }));
+      }
+    });
+  }
+
+  async stopScan(): Promise<void> {
+    this.scanning = false;
+  }
+
+  async connect(deviceId: string, onDisconnect?: (error?: Error) => void): Promise<void> {
+    const peripheral = this.peripherals.get(deviceId);
+    if (!peripheral) {
+      throw new Error(`Unknown device: ${deviceId}`);
+    }
+    if (peripheral.failConnect) {
+      throw new Error(`Connection to ${deviceId} failed`);
+    }
+
+    this.connected.set(deviceId, onDisconnect ?? (() => undefined));
+    if (peripheral.disconnectAfterMs !== undefined) {
+      this.schedule(peripheral.disconnectAfterMs, () => this.dropConnection(deviceId, new Error('Connection lost')));
+    }
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    this.connected.delete(deviceId);
+    this.listeners = this.listeners.filter(listener => listener.deviceId !== deviceId);
+  }
+
+  async read(deviceId: string, serviceUUID: string, characteristicUUID: string): Promise<Uint8Array> {
+    this.assertConnected(deviceId);
+    const characteristic = this.peripherals.get(deviceId)?.characteristics?.find(c =>
+      BleUuid.equals(c.serviceUUID, serviceUUID) && BleUuid.equals(c.characteristicUUID, characteristicUUID)
+    );
+    if (!characteristic) {
+      throw new Error(`Characteristic ${characteristicUUID} not found`);
+    }
+    return Uint8Array.from(characteristic.value);
+  }
+
+  async write(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Uint8Array): Promise<void> {
+    this.assertConnected(deviceId);
+    this.writes.push({ deviceId, serviceUUID, characteristicUUID, value: Array.from(value) });
+  }
+
+  async subscribe(
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    onValue: (value: Uint8Array) => void
+  ): Promise<() => void> {
+    this.assertConnected(deviceId);
+    const listener = { deviceId, key: this.key(serviceUUID, characteristicUUID), onValue };
+    const peripheral = this.peripherals.get(deviceId);
+    const scripted = (peripheral?.notifications ?? [])
+      .filter(notification => this.key(notification.serviceUUID, notification.characteristicUUID) === listener.key);
+    const declared = (peripheral?.characteristics ?? [])
+      .some(characteristic => this.key(characteristic.serviceUUID, characteristic.characteristicUUID) === listener.key);
+    if (scripted.length === 0 && !declared) {
+      throw new Error(`Characteristic ${characteristicUUID} not found`);
+    }
+
+    this.listeners.push(listener);
+    scripted.forEach(notification => this.schedule(notification.afterMs, () => {
+      if (this.listeners.includes(listener)) onValue(Uint8Array.from(notification.value));
+    }));
+
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Push a notification immediately, outside the script
+   */
+  notify(deviceId: string, serviceUUID: string, characteristicUUID: string, value: number[]): void {
+    const key = this.key(serviceUUID, characteristicUUID);
+    this.listeners
+      .filter(listener => listener.deviceId === deviceId && listener.key === key)
+      .forEach(listener => listener.onValue(Uint8Array.from(value)));
+  }
+
+  /**
+   * Simulate the peripheral going out of range
+   */
+  dropConnection(deviceId: string, error?: Error): void {
+    const onDisconnect = this.connected.get(deviceId);
+    if (!onDisconnect) return;
+
+    this.connected.delete(deviceId);
+    this.listeners = this.listeners.filter(listener => listener.deviceId !== deviceId);
+    onDisconnect(error);
+  }
+
+  /**
+   * Cancel every pending scripted event
+   */
+  dispose(): void {
+    const clock = ClockService.getClock();
+    this.timers.forEach(timer => clock.clearTimeout(timer));
+    this.timers = [];
+    this.listeners = [];
+    this.connected.clear();
+  }
+
+  // Helper methods
+
+  private static encodeHeartRate(beat: HeartRateBeat): number[] {
+    const wide = beat.bpm > 255;
+    const rrIntervals = beat.rrIntervals ?? [];
+    let flags = wide ? 0x01 : 0;
+    if (beat.contact !== undefined) flags |= beat.contact ? 0x06 : 0x04;
+    if (beat.energyExpended !== undefined) flags |= 0x08;
+    if (rrIntervals.length > 0) flags |= 0x10;
+
+    const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+    const bytes = [flags, ...(wide ? uint16(beat.bpm) : [beat.bpm])];
+    if (beat.energyExpended !== undefined) bytes.push(...uint16(beat.energyExpended));
+    rrIntervals.forEach(interval => bytes.push(...uint16(Math.round((interval * 1024) / 1000))));
+    return bytes;
+  }
+
+  private static encodeContinuousPlx(reading: OximeterReading): number[] {
+    const hasAmplitude = reading.pulseAmplitudeIndex !== undefined;
+    const bytes = [hasAmplitude ? 0x10 : 0, ...this.encodeSFloat(reading.spo2, -1), ...this.encodeSFloat(reading.pulseRate, 0)];
+    if (hasAmplitude) bytes.push(...this.encodeSFloat(reading.pulseAmplitudeIndex as number, -2));
+    return bytes;
+  }
+
+  private static encodeSFloat(value: number, exponent: number): number[] {
+    const mantissa = Math.round(value / Math.pow(10, exponent)) & 0x0fff;
+    const raw = ((exponent & 0x0f) << 12) | mantissa;
+    return [raw & 0xff, (raw >> 8) & 0xff];
+  }
+
+  private key(serviceUUID: string, characteristicUUID: string): string {
+    return `${BleUuid.normalize(serviceUUID)}/${BleUuid.normalize(characteristicUUID)}`;
+  }
+
+  private assertConnected(deviceId: string): void {
+    if (!this.connected.has(deviceId)) {
+      throw new Error(`Device ${deviceId} is not connected`);
+    }
+  }
+
+  private schedule(delayMs: number, action: () => void): void {
+    this.timers.push(ClockService.getClock().setTimeout(action, delayMs));
+  }
+}
@@ -0,0 +1,114 @@
+import { MotionSample } from '../types/vitalSigns';
+import { FileReplayMotionSource } from './FileReplayMotionSource';
+import { MotionService } from './MotionService';
+import { SyntheticMotionArtifact, SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+const RATE = 50; // Hz
+
+/**
+ * Accelerometer samples (g) at 50 Hz from a function of time in seconds
+ */
+const accelerometer = (seconds: number, at: (t: number) => Omit<MotionSample, 'timestamp'>): MotionSample[] =>
+  Array.from({ length: seconds * RATE }, (_, i) => ({ timestamp: (i * 1000) / RATE, ...at(i / RATE) }));
+
+const stillGyroscope = (seconds: number): MotionSample[] => accelerometer(seconds, () => ({ x: 0, y: 0, z: 0 }));
+
+/**
+ * Twenty seconds of a seated user from the synthetic generator
+ */
+const seated = (motionArtifacts: SyntheticMotionArtifact[] = []) =>
+  new SyntheticVitalSignsGenerator({ seed: 11, motionArtifacts }).recording(20).motion!;
+
+describe('MotionService activity', () => {
+  const replay = async (recording: { accelerometer: MotionSample[]; gyroscope: MotionSample[] }) => {
+    MotionService.setSensorSource(new FileReplayMotionSource(recording, { realtime: false }));
+    await MotionService.startMonitoring();
+    return (await MotionService.getLatestData())!;
+  };
+
+  afterEach(async () => {
+    await MotionService.stopMonitoring();
+    MotionService.setSensorSource(null);
+  });
+
+  it('sees a still, seated user', async () => {
+    const { activity } = await replay(seated());
+
+    expect(activity).toMatchObject({ stepCount: 0, movementIntensity: 'sedentary', posture: 'sitting' });
+    expect(activity.stability).toBeGreaterThan(0.9);
+  });
+
+  it('reads accelerometers that report in m/s²', async () => {
+    const motion = seated();
+    const scaled = motion.accelerometer.map(sample => ({
+      timestamp: sample.timestamp,
+      x: sample.x * 9.80665,
+      y: sample.y * 9.80665,
+      z: sample.z * 9.80665,
+    }));
+    const { activity, accelerometer: samples } = await replay({ ...motion, accelerometer: scaled });
+
+    expect(activity).toMatchObject({ movementIntensity: 'sedentary', posture: 'sitting' });
+    expect(samples[0].magnitude).toBeCloseTo(1, 1);
+  });
+
+  it('sees a user standing, upright with postural sway', async () => {
+    const { activity } = await replay({
+      accelerometer: accelerometer(10, t => ({
+        x: 0.02 * Math.sin(2 * Math.PI * 0.25 * t),
+        y: -1,
+        z: 0.05 + 0.02 * Math.sin(2 * Math.PI * 0.17 * t),
+      })),
+      gyroscope: stillGyroscope(10),
+    });
+
+    expect(activity).toMatchObject({ posture: 'standing', stepCount: 0, movementIntensity: 'sedentary' });
+  });
+
+  it('sits a user who is upright but still', async () => {
+    const { activity } = await replay({
+      accelerometer: accelerometer(10, () => ({ x: 0, y: -1, z: 0.05 })),
+      gyroscope: stillGyroscope(10),
+    });
+
+    expect(activity.posture).toBe('sitting');
+  });
+
+  it('sees a user lying down', async () => {
+    const { activity } = await replay({
+      accelerometer: accelerometer(10, t => ({ x: 0.05, y: 0.1, z: 1 + 0.002 * Math.sin(2 * Math.PI * 0.2 * t) })),
+      gyroscope: stillGyroscope(10),
+    });
+
+    expect(activity.posture).toBe('lying');
+  });
+
+  it('counts the steps of a walk', async () => {
+    // 1.8 steps a second, each a 0.25 g bounce
+    const { activity } = await replay({
+      accelerometer: accelerometer(10, t => ({ x: 0.02, y: -1 + 0.25 * Math.sin(2 * Math.PI * 1.8 * t), z: 0.05 })),
+      gyroscope: stillGyroscope(10),
+    });
+
+    expect(activity.posture).toBe('walking');
+    expect(Math.abs(activity.stepCount - 18)).toBeLessThanOrEqual(1);
+    expect(activity.movementIntensity).toBe('moderate');
+  });
+
+  it('counts every step of a walk longer than the sample buffer', async () => {
+    // A minute of walking, twice the buffer, with a single poll at the end
+    const { activity } = await replay({
+      accelerometer: accelerometer(60, t => ({ x: 0.02, y: -1 + 0.25 * Math.sin(2 * Math.PI * 1.8 * t), z: 0.05 })),
+      gyroscope: stillGyroscope(60),
+    });
+
+    expect(Math.abs(activity.stepCount - 108)).toBeLessThanOrEqual(2);
+  });
+
+  it('loses stability while the phone is shaken', async () => {
+    const { activity } = await replay(seated([{ start: 10, duration: 10, intensity: 0.5 }]));
+
+    expect(activity.movementIntensity).not.toBe('sedentary');
+    expect(activity.stability).toBeLessThan(0.5);
+  });
+});
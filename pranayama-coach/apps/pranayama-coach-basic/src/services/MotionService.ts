@@ -0,0 +1,344 @@
+/**
+ * Motion Service
+ * Buffers accelerometer/gyroscope samples and derives posture, steps,
+ * movement intensity and stability. Posture assumes the phone is carried on
+ * the trunk (chest strap, shirt pocket or armband) with its long axis up.
+ */
+
+import { MotionData, MotionSample, MotionSensorSource } from '../types/vitalSigns';
+import { NativeMotionSensorSource } from './NativeMotionSensorSource';
+import { SignalProcessingService } from './SignalProcessingService';
+
+type Posture = MotionData['activity']['posture'];
+type MovementIntensity = MotionData['activity']['movementIntensity'];
+
+const STANDARD_GRAVITY = 9.80665; // m/s²
+
+export class MotionService {
+  private static sensorSource: MotionSensorSource | null = null;
+  private static accelerometerBuffer: MotionSample[] = [];
+  private static gyroscopeBuffer: MotionSample[] = [];
+  private static isInitialized = false;
+  private static isMonitoring = false;
+  private static stepCount = 0;
+  private static lastStepTime = -Infinity;
+  private static lastStepUpdate: number | null = null;
+
+  private static readonly SAMPLE_INTERVAL_MS = 20;
+  private static readonly BUFFER_SECONDS = 30;
+  private static readonly WINDOW_SECONDS = 10;
+  private static readonly MIN_WINDOW_SECONDS = 2;
+  private static readonly ANALYSIS_RATE = 50; // Hz, samples are resampled onto this grid
+
+  // Steps: 0.6-3.3 Hz cadence, at least 4 regularly spaced peaks
+  private static readonly MIN_STEP_INTERVAL = 0.3; // s
+  private static readonly MIN_STEP_PEAK = 0.07; // g
+  private static readonly MIN_WALKING_STEPS = 4;
+  private static readonly MAX_STEP_VARIATION = 0.35; // CV of step intervals
+  private static readonly STEP_UPDATE_SECONDS = 10; // well inside the buffer, so no step ages out uncounted
+
+  // Posture and intensity, in g
+  private static readonly UPRIGHT_COSINE = 0.77; // long axis within 40° of vertical
+  private static readonly LYING_COSINE = 0.5; // long axis more than 60° from vertical
+  private static readonly STANDING_SWAY = 0.01;
+  private static readonly INTENSITY_LEVELS: Array<[number, MovementIntensity]> = [
+    [0.02, 'sedentary'],
+    [0.1, 'light'],
+    [0.3, 'moderate'],
+  ];
+  private static readonly MAX_SWAY = 0.1; // g, stability reaches 0
+  private static readonly MAX_ROTATION = 1; // rad/s, stability reaches 0
+
+  /**
+   * Initialize motion sensors
+   */
+  static async initialize(): Promise<void> {
+    try {
+      if (this.isInitialized) return;
+
+      this.getSensorSource();
+      this.isInitialized = true;
+      console.log('MotionService initialized successfully');
+    } catch (error) {
+      console.error('Failed to initialize MotionService:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the sensor source (e.g. with recorded samples for offline testing).
+   * Takes effect on the next call to startMonitoring.
+   */
+  static setSensorSource(source: MotionSensorSource | null): void {
+    this.sensorSource = source;
+  }
+
+  /**
+   * Get the active sensor source, creating the native source by default
+   */
+  static getSensorSource(): MotionSensorSource {
+    if (!this.sensorSource) {
+      this.sensorSource = new NativeMotionSensorSource();
+    }
+    return this.sensorSource;
+  }
+
+  /**
+   * Start sampling the accelerometer and gyroscope
+   */
+  static async startMonitoring(): Promise<void> {
+    try {
+      if (this.isMonitoring) return;
+
+      this.accelerometerBuffer = [];
+      this.gyroscopeBuffer = [];
+      this.stepCount = 0;
+      this.lastStepTime = -Infinity;
+      this.lastStepUpdate = null;
+
+      await this.getSensorSource().start(
+        this.SAMPLE_INTERVAL_MS,
+        (sample) => this.handleAccelerometerSample(sample),
+        (sample) => this.pushSample(this.gyroscopeBuffer, sample)
+      );
+      this.isMonitoring = true;
+
+      console.log(`MotionService started with ${this.getSensorSource().name} source`);
+    } catch (error) {
+      console.error('Failed to start motion monitoring:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop sampling
+   */
+  static async stopMonitoring(): Promise<void> {
+    try {
+      if (!this.isMonitoring) return;
+
+      await this.getSensorSource().stop();
+      this.isMonitoring = false;
+    } catch (error) {
+      console.error('Failed to stop motion monitoring:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Buffered samples (accelerometer in g) and the activity summary of the
+   * most recent window. Steps are counted since startMonitoring, however
+   * rarely this is polled.
+   */
+  static async getLatestData(): Promise<MotionData | null> {
+    const accelerometer = this.toGravityUnits(this.accelerometerBuffer);
+    if (accelerometer.length < 2) return null;
+
+    const latest = accelerometer[accelerometer.length - 1].timestamp;
+    if ((latest - accelerometer[0].timestamp) / 1000 < this.MIN_WINDOW_SECONDS) return null;
+
+    const window = accelerometer.filter(sample => sample.timestamp >= latest - this.WINDOW_SECONDS * 1000);
+    const rotation = this.gyroscopeBuffer.filter(sample => sample.timestamp >= latest - this.WINDOW_SECONDS * 1000);
+
+    const walking = this.updateSteps(accelerometer);
+    const sway = this.sway(window);
+    const magnitudes = window.map(sample => this.magnitude(sample));
+    const intensity = SignalProcessingService.standardDeviation(magnitudes);
+    const rotationRate = rotation.length > 0
+      ? rotation.reduce((sum, sample) => sum + this.magnitude(sample), 0) / rotation.length
+      : 0;
+
+    return {
+      accelerometer: accelerometer.map(sample => ({
+        x: sample.x,
+        y: sample.y,
+        z: sample.z,
+        magnitude: this.magnitude(sample),
+        timestamp: new Date(sample.timestamp),
+      })),
+      gyroscope: this.gyroscopeBuffer.map(sample => ({
+        x: sample.x,
+        y: sample.y,
+        z: sample.z,
+        timestamp: new Date(sample.timestamp),
+      })),
+      activity: {
+        stepCount: this.stepCount,
+        movementIntensity: this.classifyIntensity(intensity),
+        posture: walking ? 'walking' : this.classifyPosture(window),
+        stability: this.clamp(1 - sway / this.MAX_SWAY) * this.clamp(1 - rotationRate / this.MAX_ROTATION),
+      },
+    };
+  }
+
+  /**
+   * Whether sensors are currently being sampled
+   */
+  static isCurrentlyMonitoring(): boolean {
+    return this.isMonitoring;
+  }
+
+  // Helper methods
+
+  /**
+   * Buffer an accelerometer sample and count steps as the samples arrive, so
+   * none are lost when getLatestData is polled less often than the buffer
+   * is long
+   */
+  private static handleAccelerometerSample(sample: MotionSample): void {
+    this.pushSample(this.accelerometerBuffer, sample);
+
+    if (this.lastStepUpdate === null) {
+      this.lastStepUpdate = sample.timestamp;
+    } else if (sample.timestamp - this.lastStepUpdate >= this.STEP_UPDATE_SECONDS * 1000) {
+      this.lastStepUpdate = sample.timestamp;
+      this.updateSteps(this.toGravityUnits(this.accelerometerBuffer));
+    }
+  }
+
+  private static pushSample(buffer: MotionSample[], sample: MotionSample): void {
+    buffer.push(sample);
+
+    const cutoff = sample.timestamp - this.BUFFER_SECONDS * 1000;
+    while (buffer.length > 0 && buffer[0].timestamp < cutoff) {
+      buffer.shift();
+    }
+  }
+
+  /**
+   * Platforms disagree on accelerometer units, so decide from the size of
+   * gravity whether the samples are in m/s² or already in g
+   */
+  private static toGravityUnits(samples: MotionSample[]): MotionSample[] {
+    if (samples.length === 0) return [];
+
+    const magnitudes = samples.map(sample => this.magnitude(sample)).sort((a, b) => a - b);
+    const typical = magnitudes[Math.floor(magnitudes.length / 2)];
+    if (typical < 3) return samples.slice();
+
+    return samples.map(sample => ({
+      timestamp: sample.timestamp,
+      x: sample.x / STANDARD_GRAVITY,
+      y: sample.y / STANDARD_GRAVITY,
+      z: sample.z / STANDARD_GRAVITY,
+    }));
+  }
+
+  /**
+   * Detect steps as regularly spaced peaks of the band-passed acceleration
+   * magnitude and count the new ones. Returns whether the user is walking.
+   */
+  private static updateSteps(samples: MotionSample[]): boolean {
+    const latest = samples[samples.length - 1].timestamp;
+    const { times, values } = SignalProcessingService.resampleLinear(
+      samples.map(sample => sample.timestamp / 1000),
+      samples.map(sample => this.magnitude(sample)),
+      this.ANALYSIS_RATE
+    );
+    if (values.length < this.ANALYSIS_RATE * this.MIN_WINDOW_SECONDS) return false;
+
+    const filtered = SignalProcessingService.butterworthFilter(
+      SignalProcessingService.removeMean(values), 'bandpass', 2, this.ANALYSIS_RATE, 0.6, 3.5
+    );
+    const peaks = SignalProcessingService.findPeaks(
+      filtered,
+      Math.round(this.MIN_STEP_INTERVAL * this.ANALYSIS_RATE),
+      Math.max(this.MIN_STEP_PEAK, 0.5 * SignalProcessingService.standardDeviation(filtered))
+    ).map(index => times[index] * 1000);
+
+    // Split into bouts wherever the gap is too long for a step
+    const bouts: number[][] = [];
+    peaks.forEach((time, i) => {
+      if (i === 0 || time - peaks[i - 1] > 2000) {
+        bouts.push([time]);
+      } else {
+        bouts[bouts.length - 1].push(time);
+      }
+    });
+
+    let walking = false;
+    bouts.forEach(bout => {
+      if (bout.length < this.MIN_WALKING_STEPS) return;
+
+      const intervals = bout.slice(1).map((time, i) => time - bout[i]);
+      const meanInterval = intervals.reduce((sum, value) => sum + value, 0) / intervals.length;
+      if (SignalProcessingService.standardDeviation(intervals) / meanInterval > this.MAX_STEP_VARIATION) return;
+
+      // Peaks can shift slightly as the window grows, so skip any within
+      // a step's width of the last counted one
+      bout.forEach(time => {
+        if (time > this.lastStepTime + this.MIN_STEP_INTERVAL * 500) {
+          this.stepCount++;
+          this.lastStepTime = time;
+        }
+      });
+
+      if (latest - bout[bout.length - 1] < 2 * meanInterval + 500) {
+        walking = true;
+      }
+    });
+
+    return walking;
+  }
+
+  /**
+   * Upright with visible postural sway is standing; upright and still (or
+   * reclined) is sitting; long axis near horizontal is lying. Sway here uses
+   * the median absolute deviation so a single bump does not count as sway.
+   */
+  private static classifyPosture(samples: MotionSample[]): Posture {
+    const count = samples.length;
+    const gravity = {
+      x: samples.reduce((sum, sample) => sum + sample.x, 0) / count,
+      y: samples.reduce((sum, sample) => sum + sample.y, 0) / count,
+      z: samples.reduce((sum, sample) => sum + sample.z, 0) / count,
+    };
+    const norm = this.magnitude(gravity);
+    const vertical = norm > 0 ? Math.abs(gravity.y) / norm : 0;
+
+    if (vertical < this.LYING_COSINE) return 'lying';
+    const sway = Math.sqrt(
+      this.robustSpread(samples.map(sample => sample.x)) ** 2 +
+      this.robustSpread(samples.map(sample => sample.y)) ** 2 +
+      this.robustSpread(samples.map(sample => sample.z)) ** 2
+    );
+
+    if (vertical >= this.UPRIGHT_COSINE && sway > this.STANDING_SWAY) return 'standing';
+    return 'sitting';
+  }
+
+  private static classifyIntensity(spread: number): MovementIntensity {
+    const level = this.INTENSITY_LEVELS.find(([limit]) => spread < limit);
+    return level ? level[1] : 'vigorous';
+  }
+
+  /**
+   * Combined spread of the three axes, which picks up tilting as well as
+   * bouncing
+   */
+  private static sway(samples: MotionSample[]): number {
+    return Math.sqrt(
+      SignalProcessingService.standardDeviation(samples.map(sample => sample.x)) ** 2 +
+      SignalProcessingService.standardDeviation(samples.map(sample => sample.y)) ** 2 +
+      SignalProcessingService.standardDeviation(samples.map(sample => sample.z)) ** 2
+    );
+  }
+
+  /**
+   * Median absolute deviation scaled to match the standard deviation of
+   * normally distributed values
+   */
+  private static robustSpread(values: number[]): number {
+    const median = (sorted: number[]) => sorted[Math.floor(sorted.length / 2)];
+    const center = median(values.slice().sort((a, b) => a - b));
+    return 1.4826 * median(values.map(value => Math.abs(value - center)).sort((a, b) => a - b));
+  }
+
+  private static magnitude(sample: { x: number; y: number; z: number }): number {
+    return Math.sqrt(sample.x * sample.x + sample.y * sample.y + sample.z * sample.z);
+  }
+
+  private static clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Native BLE Transport
+ * GATT operations through the native Bluetooth module. Characteristic values
+ * cross the bridge as arrays of byte values.
+ */
+
+import { NativeEventEmitter, NativeModule, NativeModules, EmitterSubscription } from 'react-native';
+import { BleDevice, BleTransport } from '../types/sensor';
+import { BleUuid } from './BleUuid';
+
+/**
+ * Methods the native BleModule exports. Values are byte arrays.
+ */
+interface BleNativeModule extends NativeModule {
+  startScan(serviceUUIDs: string[]): Promise<void>;
+  stopScan(): Promise<void>;
+  connect(deviceId: string): Promise<void>;
+  disconnect(deviceId: string): Promise<void>;
+  read(deviceId: string, serviceUUID: string, characteristicUUID: string): Promise<number[]>;
+  write(deviceId: string, serviceUUID: string, characteristicUUID: string, value: number[]): Promise<void>;
+  startNotifications(deviceId: string, serviceUUID: string, characteristicUUID: string): Promise<void>;
+  stopNotifications(deviceId: string, serviceUUID: string, characteristicUUID: string): Promise<void>;
+}
+
+interface CharacteristicEvent {
+  deviceId: string;
+  serviceUUID: string;
+  characteristicUUID: string;
+  value: number[];
+}
+
+export class NativeBleTransport implements BleTransport {
+  readonly name = 'native_ble';
+  private emitter: NativeEventEmitter | null = null;
+  private scanSubscription: EmitterSubscription | null = null;
+  private disconnectSubscriptions = new Map<string, EmitterSubscription>();
+
+  async startScan(serviceUUIDs: string[], onDevice: (device: BleDevice) => void): Promise<void> {
+    this.scanSubscription?.remove();
+    this.scanSubscription = this.getEmitter().addListener('onBleDeviceDiscovered', (event: BleDevice) => {
+      onDevice({
+        id: event.id,
+        name: event.name,
+        rssi: event.rssi,
+        serviceUUIDs: event.serviceUUIDs?.map(uuid => BleUuid.normalize(uuid)),
+      });
+    });
+
+    await this.getModule().startScan(serviceUUIDs);
+  }
+
+  async stopScan(): Promise<void> {
+    this.scanSubscription?.remove();
+    this.scanSubscription = null;
+    await this.getModule().stopScan();
+  }
+
+  async connect(deviceId: string, onDisconnect?: (error?: Error) => void): Promise<void> {
+    this.disconnectSubscriptions.get(deviceId)?.remove();
+    this.disconnectSubscriptions.set(deviceId, this.getEmitter().addListener(
+      'onBleDisconnected',
+      (event: { deviceId: string; error?: string }) => {
+        if (event.deviceId !== deviceId) return;
+        this.disconnectSubscriptions.get(deviceId)?.remove();
+        this.disconnectSubscriptions.delete(deviceId);
+        onDisconnect?.(event.error ? new Error(event.error) : undefined);
+      }
+    ));
+
+    await this.getModule().connect(deviceId);
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    this.disconnectSubscriptions.get(deviceId)?.remove();
+    this.disconnectSubscriptions.delete(deviceId);
+    await this.getModule().disconnect(deviceId);
+  }
+
+  async read(deviceId: string, serviceUUID: string, characteristicUUID: string): Promise<Uint8Array> {
+    const value = await this.getModule().read(deviceId, serviceUUID, characteristicUUID);
+    return Uint8Array.from(value);
+  }
+
+  async write(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Uint8Array): Promise<void> {
+    await this.getModule().write(deviceId, serviceUUID, characteristicUUID, Array.from(value));
+  }
+
+  async subscribe(
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    onValue: (value: Uint8Array) => void
+  ): Promise<() => void> {
+    const subscription = this.getEmitter().addListener('onBleCharacteristicChanged', (event: CharacteristicEvent) => {
+      if (
+        event.deviceId === deviceId &&
+        BleUuid.equals(event.serviceUUID, serviceUUID) &&
+        BleUuid.equals(event.characteristicUUID, characteristicUUID)
+      ) {
+        onValue(Uint8Array.from(event.value));
+      }
+    });
+
+    await this.getModule().startNotifications(deviceId, serviceUUID, characteristicUUID);
+
+    return () => {
+      subscription.remove();
+      this.getModule().stopNotifications(deviceId, serviceUUID, characteristicUUID).catch((error: unknown) => {
+        console.error('Failed to stop BLE notifications:', error);
+      });
+    };
+  }
+
+  // Helper methods
+
+  private getModule(): BleNativeModule {
+    const bleModule: BleNativeModule | undefined = NativeModules.BleModule;
+    if (!bleModule) {
+      throw new Error('Native Bluetooth module is not available');
+    }
+    return bleModule;
+  }
+
+  private getEmitter(): NativeEventEmitter {
+    if (!this.emitter) {
+      this.emitter = new NativeEventEmitter(this.getModule());
+    }
+    return this.emitter;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Native Camera Frame Source
+ * Receives per-frame RGB means computed by the native camera module
+ */
+
+import { NativeEventEmitter, NativeModules, EmitterSubscription } from 'react-native';
+import { CameraConfig, CameraFrame, FrameSource } from '../types/vitalSigns';
+
+export class NativeCameraFrameSource implements FrameSource {
+  readonly name = 'native_camera';
+  private subscription: EmitterSubscription | null = null;
+
+  async start(config: CameraConfig, onFrame: (frame: CameraFrame) => void): Promise<void> {
+    const cameraModule = NativeModules.CameraModule;
+    if (!cameraModule) {
+      throw new Error('Native camera module is not available');
+    }
+
+    const emitter = new NativeEventEmitter(cameraModule);
+    this.subscription = emitter.addListener('onFrameMeans', (event: CameraFrame) => {
+      onFrame({
+        timestamp: event.timestamp,
+        red: event.red,
+        green: event.green,
+        blue: event.blue,
+        faceRegion: event.faceRegion,
+      });
+    });
+
+    await cameraModule.startCapture({
+      facing: config.frontCamera && !config.rearCamera ? 'front' : 'back',
+      torchEnabled: config.flashEnabled,
+      frameRate: config.frameRate,
+      resolution: config.resolution,
+      autoFocus: config.autoFocus,
+      detectFace: config.frontCamera,
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.subscription?.remove();
+    this.subscription = null;
+
+    if (NativeModules.CameraModule) {
+      await NativeModules.CameraModule.stopCapture();
+    }
+  }
+
+  isRunning(): boolean {
+    return this.subscription !== null;
+  }
+}
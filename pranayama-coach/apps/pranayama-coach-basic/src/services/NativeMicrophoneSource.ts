@@ -0,0 +1,49 @@
+/**
+ * Native Microphone Source
+ * Receives mono PCM frames from the native audio capture module
+ */
+
+import { NativeEventEmitter, NativeModules, EmitterSubscription } from 'react-native';
+import { AudioFrame, AudioFrameSource } from '../types/vitalSigns';
+
+export class NativeMicrophoneSource implements AudioFrameSource {
+  readonly name = 'native_microphone';
+  private subscription: EmitterSubscription | null = null;
+
+  constructor(private sampleRate: number = 16000, private frameSize: number = 1024) {}
+
+  async start(onFrame: (frame: AudioFrame) => void): Promise<void> {
+    const microphoneModule = NativeModules.MicrophoneModule;
+    if (!microphoneModule) {
+      throw new Error('Native microphone module is not available');
+    }
+
+    const emitter = new NativeEventEmitter(microphoneModule);
+    this.subscription = emitter.addListener('onAudioFrame', (event: AudioFrame) => {
+      onFrame({
+        timestamp: event.timestamp,
+        samples: event.samples,
+        sampleRate: event.sampleRate,
+      });
+    });
+
+    await microphoneModule.startCapture({
+      sampleRate: this.sampleRate,
+      frameSize: this.frameSize,
+      channels: 1,
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.subscription?.remove();
+    this.subscription = null;
+
+    if (NativeModules.MicrophoneModule) {
+      await NativeModules.MicrophoneModule.stopCapture();
+    }
+  }
+
+  isRunning(): boolean {
+    return this.subscription !== null;
+  }
+}
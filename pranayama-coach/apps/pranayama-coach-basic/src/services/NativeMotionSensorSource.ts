@@ -0,0 +1,53 @@
+/**
+ * Native Motion Sensor Source
+ * Streams accelerometer and gyroscope samples from react-native-sensors
+ */
+
+import {
+  accelerometer,
+  gyroscope,
+  setUpdateIntervalForType,
+  SensorTypes,
+} from 'react-native-sensors';
+import { MotionSample, MotionSensorSource } from '../types/vitalSigns';
+
+interface Subscription {
+  unsubscribe(): void;
+}
+
+export class NativeMotionSensorSource implements MotionSensorSource {
+  readonly name = 'native_motion';
+  private subscriptions: Subscription[] = [];
+
+  async start(
+    intervalMs: number,
+    onAccelerometer: (sample: MotionSample) => void,
+    onGyroscope: (sample: MotionSample) => void
+  ): Promise<void> {
+    setUpdateIntervalForType(SensorTypes.accelerometer, intervalMs);
+    setUpdateIntervalForType(SensorTypes.gyroscope, intervalMs);
+
+    const toSample = ({ x, y, z, timestamp }: { x: number; y: number; z: number; timestamp: number }) =>
+      ({ timestamp, x, y, z });
+
+    this.subscriptions = [
+      accelerometer.subscribe(
+        reading => onAccelerometer(toSample(reading)),
+        error => console.error('Accelerometer error:', error)
+      ),
+      gyroscope.subscribe(
+        reading => onGyroscope(toSample(reading)),
+        error => console.error('Gyroscope error:', error)
+      ),
+    ];
+  }
+
+  async stop(): Promise<void> {
+    this.subscriptions.forEach(subscription => subscription.unsubscribe());
+    this.subscriptions = [];
+  }
+
+  isRunning(): boolean {
+    return this.subscriptions.length > 0;
+  }
+}
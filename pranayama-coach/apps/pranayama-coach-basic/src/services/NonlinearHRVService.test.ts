@@ -0,0 +1,106 @@
+import { NonlinearHRVService } from './NonlinearHRVService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+describe('NonlinearHRVService.autonomicBalanceScore', () => {
+  const score = (sd1Sd2Ratio: number) => NonlinearHRVService.autonomicBalanceScore({ sd1Sd2Ratio })!;
+
+  it('keeps the healthy resting range of SD1/SD2 low', () => {
+    expect(score(0.5)).toBe(0);
+    expect(score(0.4)).toBeCloseTo(12, 6);
+    expect(score(0.25)).toBeCloseTo(30, 6);
+  });
+
+  it('reaches full stress only as the ratio collapses towards 0.1', () => {
+    expect(score(0.175)).toBeCloseTo(65, 6);
+    expect(score(0.1)).toBe(100);
+    expect(score(0.05)).toBe(100);
+  });
+
+  it('rises as the ratio falls', () => {
+    const ratios = [0.6, 0.45, 0.35, 0.25, 0.2, 0.15, 0.1];
+    const scores = ratios.map(score);
+    scores.slice(1).forEach((value, i) => expect(value).toBeGreaterThanOrEqual(scores[i]));
+  });
+
+  it('averages with DFA α1 and needs at least one metric', () => {
+    expect(NonlinearHRVService.autonomicBalanceScore({ sd1Sd2Ratio: 0.5, dfaAlpha1: 0.5 })).toBe(50);
+    expect(NonlinearHRVService.autonomicBalanceScore({})).toBeNull();
+  });
+
+  it('scores synthetic resting beats as calm', () => {
+    const generator = new SyntheticVitalSignsGenerator({ seed: 11 });
+    const beats = generator.beatTimes(0, 300000);
+    const metrics = NonlinearHRVService.analyze(beats.slice(1).map((beat, i) => beat - beats[i]));
+
+    expect(metrics.sd1Sd2Ratio).toBeDefined();
+    expect(NonlinearHRVService.autonomicBalanceScore({ sd1Sd2Ratio: metrics.sd1Sd2Ratio })).toBeLessThan(40);
+  });
+});
+
+/**
+ * RR intervals of 800 ± 50 ms drawn uniformly and independently, so the
+ * reference values follow from the distribution: SD = 100/√12 ms
+ */
+const whiteNoise = (length: number, seed: number): number[] => {
+  let state = seed;
+  return Array.from({ length }, () => {
+    state = (state * 16807) % 2147483647;
+    return 800 + 100 * (state / 2147483647 - 0.5);
+  });
+};
+
+const NOISE_SD = 100 / Math.sqrt(12);
+
+describe('NonlinearHRVService against reference series', () => {
+  const noise = whiteNoise(1000, 42);
+
+  it('puts all of a steady trend in SD2 and none in SD1', () => {
+    const ramp = Array.from({ length: 20 }, (_, i) => 800 + 10 * i);
+    // SD2 = √2 × SD of the series, the SD of i = 0..19 being √((20² − 1) / 12)
+    const { sd1, sd2 } = NonlinearHRVService.poincare(ramp)!;
+
+    expect(sd1).toBeCloseTo(0, 10);
+    expect(sd2).toBeCloseTo(Math.SQRT2 * 10 * Math.sqrt(399 / 12), 10);
+  });
+
+  it('puts all of a beat-to-beat alternation in SD1', () => {
+    // Twenty successive differences of +100 and −100 ms: SD1 = √(½ × 100²)
+    const alternating = Array.from({ length: 21 }, (_, i) => (i % 2 === 0 ? 750 : 850));
+    const { sd1, sd2 } = NonlinearHRVService.poincare(alternating)!;
+
+    expect(sd1).toBeCloseTo(Math.sqrt(5000), 10);
+    expect(sd2).toBe(0);
+  });
+
+  it('finds SD1 and SD2 both equal to the SD of uncorrelated beats', () => {
+    const { sd1, sd2 } = NonlinearHRVService.poincare(noise)!;
+
+    expect(Math.abs(sd1 / NOISE_SD - 1)).toBeLessThan(0.05);
+    expect(Math.abs(sd2 / NOISE_SD - 1)).toBeLessThan(0.05);
+  });
+
+  it('gives a repeating pattern zero sample entropy', () => {
+    const periodic = Array.from({ length: 60 }, (_, i) => [780, 820, 860][i % 3]);
+
+    expect(NonlinearHRVService.sampleEntropy(periodic)).toBeCloseTo(0, 10);
+    expect(NonlinearHRVService.sampleEntropy(new Array(60).fill(800))).toBeNull();
+  });
+
+  it('matches the theoretical sample entropy of uniform white noise', () => {
+    // Two independent uniform values lie within d = 0.2 SD of each other with
+    // probability 2d − d² (in units of the range), and SampEn = −ln of that.
+    // A thousand beats estimate it to within about ±0.05.
+    const d = 0.2 / Math.sqrt(12);
+    const reference = -Math.log(2 * d - d * d); // 2.188
+
+    expect(Math.abs(NonlinearHRVService.sampleEntropy(noise)! - reference)).toBeLessThan(0.1);
+  });
+
+  it('finds DFA α1 near 0.5 for white noise and 1.5 for a random walk', () => {
+    let position = 0;
+    const walk = noise.map(rr => (position += rr - 800));
+
+    expect(Math.abs(NonlinearHRVService.dfaAlpha1(noise)! - 0.5)).toBeLessThan(0.1);
+    expect(Math.abs(NonlinearHRVService.dfaAlpha1(walk)! - 1.5)).toBeLessThan(0.1);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Nonlinear HRV Service
+ * Poincaré geometry, sample entropy and detrended fluctuation analysis of RR intervals
+ */
+
+import { NonlinearHRV } from '../types/vitalSigns';
+
+export class NonlinearHRVService {
+  static readonly MIN_POINCARE_BEATS = 10;
+  static readonly MIN_ENTROPY_BEATS = 50;
+  static readonly MIN_DFA_BEATS = 64;
+
+  /**
+   * SD1/SD2 ratio to stress contribution, interpolated linearly between
+   * points. Healthy adults at rest sit at roughly 0.25-0.5 in short-term
+   * recordings (Guzik et al. 2007; Shaffer & Ginsberg 2017), so that whole
+   * range scores low and only its lower end starts to count. Sympathetic
+   * activation such as exercise or acute stress withdraws SD1 and drives
+   * the ratio towards 0.1 (Tulppo et al. 1996), which is full stress.
+   */
+  static readonly SD1_SD2_STRESS_CURVE: [number, number][] = [
+    [0.1, 1],
+    [0.25, 0.3],
+    [0.5, 0],
+  ];
+
+  /**
+   * Compute all nonlinear metrics the series is long enough for
+   */
+  static analyze(rrIntervals: number[]): NonlinearHRV {
+    const result: NonlinearHRV = {};
+
+    const poincare = this.poincare(rrIntervals);
+    if (poincare) {
+      result.sd1 = poincare.sd1;
+      result.sd2 = poincare.sd2;
+      result.sd1Sd2Ratio = poincare.sd2 > 0 ? poincare.sd1 / poincare.sd2 : undefined;
+    }
+
+    const sampleEntropy = this.sampleEntropy(rrIntervals);
+    if (sampleEntropy !== null) {
+      result.sampleEntropy = sampleEntropy;
+    }
+
+    const dfaAlpha1 = this.dfaAlpha1(rrIntervals);
+    if (dfaAlpha1 !== null) {
+      result.dfaAlpha1 = dfaAlpha1;
+    }
+
+    return result;
+  }
+
+  /**
+   * Poincaré plot descriptors: SD1 (short-term, vagal) and SD2 (long-term) in ms
+   */
+  static poincare(rrIntervals: number[]): { sd1: number; sd2: number } | null {
+    if (rrIntervals.length < this.MIN_POINCARE_BEATS) return null;
+
+    const differences: number[] = [];
+    for (let i = 1; i < rrIntervals.length; i++) {
+      differences.push(rrIntervals[i] - rrIntervals[i - 1]);
+    }
+
+    const varianceRR = this.variance(rrIntervals);
+    const varianceDiff = this.variance(differences);
+
+    const sd1 = Math.sqrt(0.5 * varianceDiff);
+    const sd2 = Math.sqrt(Math.max(0, 2 * varianceRR - 0.5 * varianceDiff));
+
+    return { sd1, sd2 };
+  }
+
+  /**
+   * Sample entropy with embedding dimension m and tolerance r × SD.
+   * Returns null when no template matches are found (entropy undefined).
+   */
+  static sampleEntropy(rrIntervals: number[], m: number = 2, r: number = 0.2): number | null {
+    const n = rrIntervals.length;
+    if (n < this.MIN_ENTROPY_BEATS) return null;
+
+    const tolerance = r * Math.sqrt(this.variance(rrIntervals));
+    if (tolerance === 0) return null;
+
+    // Same number of templates for both lengths so the counts are comparable
+    const templates = n - m;
+    let matchesM = 0;
+    let matchesM1 = 0;
+
+    for (let i = 0; i < templates - 1; i++) {
+      for (let j = i + 1; j < templates; j++) {
+        let withinM = true;
+        for (let k = 0; k < m; k++) {
+          if (Math.abs(rrIntervals[i + k] - rrIntervals[j + k]) > tolerance) {
+            withinM = false;
+            break;
+          }
+        }
+        if (!withinM) continue;
+
+        matchesM++;
+        if (Math.abs(rrIntervals[i + m] - rrIntervals[j + m]) <= tolerance) {
+          matchesM1++;
+        }
+      }
+    }
+
+    if (matchesM === 0 || matchesM1 === 0) return null;
+    return -Math.log(matchesM1 / matchesM);
+  }
+
+  /**
+   * Short-term DFA scaling exponent α1 over box sizes of 4-16 beats.
+   * Around 1.0 at rest, falling toward 0.5 under sympathetic load.
+   */
+  static dfaAlpha1(rrIntervals: number[], minBox: number = 4, maxBox: number = 16): number | null {
+    const n = rrIntervals.length;
+    if (n < this.MIN_DFA_BEATS) return null;
+
+    // Integrated, mean-removed profile
+    const mean = rrIntervals.reduce((sum, val) => sum + val, 0) / n;
+    const profile: number[] = [];
+    let cumulative = 0;
+    for (const interval of rrIntervals) {
+      cumulative += interval - mean;
+      profile.push(cumulative);
+    }
+
+    const logSizes: number[] = [];
+    const logFluctuations: number[] = [];
+
+    for (let boxSize = minBox; boxSize <= maxBox; boxSize++) {
+      const boxes = Math.floor(n / boxSize);
+      if (boxes < 2) break;
+
+      let squaredResiduals = 0;
+      for (let box = 0; box < boxes; box++) {
+        const start = box * boxSize;
+        squaredResiduals += this.detrendedSquaredError(profile, start, boxSize);
+      }
+
+      const fluctuation = Math.sqrt(squaredResiduals / (boxes * boxSize));
+      if (fluctuation > 0) {
+        logSizes.push(Math.log(boxSize));
+        logFluctuations.push(Math.log(fluctuation));
+      }
+    }
+
+    if (logSizes.length < 2) return null;
+    return this.linearFit(logSizes, logFluctuations).slope;
+  }
+
+  /**
+   * Map nonlinear metrics to a 0-100 stress contribution. Low DFA α1 and a
+   * collapsed SD1/SD2 ratio both indicate sympathetic dominance.
+   */
+  static autonomicBalanceScore(metrics: NonlinearHRV): number | null {
+    const components: number[] = [];
+
+    if (metrics.dfaAlpha1 !== undefined) {
+      // α1 ≥ 1.0 is relaxed, α1 ≤ 0.5 is strongly stressed
+      components.push(Math.max(0, Math.min(1, (1.0 - metrics.dfaAlpha1) / 0.5)));
+    }
+
+    if (metrics.sd1Sd2Ratio !== undefined) {
+      components.push(this.interpolate(this.SD1_SD2_STRESS_CURVE, metrics.sd1Sd2Ratio));
+    }
+
+    if (components.length === 0) return null;
+    return (components.reduce((sum, val) => sum + val, 0) / components.length) * 100;
+  }
+
+  // Helper methods
+
+  /**
+   * Piecewise-linear lookup in points sorted by x, held flat beyond the ends
+   */
+  private static interpolate(points: [number, number][], x: number): number {
+    if (x <= points[0][0]) return points[0][1];
+
+    for (let i = 1; i < points.length; i++) {
+      const [x1, y1] = points[i];
+      if (x <= x1) {
+        const [x0, y0] = points[i - 1];
+        return y0 + ((x - x0) / (x1 - x0)) * (y1 - y0);
+      }
+    }
+    return points[points.length - 1][1];
+  }
+
+  private static variance(values: number[]): number {
+    if (values.length === 0) return 0;
+    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
+    return values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
+  }
+
+  private static detrendedSquaredError(profile: number[], start: number, length: number): number {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let i = 0; i < length; i++) {
+      xs.push(i);
+      ys.push(profile[start + i]);
+    }
+
+    const { slope, intercept } = this.linearFit(xs, ys);
+    let error = 0;
+    for (let i = 0; i < length; i++) {
+      const residual = ys[i] - (slope * xs[i] + intercept);
+      error += residual * residual;
+    }
+    return error;
+  }
+
+  private static linearFit(xs: number[], ys: number[]): { slope: number; intercept: number } {
+    const n = xs.length;
+    const meanX = xs.reduce((sum, val) => sum + val, 0) / n;
+    const meanY = ys.reduce((sum, val) => sum + val, 0) / n;
+
+    let covariance = 0;
+    let varianceX = 0;
+    for (let i = 0; i < n; i++) {
+      covariance += (xs[i] - meanX) * (ys[i] - meanY);
+      varianceX += (xs[i] - meanX) * (xs[i] - meanX);
+    }
+
+    const slope = varianceX > 0 ? covariance / varianceX : 0;
+    return { slope, intercept: meanY - slope * meanX };
+  }
+}
@@ -0,0 +1,73 @@
+import { PPGSignal } from '../types/vitalSigns';
+import { PPGRespirationService } from './PPGRespirationService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+const breathingAt = (inhale: number, exhale: number, seed: number = 1): PPGSignal =>
+  new SyntheticVitalSignsGenerator({ seed, breathing: { inhale, exhale, holdAfterInhale: 0, holdAfterExhale: 0 } }).ppgSignal(0, 60);
+
+describe('PPGRespirationService.estimate', () => {
+  it.each([
+    [4, 6, 6],
+    [3, 3, 10],
+    [2, 3, 12],
+  ])('finds %is in, %is out as %i breaths/min', (inhale, exhale, rate) => {
+    const breathing = PPGRespirationService.estimate(breathingAt(inhale, exhale))!;
+
+    expect(Math.abs(breathing.breathsPerMinute - rate)).toBeLessThan(0.5);
+    expect(breathing.breathPattern).toBe('regular');
+    expect(breathing.confidence).toBeGreaterThan(0.4);
+  });
+
+  it('times the inhale and exhale from the fused waveform', () => {
+    const breathing = PPGRespirationService.estimate(breathingAt(4, 6, 2))!;
+
+    expect(breathing.inhaleDuration!).toBeLessThan(breathing.exhaleDuration!);
+    expect(breathing.inhaleDuration! + breathing.exhaleDuration!).toBeCloseTo(10, 0);
+  });
+
+  it('takes every modulation from the breathing, not the pulse', () => {
+    const signal = breathingAt(3, 3);
+    const estimates = PPGRespirationService.extractModulations(signal.timestamps, signal.redChannel, signal.fps);
+
+    expect(estimates.map(estimate => estimate.modulation)).toEqual(['riiv', 'riav', 'rifv']);
+    estimates.forEach(estimate => expect(Math.abs(estimate.breathsPerMinute - 10)).toBeLessThan(1));
+  });
+
+  it('needs half a minute of signal', () => {
+    const signal = new SyntheticVitalSignsGenerator({ seed: 1 }).ppgSignal(0, PPGRespirationService.MIN_WINDOW_SECONDS - 5);
+    expect(PPGRespirationService.estimate(signal)).toBeNull();
+  });
+
+  it('reports nothing from noise', () => {
+    let seed = 7;
+    const noise = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647 - 0.5;
+    };
+    const timestamps = Array.from({ length: 60 * 30 }, (_, i) => (i * 1000) / 30);
+    const channel = timestamps.map(() => 100 + 5 * noise());
+
+    expect(
+      PPGRespirationService.estimate({ timestamps, redChannel: channel, greenChannel: channel, blueChannel: channel, quality: 1, fps: 30 })
+    ).toBeNull();
+  });
+});
+
+describe('PPGRespirationService.estimate channel', () => {
+  // Flatten red so only green carries the pulse and its breathing
+  const greenOnly = (): PPGSignal => {
+    const signal = breathingAt(4, 6);
+    return { ...signal, redChannel: signal.redChannel.map(() => 200) };
+  };
+
+  it('reads the red channel by default', () => {
+    expect(PPGRespirationService.estimate(greenOnly())).toBeNull();
+    expect(PPGRespirationService.estimate(greenOnly(), 'red')).toBeNull();
+  });
+
+  it('estimates from the green channel when asked', () => {
+    const breathing = PPGRespirationService.estimate(greenOnly(), 'green')!;
+
+    expect(Math.abs(breathing.breathsPerMinute - 6)).toBeLessThan(0.5);
+  });
+});
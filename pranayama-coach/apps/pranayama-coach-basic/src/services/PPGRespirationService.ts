@@ -0,0 +1,272 @@
+/**
+ * PPG Respiration Service
+ * Respiratory rate from the respiratory-induced intensity (RIIV), amplitude (RIAV)
+ * and frequency (RIFV) variations of a PPG waveform, fused per Karlen et al. (2013)
+ */
+
+import { BreathingData, PPGSignal, ProcessingConfig } from '../types/vitalSigns';
+import { SignalProcessingService } from './SignalProcessingService';
+import { ClockService } from './ClockService';
+
+export type RespiratoryModulation = 'riiv' | 'riav' | 'rifv';
+
+export interface ModulationEstimate {
+  modulation: RespiratoryModulation;
+  breathsPerMinute: number;
+  quality: number; // 0-1, share of respiratory-band power around the peak
+  times: number[]; // seconds, uniform grid
+  waveform: number[];
+}
+
+export class PPGRespirationService {
+  static readonly MIN_WINDOW_SECONDS = 30;
+  static readonly RESAMPLE_RATE = 4; // Hz
+  static readonly LOW_CUTOFF = 0.05; // 3 breaths/min, slow pranayama
+  static readonly HIGH_CUTOFF = 0.7; // 42 breaths/min
+  static readonly MIN_MODULATION_QUALITY = 0.3; // white noise puts ~0.15 around any peak
+  static readonly MIN_AGREEING_MODULATIONS = 2;
+  static readonly MAX_RATE_DISAGREEMENT = 4; // breaths/min between modulations
+
+  /**
+   * Estimate breathing from a finger PPG window. Under the torch the
+   * transmitted light is strongest in red, so that channel is the default.
+   */
+  static estimate(signal: PPGSignal, channel: ProcessingConfig['ppgChannel'] = 'red'): BreathingData | null {
+    const waveform = channel === 'green' ? signal.greenChannel : signal.redChannel;
+    return this.estimateFromWaveform(signal.timestamps, waveform, signal.fps, signal.quality);
+  }
+
+  /**
+   * Estimate breathing from any pulsatile waveform (finger PPG or face rPPG).
+   * Returns null when the window is too short, beats cannot be found, or fewer
+   * than two modulations are clean and agree on the rate.
+   */
+  static estimateFromWaveform(
+    timestamps: number[],
+    waveform: number[],
+    fps: number,
+    signalQuality: number = 1
+  ): BreathingData | null {
+    if (!(fps > 0) || waveform.length !== timestamps.length || waveform.length < 2) {
+      return null;
+    }
+    const duration = (timestamps[timestamps.length - 1] - timestamps[0]) / 1000;
+    if (duration < this.MIN_WINDOW_SECONDS) {
+      return null;
+    }
+
+    const estimates = this.extractModulations(timestamps, waveform, fps);
+    const accepted = estimates.filter(estimate => estimate.quality >= this.MIN_MODULATION_QUALITY);
+    if (accepted.length < this.MIN_AGREEING_MODULATIONS) {
+      return null;
+    }
+
+    // Smart fusion: only report a rate when the accepted modulations agree
+    const rates = accepted.map(estimate => estimate.breathsPerMinute);
+    const spread = SignalProcessingService.standardDeviation(rates);
+    if (spread > this.MAX_RATE_DISAGREEMENT) {
+      return null;
+    }
+
+    const totalQuality = accepted.reduce((sum, estimate) => sum + estimate.quality, 0);
+    const breathsPerMinute =
+      accepted.reduce((sum, estimate) => sum + estimate.breathsPerMinute * estimate.quality, 0) / totalQuality;
+
+    const meanQuality = totalQuality / accepted.length;
+    const agreement = 1 - spread / this.MAX_RATE_DISAGREEMENT;
+    const coverage = accepted.length / estimates.length;
+    const confidence = Math.max(0, Math.min(1, meanQuality * agreement * (0.5 + 0.5 * coverage) * signalQuality));
+
+    const phases = this.breathPhases(this.fuseWaveforms(accepted), this.RESAMPLE_RATE, breathsPerMinute);
+
+    return {
+      timestamp: new Date(ClockService.now()),
+      breathsPerMinute: Math.round(breathsPerMinute * 10) / 10,
+      breathPattern: phases && phases.cycleVariation > 0.25 ? 'irregular' : 'regular',
+      inhaleDuration: phases?.inhaleDuration,
+      exhaleDuration: phases?.exhaleDuration,
+      confidence,
+      source: 'camera_motion',
+    };
+  }
+
+  /**
+   * Beat-by-beat RIIV (pulse intensity), RIAV (pulse amplitude) and RIFV
+   * (instantaneous heart rate), each resampled and band-limited to breathing
+   */
+  static extractModulations(timestamps: number[], waveform: number[], fps: number): ModulationEstimate[] {
+    const seconds = timestamps.map(timestamp => (timestamp - timestamps[0]) / 1000);
+
+    // Pulse band for beat detection, light smoothing for the beat features
+    const pulse = SignalProcessingService.butterworthFilter(
+      SignalProcessingService.removeMean(waveform), 'bandpass', 2, fps, 0.7, Math.min(3.5, fps / 2 - 0.1)
+    );
+    const smooth = SignalProcessingService.butterworthFilter(
+      waveform, 'lowpass', 2, fps, undefined, Math.min(5, fps / 2 - 0.1)
+    );
+
+    // 180 BPM upper limit on beat spacing
+    const peaks = SignalProcessingService.findPeaks(pulse, Math.max(1, Math.round(fps / 3)), 0);
+    if (peaks.length < 4) {
+      return [];
+    }
+
+    const beatTimes: number[] = [];
+    const intensity: number[] = [];
+    const amplitude: number[] = [];
+    const heartRate: number[] = [];
+
+    for (let i = 1; i < peaks.length; i++) {
+      let trough = smooth[peaks[i - 1]];
+      for (let j = peaks[i - 1] + 1; j < peaks[i]; j++) {
+        trough = Math.min(trough, smooth[j]);
+      }
+      const interval = seconds[peaks[i]] - seconds[peaks[i - 1]];
+      if (interval <= 0) continue;
+
+      beatTimes.push(seconds[peaks[i]]);
+      intensity.push(smooth[peaks[i]]);
+      amplitude.push(smooth[peaks[i]] - trough);
+      heartRate.push(60 / interval);
+    }
+
+    // A beat-sampled series cannot carry modulation above half the heart rate
+    const meanBeatRate = beatTimes.length > 1
+      ? (beatTimes.length - 1) / (beatTimes[beatTimes.length - 1] - beatTimes[0])
+      : 0;
+    const highCutoff = Math.min(this.HIGH_CUTOFF, meanBeatRate / 2);
+    if (highCutoff <= this.LOW_CUTOFF) {
+      return [];
+    }
+
+    const series: Array<[RespiratoryModulation, number[]]> = [
+      ['riiv', intensity],
+      ['riav', amplitude],
+      ['rifv', heartRate],
+    ];
+
+    const estimates: ModulationEstimate[] = [];
+    for (const [modulation, values] of series) {
+      const estimate = this.analyzeModulation(modulation, beatTimes, values, highCutoff);
+      if (estimate) estimates.push(estimate);
+    }
+    return estimates;
+  }
+
+  // Helper methods
+
+  private static analyzeModulation(
+    modulation: RespiratoryModulation,
+    beatTimes: number[],
+    values: number[],
+    highCutoff: number
+  ): ModulationEstimate | null {
+    const resampled = SignalProcessingService.resampleLinear(beatTimes, values, this.RESAMPLE_RATE);
+    if (resampled.values.length < this.RESAMPLE_RATE * 10) {
+      return null;
+    }
+
+    const filtered = SignalProcessingService.butterworthFilter(
+      SignalProcessingService.removeMean(resampled.values),
+      'bandpass',
+      2,
+      this.RESAMPLE_RATE,
+      this.LOW_CUTOFF,
+      highCutoff
+    );
+
+    const peak = SignalProcessingService.dominantFrequency(
+      filtered, this.RESAMPLE_RATE, this.LOW_CUTOFF, highCutoff, 0.005
+    );
+    if (!peak) {
+      return null;
+    }
+
+    let peakPower = 0;
+    let totalPower = 0;
+    peak.frequencies.forEach((frequency, i) => {
+      totalPower += peak.power[i];
+      if (Math.abs(frequency - peak.frequency) <= 0.03) peakPower += peak.power[i];
+    });
+
+    return {
+      modulation,
+      breathsPerMinute: peak.frequency * 60,
+      quality: totalPower > 0 ? peakPower / totalPower : 0,
+      times: resampled.times,
+      waveform: filtered,
+    };
+  }
+
+  /**
+   * Combine the accepted modulations into one respiratory waveform. Heart rate
+   * rises on inspiration (respiratory sinus arrhythmia), so RIFV sets the
+   * polarity and the other modulations are sign-aligned to it by correlation.
+   */
+  private static fuseWaveforms(estimates: ModulationEstimate[]): number[] {
+    const reference = estimates.find(estimate => estimate.modulation === 'rifv') ?? estimates[0];
+    const length = Math.min(...estimates.map(estimate => estimate.waveform.length));
+    const fused = new Array<number>(length).fill(0);
+
+    for (const estimate of estimates) {
+      const sd = SignalProcessingService.standardDeviation(estimate.waveform);
+      if (sd === 0) continue;
+
+      let correlation = 0;
+      for (let i = 0; i < length; i++) {
+        correlation += estimate.waveform[i] * reference.waveform[i];
+      }
+      const sign = correlation < 0 ? -1 : 1;
+
+      for (let i = 0; i < length; i++) {
+        fused[i] += (sign * estimate.quality * estimate.waveform[i]) / sd;
+      }
+    }
+
+    return fused;
+  }
+
+  /**
+   * Inhale runs trough-to-peak and exhale peak-to-trough on the fused waveform
+   */
+  private static breathPhases(
+    waveform: number[],
+    sampleRate: number,
+    breathsPerMinute: number
+  ): { inhaleDuration: number; exhaleDuration: number; cycleVariation: number } | null {
+    if (!(breathsPerMinute > 0)) return null;
+
+    // Allow breaths down to 60% of the nominal period
+    const minDistance = Math.max(1, Math.round(0.6 * (60 / breathsPerMinute) * sampleRate));
+    const peaks = SignalProcessingService.findPeaks(waveform, minDistance, 0);
+    const troughs = SignalProcessingService.findPeaks(waveform.map(value => -value), minDistance, 0);
+    if (peaks.length < 2 || troughs.length < 2) return null;
+
+    const inhales: number[] = [];
+    const exhales: number[] = [];
+
+    for (const trough of troughs) {
+      const nextPeak = peaks.find(peak => peak > trough);
+      if (nextPeak === undefined) continue;
+      const previousTrough = troughs.filter(candidate => candidate < nextPeak).pop();
+      if (previousTrough === trough) inhales.push((nextPeak - trough) / sampleRate);
+    }
+    for (const peak of peaks) {
+      const nextTrough = troughs.find(trough => trough > peak);
+      if (nextTrough === undefined) continue;
+      const previousPeak = peaks.filter(candidate => candidate < nextTrough).pop();
+      if (previousPeak === peak) exhales.push((nextTrough - peak) / sampleRate);
+    }
+    if (inhales.length === 0 || exhales.length === 0) return null;
+
+    const cycles = peaks.slice(1).map((peak, i) => (peak - peaks[i]) / sampleRate);
+    const meanCycle = cycles.reduce((sum, cycle) => sum + cycle, 0) / cycles.length;
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    return {
+      inhaleDuration: Math.round(mean(inhales) * 10) / 10,
+      exhaleDuration: Math.round(mean(exhales) * 10) / 10,
+      cycleVariation: meanCycle > 0 ? SignalProcessingService.standardDeviation(cycles) / meanCycle : 0,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { PulseQualityService } from './PulseQualityService';
+import { SyntheticMotionArtifact, SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+const FPS = 30;
+
+const fingertip = (motionArtifacts: SyntheticMotionArtifact[] = []) =>
+  new SyntheticVitalSignsGenerator({ seed: 9, fps: FPS, motionArtifacts }).ppgSignal(0, 20);
+
+describe('PulseQualityService.assess', () => {
+  it('accepts the beats of a steady fingertip', () => {
+    const signal = fingertip();
+    const summary = PulseQualityService.assess(signal.timestamps, signal.redChannel, FPS);
+
+    expect(summary.acceptedRatio).toBeGreaterThanOrEqual(0.8);
+    expect(summary.quality).toBeGreaterThan(0.8);
+    // The generator's fingertip has a 1.5 % perfusion index
+    expect(summary.perfusionIndex).toBeCloseTo(1.5, 0);
+    expect(summary.guidance).toBeNull();
+    summary.beats
+      .filter(beat => beat.accepted)
+      .forEach(beat => expect(beat.templateCorrelation).toBeGreaterThanOrEqual(PulseQualityService.MIN_TEMPLATE_CORRELATION));
+  });
+
+  it('asks the user to hold still when movement distorts the beats', () => {
+    const signal = fingertip([{ start: 3, duration: 14, intensity: 0.5 }]);
+    const summary = PulseQualityService.assess(signal.timestamps, signal.redChannel, FPS);
+
+    expect(summary.acceptedRatio).toBeLessThan(0.8);
+    expect(summary.guidance).toBe('hold_still');
+  });
+
+  it('asks the user to press lighter when the pulse is squeezed flat', () => {
+    const signal = fingertip();
+    const mean = signal.redChannel.reduce((sum, value) => sum + value, 0) / signal.redChannel.length;
+    const squeezed = signal.redChannel.map(value => mean + (value - mean) * 0.01);
+    const summary = PulseQualityService.assess(signal.timestamps, squeezed, FPS);
+
+    expect(summary.perfusionIndex).toBeLessThan(PulseQualityService.MIN_PERFUSION);
+    expect(summary.guidance).toBe('press_lighter');
+  });
+
+  it('asks for the camera to be covered when there is no pulse', () => {
+    const signal = fingertip();
+    const uncovered = signal.timestamps.map(() => 120);
+
+    expect(PulseQualityService.assess(signal.timestamps, uncovered, FPS)).toMatchObject({
+      beats: [],
+      quality: 0,
+      guidance: 'cover_camera',
+    });
+    expect(PulseQualityService.assess(signal.timestamps.slice(0, FPS), signal.redChannel.slice(0, FPS), FPS).guidance).toBe(
+      'cover_camera'
+    );
+  });
+});
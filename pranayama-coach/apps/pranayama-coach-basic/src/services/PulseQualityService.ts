@@ -0,0 +1,202 @@
+/**
+ * Pulse Quality Service
+ * Beat-level signal quality index (SQI) for PPG from template matching,
+ * skewness and perfusion index
+ */
+
+import { BeatQuality, BeatRejectionReason, PulseQualitySummary, SignalGuidance } from '../types/vitalSigns';
+import { SignalProcessingService } from './SignalProcessingService';
+
+export class PulseQualityService {
+  static readonly MIN_TEMPLATE_CORRELATION = 0.8;
+  static readonly MIN_SKEWNESS = -0.5;
+  static readonly MIN_PERFUSION = 0.05; // %
+  static readonly MAX_PERFUSION = 20; // %, larger swings are movement, not blood volume
+  static readonly MAX_INTERVAL_DEVIATION = 0.3; // fraction of the median beat interval
+  static readonly MIN_SQI = 0.5;
+
+  /**
+   * Detect beats in a raw camera PPG channel and score each one
+   */
+  static assess(timestamps: number[], raw: number[], fps: number): PulseQualitySummary {
+    if (!(fps > 0) || raw.length < fps * 2) {
+      return this.summarize([], []);
+    }
+
+    // Blood absorbs light, so the volume pulse is the inverted intensity
+    const filtered = SignalProcessingService.butterworthFilter(
+      SignalProcessingService.removeMean(raw).map(value => -value), 'bandpass', 2, fps, 0.5, Math.min(5, fps / 2 - 0.1)
+    );
+
+    return this.assessBeats(timestamps, raw, filtered, this.detectPeaks(filtered, fps), fps);
+  }
+
+  /**
+   * Systolic peaks of a volume-oriented filtered pulse
+   */
+  static detectPeaks(filtered: number[], fps: number): number[] {
+    // 180 BPM upper limit on beat spacing; the height floor skips dicrotic waves
+    return SignalProcessingService.findPeaks(
+      filtered,
+      Math.max(1, Math.round(fps / 3)),
+      0.5 * SignalProcessingService.standardDeviation(filtered)
+    );
+  }
+
+  /**
+   * Score already detected peaks of a volume-oriented (systolic peaks up)
+   * filtered pulse. Each beat is the stretch from 40% of the median interval
+   * before its peak to 60% after it.
+   */
+  static assessBeats(
+    timestamps: number[],
+    raw: number[],
+    filtered: number[],
+    peaks: number[],
+    fps: number
+  ): PulseQualitySummary {
+    if (peaks.length < 3) {
+      return this.summarize([], []);
+    }
+
+    const spacings = peaks.slice(1).map((peak, i) => peak - peaks[i]);
+    const medianSpacing = this.median(spacings);
+    const before = Math.max(1, Math.round(0.4 * medianSpacing));
+    const after = Math.max(1, Math.round(0.6 * medianSpacing));
+
+    const windows = peaks.map(peak =>
+      peak - before >= 0 && peak + after < filtered.length ? filtered.slice(peak - before, peak + after + 1) : null
+    );
+
+    // Two passes so a few bad beats do not distort the template
+    let template = this.meanBeat(windows.filter((w): w is number[] => w !== null));
+    let correlations = windows.map(w => (w && template ? this.correlation(w, template) : 0));
+    const goodWindows = windows.filter((w, i): w is number[] => w !== null && correlations[i] >= this.MIN_TEMPLATE_CORRELATION);
+    if (goodWindows.length >= 3) {
+      template = this.meanBeat(goodWindows);
+      correlations = windows.map(w => (w && template ? this.correlation(w, template) : 0));
+    }
+
+    const beats: BeatQuality[] = peaks.map((peak, i) => {
+      const window = windows[i];
+      const start = Math.max(0, peak - before);
+      const end = Math.min(raw.length, peak + after + 1);
+      const rawBeat = raw.slice(start, end);
+      const meanLevel = rawBeat.reduce((sum, value) => sum + value, 0) / rawBeat.length;
+      const perfusionIndex = meanLevel > 0 ? ((Math.max(...rawBeat) - Math.min(...rawBeat)) / meanLevel) * 100 : 0;
+      const skewness = window ? this.skewness(window) : 0;
+      const templateCorrelation = correlations[i];
+
+      const reasons: BeatRejectionReason[] = [];
+      if (!window || templateCorrelation < this.MIN_TEMPLATE_CORRELATION) reasons.push('template_mismatch');
+      if (skewness < this.MIN_SKEWNESS) reasons.push('skewness');
+      if (perfusionIndex < this.MIN_PERFUSION || perfusionIndex > this.MAX_PERFUSION) reasons.push('perfusion');
+
+      const interval = i > 0 ? peak - peaks[i - 1] : medianSpacing;
+      if (Math.abs(interval - medianSpacing) > this.MAX_INTERVAL_DEVIATION * medianSpacing) reasons.push('interval');
+
+      // Correlation dominates; skewness and perfusion refine it
+      const sqi =
+        0.6 * Math.max(0, templateCorrelation) +
+        0.2 * Math.max(0, Math.min(1, (skewness + 1) / 2)) +
+        0.2 * Math.max(0, Math.min(1, perfusionIndex / 0.5));
+
+      return {
+        index: peak,
+        timestamp: timestamps[peak],
+        sqi,
+        templateCorrelation,
+        skewness,
+        perfusionIndex,
+        accepted: reasons.length === 0 && sqi >= this.MIN_SQI,
+        reasons,
+      };
+    });
+
+    return this.summarize(beats, template ? this.residualSNR(windows, template) : []);
+  }
+
+  // Helper methods
+
+  private static summarize(beats: BeatQuality[], snrs: number[]): PulseQualitySummary {
+    const accepted = beats.filter(beat => beat.accepted);
+    const acceptedRatio = beats.length > 0 ? accepted.length / beats.length : 0;
+    const meanSQI = accepted.length > 0 ? accepted.reduce((sum, beat) => sum + beat.sqi, 0) / accepted.length : 0;
+    const perfusionIndex = this.median(beats.map(beat => beat.perfusionIndex));
+    const snr = snrs.length > 0 ? this.median(snrs) : 0;
+
+    return {
+      beats,
+      acceptedRatio,
+      quality: meanSQI * acceptedRatio,
+      perfusionIndex,
+      snr,
+      guidance: this.guidance(beats, acceptedRatio),
+    };
+  }
+
+  /**
+   * Map the dominant rejection reason onto something the user can fix
+   */
+  private static guidance(beats: BeatQuality[], acceptedRatio: number): SignalGuidance | null {
+    if (beats.length < 3) return 'cover_camera';
+    if (acceptedRatio >= 0.8) return null;
+
+    const rejected = beats.filter(beat => !beat.accepted);
+    const count = (reason: BeatRejectionReason) => rejected.filter(beat => beat.reasons.includes(reason)).length;
+
+    // A pressed-down finger squeezes the blood out and flattens the pulse
+    const lowPerfusion = rejected.filter(beat => beat.perfusionIndex < this.MIN_PERFUSION).length;
+    if (lowPerfusion >= rejected.length / 2) return 'press_lighter';
+    if (count('template_mismatch') + count('interval') + count('perfusion') > 0) return 'hold_still';
+    return 'cover_camera';
+  }
+
+  private static meanBeat(windows: number[][]): number[] | null {
+    if (windows.length === 0) return null;
+    const length = windows[0].length;
+    const mean = new Array<number>(length).fill(0);
+    windows.forEach(w => w.forEach((value, i) => (mean[i] += value / windows.length)));
+    return mean;
+  }
+
+  private static correlation(a: number[], b: number[]): number {
+    const n = Math.min(a.length, b.length);
+    const meanA = a.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+    const meanB = b.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+    let cov = 0;
+    let varA = 0;
+    let varB = 0;
+    for (let i = 0; i < n; i++) {
+      cov += (a[i] - meanA) * (b[i] - meanB);
+      varA += (a[i] - meanA) ** 2;
+      varB += (b[i] - meanB) ** 2;
+    }
+    return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+  }
+
+  private static skewness(values: number[]): number {
+    const n = values.length;
+    const mean = values.reduce((sum, v) => sum + v, 0) / n;
+    const sd = SignalProcessingService.standardDeviation(values);
+    if (sd === 0) return 0;
+    return values.reduce((sum, v) => sum + ((v - mean) / sd) ** 3, 0) / n;
+  }
+
+  private static residualSNR(windows: Array<number[] | null>, template: number[]): number[] {
+    const templatePower = template.reduce((sum, v) => sum + v * v, 0);
+    return windows
+      .filter((w): w is number[] => w !== null)
+      .map(w => {
+        const residual = w.reduce((sum, v, i) => sum + (v - template[i]) ** 2, 0);
+        return residual > 0 ? 10 * Math.log10(templatePower / residual) : 40;
+      });
+  }
+
+  private static median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = values.slice().sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
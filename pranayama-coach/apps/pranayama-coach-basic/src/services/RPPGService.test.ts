@@ -0,0 +1,78 @@
+import { rPPGSignal } from '../types/vitalSigns';
+import { RPPGService } from './RPPGService';
+
+const FPS = 30;
+
+const wave = (frequency: number, seconds: number): number[] =>
+  Array.from({ length: seconds * FPS }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / FPS));
+
+/**
+ * Gain of CHROM for a pulse on its X chrominance axis. An in-band tone on
+ * the Y axis keeps the X/Y scaling defined; it is orthogonal to the pulse
+ * over the measured window, so the projection sees only the filtered X trace.
+ */
+const chromGain = (frequency: number): number => {
+  const amplitude = 0.001;
+  const pulse = wave(frequency, 30);
+  const tone = wave(frequency === 2 ? 3 : 2, 30);
+  const red = pulse.map(value => 100 * (1 + amplitude * value));
+  const green = pulse.map(value => 100 * (1 - 1.5 * amplitude * value));
+  const blue = tone.map(value => 100 * (1 + amplitude * value));
+
+  const output = RPPGService.chrom(red, green, blue, FPS);
+
+  // Project onto the pulse away from the edges
+  let projection = 0;
+  let energy = 0;
+  for (let i = 10 * FPS; i < 20 * FPS; i++) {
+    projection += output[i] * pulse[i];
+    energy += pulse[i] * pulse[i];
+  }
+  return projection / energy / (6 * amplitude);
+};
+
+describe('RPPGService bandpass', () => {
+  it('passes mid-band heart rates at unity gain', () => {
+    expect(chromGain(1.5)).toBeCloseTo(1, 2);
+  });
+
+  it('is at half power at both band edges after zero-phase filtering', () => {
+    expect(chromGain(RPPGService.LOW_CUTOFF)).toBeCloseTo(0.5, 1);
+    expect(chromGain(RPPGService.HIGH_CUTOFF)).toBeCloseTo(0.5, 1);
+  });
+
+  it('rejects respiration and high-frequency noise', () => {
+    expect(chromGain(0.25)).toBeLessThan(0.01);
+    expect(chromGain(8)).toBeLessThan(0.01);
+  });
+});
+
+describe('RPPGService.estimateHeartRate', () => {
+  // A 72 BPM pulse strongest in green, on a slow breathing drift
+  const pulse = wave(1.2, 20);
+  const drift = wave(0.25, 20);
+  const channel = (dc: number, pulsatility: number) =>
+    pulse.map((value, i) => dc * (1 + 0.002 * drift[i]) * (1 - pulsatility * value));
+  const signal: rPPGSignal = {
+    timestamps: pulse.map((_, i) => (i * 1000) / FPS),
+    faceRegion: { x: 0, y: 0, width: 100, height: 100, confidence: 1 },
+    roiSignal: channel(110, 0.003),
+    redChannel: channel(150, 0.001),
+    greenChannel: channel(110, 0.003),
+    blueChannel: channel(90, 0.0008),
+    quality: 1,
+    fps: FPS,
+  };
+
+  it.each(['chrom', 'pos'] as const)('recovers the pulse rate with %s', algorithm => {
+    const heartRate = RPPGService.estimateHeartRate(signal, algorithm)!;
+
+    expect(heartRate.bpm).toBe(72);
+    expect(heartRate.source).toBe('camera_rppg');
+    expect(heartRate.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('needs at least five seconds of frames', () => {
+    expect(RPPGService.estimateHeartRate({ ...signal, redChannel: signal.redChannel!.slice(0, 4 * FPS) }, 'chrom')).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * rPPG Service
+ * Chrominance-based remote PPG (CHROM, POS) from per-frame RGB means of a face region
+ */
+
+import { HeartRateData, rPPGSignal } from '../types/vitalSigns';
+import { SignalProcessingService } from './SignalProcessingService';
+import { ClockService } from './ClockService';
+
+export type RPPGAlgorithm = 'chrom' | 'pos';
+
+export class RPPGService {
+  static readonly LOW_CUTOFF = 0.7;  // 42 BPM
+  static readonly HIGH_CUTOFF = 4.0; // 240 BPM
+  static readonly FILTER_ORDER = 4;
+  static readonly POS_WINDOW_SECONDS = 1.6;
+
+  /**
+   * CHROM (de Haan & Jeanne, 2013): project the normalized colour traces onto
+   * two chrominance axes and combine them so specular/motion components cancel.
+   */
+  static chrom(red: number[], green: number[], blue: number[], fps: number): number[] {
+    const rn = this.normalize(red);
+    const gn = this.normalize(green);
+    const bn = this.normalize(blue);
+
+    const xs = rn.map((r, i) => 3 * r - 2 * gn[i]);
+    const ys = rn.map((r, i) => 1.5 * r + gn[i] - 1.5 * bn[i]);
+
+    const xf = this.bandpass(xs, fps);
+    const yf = this.bandpass(ys, fps);
+
+    const sdY = SignalProcessingService.standardDeviation(yf);
+    const alpha = sdY > 0 ? SignalProcessingService.standardDeviation(xf) / sdY : 0;
+
+    return xf.map((x, i) => x - alpha * yf[i]);
+  }
+
+  /**
+   * POS (Wang et al., 2017): project temporally normalized RGB onto the plane
+   * orthogonal to the skin tone, over short sliding windows with overlap-add.
+   */
+  static pos(red: number[], green: number[], blue: number[], fps: number): number[] {
+    const n = red.length;
+    const windowLength = Math.max(2, Math.round(this.POS_WINDOW_SECONDS * fps));
+    const pulse = new Array<number>(n).fill(0);
+
+    for (let start = 0; start + windowLength <= n; start++) {
+      const end = start + windowLength;
+      const rn = this.normalize(red.slice(start, end));
+      const gn = this.normalize(green.slice(start, end));
+      const bn = this.normalize(blue.slice(start, end));
+
+      const s1 = gn.map((g, i) => g - bn[i]);
+      const s2 = gn.map((g, i) => -2 * rn[i] + g + bn[i]);
+
+      const sd2 = SignalProcessingService.standardDeviation(s2);
+      const alpha = sd2 > 0 ? SignalProcessingService.standardDeviation(s1) / sd2 : 0;
+      const h = SignalProcessingService.removeMean(s1.map((v, i) => v + alpha * s2[i]));
+
+      for (let i = 0; i < windowLength; i++) {
+        pulse[start + i] += h[i];
+      }
+    }
+
+    return this.bandpass(pulse, fps);
+  }
+
+  /**
+   * Extract the pulse signal with the chosen algorithm
+   */
+  static extractPulse(
+    red: number[],
+    green: number[],
+    blue: number[],
+    fps: number,
+    algorithm: RPPGAlgorithm
+  ): number[] {
+    return algorithm === 'chrom' ? this.chrom(red, green, blue, fps) : this.pos(red, green, blue, fps);
+  }
+
+  /**
+   * Estimate heart rate from a face rPPG signal. Confidence is derived from the
+   * spectral SNR: energy around the pulse peak and its first harmonic versus
+   * the rest of the heart-rate band.
+   */
+  static estimateHeartRate(signal: rPPGSignal, algorithm: RPPGAlgorithm): HeartRateData | null {
+    const { redChannel, greenChannel, blueChannel, fps } = signal;
+    if (!redChannel || !greenChannel || !blueChannel || !(fps > 0)) {
+      return null;
+    }
+    if (redChannel.length < fps * 5) {
+      return null;
+    }
+
+    const pulse = this.extractPulse(redChannel, greenChannel, blueChannel, fps, algorithm);
+    const peak = SignalProcessingService.dominantFrequency(pulse, fps, this.LOW_CUTOFF, this.HIGH_CUTOFF);
+    if (!peak) {
+      return null;
+    }
+
+    const snr = this.spectralSNR(peak.frequency, peak.frequencies, peak.power);
+    const confidence = Math.max(0, Math.min(1, (snr + 5) / 15)); // -5 dB → 0, +10 dB → 1
+
+    return {
+      timestamp: new Date(ClockService.now()),
+      bpm: Math.round(peak.frequency * 60),
+      confidence,
+      source: 'camera_rppg',
+      quality: signal.quality,
+      signalStrength: SignalProcessingService.standardDeviation(pulse),
+    };
+  }
+
+  // Helper methods
+
+  private static normalize(channel: number[]): number[] {
+    const mean = channel.reduce((sum, val) => sum + val, 0) / channel.length;
+    return mean > 0 ? channel.map(val => val / mean) : channel.map(() => 0);
+  }
+
+  private static bandpass(signal: number[], fps: number): number[] {
+    const highCutoff = Math.min(this.HIGH_CUTOFF, fps / 2 - 0.1);
+    return SignalProcessingService.butterworthFilter(
+      SignalProcessingService.removeMean(signal),
+      'bandpass',
+      this.FILTER_ORDER,
+      fps,
+      this.LOW_CUTOFF,
+      highCutoff
+    );
+  }
+
+  private static spectralSNR(frequency: number, frequencies: number[], power: number[]): number {
+    let signalPower = 0;
+    let noisePower = 0;
+
+    for (let i = 0; i < frequencies.length; i++) {
+      const f = frequencies[i];
+      const inFundamental = Math.abs(f - frequency) <= 0.1;
+      const inHarmonic = Math.abs(f - 2 * frequency) <= 0.2;
+      if (inFundamental || inHarmonic) {
+        signalPower += power[i];
+      } else {
+        noisePower += power[i];
+      }
+    }
+
+    if (noisePower === 0) return 20;
+    if (signalPower === 0) return -20;
+    return 10 * Math.log10(signalPower / noisePower);
+  }
+}
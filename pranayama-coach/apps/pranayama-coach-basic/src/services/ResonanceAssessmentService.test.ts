@@ -0,0 +1,126 @@
+import { RRIntervalSample } from '../types/vitalSigns';
+import { ClockService } from './ClockService';
+import { FakeClock } from './FakeClock';
+import { ResonanceAssessmentService } from './ResonanceAssessmentService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+const STEP_MS = 90000;
+
+/**
+ * RR intervals from ninety seconds paced at a rate, with the heart rate
+ * swinging rsaAmplitude bpm either side of its mean over each breath
+ */
+const pacedStep = (breathsPerMinute: number, rsaAmplitude: number, beatJitter: number = 12): RRIntervalSample[] => {
+  const { inhale, exhale } = ResonanceAssessmentService.patternForRate(breathsPerMinute);
+  const generator = new SyntheticVitalSignsGenerator({
+    seed: 16,
+    rsaAmplitude,
+    beatJitter,
+    breathing: { inhale, holdAfterInhale: 0, exhale, holdAfterExhale: 0 },
+  });
+  const beats = generator.beatTimes(0, STEP_MS);
+  return beats.slice(1).map((timestamp, i) => ({ timestamp, interval: timestamp - beats[i] }));
+};
+
+const analyze = (breathsPerMinute: number, rsaAmplitude: number, beatJitter?: number) =>
+  ResonanceAssessmentService.analyzeStep(
+    breathsPerMinute,
+    pacedStep(breathsPerMinute, rsaAmplitude, beatJitter),
+    new Date(0),
+    new Date(STEP_MS)
+  );
+
+describe('ResonanceAssessmentService', () => {
+  it('paces each rate with a longer exhale', () => {
+    expect(ResonanceAssessmentService.patternForRate(6)).toEqual({
+      inhale: 4,
+      holdAfterInhale: 0,
+      exhale: 6,
+      holdAfterExhale: 0,
+      ratio: '4:0:6:0',
+    });
+    expect(ResonanceAssessmentService.patternForRate(5.5, 0.5)).toMatchObject({ inhale: 5.5, exhale: 5.4 });
+  });
+
+  it('measures the heart rate oscillation driven by the paced breath', () => {
+    const step = analyze(6, 6);
+
+    expect(step.peakMatchesPace).toBe(true);
+    expect(step.lfPeakFrequency).toBeCloseTo(0.1, 2);
+    // 6 bpm either side of the mean, plus beat jitter
+    expect(step.peakToTrough).toBeGreaterThan(11);
+    expect(step.peakToTrough).toBeLessThan(15);
+    expect(step.beats).toBeGreaterThan(90);
+  });
+
+  it('notices when the LF power is not at the paced rate', () => {
+    const step = analyze(6, 0, 30);
+
+    expect(step.peakMatchesPace).toBe(false);
+    expect(step.lfPower!).toBeLessThan(analyze(6, 6).lfPower!);
+  });
+
+  it('picks the rate with the largest oscillation as resonance', () => {
+    const rsaByRate: [number, number][] = [[6.5, 4], [6, 6], [5.5, 9], [5, 6], [4.5, 4]];
+    const result = ResonanceAssessmentService.selectResonance(rsaByRate.map(([rate, rsa]) => analyze(rate, rsa)));
+
+    expect(result.resonanceRate).toBe(5.5);
+    expect(result.steps.find(step => step.breathsPerMinute === 5.5)!.score).toBeCloseTo(1, 5);
+    result.steps.forEach(step => expect(step.score).toBeGreaterThan(0));
+  });
+
+  it('finds no resonance without heart rate data', () => {
+    const empty = ResonanceAssessmentService.analyzeStep(6, [], new Date(0), new Date(STEP_MS));
+
+    expect(empty).toMatchObject({ beats: 0, peakMatchesPace: false });
+    expect(ResonanceAssessmentService.selectResonance([empty]).resonanceRate).toBeNull();
+  });
+});
+
+describe('ResonanceAssessmentService.start', () => {
+  const flush = () => new Promise<void>(resolve => setImmediate(() => resolve()));
+  let clock: FakeClock;
+  let spoken: Array<{ time: number; text: string }>;
+
+  beforeEach(() => {
+    clock = new FakeClock(1000000);
+    ClockService.setClock(clock);
+    spoken = [];
+    jest.spyOn(console, 'log').mockImplementation((message: string) => {
+      if (message.startsWith('TTS: ')) {
+        spoken.push({ time: clock.now(), text: message.slice(5) });
+      }
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    ClockService.setClock(null);
+  });
+
+  it('times the steps on the injected clock and welcomes the user once', async () => {
+    const assessment = new ResonanceAssessmentService();
+    let finished = false;
+    const running = assessment
+      .start({ rates: [6, 5], stepMinutes: 0.5, settleSeconds: 5 })
+      .finally(() => (finished = true));
+
+    while (!finished && clock.now() < 1100000) {
+      await flush();
+      clock.advance(100);
+    }
+    const result = await running;
+
+    const [first, second] = result.steps;
+
+    expect(first.startTime.getTime()).toBe(1000000);
+    expect(second.startTime.getTime()).toBe(first.endTime.getTime());
+    expect(result.completedAt.getTime()).toBe(second.endTime.getTime());
+    expect(second.endTime.getTime()).toBeLessThan(1100000);
+
+    expect(spoken.filter(utterance => utterance.text.startsWith('Welcome'))).toHaveLength(1);
+    expect(spoken.filter(utterance => utterance.text.startsWith('Resonance breathing'))).toHaveLength(1);
+    // Later steps start pacing straight away
+    expect(spoken.find(utterance => utterance.time === second.startTime.getTime())!.text).toMatch(/^Breathe in/);
+  });
+});
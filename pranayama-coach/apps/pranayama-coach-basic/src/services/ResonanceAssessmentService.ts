@@ -0,0 +1,245 @@
+/**
+ * Resonance Assessment Service
+ * Guided protocol for finding the breathing rate at which heart rate
+ * oscillations are largest (the resonance frequency used in HRV
+ * biofeedback). The user is paced from 6.5 down to 4.5 breaths/min; at each
+ * step the LF spectral peak and breath-by-breath heart rate amplitude are
+ * measured from the RR intervals collected by VitalSignsService.
+ */
+
+import { BreathingPattern } from '../types/session';
+import {
+  RRIntervalSample,
+  ResonanceAssessmentResult,
+  ResonanceStepResult,
+} from '../types/vitalSigns';
+import { AudioCoachingService } from './AudioCoachingService';
+import { ClockService } from './ClockService';
+import { HRVAnalysisService } from './HRVAnalysisService';
+import { HealthBaselineService } from './HealthBaselineService';
+import { VitalSignsService } from './VitalSignsService';
+
+interface AssessmentOptions {
+  rates: number[]; // breaths/min, in the order they are paced
+  stepMinutes: number;
+  settleSeconds: number; // discarded at the start of each step while HR adapts
+  inhaleFraction: number; // share of each breath spent inhaling
+}
+
+interface AssessmentProgress {
+  stepIndex: number;
+  totalSteps: number;
+  breathsPerMinute: number;
+  completedSteps: ResonanceStepResult[];
+}
+
+const DEFAULT_OPTIONS: AssessmentOptions = {
+  rates: [6.5, 6, 5.5, 5, 4.5],
+  stepMinutes: 2,
+  settleSeconds: 30,
+  inhaleFraction: 0.4,
+};
+
+export class ResonanceAssessmentService {
+  // The LF peak counts as matching the pace within this distance
+  static readonly PACE_TOLERANCE_HZ = 0.015;
+  static readonly MIN_BEATS_PER_BREATH = 3;
+
+  private coach: AudioCoachingService;
+  private isRunning: boolean = false;
+  private cancelled: boolean = false;
+
+  constructor(coach: AudioCoachingService = new AudioCoachingService()) {
+    this.coach = coach;
+  }
+
+  /**
+   * Run the full assessment. Heart-rate monitoring must already be running
+   * (see VitalSignsService.startDataCollection). The best rate is saved to
+   * the user's HealthBaseline.
+   */
+  async start(
+    options: Partial<AssessmentOptions> = {},
+    onProgress?: (progress: AssessmentProgress) => void
+  ): Promise<ResonanceAssessmentResult> {
+    if (this.isRunning) {
+      throw new Error('Resonance assessment is already running');
+    }
+
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    const steps: ResonanceStepResult[] = [];
+    this.isRunning = true;
+    this.cancelled = false;
+
+    try {
+      for (let i = 0; i < config.rates.length && !this.cancelled; i++) {
+        const rate = config.rates[i];
+        onProgress?.({ stepIndex: i, totalSteps: config.rates.length, breathsPerMinute: rate, completedSteps: steps });
+
+        const pattern = ResonanceAssessmentService.patternForRate(rate, config.inhaleFraction);
+        const startTime = new Date(ClockService.now());
+        // One welcome for the whole assessment, not one per step
+        await this.coach.startCoaching(pattern, config.stepMinutes, {
+          enableBackground: false,
+          technique: 'resonance',
+          welcome: i === 0,
+        });
+        if (this.cancelled) break;
+
+        const analysisStart = startTime.getTime() + config.settleSeconds * 1000;
+        steps.push(ResonanceAssessmentService.analyzeStep(
+          rate,
+          VitalSignsService.getRRIntervalSamples(analysisStart),
+          startTime,
+          new Date(ClockService.now())
+        ));
+      }
+
+      if (this.cancelled) {
+        throw new Error('Resonance assessment was cancelled');
+      }
+
+      const result = ResonanceAssessmentService.selectResonance(steps);
+      if (result.resonanceRate !== null) {
+        await HealthBaselineService.updateBaseline({
+          resonanceBreathingRate: result.resonanceRate,
+          resonanceAssessedAt: result.completedAt,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Resonance assessment failed:', error);
+      throw error;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Stop the assessment; start() rejects and nothing is saved
+   */
+  async cancel(): Promise<void> {
+    if (!this.isRunning) return;
+
+    this.cancelled = true;
+    await this.coach.stopCoaching();
+  }
+
+  isAssessing(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Measure HRV for one paced step from the RR intervals recorded during it
+   */
+  static analyzeStep(
+    breathsPerMinute: number,
+    samples: RRIntervalSample[],
+    startTime: Date,
+    endTime: Date
+  ): ResonanceStepResult {
+    const clean = HRVAnalysisService.cleanRRSamples(samples);
+    const rrIntervals = clean.map(sample => sample.interval);
+    const spectral = HRVAnalysisService.frequencyDomain(clean);
+    const paceHz = breathsPerMinute / 60;
+
+    const mean = rrIntervals.reduce((sum, rr) => sum + rr, 0) / (rrIntervals.length || 1);
+    const sdnn = rrIntervals.length > 1
+      ? Math.sqrt(rrIntervals.reduce((sum, rr) => sum + (rr - mean) ** 2, 0) / (rrIntervals.length - 1))
+      : undefined;
+
+    return {
+      breathsPerMinute,
+      startTime,
+      endTime,
+      beats: rrIntervals.length,
+      lfPower: spectral?.lf,
+      lfPeakFrequency: spectral?.lfPeak,
+      peakToTrough: this.peakToTrough(clean, breathsPerMinute),
+      sdnn,
+      peakMatchesPace: spectral ? Math.abs(spectral.lfPeak - paceHz) <= this.PACE_TOLERANCE_HZ : false,
+      score: 0,
+    };
+  }
+
+  /**
+   * Score the steps against each other and pick the resonance rate. LF power
+   * and heart rate amplitude count equally; a step whose LF peak is not at
+   * the paced frequency is penalised, as its power came from something else.
+   */
+  static selectResonance(steps: ResonanceStepResult[]): ResonanceAssessmentResult {
+    const maxLf = Math.max(0, ...steps.map(step => step.lfPower ?? 0));
+    const maxAmplitude = Math.max(0, ...steps.map(step => step.peakToTrough ?? 0));
+
+    const scored = steps.map(step => {
+      const lf = maxLf > 0 ? (step.lfPower ?? 0) / maxLf : 0;
+      const amplitude = maxAmplitude > 0 ? (step.peakToTrough ?? 0) / maxAmplitude : 0;
+      const score = (0.5 * lf + 0.5 * amplitude) * (step.peakMatchesPace ? 1 : 0.8);
+      return { ...step, score };
+    });
+
+    const best = scored.reduce<ResonanceStepResult | null>(
+      (winner, step) => (step.score > 0 && (!winner || step.score > winner.score) ? step : winner),
+      null
+    );
+
+    return {
+      steps: scored,
+      resonanceRate: best ? best.breathsPerMinute : null,
+      completedAt: new Date(ClockService.now()),
+    };
+  }
+
+  /**
+   * Paced breathing pattern for a rate, with no holds and a longer exhale
+   */
+  static patternForRate(breathsPerMinute: number, inhaleFraction: number = DEFAULT_OPTIONS.inhaleFraction): BreathingPattern {
+    const cycle = 60 / breathsPerMinute;
+    const inhale = Math.round(cycle * inhaleFraction * 10) / 10;
+    const exhale = Math.round((cycle - inhale) * 10) / 10;
+
+    return {
+      inhale,
+      holdAfterInhale: 0,
+      exhale,
+      holdAfterExhale: 0,
+      ratio: `${inhale}:0:${exhale}:0`,
+    };
+  }
+
+  /**
+   * The user's resonance breathing pattern, once an assessment has been done
+   */
+  static async getResonancePattern(): Promise<BreathingPattern | null> {
+    const baseline = await HealthBaselineService.getBaseline();
+    if (!baseline?.resonanceBreathingRate) return null;
+
+    return this.patternForRate(baseline.resonanceBreathingRate);
+  }
+
+  // Helper methods
+
+  /**
+   * Mean of the max-min instantaneous heart rate within each paced breath
+   */
+  private static peakToTrough(samples: RRIntervalSample[], breathsPerMinute: number): number | undefined {
+    if (samples.length === 0) return undefined;
+
+    const breathMs = 60000 / breathsPerMinute;
+    const first = samples[0].timestamp;
+    const amplitudes: number[] = [];
+
+    for (let start = first; start + breathMs <= samples[samples.length - 1].timestamp; start += breathMs) {
+      const heartRates = samples
+        .filter(sample => sample.timestamp >= start && sample.timestamp < start + breathMs)
+        .map(sample => 60000 / sample.interval);
+      if (heartRates.length >= this.MIN_BEATS_PER_BREATH) {
+        amplitudes.push(Math.max(...heartRates) - Math.min(...heartRates));
+      }
+    }
+
+    if (amplitudes.length === 0) return undefined;
+    return amplitudes.reduce((sum, amplitude) => sum + amplitude, 0) / amplitudes.length;
+  }
+}
@@ -0,0 +1,148 @@
+import { RoundBreathingPattern, RoundSchedulerEvent } from '../types/session';
+import { Clock } from '../types/vitalSigns';
+import { FakeClock } from './FakeClock';
+import { RoundBreathingScheduler } from './RoundBreathingScheduler';
+
+const ROUNDS: RoundBreathingPattern = { pumps: 30, tempo: 60, retention: 30, rest: 30, rounds: 3 };
+
+/**
+ * A clock whose timers all fire lateMs after they are due, like a busy
+ * JavaScript thread
+ */
+const lateClock = (clock: FakeClock, lateMs: number): Clock => ({
+  now: () => clock.now(),
+  setTimeout: (callback, delayMs) => clock.setTimeout(callback, delayMs + lateMs),
+  clearTimeout: timer => clock.clearTimeout(timer),
+});
+
+describe('RoundBreathingScheduler', () => {
+  let clock: FakeClock;
+  let events: RoundSchedulerEvent[];
+
+  const startScheduler = (lateMs: number = 0) => {
+    const scheduler = new RoundBreathingScheduler(ROUNDS, lateClock(clock, lateMs));
+    scheduler.subscribe(event => events.push(event));
+    scheduler.start();
+    return scheduler;
+  };
+
+  beforeEach(() => {
+    clock = new FakeClock(0);
+    events = [];
+  });
+
+  it('keeps every stage on its scheduled boundary when timers fire late', () => {
+    const scheduler = startScheduler(5);
+    clock.advance(RoundBreathingScheduler.maxSeconds(ROUNDS) * 1000 + 100);
+
+    const completed = events.find(event => event.type === 'completed')!;
+    expect(scheduler.getStatus()).toBe('completed');
+    expect(events.filter(event => event.type === 'round_completed')).toHaveLength(3);
+    expect(events.filter(event => event.type === 'pump')).toHaveLength(90);
+    // Only the last timer is late, not one per stage
+    expect(completed.timestamp).toBe(270005);
+  });
+
+  it('starts the next stage when the user ends the hold', () => {
+    const scheduler = startScheduler();
+    clock.advance(30000 + 12000);
+    scheduler.endRetention();
+
+    const rest = events[events.length - 1];
+    expect(rest.type).toBe('stage_started');
+    expect(rest.position).toMatchObject({ stage: 'rest', stageElapsed: 0, stageRemaining: 30 });
+  });
+
+  it('records how long each breath was held', () => {
+    const scheduler = startScheduler(5);
+
+    clock.advance(30000 + 12000);
+    scheduler.endRetention();
+    clock.advance(30000 + 30000 + 20500);
+    scheduler.endRetention();
+    clock.advance(200000);
+
+    expect(scheduler.getRetentionTimes()).toEqual([12, 20.5, 30]);
+  });
+
+  /**
+   * When each stage after the first started, in clock ms
+   */
+  const stageStarts = () =>
+    events
+      .filter(event => event.type === 'stage_started')
+      .slice(1)
+      .map(event => [event.position.stage, event.timestamp]);
+
+  it('keeps the pumps left over a pause', () => {
+    const scheduler = startScheduler();
+    clock.advance(10000);
+    scheduler.pause();
+    clock.advance(60000);
+
+    expect(events.filter(event => event.type === 'pump')).toHaveLength(11);
+    expect(scheduler.getPosition()).toMatchObject({ stage: 'pumping', pump: 11, stageRemaining: 20 });
+
+    scheduler.resume();
+    clock.advance(20000 + 30000);
+
+    expect(events.filter(event => event.type === 'pump')).toHaveLength(30);
+    expect(stageStarts()).toEqual([['retention', 90000], ['rest', 120000]]);
+    expect(scheduler.getRetentionTimes()).toEqual([30]);
+  });
+
+  it('ignores the end of a paused hold and leaves the pause out of its length', () => {
+    const scheduler = startScheduler();
+    clock.advance(30000 + 10000);
+    scheduler.pause();
+    clock.advance(60000);
+    scheduler.endRetention();
+
+    expect(scheduler.getPosition()).toMatchObject({ stage: 'retention', stageRemaining: 20 });
+    expect(stageStarts()).toEqual([['retention', 30000]]);
+
+    scheduler.resume();
+    clock.advance(5000);
+    scheduler.endRetention();
+
+    expect(stageStarts()).toEqual([['retention', 30000], ['rest', 105000]]);
+    expect(scheduler.getRetentionTimes()).toEqual([15]);
+  });
+
+  it('holds to the limit of the hold itself when paused in it', () => {
+    const scheduler = startScheduler();
+    clock.advance(30000 + 10000);
+    scheduler.pause();
+    clock.advance(60000);
+    scheduler.resume();
+    clock.advance(20000);
+
+    expect(stageStarts()).toEqual([['retention', 30000], ['rest', 120000]]);
+    expect(scheduler.getRetentionTimes()).toEqual([30]);
+  });
+
+  it('keeps the rest left over a pause', () => {
+    const scheduler = startScheduler();
+    clock.advance(30000 + 30000 + 10000);
+    scheduler.pause();
+    clock.advance(60000);
+
+    expect(scheduler.getPosition()).toMatchObject({ round: 1, stage: 'rest', stageRemaining: 20 });
+
+    scheduler.resume();
+    clock.advance(19999);
+    expect(scheduler.getPosition()).toMatchObject({ round: 1, stage: 'rest' });
+
+    clock.advance(1);
+    expect(scheduler.getPosition()).toMatchObject({ round: 2, stage: 'pumping', stageRemaining: 30 });
+    expect(stageStarts()).toEqual([['retention', 30000], ['rest', 60000], ['pumping', 150000]]);
+    expect(scheduler.getRetentionTimes()).toEqual([30]);
+  });
+
+  it('lines up with a session already under way', () => {
+    const scheduler = new RoundBreathingScheduler(ROUNDS, clock);
+    scheduler.start(10.25);
+
+    expect(scheduler.getPosition()).toMatchObject({ stage: 'pumping', pump: 11, stageElapsed: 10.25 });
+  });
+});
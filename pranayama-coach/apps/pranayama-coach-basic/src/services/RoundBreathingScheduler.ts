@@ -0,0 +1,308 @@
+/**
+ * Round Breathing Scheduler
+ * Paces rapid breathing (kapalabhati, bhastrika) in rounds: pumps at a set
+ * tempo, an optional breath hold that the user ends, then a rest. The pumps
+ * are timed by a BreathPhaseScheduler and holds and rests here on the same
+ * clock. Each timed stage starts where the last was due to end, not when its
+ * timer happened to fire, so late timers never add up over the rounds; only
+ * a hold the user ends starts the next stage at the moment they breathe.
+ */
+
+import {
+  BreathingPattern,
+  BreathSchedulerStatus,
+  RoundBreathingPattern,
+  RoundPosition,
+  RoundSchedulerEvent,
+  RoundSchedulerEventType,
+  RoundStage,
+} from '../types/session';
+import { Clock, ClockTimer } from '../types/vitalSigns';
+import { BreathPhaseScheduler } from './BreathPhaseScheduler';
+import { ClockService } from './ClockService';
+import { TechniqueCatalogService } from './TechniqueCatalogService';
+
+export class RoundBreathingScheduler {
+  private pattern: RoundBreathingPattern;
+  private clock: Clock;
+  private listeners = new Set<(event: RoundSchedulerEvent) => void>();
+  private status: BreathSchedulerStatus = 'idle';
+  private round = 1;
+  private stage: RoundStage = 'pumping';
+  private pump = 0;
+  private pumps: BreathPhaseScheduler | null = null;
+  private stageOrigin = 0; // monotonic ms at which the stage began, moved on by pauses
+  private holds: number[] = []; // seconds each round's breath was held
+  private pausedAt: number | null = null;
+  private timer: ClockTimer | null = null;
+  private finalPosition: RoundPosition | null = null;
+
+  constructor(pattern: RoundBreathingPattern, clock: Clock = ClockService.getClock()) {
+    const { pumps, tempo, retention, rest, rounds } = pattern;
+    if (!(pumps >= 1 && rounds >= 1 && tempo > 0 && rest >= 0) || (retention !== null && !(retention > 0))) {
+      throw new Error('Round breathing needs at least one pump and one round at a positive tempo');
+    }
+
+    this.pattern = { ...pattern };
+    this.clock = clock;
+  }
+
+  /**
+   * Longest a session of these rounds can take, with every hold at its limit
+   */
+  static maxSeconds(pattern: RoundBreathingPattern): number {
+    const round = (pattern.pumps * 60) / pattern.tempo + (pattern.retention ?? 0) + pattern.rest;
+    return round * pattern.rounds;
+  }
+
+  /**
+   * One pump as a breathing pattern: equal in and out at the tempo
+   */
+  static pumpPattern(pattern: RoundBreathingPattern): BreathingPattern {
+    const half = 30 / pattern.tempo;
+    return TechniqueCatalogService.createPattern(half, 0, half, 0);
+  }
+
+  /**
+   * Listen for scheduler events; returns a function that removes the listener
+   */
+  subscribe(listener: (event: RoundSchedulerEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start pacing, optionally as if it had started elapsedSeconds ago (to
+   * line up with a session that is already under way)
+   */
+  start(elapsedSeconds: number = 0): void {
+    if (this.status !== 'idle') {
+      throw new Error('Round breathing scheduler has already been started');
+    }
+
+    this.status = 'running';
+    this.beginStage('pumping', this.monotonicNow() - elapsedSeconds * 1000);
+  }
+
+  /**
+   * Pause, keeping the time left in the current stage
+   */
+  pause(): void {
+    if (this.status !== 'running') return;
+
+    this.status = 'paused';
+    this.pausedAt = this.monotonicNow();
+    this.clearTimer();
+    this.pumps?.pause();
+  }
+
+  resume(): void {
+    if (this.status !== 'paused') return;
+
+    this.stageOrigin += this.monotonicNow() - this.pausedAt!;
+    this.pausedAt = null;
+    this.status = 'running';
+    if (this.pumps) {
+      this.pumps.resume();
+    } else {
+      this.scheduleStageEnd();
+    }
+  }
+
+  /**
+   * Stop pacing for good
+   */
+  stop(): void {
+    if (this.status !== 'running' && this.status !== 'paused') return;
+
+    this.finish('stopped');
+  }
+
+  /**
+   * End the breath hold when the user needs to breathe
+   */
+  endRetention(): void {
+    if (this.status !== 'running' || this.stage !== 'retention') return;
+
+    this.nextStage(this.monotonicNow());
+  }
+
+  /**
+   * Where in the rounds the session is now; null before starting
+   */
+  getPosition(): RoundPosition | null {
+    if (this.status === 'idle') return null;
+    return this.finalPosition ?? this.currentPosition();
+  }
+
+  getPattern(): RoundBreathingPattern {
+    return { ...this.pattern };
+  }
+
+  /**
+   * Seconds the breath was held in each round so far, whether the user
+   * ended the hold or it ran to its limit
+   */
+  getRetentionTimes(): number[] {
+    return [...this.holds];
+  }
+
+  getStatus(): BreathSchedulerStatus {
+    return this.status;
+  }
+
+  // Helper methods
+
+  private monotonicNow(): number {
+    return this.clock.monotonicNow?.() ?? this.clock.now();
+  }
+
+  private stageDuration(stage: RoundStage): number {
+    switch (stage) {
+      case 'pumping':
+        return (this.pattern.pumps * 60) / this.pattern.tempo;
+      case 'retention':
+        return this.pattern.retention ?? 0;
+      case 'rest':
+        return this.pattern.rest;
+    }
+  }
+
+  private stageElapsed(): number {
+    return Math.max(0, ((this.pausedAt ?? this.monotonicNow()) - this.stageOrigin) / 1000);
+  }
+
+  private currentPosition(): RoundPosition {
+    const duration = this.stageDuration(this.stage);
+    const elapsed = Math.min(this.stageElapsed(), duration);
+
+    return {
+      round: this.round,
+      totalRounds: this.pattern.rounds,
+      stage: this.stage,
+      pump: this.stage === 'pumping' ? Math.max(1, this.pump) : this.pattern.pumps,
+      totalPumps: this.pattern.pumps,
+      stageElapsed: elapsed,
+      stageRemaining: duration - elapsed,
+      progress: duration > 0 ? elapsed / duration : 1,
+    };
+  }
+
+  /**
+   * Begin a stage at origin, in monotonic ms
+   */
+  private beginStage(stage: RoundStage, origin: number): void {
+    this.clearTimer();
+    this.stage = stage;
+    this.stageOrigin = origin;
+    this.emit('stage_started');
+
+    if (stage !== 'pumping') {
+      this.scheduleStageEnd();
+      return;
+    }
+
+    this.pump = 0;
+    const pumps = new BreathPhaseScheduler(RoundBreathingScheduler.pumpPattern(this.pattern), { maxCycles: this.pattern.pumps }, this.clock);
+    this.pumps = pumps;
+    pumps.subscribe(event => {
+      if (event.type === 'phase_started' && event.position.phase === 'inhale') {
+        this.pump = event.position.cycle;
+        this.emit('pump');
+      } else if (event.type === 'completed') {
+        this.pumps = null;
+        this.nextStage(this.stageEnd());
+      }
+    });
+    pumps.start((this.monotonicNow() - origin) / 1000);
+  }
+
+  /**
+   * Pumping, then the hold and the rest where the pattern has them, then
+   * the next round, from origin in monotonic ms
+   */
+  private nextStage(origin: number): void {
+    const stages: RoundStage[] = ['pumping'];
+    if (this.pattern.retention !== null) stages.push('retention');
+    if (this.pattern.rest > 0) stages.push('rest');
+
+    if (this.stage === 'retention') {
+      this.holds.push((origin - this.stageOrigin) / 1000);
+    }
+
+    const next = stages[stages.indexOf(this.stage) + 1];
+    if (next) {
+      this.beginStage(next, origin);
+      return;
+    }
+
+    this.emit('round_completed');
+    if (this.round >= this.pattern.rounds) {
+      this.finish('completed');
+      return;
+    }
+
+    this.round++;
+    this.beginStage('pumping', origin);
+  }
+
+  /**
+   * When the current stage is due to end, in monotonic ms
+   */
+  private stageEnd(): number {
+    return this.stageOrigin + this.stageDuration(this.stage) * 1000;
+  }
+
+  /**
+   * Wake when a hold reaches its limit or a rest is over
+   */
+  private scheduleStageEnd(): void {
+    const remaining = this.stageDuration(this.stage) - this.stageElapsed();
+
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      if (this.status !== 'running') return;
+
+      if (this.stageDuration(this.stage) - this.stageElapsed() > 0) {
+        this.scheduleStageEnd(); // woke early
+      } else {
+        this.nextStage(this.stageEnd());
+      }
+    }, Math.max(1, Math.ceil(remaining * 1000)));
+  }
+
+  private finish(status: 'completed' | 'stopped'): void {
+    this.clearTimer();
+    if (this.pumps) {
+      const pumps = this.pumps;
+      this.pumps = null;
+      pumps.stop();
+    }
+
+    this.finalPosition = this.currentPosition();
+    this.pausedAt = null;
+    this.status = status;
+    this.emit(status);
+  }
+
+  private emit(type: RoundSchedulerEventType): void {
+    const event: RoundSchedulerEvent = { type, timestamp: this.clock.now(), position: this.getPosition()! };
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Round breathing ${type} listener failed:`, error);
+      }
+    });
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { Clock } from '../types/vitalSigns';
+import { FakeClock } from './FakeClock';
+import { RoundBreathingScheduler } from './RoundBreathingScheduler';
+import { SessionEngine } from './SessionEngine';
+import { TechniqueCatalogService } from './TechniqueCatalogService';
+
+const spans = (periods: Array<{ start: Date; end: Date }>) =>
+  periods.map(period => [period.start.getTime(), period.end.getTime()]);
+
+describe('SessionEngine resting periods', () => {
+  const startEngine = (clock: FakeClock) => {
+    const engine = new SessionEngine(
+      {
+        plannedDuration: 120,
+        pattern: TechniqueCatalogService.getPattern('box_breathing'),
+        preparationDuration: 60,
+        cooldownDuration: 30,
+      },
+      clock
+    );
+    engine.start();
+    return engine;
+  };
+
+  it('covers preparation and cooldown but not the guided breathing', () => {
+    const clock = new FakeClock(10000);
+    const engine = startEngine(clock);
+
+    clock.advance(210000);
+
+    expect(engine.getStatus()).toBe('completed');
+    expect(spans(engine.getRestingPeriods())).toEqual([
+      [10000, 70000],
+      [190000, 220000],
+    ]);
+  });
+
+  it('moves later phases back by the time spent paused', () => {
+    const clock = new FakeClock(0);
+    const engine = startEngine(clock);
+
+    clock.advance(90000);
+    engine.pause();
+    clock.advance(15000);
+    engine.resume();
+    clock.advance(135000);
+
+    expect(spans(engine.getRestingPeriods())).toEqual([
+      [0, 60000],
+      [195000, 225000],
+    ]);
+  });
+
+  it('ends an abandoned preparation when the session is cancelled', () => {
+    const clock = new FakeClock(0);
+    const engine = startEngine(clock);
+
+    clock.advance(20000);
+    expect(spans(engine.getRestingPeriods())).toEqual([[0, 20000]]);
+
+    engine.cancel();
+    clock.advance(5000);
+    expect(spans(engine.getRestingPeriods())).toEqual([[0, 20000]]);
+  });
+});
+
+describe('SessionEngine rounds', () => {
+  const ROUNDS = TechniqueCatalogService.get('kapalabhati')!.rounds!;
+
+  // Every timer fires 5 ms after it is due
+  const lateClock = (clock: FakeClock): Clock => ({
+    now: () => clock.now(),
+    setTimeout: (callback, delayMs) => clock.setTimeout(callback, delayMs + 5),
+    clearTimeout: timer => clock.clearTimeout(timer),
+  });
+
+  it('completes every round however late the timers fire', () => {
+    const clock = new FakeClock(0);
+    const engine = new SessionEngine(
+      { plannedDuration: 1, rounds: ROUNDS, technique: 'kapalabhati', preparationDuration: 60 },
+      lateClock(clock)
+    );
+    engine.start();
+
+    clock.advance((60 + RoundBreathingScheduler.maxSeconds(ROUNDS)) * 1000 + 1000);
+
+    expect(engine.getStatus()).toBe('completed');
+    expect(engine.getPranayama(true)!.cycles).toEqual({ planned: 3, completed: 3 });
+  });
+
+  it('moves on to the cooldown when the user ends the holds early', () => {
+    const clock = new FakeClock(0);
+    const engine = new SessionEngine(
+      { plannedDuration: 1, rounds: ROUNDS, technique: 'kapalabhati', cooldownDuration: 30 },
+      clock
+    );
+    engine.start();
+
+    for (let round = 0; round < ROUNDS.rounds; round++) {
+      clock.advance(30000 + 10000);
+      engine.getRoundScheduler()!.endRetention();
+      clock.advance(30000);
+    }
+
+    expect(engine.getState()).toMatchObject({ status: 'running', currentPhase: 'cooldown', remainingTime: 30 });
+    expect(engine.getPranayama(true)!.retentionTimes).toEqual([10, 10, 10]);
+
+    clock.advance(30000);
+    expect(engine.getStatus()).toBe('completed');
+    expect(engine.getTiming()).toMatchObject({ plannedDuration: 300, actualDuration: 240 });
+    expect(spans(engine.getRestingPeriods())).toEqual([[210000, 240000]]);
+  });
+});
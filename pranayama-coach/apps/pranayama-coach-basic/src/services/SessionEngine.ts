@@ -0,0 +1,560 @@
+/**
+ * Session Engine
+ * Headless state machine for one guided session: status transitions,
+ * session phases (preparation, breathing or meditation, cooldown, feedback)
+ * and pause accounting. Breath phases come from the BreathPhaseScheduler it
+ * runs during the breathing phase, with the nostril to use for techniques
+ * such as nadi shodhana, or for rapid breathing from a
+ * RoundBreathingScheduler, whose last round ends the breathing phase. All
+ * timing comes from the injectable clock, so a session runs the same on a
+ * FakeClock as on the device. The session screen, breathing pacer and audio
+ * coach subscribe to its events.
+ */
+
+import {
+  BreathingPattern,
+  BreathPosition,
+  BreathSchedulerEvent,
+  GuidedBreathPhase,
+  PranayamaSession,
+  PranayamaTechnique,
+  RealTimeMetrics,
+  RoundBreathingPattern,
+  RoundSchedulerEvent,
+  SessionEvent,
+  SessionEventType,
+  SessionPhase,
+  SessionState,
+  SessionStatus,
+  SessionTiming,
+} from '../types/session';
+import { Clock, ClockTimer } from '../types/vitalSigns';
+import { BreathPhaseScheduler } from './BreathPhaseScheduler';
+import { ClockService } from './ClockService';
+import { RoundBreathingScheduler } from './RoundBreathingScheduler';
+import { TechniqueCatalogService } from './TechniqueCatalogService';
+
+export interface SessionEngineConfig {
+  plannedDuration: number;          // seconds of breathing or meditation; rounds use their longest length
+  pattern: BreathingPattern | null; // paces the breathing phase; null for unpaced sessions
+  rounds: RoundBreathingPattern | null; // paces it in rounds of rapid breathing instead of the pattern
+  activity: 'breathing' | 'meditation';
+  technique: PranayamaTechnique | null; // for nostril sequencing and the session record
+  preparationDuration: number;      // seconds, before the main phase
+  cooldownDuration: number;         // seconds, after it
+}
+
+interface Segment {
+  phase: SessionPhase;
+  start: number; // seconds of active time
+  end: number;
+}
+
+interface PhaseSpan {
+  phase: SessionPhase;
+  start: number; // ms, clock time
+  end: number | null; // null while in progress
+}
+
+const DEFAULT_CONFIG: Omit<SessionEngineConfig, 'plannedDuration'> = {
+  pattern: null,
+  rounds: null,
+  activity: 'breathing',
+  technique: null,
+  preparationDuration: 0,
+  cooldownDuration: 0,
+};
+
+const TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  not_started: ['running', 'cancelled'],
+  running: ['paused', 'completed', 'cancelled'],
+  paused: ['running', 'completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+const BREATH_PHASES: Record<GuidedBreathPhase, NonNullable<SessionState['currentBreathPhase']>> = {
+  inhale: 'inhale',
+  hold: 'hold_in',
+  exhale: 'exhale',
+  pause: 'hold_out',
+};
+
+export class SessionEngine {
+  private config: SessionEngineConfig;
+  private clock: Clock;
+  private segments: Segment[];
+  private plannedSeconds: number; // before rounds move the end of the breathing phase
+  private breathScheduler: BreathPhaseScheduler | null = null;
+  private roundScheduler: RoundBreathingScheduler | null = null;
+  private listeners = new Set<(event: SessionEvent) => void>();
+  private status: SessionStatus = 'not_started';
+  private startTime: number | null = null;
+  private endTime: number | null = null;
+  private pausedAt: number | null = null;
+  private pausedMs = 0;
+  private timer: ClockTimer | null = null;
+  private metrics: RealTimeMetrics = {};
+  private lastPhase: SessionPhase | null = null;
+  private phaseLog: PhaseSpan[] = [];
+  private lastSecond = 0;
+  private completedCycles = 0;
+
+  constructor(
+    config: Partial<SessionEngineConfig> & Pick<SessionEngineConfig, 'plannedDuration'>,
+    clock: Clock = ClockService.getClock()
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    if (this.config.rounds && this.config.activity === 'breathing') {
+      this.config.plannedDuration = RoundBreathingScheduler.maxSeconds(this.config.rounds);
+    }
+    if (!(this.config.plannedDuration > 0)) {
+      throw new Error('Planned session duration must be positive');
+    }
+    if (this.config.pattern && !(TechniqueCatalogService.cycleSeconds(this.config.pattern) > 0)) {
+      throw new Error('Breathing pattern must have a positive cycle length');
+    }
+
+    this.clock = clock;
+    this.segments = this.buildSegments();
+    this.plannedSeconds = this.totalSeconds();
+
+    if (this.config.rounds && this.config.activity === 'breathing') {
+      this.roundScheduler = new RoundBreathingScheduler(this.config.rounds, clock);
+      this.roundScheduler.subscribe(event => this.handleRoundEvent(event));
+    } else if (this.config.pattern && this.config.activity === 'breathing') {
+      this.breathScheduler = new BreathPhaseScheduler(this.config.pattern, { duration: this.config.plannedDuration }, clock);
+      this.breathScheduler.subscribe(event => this.handleBreathEvent(event));
+    }
+  }
+
+  /**
+   * Whether a status transition is allowed
+   */
+  static canTransition(from: SessionStatus, to: SessionStatus): boolean {
+    return TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * The current breath phase of a state as cued to the user
+   */
+  static guidedPhase(state: SessionState): GuidedBreathPhase | null {
+    const phase = (Object.keys(BREATH_PHASES) as GuidedBreathPhase[]).find(key => BREATH_PHASES[key] === state.currentBreathPhase);
+    return phase ?? null;
+  }
+
+  /**
+   * Listen for session events; returns a function that removes the listener
+   */
+  subscribe(listener: (event: SessionEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start the session. Emits the opening phase and breath phase so
+   * subscribers can start in step.
+   */
+  start(): void {
+    this.transition('running');
+    this.startTime = this.clock.now();
+    this.lastSecond = 0;
+
+    this.lastPhase = this.segmentAt(0).phase;
+    this.phaseLog = [{ phase: this.lastPhase, start: this.startTime, end: null }];
+    this.emit('phase_changed');
+    this.syncBreathing(0);
+
+    this.schedule();
+  }
+
+  /**
+   * Pause the session; paused time is not counted as session time
+   */
+  pause(): void {
+    this.transition('paused');
+    this.pausedAt = this.clock.now();
+    this.clearTimer();
+    this.breathScheduler?.pause();
+    this.roundScheduler?.pause();
+  }
+
+  /**
+   * Resume a paused session where it left off, mid breath phase included
+   */
+  resume(): void {
+    this.transition('running');
+    this.pausedMs += this.clock.now() - this.pausedAt!;
+    this.pausedAt = null;
+    this.breathScheduler?.resume();
+    this.roundScheduler?.resume();
+    this.schedule();
+  }
+
+  /**
+   * End the session before its planned end
+   */
+  complete(): void {
+    this.finish('completed', this.clock.now());
+  }
+
+  /**
+   * Abandon the session
+   */
+  cancel(): void {
+    this.finish('cancelled', this.clock.now());
+  }
+
+  /**
+   * Swap the breathing pattern; it takes effect at the next breath cycle
+   */
+  setPattern(pattern: BreathingPattern): void {
+    if (!this.breathScheduler) {
+      throw new Error('This session has no breathing pattern to change');
+    }
+    this.breathScheduler.setPattern(pattern);
+  }
+
+  /**
+   * The scheduler pacing the breathing phase, or null for unpaced sessions
+   */
+  getBreathScheduler(): BreathPhaseScheduler | null {
+    return this.breathScheduler;
+  }
+
+  /**
+   * The scheduler pacing rapid-breathing rounds, or null for other sessions
+   */
+  getRoundScheduler(): RoundBreathingScheduler | null {
+    return this.roundScheduler;
+  }
+
+  /**
+   * Latest vital-sign metrics, reported with the session state
+   */
+  updateMetrics(metrics: RealTimeMetrics): void {
+    this.metrics = { ...this.metrics, ...metrics };
+  }
+
+  getStatus(): SessionStatus {
+    return this.status;
+  }
+
+  /**
+   * Snapshot of the session state at the current clock time
+   */
+  getState(): SessionState {
+    const total = this.totalSeconds();
+    const elapsed = Math.min(this.activeSeconds(), total);
+
+    if (this.status === 'completed') {
+      return {
+        status: this.status,
+        currentPhase: 'feedback',
+        elapsedTime: elapsed,
+        remainingTime: 0,
+        realTimeMetrics: { ...this.metrics },
+      };
+    }
+
+    const segment = this.segmentAt(elapsed);
+    const breath = segment.phase === 'breathing' ? this.breathScheduler?.getPosition() : null;
+    const round = segment.phase === 'breathing' ? this.roundScheduler?.getPosition() : null;
+    return {
+      status: this.status,
+      currentPhase: segment.phase,
+      elapsedTime: elapsed,
+      remainingTime: total - elapsed,
+      currentCycle: breath?.cycle,
+      totalCycles: breath ? this.totalCycles(segment, elapsed, breath) : undefined,
+      currentBreathPhase: breath ? BREATH_PHASES[breath.phase] : undefined,
+      breathPhaseTime: breath ? Math.min(breath.phaseRemaining, segment.end - elapsed) : undefined,
+      currentNostril: breath ? TechniqueCatalogService.getNostril(this.config.technique, breath.phase, breath.cycle) ?? undefined : undefined,
+      currentRound: round?.round,
+      totalRounds: round?.totalRounds,
+      roundStage: round?.stage,
+      realTimeMetrics: { ...this.metrics },
+    };
+  }
+
+  /**
+   * Session timing for the stored session, or null before it has started
+   */
+  getTiming(): SessionTiming | null {
+    if (this.startTime === null) return null;
+
+    const ongoingPause = this.pausedAt !== null ? this.clock.now() - this.pausedAt : 0;
+    return {
+      startTime: new Date(this.startTime),
+      endTime: this.endTime !== null ? new Date(this.endTime) : undefined,
+      plannedDuration: this.plannedSeconds,
+      actualDuration: this.endTime !== null ? this.activeSeconds() : undefined,
+      pausedDuration: (this.pausedMs + ongoingPause) / 1000,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  }
+
+  /**
+   * Clock-time spans of the preparation and cooldown phases, when the user
+   * rests rather than follows the pace; used to calibrate the resting
+   * baseline without guided breathing skewing it
+   */
+  getRestingPeriods(): Array<{ start: Date; end: Date }> {
+    const now = this.clock.now();
+    return this.phaseLog
+      .filter(span => span.phase === 'preparation' || span.phase === 'cooldown')
+      .map(span => ({ start: new Date(span.start), end: new Date(span.end ?? now) }));
+  }
+
+  /**
+   * Pranayama details for the stored session, or null for sessions without
+   * a technique
+   */
+  getPranayama(guidanceUsed: boolean): PranayamaSession | null {
+    const { technique, pattern, rounds, plannedDuration } = this.config;
+    if (!technique || (!pattern && !rounds)) return null;
+
+    // Round-based sessions record the pump as their pattern and rounds as cycles
+    const recorded = rounds ? RoundBreathingScheduler.pumpPattern(rounds) : { ...pattern! };
+    return {
+      technique,
+      pattern: recorded,
+      cycles: {
+        planned: rounds ? rounds.rounds : Math.ceil(plannedDuration / TechniqueCatalogService.cycleSeconds(recorded)),
+        completed: this.completedCycles,
+      },
+      nostrilPattern: TechniqueCatalogService.get(technique)?.nostrils?.pattern,
+      retentionTimes: this.roundScheduler?.getRetentionTimes(),
+      guidanceUsed,
+    };
+  }
+
+  // Helper methods
+
+  private transition(to: SessionStatus): void {
+    if (!SessionEngine.canTransition(this.status, to)) {
+      throw new Error(`Cannot move a session from ${this.status} to ${to}`);
+    }
+
+    const previousStatus = this.status;
+    this.status = to;
+    this.emit('status_changed', { previousStatus });
+  }
+
+  private finish(status: 'completed' | 'cancelled', endTime: number): void {
+    if (!SessionEngine.canTransition(this.status, status)) {
+      throw new Error(`Cannot move a session from ${this.status} to ${status}`);
+    }
+
+    this.clearTimer();
+    this.breathScheduler?.stop();
+    this.roundScheduler?.stop();
+    if (this.pausedAt !== null) {
+      this.pausedMs += endTime - this.pausedAt;
+      this.pausedAt = null;
+    }
+    if (this.startTime !== null) {
+      this.endTime = endTime;
+      this.closePhaseSpan(endTime);
+    }
+    this.transition(status);
+  }
+
+  private buildSegments(): Segment[] {
+    const durations: Array<[SessionPhase, number]> = [
+      ['preparation', this.config.preparationDuration],
+      [this.config.activity, this.config.plannedDuration],
+      ['cooldown', this.config.cooldownDuration],
+    ];
+
+    const segments: Segment[] = [];
+    let start = 0;
+    durations.forEach(([phase, duration]) => {
+      if (duration <= 0) return;
+      segments.push({ phase, start, end: start + duration });
+      start += duration;
+    });
+    return segments;
+  }
+
+  private totalSeconds(): number {
+    return this.segments[this.segments.length - 1].end;
+  }
+
+  private activeSeconds(): number {
+    if (this.startTime === null) return 0;
+
+    const end = this.endTime ?? this.pausedAt ?? this.clock.now();
+    return (end - this.startTime - this.pausedMs) / 1000;
+  }
+
+  private segmentAt(time: number): Segment {
+    return this.segments.find(candidate => time < candidate.end) ?? this.segments[this.segments.length - 1];
+  }
+
+  /**
+   * Cycles expected in the breathing phase: those done so far plus as many
+   * of the current pattern as fit in the rest of it
+   */
+  private totalCycles(segment: Segment, time: number, breath: BreathPosition): number {
+    const cycleStart = time - breath.cycleElapsed;
+    return breath.cycle - 1 + Math.ceil((segment.end - cycleStart) / TechniqueCatalogService.cycleSeconds(breath.pattern));
+  }
+
+  /**
+   * Start the breath or round scheduler once the breathing phase is reached,
+   * lined up with the time already spent in it
+   */
+  private syncBreathing(time: number): void {
+    const segment = this.segmentAt(time);
+    if (segment.phase !== 'breathing') return;
+
+    if (this.breathScheduler?.getStatus() === 'idle') {
+      this.breathScheduler.start(time - segment.start);
+    }
+    if (this.roundScheduler?.getStatus() === 'idle') {
+      this.roundScheduler.start(time - segment.start);
+    }
+  }
+
+  /**
+   * Whether rounds of rapid breathing are still under way; until they are
+   * done the breathing phase lasts however long the holds take
+   */
+  private roundsUnderway(): boolean {
+    const status = this.roundScheduler?.getStatus();
+    return status === 'running' || status === 'paused';
+  }
+
+  /**
+   * Move the end of the breathing phase, and the phases after it, to time
+   */
+  private moveBreathingEnd(time: number): void {
+    const index = this.segments.findIndex(segment => segment.phase === 'breathing');
+    const shift = time - this.segments[index].end;
+
+    this.segments[index].end = time;
+    this.segments.slice(index + 1).forEach(segment => {
+      segment.start += shift;
+      segment.end += shift;
+    });
+  }
+
+  private handleBreathEvent(event: BreathSchedulerEvent): void {
+    switch (event.type) {
+      case 'phase_started': {
+        const { phase, phaseDuration, cycle } = event.position;
+        const nostril = TechniqueCatalogService.getNostril(this.config.technique, phase, cycle) ?? undefined;
+        this.emit('breath_phase_changed', { breathPhase: phase, breathPhaseDuration: phaseDuration, nostril });
+        break;
+      }
+      case 'cycle_completed':
+        this.completedCycles++;
+        this.emit('cycle_completed');
+        break;
+    }
+  }
+
+  private handleRoundEvent(event: RoundSchedulerEvent): void {
+    switch (event.type) {
+      case 'stage_started':
+        this.emit('round_stage_changed', { roundStage: event.position.stage });
+        break;
+      case 'round_completed':
+        this.completedCycles++;
+        this.emit('cycle_completed');
+        break;
+      case 'completed':
+        // Holds end when the user breathes, so the last round, not the
+        // planned length, ends the breathing phase
+        if (this.status === 'running') {
+          this.moveBreathingEnd(this.activeSeconds());
+          this.clearTimer();
+          this.update();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Wake at the next session phase or whole second, whichever comes first
+   */
+  private schedule(): void {
+    this.clearTimer();
+
+    const active = this.activeSeconds();
+    const next = Math.min(this.segmentAt(active).end, Math.floor(active) + 1, this.totalSeconds());
+    this.timer = this.clock.setTimeout(() => this.update(), Math.max(0, Math.ceil((next - active) * 1000)));
+  }
+
+  private update(): void {
+    this.timer = null;
+    if (this.status !== 'running') return;
+
+    const active = this.activeSeconds();
+    const breathing = this.segments.find(segment => segment.phase === 'breathing');
+    if (breathing && active >= breathing.end && this.roundsUnderway()) {
+      // The last round is running past the planned length; the breathing
+      // phase goes on until the next tick
+      this.moveBreathingEnd(Math.floor(active) + 1);
+    }
+
+    if (active >= this.totalSeconds()) {
+      // Finish exactly on the planned end, however late the timer fired
+      this.finish('completed', this.startTime! + this.pausedMs + this.totalSeconds() * 1000);
+      return;
+    }
+
+    const segment = this.segmentAt(active);
+    const phase = segment.phase;
+    if (phase !== this.lastPhase) {
+      this.lastPhase = phase;
+      // Log the boundary as planned, however late the timer fired
+      const boundary = this.startTime! + this.pausedMs + segment.start * 1000;
+      this.closePhaseSpan(boundary);
+      this.phaseLog.push({ phase, start: boundary, end: null });
+      if (phase !== 'breathing') {
+        this.breathScheduler?.stop();
+        this.roundScheduler?.stop();
+      }
+      this.emit('phase_changed');
+      this.syncBreathing(active);
+    }
+
+    const second = Math.floor(active);
+    if (second > this.lastSecond) {
+      this.lastSecond = second;
+      this.emit('tick');
+    }
+
+    this.schedule();
+  }
+
+  private closePhaseSpan(time: number): void {
+    const current = this.phaseLog[this.phaseLog.length - 1];
+    if (current && current.end === null) {
+      current.end = time;
+    }
+  }
+
+  private emit(type: SessionEventType, details: Partial<SessionEvent> = {}): void {
+    const event: SessionEvent = { ...details, type, timestamp: this.clock.now(), state: this.getState() };
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Session ${type} listener failed:`, error);
+      }
+    });
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { FakeClock } from './FakeClock';
+import { SessionEngine } from './SessionEngine';
+import { SessionHistoryService } from './SessionHistoryService';
+import { TechniqueCatalogService } from './TechniqueCatalogService';
+
+describe('SessionHistoryService', () => {
+  const startEngine = (clock: FakeClock) => {
+    const engine = new SessionEngine(
+      {
+        plannedDuration: 65, // five 13 s cycles
+        pattern: TechniqueCatalogService.getPattern('nadi_shodhana'),
+        technique: 'nadi_shodhana',
+      },
+      clock
+    );
+    engine.start();
+    return engine;
+  };
+
+  it('records a completed session with its nostril pattern', async () => {
+    const clock = new FakeClock(1000);
+    const engine = startEngine(clock);
+    clock.advance(65000);
+
+    await SessionHistoryService.recordSession(engine, 'pranayama', true);
+    const record = (await SessionHistoryService.getSessions()).pop()!;
+
+    expect(record.pranayama).toEqual({
+      technique: 'nadi_shodhana',
+      pattern: TechniqueCatalogService.getPattern('nadi_shodhana'),
+      cycles: { planned: 5, completed: 5 },
+      nostrilPattern: 'alternate_left_first',
+      guidanceUsed: true,
+    });
+    expect(record.timing.startTime).toEqual(new Date(1000));
+    expect(record.timing.endTime).toEqual(new Date(66000));
+    expect(record.outcome).toMatchObject({ sessionCompleted: true, completionPercentage: 100 });
+  });
+
+  it('marks a session ended early as incomplete', () => {
+    const clock = new FakeClock(0);
+    const engine = startEngine(clock);
+    clock.advance(26000);
+    engine.cancel();
+
+    const record = SessionHistoryService.createRecord(engine, 'pranayama', false);
+    expect(record.pranayama!.cycles).toEqual({ planned: 5, completed: 2 });
+    expect(record.outcome).toMatchObject({ sessionCompleted: false, completionPercentage: 40 });
+  });
+
+  it('refuses a session that never started', () => {
+    const engine = new SessionEngine({ plannedDuration: 60 }, new FakeClock(0));
+    expect(() => SessionHistoryService.createRecord(engine, 'pranayama', true)).toThrow('has not started');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Session History Service
+ * Records the sessions run by a SessionEngine on the device
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SessionRecord, SessionType } from '../types/session';
+import { SessionEngine } from './SessionEngine';
+
+export class SessionHistoryService {
+  private static readonly HISTORY_KEY = 'session_history';
+  static readonly MAX_SESSIONS = 100;
+
+  /**
+   * Build the record of a finished session from its engine
+   */
+  static createRecord(engine: SessionEngine, sessionType: SessionType, guidanceUsed: boolean): SessionRecord {
+    const timing = engine.getTiming();
+    if (!timing) {
+      throw new Error('Cannot record a session that has not started');
+    }
+
+    const completed = engine.getStatus() === 'completed';
+    return {
+      id: `session_${timing.startTime.getTime()}`,
+      sessionType,
+      pranayama: engine.getPranayama(guidanceUsed) ?? undefined,
+      timing,
+      outcome: {
+        sessionCompleted: completed,
+        completionPercentage: completed ? 100 : Math.min(100, ((timing.actualDuration ?? 0) / timing.plannedDuration) * 100),
+        reasonForIncomplete: completed ? undefined : 'ended_early',
+      },
+      createdAt: timing.startTime,
+    };
+  }
+
+  /**
+   * Record a finished session, keeping the most recent MAX_SESSIONS
+   */
+  static async recordSession(engine: SessionEngine, sessionType: SessionType, guidanceUsed: boolean): Promise<SessionRecord> {
+    try {
+      const record = this.createRecord(engine, sessionType, guidanceUsed);
+      const history = [...(await this.getSessions()), record].slice(-this.MAX_SESSIONS);
+
+      await AsyncStorage.setItem(this.HISTORY_KEY, JSON.stringify(history));
+      return record;
+    } catch (error) {
+      console.error('Failed to record session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recorded sessions, oldest first
+   */
+  static async getSessions(): Promise<SessionRecord[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.HISTORY_KEY);
+      if (!stored) return [];
+
+      return JSON.parse(stored).map((record: SessionRecord) => ({
+        ...record,
+        timing: {
+          ...record.timing,
+          startTime: new Date(record.timing.startTime),
+          endTime: record.timing.endTime ? new Date(record.timing.endTime) : undefined,
+        },
+        createdAt: new Date(record.createdAt),
+      }));
+    } catch (error) {
+      console.error('Failed to get session history:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { SessionReplayService } from './SessionReplayService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+describe('SessionReplayService', () => {
+  // Long enough for HRV (30 beats), coherence (45 s of beats) and spectral HRV (60 s)
+  const DURATION_SECONDS = 75;
+  const recording = new SyntheticVitalSignsGenerator({ seed: 19 }).recording(DURATION_SECONDS, 'golden');
+
+  it('replays a recording to the same output every time', async () => {
+    const first = SessionReplayService.toGoldenJSON(await SessionReplayService.replay(recording));
+    const second = SessionReplayService.toGoldenJSON(await SessionReplayService.replay(recording));
+
+    expect(second).toBe(first);
+  });
+
+  it('matches the golden output', async () => {
+    const result = await SessionReplayService.replay(recording);
+    const { heartRateVariability, coherence } = result.session.vitalSigns;
+
+    expect(heartRateVariability.length).toBeGreaterThan(0);
+    expect(heartRateVariability[heartRateVariability.length - 1].lf).toBeDefined();
+    expect(coherence!.length).toBeGreaterThan(0);
+    // Three digits keep the golden stable across JavaScript engines
+    expect(SessionReplayService.toGoldenJSON(result, 3)).toMatchSnapshot();
+  });
+
+  it('summarizes the quality of the collection cycles', async () => {
+    const { session } = await SessionReplayService.replay(recording, { cameraVitalSigns: false });
+    const { dataQuality } = session;
+
+    // Heart rate needs a few seconds of frames before the first reading
+    expect(dataQuality.dataCompleteness).toBeCloseTo((session.vitalSigns.heartRate.length / (DURATION_SECONDS - 1)) * 100, 6);
+    expect(dataQuality.confidenceIntervals.heartRate).toBeGreaterThan(0);
+    expect(dataQuality.qualityFlags).toEqual(Array.from(new Set(dataQuality.qualityFlags)));
+    expect(dataQuality.usableForAnalysis).toBe(dataQuality.overallScore > 0.7);
+  });
+
+  it('refuses a recording without samples', async () => {
+    await expect(SessionReplayService.replay({})).rejects.toThrow('Recording contains no frames');
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Session Replay Service
+ * Replays a recorded session (camera frames, breath-sound envelope, motion)
+ * through VitalSignsService and CameraVitalSignsService on a fake clock, so a
+ * reported reading can be reproduced exactly and diffed against a golden
+ * output.
+ */
+
+import {
+  AudioEnvelopeSample,
+  CameraConfig,
+  CycleQuality,
+  DataQuality,
+  SessionRecording,
+  VitalSigns,
+  VitalSignsCycle,
+  VitalSignsSession,
+} from '../types/vitalSigns';
+import { HealthBaseline } from '../types/user';
+import { MonitoringMethod } from '../context/VitalSignsContext';
+import { AudioService } from './AudioService';
+import { CameraService } from './CameraService';
+import { CameraVitalSignsService, VitalSignsReading } from './CameraVitalSignsService';
+import { ClockService } from './ClockService';
+import { FakeClock } from './FakeClock';
+import { FileReplayFrameSource } from './FileReplayFrameSource';
+import { FileReplayMotionSource } from './FileReplayMotionSource';
+import { MotionService } from './MotionService';
+import { VitalSignsService } from './VitalSignsService';
+
+interface ReplayOptions {
+  tickMs: number; // collection cadence, 1 s as in the live context
+  baseline: HealthBaseline | null; // scored against instead of the stored baseline
+  cameraVitalSigns: boolean; // also run frames through the per-frame CameraVitalSignsService pipeline
+}
+
+export interface SessionReplayResult {
+  session: VitalSignsSession;
+  cameraReadings: VitalSignsReading[];
+}
+
+const DEFAULT_OPTIONS: ReplayOptions = {
+  tickMs: 1000,
+  baseline: null,
+  cameraVitalSigns: true,
+};
+
+// Frame sources only read the frame rate; recorded frames keep their own timing
+const REPLAY_CAMERA_CONFIG: CameraConfig = {
+  rearCamera: true,
+  frontCamera: false,
+  flashEnabled: true,
+  resolution: '640x480',
+  frameRate: 30,
+  autoFocus: false,
+};
+
+export class SessionReplayService {
+  private static isReplaying = false;
+
+  /**
+   * Replay a recording and return the session it produces. Takes over the
+   * shared camera, audio and motion services, so it must not run alongside
+   * live monitoring; their default sources are restored afterwards.
+   */
+  static async replay(recording: SessionRecording, options: Partial<ReplayOptions> = {}): Promise<SessionReplayResult> {
+    if (this.isReplaying) {
+      throw new Error('A session replay is already running');
+    }
+    if (CameraService.isCurrentlyMonitoring() || AudioService.isCurrentlyAnalyzing() || MotionService.isCurrentlyMonitoring()) {
+      throw new Error('Cannot replay a session while live monitoring is active');
+    }
+
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    if (!(config.tickMs > 0)) {
+      throw new Error('Replay tick must be positive');
+    }
+
+    const [start, end] = this.timeSpan(recording);
+    const frames = recording.frames ?? [];
+    const envelope = (recording.audioEnvelope?.samples ?? []).slice().sort((a, b) => a.timestamp - b.timestamp);
+    const cameraMethod = recording.cameraMethod ?? 'ppg';
+    const methods = this.monitoringMethods(recording);
+
+    const clock = new FakeClock(start);
+    const previousClock = ClockService.getClock();
+    const previousBaseline = VitalSignsService.getBaseline();
+    const cameraVitalSigns = config.cameraVitalSigns && frames.length > 0 ? new CameraVitalSignsService() : null;
+    const cameraReadings: VitalSignsReading[] = [];
+    const vitalSigns: VitalSigns = {
+      heartRate: [],
+      heartRateVariability: [],
+      oxygenSaturation: [],
+      breathing: [],
+      stressLevel: [],
+      coherence: [],
+    };
+    const qualities: CycleQuality[] = [];
+
+    this.isReplaying = true;
+    ClockService.setClock(clock);
+
+    try {
+      AudioService.clearBreathingBuffer();
+
+      if (frames.length > 0) {
+        CameraService.setFrameSource(new FileReplayFrameSource(frames));
+        await CameraService.startMonitoring(REPLAY_CAMERA_CONFIG);
+      }
+      if (cameraVitalSigns) {
+        cameraVitalSigns.setFrameSource(new FileReplayFrameSource(frames));
+        await cameraVitalSigns.startMonitoring(cameraMethod, (reading) => cameraReadings.push(reading));
+      }
+      if (recording.motion && methods.includes('motion_sensors')) {
+        MotionService.setSensorSource(new FileReplayMotionSource(recording.motion));
+        await MotionService.startMonitoring();
+      }
+
+      await VitalSignsService.startDataCollection(methods);
+      VitalSignsService.setBaseline(config.baseline);
+
+      let envelopeIndex = 0;
+      for (let time = start + config.tickMs; time <= end; time += config.tickMs) {
+        // Frames and motion samples are delivered by their sources' timers
+        clock.advanceTo(time);
+
+        const due: AudioEnvelopeSample[] = [];
+        while (envelopeIndex < envelope.length && envelope[envelopeIndex].timestamp <= time) {
+          due.push(envelope[envelopeIndex++]);
+        }
+        if (due.length > 0) {
+          AudioService.addEnvelopeSamples(due, recording.audioEnvelope!.sampleRate);
+        }
+
+        const data = await VitalSignsService.collectLatestData(methods);
+        this.appendReadings(vitalSigns, data);
+        qualities.push(VitalSignsService.calculateDataQuality(data));
+
+        // The per-frame pipeline sees this cycle's motion from the next frame on
+        cameraVitalSigns?.updateMotionData(data.motion ?? null);
+      }
+
+      return {
+        session: {
+          sessionId: recording.sessionId ?? `replay_${start}`,
+          startTime: new Date(start),
+          endTime: new Date(end),
+          vitalSigns,
+          dataQuality: this.summarizeQuality(qualities, vitalSigns.heartRate.length),
+          analytics: VitalSignsService.calculateAnalytics(vitalSigns),
+        },
+        cameraReadings,
+      };
+    } catch (error) {
+      console.error('Session replay failed:', error);
+      throw error;
+    } finally {
+      await cameraVitalSigns?.stopMonitoring();
+      await CameraService.stopMonitoring();
+      await MotionService.stopMonitoring();
+      await VitalSignsService.stopDataCollection();
+
+      CameraService.setFrameSource(null);
+      MotionService.setSensorSource(null);
+      AudioService.clearBreathingBuffer();
+      VitalSignsService.setBaseline(previousBaseline);
+      ClockService.setClock(previousClock);
+      this.isReplaying = false;
+    }
+  }
+
+  /**
+   * Serialize a replay result for golden-file diffing: stable two-space JSON
+   * with dates as ISO strings and numbers rounded to the given digits, so
+   * last-bit floating point differences between machines do not show up
+   */
+  static toGoldenJSON(result: SessionReplayResult, digits: number = 6): string {
+    const scale = 10 ** digits;
+    return JSON.stringify(
+      result,
+      (_key, value) => (typeof value === 'number' && isFinite(value) ? Math.round(value * scale) / scale : value),
+      2
+    );
+  }
+
+  // Helper methods
+
+  private static timeSpan(recording: SessionRecording): [number, number] {
+    const timestamps = [
+      ...(recording.frames ?? []).map(frame => frame.timestamp),
+      ...(recording.audioEnvelope?.samples ?? []).map(sample => sample.timestamp),
+      ...(recording.motion?.accelerometer ?? []).map(sample => sample.timestamp),
+      ...(recording.motion?.gyroscope ?? []).map(sample => sample.timestamp),
+    ];
+    if (timestamps.length === 0) {
+      throw new Error('Recording contains no frames, audio envelope or motion samples');
+    }
+
+    return timestamps.reduce<[number, number]>(
+      ([first, last], timestamp) => [Math.min(first, timestamp), Math.max(last, timestamp)],
+      [Infinity, -Infinity]
+    );
+  }
+
+  private static monitoringMethods(recording: SessionRecording): MonitoringMethod[] {
+    const methods: MonitoringMethod[] = [];
+    if (recording.frames && recording.frames.length > 0) {
+      methods.push(recording.cameraMethod === 'rppg' ? 'camera_rppg' : 'camera_ppg');
+    }
+    if (recording.audioEnvelope && recording.audioEnvelope.samples.length > 0) {
+      methods.push('audio_breathing');
+    }
+    if (recording.motion && recording.motion.accelerometer.length + recording.motion.gyroscope.length > 0) {
+      methods.push('motion_sensors');
+    }
+    return methods;
+  }
+
+  /**
+   * Accumulate a collection cycle the way the live context does, without
+   * its on-screen history limit
+   */
+  private static appendReadings(vitalSigns: VitalSigns, data: VitalSignsCycle): void {
+    if (data.heartRate) vitalSigns.heartRate.push(data.heartRate);
+    if (data.hrv) vitalSigns.heartRateVariability.push(data.hrv);
+    if (data.spo2) vitalSigns.oxygenSaturation.push(data.spo2);
+    if (data.breathing) vitalSigns.breathing.push(data.breathing);
+    if (data.stress) vitalSigns.stressLevel.push(data.stress);
+    if (data.coherence) vitalSigns.coherence?.push(data.coherence);
+  }
+
+  /**
+   * Session-level quality from the per-cycle scores: completeness is the
+   * share of cycles with a heart rate, artifacts the number of cycles whose
+   * camera window contained any
+   */
+  private static summarizeQuality(qualities: CycleQuality[], heartRateCycles: number): DataQuality {
+    const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+    const measured = (metric: 'heartRate' | 'hrv' | 'spo2' | 'breathing') =>
+      mean(qualities.map(quality => quality.confidence[metric]).filter(value => value > 0));
+
+    const overallScore = mean(qualities.map(quality => quality.overall));
+    return {
+      overallScore,
+      dataCompleteness: qualities.length > 0 ? (heartRateCycles / qualities.length) * 100 : 0,
+      artifactsDetected: qualities.filter(quality => quality.artifactsDetected > 0).length,
+      confidenceIntervals: {
+        heartRate: measured('heartRate'),
+        hrv: measured('hrv'),
+        spo2: measured('spo2'),
+        breathing: measured('breathing'),
+      },
+      qualityFlags: Array.from(new Set(qualities.flatMap(quality => quality.flags))),
+      usableForAnalysis: overallScore > 0.7,
+    };
+  }
+}
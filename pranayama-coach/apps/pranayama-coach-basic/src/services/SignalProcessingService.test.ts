@@ -0,0 +1,74 @@
+import { SignalProcessingService } from './SignalProcessingService';
+
+const SAMPLE_RATE = 30;
+const CUTOFF = 3;
+
+/**
+ * Ideal digital Butterworth magnitude under the bilinear transform
+ */
+const idealMagnitude = (order: number, frequency: number): number => {
+  const ratio = Math.tan((Math.PI * frequency) / SAMPLE_RATE) / Math.tan((Math.PI * CUTOFF) / SAMPLE_RATE);
+  return 1 / Math.sqrt(1 + Math.pow(ratio, 2 * order));
+};
+
+const sinusoid = (frequency: number, seconds: number, phase: number = 0): number[] =>
+  Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase));
+
+describe('SignalProcessingService Butterworth design', () => {
+  describe.each([2, 3, 4])('order %i', order => {
+    const lowpass = SignalProcessingService.designButterworth('lowpass', order, SAMPLE_RATE, undefined, CUTOFF);
+    const highpass = SignalProcessingService.designButterworth('highpass', order, SAMPLE_RATE, CUTOFF);
+
+    it('uses one section per pole pair plus one for an odd pole', () => {
+      expect(lowpass.sections).toHaveLength(Math.ceil(order / 2));
+    });
+
+    it('passes the passband at unity gain', () => {
+      expect(SignalProcessingService.magnitudeResponse(lowpass, 0)).toBeCloseTo(1, 6);
+      expect(SignalProcessingService.magnitudeResponse(lowpass, 0.5)).toBeCloseTo(1, 2);
+      expect(SignalProcessingService.magnitudeResponse(highpass, 12)).toBeCloseTo(1, 2);
+    });
+
+    it('is 3 dB down at the cutoff', () => {
+      expect(SignalProcessingService.magnitudeResponse(lowpass, CUTOFF)).toBeCloseTo(Math.SQRT1_2, 6);
+      expect(SignalProcessingService.magnitudeResponse(highpass, CUTOFF)).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+
+    it('follows the ideal response into the stopband', () => {
+      for (const frequency of [1, 2, 4, 6, 9, 12]) {
+        expect(SignalProcessingService.magnitudeResponse(lowpass, frequency)).toBeCloseTo(idealMagnitude(order, frequency), 6);
+      }
+      expect(SignalProcessingService.magnitudeResponse(lowpass, 6)).toBeLessThan(idealMagnitude(order - 1, 6));
+    });
+  });
+});
+
+describe('SignalProcessingService.filtfilt', () => {
+  const design = SignalProcessingService.designButterworth('lowpass', 4, SAMPLE_RATE, undefined, CUTOFF);
+
+  it('applies the squared gain to a sinusoid without shifting its phase', () => {
+    const frequency = 2.5;
+    const input = sinusoid(frequency, 20, 0.3);
+    const output = SignalProcessingService.filtfilt(design, input);
+    const expectedGain = Math.pow(idealMagnitude(4, frequency), 2);
+
+    // Compare away from the edges, where padding still settles
+    const middle = (signal: number[]) => signal.slice(5 * SAMPLE_RATE, 15 * SAMPLE_RATE);
+    const inputMiddle = middle(input);
+    const outputMiddle = middle(output);
+    const projection = outputMiddle.reduce((sum, value, i) => sum + value * inputMiddle[i], 0);
+    const energy = inputMiddle.reduce((sum, value) => sum + value * value, 0);
+
+    expect(projection / energy).toBeCloseTo(expectedGain, 2);
+    outputMiddle.forEach((value, i) => expect(value).toBeCloseTo(expectedGain * inputMiddle[i], 2));
+  });
+
+  it('removes a stopband sinusoid', () => {
+    const output = SignalProcessingService.filtfilt(design, sinusoid(10, 20));
+    expect(SignalProcessingService.standardDeviation(output.slice(SAMPLE_RATE, -SAMPLE_RATE))).toBeLessThan(0.01);
+  });
+
+  it('returns an empty signal unchanged', () => {
+    expect(SignalProcessingService.filtfilt(design, [])).toEqual([]);
+  });
+});
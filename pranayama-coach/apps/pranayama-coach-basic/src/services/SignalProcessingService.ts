@@ -0,0 +1,358 @@
+/**
+ * Signal Processing Service
+ * IIR filter design and zero-phase filtering for physiological signals
+ */
+
+export type FilterType = 'lowpass' | 'highpass' | 'bandpass';
+
+/**
+ * A single second-order section in direct form II transposed.
+ * First-order sections are represented with b2 = a2 = 0.
+ */
+export interface BiquadSection {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number; // a0 is normalized to 1
+  a2: number;
+}
+
+export interface FilterDesign {
+  type: FilterType;
+  order: number;
+  sampleRate: number;
+  lowCutoff?: number;  // Hz
+  highCutoff?: number; // Hz
+  sections: BiquadSection[];
+}
+
+export class SignalProcessingService {
+  /**
+   * Design a Butterworth filter as a cascade of second-order sections.
+   * Bandpass filters are built as an order-N highpass followed by an
+   * order-N lowpass, which keeps the maximally flat passband of each edge.
+   */
+  static designButterworth(
+    type: FilterType,
+    order: number,
+    sampleRate: number,
+    lowCutoff?: number,
+    highCutoff?: number
+  ): FilterDesign {
+    if (!Number.isInteger(order) || order < 1) {
+      throw new Error(`Invalid filter order: ${order}`);
+    }
+    if (!(sampleRate > 0)) {
+      throw new Error(`Invalid sample rate: ${sampleRate}`);
+    }
+
+    const nyquist = sampleRate / 2;
+    const checkCutoff = (cutoff: number | undefined, name: string): number => {
+      if (cutoff === undefined || !(cutoff > 0) || cutoff >= nyquist) {
+        throw new Error(`Invalid ${name} cutoff ${cutoff} Hz for sample rate ${sampleRate} Hz`);
+      }
+      return cutoff;
+    };
+
+    const sections: BiquadSection[] = [];
+
+    switch (type) {
+      case 'lowpass':
+        sections.push(...this.butterworthSections('lowpass', order, sampleRate, checkCutoff(highCutoff, 'high')));
+        break;
+      case 'highpass':
+        sections.push(...this.butterworthSections('highpass', order, sampleRate, checkCutoff(lowCutoff, 'low')));
+        break;
+      case 'bandpass': {
+        const low = checkCutoff(lowCutoff, 'low');
+        const high = checkCutoff(highCutoff, 'high');
+        if (low >= high) {
+          throw new Error(`Low cutoff (${low} Hz) must be below high cutoff (${high} Hz)`);
+        }
+        sections.push(...this.butterworthSections('highpass', order, sampleRate, low));
+        sections.push(...this.butterworthSections('lowpass', order, sampleRate, high));
+        break;
+      }
+    }
+
+    return { type, order, sampleRate, lowCutoff, highCutoff, sections };
+  }
+
+  /**
+   * Run a filter causally over the signal (single pass, introduces phase lag)
+   */
+  static lfilter(design: FilterDesign, signal: number[]): number[] {
+    let output = signal.slice();
+    for (const section of design.sections) {
+      output = this.runSection(section, output, output.length > 0 ? output[0] : 0);
+    }
+    return output;
+  }
+
+  /**
+   * Zero-phase filtering: forward and reverse passes with odd-reflection
+   * padding and steady-state initial conditions to suppress edge transients.
+   */
+  static filtfilt(design: FilterDesign, signal: number[]): number[] {
+    if (signal.length === 0) return [];
+
+    const padLength = Math.min(signal.length - 1, 3 * (2 * design.sections.length + 1));
+    const padded = this.oddReflect(signal, padLength);
+
+    let forward = padded;
+    for (const section of design.sections) {
+      forward = this.runSection(section, forward, forward[0]);
+    }
+
+    let backward = forward.reverse();
+    for (const section of design.sections) {
+      backward = this.runSection(section, backward, backward[0]);
+    }
+    backward.reverse();
+
+    return backward.slice(padLength, padLength + signal.length);
+  }
+
+  /**
+   * Convenience wrapper: design a Butterworth filter and apply it zero-phase
+   */
+  static butterworthFilter(
+    signal: number[],
+    type: FilterType,
+    order: number,
+    sampleRate: number,
+    lowCutoff?: number,
+    highCutoff?: number
+  ): number[] {
+    const design = this.designButterworth(type, order, sampleRate, lowCutoff, highCutoff);
+    return this.filtfilt(design, signal);
+  }
+
+  /**
+   * Magnitude response of a filter design at the given frequency (Hz)
+   */
+  static magnitudeResponse(design: FilterDesign, frequency: number): number {
+    const omega = (2 * Math.PI * frequency) / design.sampleRate;
+    const cos1 = Math.cos(omega);
+    const sin1 = Math.sin(omega);
+    const cos2 = Math.cos(2 * omega);
+    const sin2 = Math.sin(2 * omega);
+
+    let gain = 1;
+    for (const { b0, b1, b2, a1, a2 } of design.sections) {
+      // Evaluate H(e^-jw) = (b0 + b1 z^-1 + b2 z^-2) / (1 + a1 z^-1 + a2 z^-2)
+      const numRe = b0 + b1 * cos1 + b2 * cos2;
+      const numIm = -(b1 * sin1 + b2 * sin2);
+      const denRe = 1 + a1 * cos1 + a2 * cos2;
+      const denIm = -(a1 * sin1 + a2 * sin2);
+      gain *= Math.sqrt((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+    }
+    return gain;
+  }
+
+  /**
+   * Periodogram of an evenly sampled signal evaluated at arbitrary frequencies
+   * (a direct DFT, so the grid can be finer than the 1/duration bin spacing)
+   */
+  static powerSpectrum(signal: number[], sampleRate: number, frequencies: number[]): number[] {
+    const centered = this.removeMean(signal);
+    const n = centered.length;
+
+    return frequencies.map(frequency => {
+      const omega = (2 * Math.PI * frequency) / sampleRate;
+      let re = 0;
+      let im = 0;
+      for (let i = 0; i < n; i++) {
+        re += centered[i] * Math.cos(omega * i);
+        im -= centered[i] * Math.sin(omega * i);
+      }
+      return (re * re + im * im) / n;
+    });
+  }
+
+  /**
+   * Frequency of the largest spectral peak between low and high (Hz),
+   * refined by parabolic interpolation around the best grid point
+   */
+  static dominantFrequency(
+    signal: number[],
+    sampleRate: number,
+    low: number,
+    high: number,
+    step: number = 0.01
+  ): { frequency: number; frequencies: number[]; power: number[] } | null {
+    if (signal.length < 4 || high <= low) return null;
+
+    const frequencies: number[] = [];
+    for (let i = Math.ceil(low / step); i * step <= high + 1e-9; i++) {
+      frequencies.push(i * step);
+    }
+
+    const power = this.powerSpectrum(signal, sampleRate, frequencies);
+    let peakIndex = 0;
+    for (let i = 1; i < power.length; i++) {
+      if (power[i] > power[peakIndex]) peakIndex = i;
+    }
+    if (power[peakIndex] <= 0) return null;
+
+    let frequency = frequencies[peakIndex];
+    if (peakIndex > 0 && peakIndex < power.length - 1) {
+      const left = power[peakIndex - 1];
+      const center = power[peakIndex];
+      const right = power[peakIndex + 1];
+      const denominator = left - 2 * center + right;
+      if (denominator !== 0) {
+        frequency += (0.5 * (left - right) / denominator) * step;
+      }
+    }
+
+    return { frequency, frequencies, power };
+  }
+
+  /**
+   * Indices of local maxima at least minDistance samples apart. When two
+   * candidates are closer than that, the taller one wins.
+   */
+  static findPeaks(signal: number[], minDistance: number, threshold: number = -Infinity): number[] {
+    const candidates: number[] = [];
+    for (let i = 1; i < signal.length - 1; i++) {
+      if (signal[i] > signal[i - 1] && signal[i] >= signal[i + 1] && signal[i] > threshold) {
+        candidates.push(i);
+      }
+    }
+
+    const byHeight = candidates.slice().sort((a, b) => signal[b] - signal[a]);
+    const accepted: number[] = [];
+    for (const candidate of byHeight) {
+      if (accepted.every(peak => Math.abs(peak - candidate) >= minDistance)) {
+        accepted.push(candidate);
+      }
+    }
+
+    return accepted.sort((a, b) => a - b);
+  }
+
+  /**
+   * Linearly interpolate an unevenly sampled series onto a uniform grid
+   */
+  static resampleLinear(times: number[], values: number[], sampleRate: number): { times: number[]; values: number[] } {
+    if (times.length < 2) return { times: [], values: [] };
+
+    const outTimes: number[] = [];
+    const outValues: number[] = [];
+    const step = 1 / sampleRate;
+    let j = 0;
+
+    for (let t = times[0]; t <= times[times.length - 1] + 1e-9; t += step) {
+      while (j < times.length - 2 && times[j + 1] < t) j++;
+      const span = times[j + 1] - times[j];
+      const fraction = span > 0 ? (t - times[j]) / span : 0;
+      outTimes.push(t);
+      outValues.push(values[j] + fraction * (values[j + 1] - values[j]));
+    }
+
+    return { times: outTimes, values: outValues };
+  }
+
+  /**
+   * Standard deviation of a signal
+   */
+  static standardDeviation(signal: number[]): number {
+    if (signal.length === 0) return 0;
+    const mean = signal.reduce((sum, val) => sum + val, 0) / signal.length;
+    return Math.sqrt(signal.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / signal.length);
+  }
+
+  /**
+   * Remove the mean from a signal
+   */
+  static removeMean(signal: number[]): number[] {
+    if (signal.length === 0) return [];
+    const mean = signal.reduce((sum, val) => sum + val, 0) / signal.length;
+    return signal.map(val => val - mean);
+  }
+
+  // Helper methods for filter design
+
+  private static butterworthSections(
+    kind: 'lowpass' | 'highpass',
+    order: number,
+    sampleRate: number,
+    cutoff: number
+  ): BiquadSection[] {
+    const sections: BiquadSection[] = [];
+    // Pre-warp the cutoff for the bilinear transform
+    const k = Math.tan((Math.PI * cutoff) / sampleRate);
+
+    // Conjugate pole pairs of the analog prototype, one biquad each. The
+    // poles sit at (2i + 1)π/2N from the negative real axis for even orders
+    // and at (i + 1)π/N for odd orders, whose remaining pole is real.
+    for (let i = 0; i < Math.floor(order / 2); i++) {
+      const angle = order % 2 === 0 ? ((2 * i + 1) * Math.PI) / (2 * order) : ((i + 1) * Math.PI) / order;
+      const q = 1 / (2 * Math.cos(angle));
+      const norm = 1 / (1 + k / q + k * k);
+      const a1 = 2 * (k * k - 1) * norm;
+      const a2 = (1 - k / q + k * k) * norm;
+
+      if (kind === 'lowpass') {
+        const b0 = k * k * norm;
+        sections.push({ b0, b1: 2 * b0, b2: b0, a1, a2 });
+      } else {
+        sections.push({ b0: norm, b1: -2 * norm, b2: norm, a1, a2 });
+      }
+    }
+
+    // Odd orders keep one real pole as a first-order section
+    if (order % 2 === 1) {
+      const a1 = (k - 1) / (k + 1);
+      if (kind === 'lowpass') {
+        const b0 = k / (k + 1);
+        sections.push({ b0, b1: b0, b2: 0, a1, a2: 0 });
+      } else {
+        const b0 = 1 / (k + 1);
+        sections.push({ b0, b1: -b0, b2: 0, a1, a2: 0 });
+      }
+    }
+
+    return sections;
+  }
+
+  private static runSection(section: BiquadSection, input: number[], initialValue: number): number[] {
+    const { b0, b1, b2, a1, a2 } = section;
+    const output = new Array<number>(input.length);
+
+    // Initialize the delay line as if the input had been constant forever
+    const dcGain = (b0 + b1 + b2) / (1 + a1 + a2);
+    const y0 = initialValue * dcGain;
+    let z2 = b2 * initialValue - a2 * y0;
+    let z1 = b1 * initialValue - a1 * y0 + z2;
+
+    for (let n = 0; n < input.length; n++) {
+      const x = input[n];
+      const y = b0 * x + z1;
+      z1 = b1 * x - a1 * y + z2;
+      z2 = b2 * x - a2 * y;
+      output[n] = y;
+    }
+
+    return output;
+  }
+
+  private static oddReflect(signal: number[], padLength: number): number[] {
+    if (padLength <= 0) return signal.slice();
+
+    const first = signal[0];
+    const last = signal[signal.length - 1];
+    const head: number[] = [];
+    const tail: number[] = [];
+
+    for (let i = padLength; i >= 1; i--) {
+      head.push(2 * first - signal[i]);
+    }
+    for (let i = signal.length - 2; i >= signal.length - 1 - padLength; i--) {
+      tail.push(2 * last - signal[i]);
+    }
+
+    return [...head, ...signal, ...tail];
+  }
+}
@@ -0,0 +1,80 @@
+import { PPGSignal } from '../types/vitalSigns';
+import { ClockService } from './ClockService';
+import { FakeClock } from './FakeClock';
+import { SpO2Service } from './SpO2Service';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+const FPS = 30;
+
+/**
+ * Ten seconds of fingertip PPG at 72 bpm whose red and blue perfusion
+ * indices stand in a given ratio, built directly rather than through the
+ * synthetic generator
+ */
+const signalWithRatio = (ratio: number): PPGSignal => {
+  const redPerfusion = 0.02;
+  const timestamps = Array.from({ length: 10 * FPS }, (_, i) => (i * 1000) / FPS);
+  // Fundamental and second harmonic of the pulse wave
+  const pulse = timestamps.map(t => Math.sin(2.4 * Math.PI * (t / 1000)) + 0.3 * Math.sin(4.8 * Math.PI * (t / 1000)));
+  const channel = (dc: number, perfusion: number) => pulse.map(value => dc * (1 - perfusion * value));
+
+  return {
+    timestamps,
+    redChannel: channel(200, redPerfusion),
+    greenChannel: channel(45, redPerfusion * 1.5),
+    blueChannel: channel(40, redPerfusion / ratio),
+    quality: 1,
+    fps: FPS,
+  };
+};
+
+describe('SpO2Service.estimate', () => {
+  beforeEach(() => ClockService.setClock(new FakeClock(10000)));
+
+  afterEach(() => {
+    SpO2Service.resetCalibrationCurve();
+    ClockService.setClock(null);
+  });
+
+  // Reference points of the empirical transmittance calibration, read as
+  // fixed values so that any change to the default curve shows up here
+  it.each([
+    [0.5, 97.5],
+    [0.6, 95],
+    [0.8, 90],
+    [1.0, 85],
+    [1.4, 75],
+  ])('reads a ratio of ratios of %f as %f% saturation', (ratio, spo2) => {
+    const estimate = SpO2Service.estimate(signalWithRatio(ratio))!;
+
+    expect(estimate.ratioOfRatios).toBeCloseTo(ratio, 3);
+    expect(estimate.value).toBe(spo2);
+    expect(estimate.confidence).toBeGreaterThanOrEqual(SpO2Service.MIN_CONFIDENCE);
+    expect(estimate.timestamp.getTime()).toBe(10000);
+  });
+
+  it('caps the saturation at 100%', () => {
+    expect(SpO2Service.estimate(signalWithRatio(0.35))!.value).toBe(100);
+  });
+
+  it('applies a replacement calibration curve', () => {
+    SpO2Service.setCalibrationCurve(SpO2Service.polynomialCurve([100, -10]));
+    const estimate = SpO2Service.estimate(new SyntheticVitalSignsGenerator({ seed: 5, spo2: 92 }).ppgSignal(0, 10))!;
+
+    expect(estimate.value).toBeCloseTo(100 - 10 * estimate.ratioOfRatios!, 1);
+  });
+
+  it('gives no reading rather than a guess from a poor signal', () => {
+    const short = new SyntheticVitalSignsGenerator({ seed: 5 }).ppgSignal(0, SpO2Service.MIN_WINDOW_SECONDS - 1);
+    const shaken = new SyntheticVitalSignsGenerator({
+      seed: 5,
+      motionArtifacts: [{ start: 1, duration: 6, intensity: 0.5 }],
+    }).ppgSignal(0, 10);
+    // A face is far less pulsatile than a fingertip
+    const face = new SyntheticVitalSignsGenerator({ seed: 5, method: 'rppg' }).ppgSignal(0, 10);
+
+    expect(SpO2Service.estimate(short)).toBeNull();
+    expect(SpO2Service.estimate(shaken)).toBeNull();
+    expect(SpO2Service.estimate(face)).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * SpO2 Service
+ * Oxygen saturation from PPG red/blue channels using the ratio-of-ratios method
+ */
+
+import { PPGSignal, SpO2Data } from '../types/vitalSigns';
+import { SignalProcessingService } from './SignalProcessingService';
+import { ClockService } from './ClockService';
+
+export type SpO2CalibrationCurve = (ratio: number) => number;
+
+export class SpO2Service {
+  static readonly MIN_CONFIDENCE = 0.5;
+  static readonly MIN_WINDOW_SECONDS = 5;
+
+  // Plausible range of R for a live finger; outside it the estimate is meaningless
+  private static readonly MIN_RATIO = 0.3;
+  private static readonly MAX_RATIO = 2.0;
+
+  // Red perfusion index (AC/DC) range a phone camera sees through a fingertip
+  private static readonly MIN_PERFUSION = 0.0005;
+  private static readonly MAX_PERFUSION = 0.05;
+
+  private static calibrationCurve: SpO2CalibrationCurve = SpO2Service.polynomialCurve([110, -25]);
+
+  /**
+   * Build a calibration curve SpO2 = c0 + c1·R + c2·R² + ...
+   */
+  static polynomialCurve(coefficients: number[]): SpO2CalibrationCurve {
+    return (ratio: number) =>
+      coefficients.reduce((sum, coefficient, power) => sum + coefficient * Math.pow(ratio, power), 0);
+  }
+
+  /**
+   * Replace the calibration curve (e.g. with per-device coefficients fitted
+   * against a reference oximeter)
+   */
+  static setCalibrationCurve(curve: SpO2CalibrationCurve): void {
+    this.calibrationCurve = curve;
+  }
+
+  /**
+   * Restore the default empirical calibration SpO2 = 110 - 25·R
+   */
+  static resetCalibrationCurve(): void {
+    this.calibrationCurve = this.polynomialCurve([110, -25]);
+  }
+
+  /**
+   * Estimate SpO2 from a PPG window. Returns null when the signal does not
+   * pass the confidence gate, so callers never display a guessed saturation.
+   */
+  static estimate(signal: PPGSignal): SpO2Data | null {
+    const { redChannel, blueChannel, fps } = signal;
+    if (!(fps > 0) || redChannel.length < fps * this.MIN_WINDOW_SECONDS) {
+      return null;
+    }
+
+    const red = this.acDc(redChannel, fps);
+    const blue = this.acDc(blueChannel, fps);
+    if (!red || !blue || blue.ac === 0) {
+      return null;
+    }
+
+    const redPerfusion = red.ac / red.dc;
+    const bluePerfusion = blue.ac / blue.dc;
+    const ratio = redPerfusion / bluePerfusion;
+
+    // Both channels must carry the same pulse for the ratio to be meaningful
+    const correlation = this.correlation(red.pulsatile, blue.pulsatile);
+
+    const confidence = this.calculateConfidence(signal.quality, redPerfusion, ratio, correlation);
+    if (confidence < this.MIN_CONFIDENCE) {
+      return null;
+    }
+
+    const value = Math.max(70, Math.min(100, this.calibrationCurve(ratio)));
+
+    return {
+      timestamp: new Date(ClockService.now()),
+      value: Math.round(value * 10) / 10,
+      confidence,
+      source: 'camera_analysis',
+      pulseStrength: redPerfusion * 100, // perfusion index, %
+      ratioOfRatios: ratio,
+    };
+  }
+
+  // Helper methods
+
+  private static acDc(channel: number[], fps: number): { ac: number; dc: number; pulsatile: number[] } | null {
+    const dc = channel.reduce((sum, val) => sum + val, 0) / channel.length;
+    if (dc <= 0) return null;
+
+    const highCutoff = Math.min(3.5, fps / 2 - 0.1);
+    const pulsatile = SignalProcessingService.butterworthFilter(
+      SignalProcessingService.removeMean(channel),
+      'bandpass',
+      2,
+      fps,
+      0.7,
+      highCutoff
+    );
+
+    const ac = Math.sqrt(pulsatile.reduce((sum, val) => sum + val * val, 0) / pulsatile.length);
+    return { ac, dc, pulsatile };
+  }
+
+  private static correlation(a: number[], b: number[]): number {
+    const n = Math.min(a.length, b.length);
+    let sumAB = 0;
+    let sumAA = 0;
+    let sumBB = 0;
+    for (let i = 0; i < n; i++) {
+      sumAB += a[i] * b[i];
+      sumAA += a[i] * a[i];
+      sumBB += b[i] * b[i];
+    }
+    return sumAA > 0 && sumBB > 0 ? sumAB / Math.sqrt(sumAA * sumBB) : 0;
+  }
+
+  private static calculateConfidence(
+    contactQuality: number,
+    perfusion: number,
+    ratio: number,
+    correlation: number
+  ): number {
+    if (ratio < this.MIN_RATIO || ratio > this.MAX_RATIO) return 0;
+    if (perfusion < this.MIN_PERFUSION || perfusion > this.MAX_PERFUSION) return 0;
+
+    const correlationScore = Math.max(0, Math.min(1, (correlation - 0.3) / 0.6));
+    return Math.max(0, Math.min(1, contactQuality)) * correlationScore;
+  }
+}
@@ -0,0 +1,62 @@
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+
+describe('SyntheticVitalSignsGenerator', () => {
+  it('gives the same signals for a seed, whatever order they are asked for in', () => {
+    const first = new SyntheticVitalSignsGenerator({ seed: 20 });
+    const second = new SyntheticVitalSignsGenerator({ seed: 20 });
+
+    const late = first.frame(15000);
+    second.ppgSignal(0, 20);
+    expect(second.frame(15000)).toEqual(late);
+    expect(second.beatTimes(0, 30000)).toEqual(first.beatTimes(0, 30000));
+    expect(new SyntheticVitalSignsGenerator({ seed: 21 }).frame(15000)).not.toEqual(late);
+  });
+
+  it('speeds the heart up on the inhale and slows it on the exhale', () => {
+    // 4 s in, 6 s out; 66 bpm swinging 6 bpm either side
+    const generator = new SyntheticVitalSignsGenerator({ seed: 20 });
+
+    expect(generator.heartRateAt(0)).toBeCloseTo(60);
+    expect(generator.heartRateAt(4000)).toBeCloseTo(72);
+    expect(generator.heartRateAt(7000)).toBeCloseTo(66);
+    expect(generator.breathPhaseAt(3000)).toBe('inhale');
+    expect(generator.breathPhaseAt(5000)).toBe('exhale');
+  });
+
+  it('spaces beats at the mean heart rate', () => {
+    const generator = new SyntheticVitalSignsGenerator({ seed: 20 });
+    const beats = generator.beatTimes(0, 60000);
+    const bpm = (60000 * (beats.length - 1)) / (beats[beats.length - 1] - beats[0]);
+
+    expect(Math.abs(bpm - 66)).toBeLessThan(1);
+    generator.heartRateSeries(6, 10).forEach(rate => expect(Math.abs(rate - 66)).toBeLessThan(3));
+  });
+
+  it('desaturates during a breath hold once the blood reaches the fingertip', () => {
+    const generator = new SyntheticVitalSignsGenerator({
+      seed: 20,
+      breathing: { inhale: 4, holdAfterInhale: 20, exhale: 6, holdAfterExhale: 0 },
+      desaturationRate: 0.1,
+    });
+
+    // The hold runs 4-24 s; the 8 s circulation delay moves its effect to 12-32 s
+    expect(generator.spo2At(11000)).toBe(98);
+    expect(generator.spo2At(32000)).toBeCloseTo(96, 1);
+    expect(generator.spo2At(38000)).toBeGreaterThan(generator.spo2At(32000));
+    expect(generator.spo2At(38000)).toBeLessThan(98);
+  });
+
+  it('shakes the camera and the accelerometer together', () => {
+    const generator = new SyntheticVitalSignsGenerator({ seed: 20, motionArtifacts: [{ start: 5, duration: 5, intensity: 0.5 }] });
+
+    expect(generator.ppgSignal(0, 20).quality).toBeCloseTo(0.75, 2);
+    expect(generator.motionData(0, 20).activity.movementIntensity).toBe('vigorous');
+    expect(generator.motionData(10000, 10).activity).toMatchObject({ movementIntensity: 'sedentary', stability: 1 });
+  });
+
+  it('refuses a breathing pattern without breaths', () => {
+    expect(() => new SyntheticVitalSignsGenerator({ breathing: { inhale: 0, holdAfterInhale: 0, exhale: 6, holdAfterExhale: 0 } })).toThrow(
+      'Synthetic breathing pattern needs positive inhale and exhale durations'
+    );
+  });
+});
@@ -0,0 +1,504 @@
+/**
+ * Synthetic Vital Signs Generator
+ * Seeded, physiologically plausible signals for demos, UI development and
+ * algorithm tests. A breathing pattern drives lung volume, which modulates
+ * heart rate (respiratory sinus arrhythmia) and the PPG baseline and
+ * amplitude; breath holds desaturate SpO2 after a circulation delay; motion
+ * artifacts disturb the camera channels and the accelerometer together.
+ * The same seed always produces the same signals, whatever order they are
+ * requested in.
+ */
+
+import {
+  AudioBreathingSignal,
+  AudioEnvelopeSample,
+  CameraFrame,
+  MotionData,
+  MotionSample,
+  PPGSignal,
+  SessionRecording,
+} from '../types/vitalSigns';
+import { BreathingPattern } from '../types/session';
+import { BreathSoundAnalysisService } from './BreathSoundAnalysisService';
+
+type BreathPhase = 'inhale' | 'holdAfterInhale' | 'exhale' | 'holdAfterExhale';
+
+export interface SyntheticMotionArtifact {
+  start: number; // s after startTime
+  duration: number; // s
+  intensity: number; // g, peak acceleration
+}
+
+export interface SyntheticVitalSignsConfig {
+  seed: number;
+  startTime: number; // ms
+  method: 'ppg' | 'rppg'; // finger on the rear camera, or face on the front camera
+  fps: number;
+  heartRate: number; // bpm, mean
+  rsaAmplitude: number; // bpm either side of the mean over a breath
+  beatJitter: number; // ms, SD of beat-to-beat variation on top of RSA
+  breathing: Omit<BreathingPattern, 'ratio'>; // seconds per phase
+  spo2: number; // %, while breathing normally
+  desaturationRate: number; // %/s while holding after an inhale; twice this after an exhale
+  circulationDelay: number; // s from lungs to fingertip
+  perfusionIndex: number; // %, red AC/DC through the fingertip
+  motionArtifacts: SyntheticMotionArtifact[];
+  audioFeatureRate: number; // Hz
+  motionRate: number; // Hz
+}
+
+interface ChannelModel {
+  dc: number; // mean intensity
+  noise: number; // SD of sensor noise
+  motionGain: number; // fraction of dc moved by 1 g of motion
+}
+
+const DEFAULT_CONFIG: SyntheticVitalSignsConfig = {
+  seed: 1,
+  startTime: 0,
+  method: 'ppg',
+  fps: 30,
+  heartRate: 66,
+  rsaAmplitude: 6,
+  beatJitter: 12,
+  breathing: { inhale: 4, holdAfterInhale: 0, exhale: 6, holdAfterExhale: 0 },
+  spo2: 98,
+  desaturationRate: 0.05,
+  circulationDelay: 8,
+  perfusionIndex: 1.5,
+  motionArtifacts: [],
+  audioFeatureRate: BreathSoundAnalysisService.FEATURE_RATE,
+  motionRate: 50,
+};
+
+// Torch light through a fingertip saturates red; a lit face is bright in all three
+const CHANNELS: Record<'ppg' | 'rppg', Record<'red' | 'green' | 'blue', ChannelModel>> = {
+  ppg: {
+    red: { dc: 200, noise: 0.15, motionGain: 0.05 },
+    green: { dc: 45, noise: 0.08, motionGain: 0.05 },
+    blue: { dc: 30, noise: 0.08, motionGain: 0.05 },
+  },
+  rppg: {
+    red: { dc: 150, noise: 0.4, motionGain: 0.1 },
+    green: { dc: 110, noise: 0.4, motionGain: 0.1 },
+    blue: { dc: 90, noise: 0.4, motionGain: 0.1 },
+  },
+};
+
+// Face pulsatility, % AC/DC; hemoglobin absorbs green most strongly
+const RPPG_PULSATILITY = { red: 0.1, green: 0.3, blue: 0.08 };
+
+const SPO2_STEP_SECONDS = 0.1;
+const RECOVERY_SECONDS = 8; // time constant of resaturation once breathing resumes
+const NOISE_STREAMS = { artifact: 0, red: 1, green: 2, blue: 3, amplitude: 4, frequency: 5, ax: 6, ay: 7, az: 8, gx: 9, gy: 10, gz: 11 };
+
+export class SyntheticVitalSignsGenerator {
+  private config: SyntheticVitalSignsConfig;
+  private cycleSeconds: number;
+  private beats: number[] = [];
+  private beatRandom: () => number;
+  private desaturation: number[] = [0]; // % below baseline, every SPO2_STEP_SECONDS from startTime
+
+  constructor(config: Partial<SyntheticVitalSignsConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config, breathing: { ...DEFAULT_CONFIG.breathing, ...config.breathing } };
+
+    const { inhale, holdAfterInhale, exhale, holdAfterExhale } = this.config.breathing;
+    this.cycleSeconds = inhale + holdAfterInhale + exhale + holdAfterExhale;
+    if (!(inhale > 0) || !(exhale > 0) || holdAfterInhale < 0 || holdAfterExhale < 0) {
+      throw new Error('Synthetic breathing pattern needs positive inhale and exhale durations');
+    }
+    if (!(this.config.heartRate > 0) || !(this.config.fps > 0)) {
+      throw new Error('Synthetic heart rate and frame rate must be positive');
+    }
+
+    this.beatRandom = this.sequence(this.config.seed);
+    // Start a couple of beats early so the pulse is defined from startTime
+    this.beats.push(this.config.startTime - 2000);
+  }
+
+  /**
+   * One camera frame of per-channel means at a timestamp (ms)
+   */
+  frame(timestamp: number): CameraFrame {
+    const { method } = this.config;
+    const volume = this.lungVolume(timestamp);
+    const pulse = this.pulse(timestamp);
+    const motion = this.motionDisplacement(timestamp);
+
+    // Breathing shifts the baseline (RIIV) and scales the pulse (RIAV)
+    const baseline = 1 + 0.004 * (volume - 0.5);
+    const amplitudeScale = 1 + 0.2 * (volume - 0.5);
+
+    let pulsatility: Record<'red' | 'green' | 'blue', number>;
+    if (method === 'ppg') {
+      // Blue pulsatility follows from SpO2 through the ratio of ratios, R = (110 - SpO2) / 25
+      const ratio = (110 - this.spo2At(timestamp)) / 25;
+      const red = this.config.perfusionIndex / 100;
+      pulsatility = { red, green: red * 1.5, blue: red / ratio };
+    } else {
+      // Face pulsatility is far weaker, too weak to carry saturation
+      pulsatility = {
+        red: RPPG_PULSATILITY.red / 100,
+        green: RPPG_PULSATILITY.green / 100,
+        blue: RPPG_PULSATILITY.blue / 100,
+      };
+    }
+
+    const channel = (name: 'red' | 'green' | 'blue') => {
+      const model = CHANNELS[method][name];
+      const value = model.dc * baseline * (1 - pulsatility[name] * amplitudeScale * pulse)
+        + model.dc * model.motionGain * motion
+        + model.noise * this.gaussian(timestamp, NOISE_STREAMS[name]);
+      return Math.max(0, Math.min(255, value));
+    };
+
+    const frame: CameraFrame = { timestamp, red: channel('red'), green: channel('green'), blue: channel('blue') };
+    if (method === 'rppg') {
+      frame.faceRegion = { x: 100, y: 100, width: 200, height: 200, confidence: motion === 0 ? 0.95 : 0.7 };
+    }
+    return frame;
+  }
+
+  /**
+   * Frames at the configured frame rate over [start, start + duration)
+   */
+  frames(start: number, durationSeconds: number): CameraFrame[] {
+    const count = Math.floor(durationSeconds * this.config.fps);
+    return Array.from({ length: count }, (_, i) => this.frame(start + (i * 1000) / this.config.fps));
+  }
+
+  /**
+   * A PPG window as CameraService would assemble it. Quality is the share of
+   * the window free of motion artifacts.
+   */
+  ppgSignal(start: number, durationSeconds: number): PPGSignal {
+    const frames = this.frames(start, durationSeconds);
+    const clean = frames.filter(frame => this.motionDisplacement(frame.timestamp) === 0).length;
+
+    return {
+      timestamps: frames.map(frame => frame.timestamp),
+      redChannel: frames.map(frame => frame.red),
+      greenChannel: frames.map(frame => frame.green),
+      blueChannel: frames.map(frame => frame.blue),
+      quality: frames.length > 0 ? clean / frames.length : 0,
+      fps: this.config.fps,
+    };
+  }
+
+  /**
+   * Breath-sound envelope features at a timestamp: loud while air flows,
+   * brighter on the inhale, near silent during holds
+   */
+  envelopeSample(timestamp: number): AudioEnvelopeSample {
+    const { phase, flow } = this.airflow(timestamp);
+    const motion = Math.abs(this.motionDisplacement(timestamp));
+    const amplitude = 0.002 + 0.06 * flow * (1 + 0.1 * this.gaussian(timestamp, NOISE_STREAMS.amplitude)) + 0.02 * motion;
+    const frequency = flow > 0.05
+      ? (phase === 'inhale' ? 1200 : 700) + 50 * this.gaussian(timestamp, NOISE_STREAMS.frequency)
+      : 300 + 30 * this.gaussian(timestamp, NOISE_STREAMS.frequency);
+
+    return { timestamp, amplitude: Math.max(0, amplitude), frequency: Math.max(0, frequency) };
+  }
+
+  /**
+   * Envelope features over [start, start + duration), as AudioService would
+   * report them
+   */
+  audioBreathingSignal(start: number, durationSeconds: number): AudioBreathingSignal {
+    const rate = this.config.audioFeatureRate;
+    const samples = Array.from({ length: Math.floor(durationSeconds * rate) }, (_, i) => this.envelopeSample(start + (i * 1000) / rate));
+    const amplitude = samples.map(sample => sample.amplitude);
+
+    return {
+      timestamps: samples.map(sample => sample.timestamp),
+      amplitude,
+      frequency: samples.map(sample => sample.frequency),
+      sampleRate: rate,
+      quality: BreathSoundAnalysisService.signalQuality(amplitude),
+    };
+  }
+
+  /**
+   * Accelerometer (g) and gyroscope (rad/s) samples at a timestamp, for a
+   * phone worn upright on the chest of a seated user
+   */
+  motionSample(timestamp: number): { accelerometer: MotionSample; gyroscope: MotionSample } {
+    const motion = this.motionDisplacement(timestamp);
+    const chest = 0.003 * (this.lungVolume(timestamp) - 0.5);
+    const noise = (stream: number, sd: number) => sd * this.gaussian(timestamp, stream);
+
+    return {
+      accelerometer: {
+        timestamp,
+        x: motion + noise(NOISE_STREAMS.ax, 0.002),
+        y: -1 + 0.5 * motion + noise(NOISE_STREAMS.ay, 0.002),
+        z: chest + 0.7 * motion + noise(NOISE_STREAMS.az, 0.002),
+      },
+      gyroscope: {
+        timestamp,
+        x: 3 * motion + noise(NOISE_STREAMS.gx, 0.005),
+        y: noise(NOISE_STREAMS.gy, 0.005),
+        z: 2 * motion + noise(NOISE_STREAMS.gz, 0.005),
+      },
+    };
+  }
+
+  /**
+   * Motion over [start, start + duration), with the activity summary the
+   * generator knows to be true
+   */
+  motionData(start: number, durationSeconds: number): MotionData {
+    const rate = this.config.motionRate;
+    const samples = Array.from({ length: Math.floor(durationSeconds * rate) }, (_, i) => this.motionSample(start + (i * 1000) / rate));
+    const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(this.motionDisplacement(sample.accelerometer.timestamp))), 0);
+
+    // Same intensity bands as MotionService
+    const movementIntensity = peak < 0.02 ? 'sedentary' : peak < 0.1 ? 'light' : peak < 0.3 ? 'moderate' : 'vigorous';
+
+    return {
+      accelerometer: samples.map(({ accelerometer: a }) => ({
+        x: a.x,
+        y: a.y,
+        z: a.z,
+        magnitude: Math.sqrt(a.x * a.x + a.y * a.y + a.z * a.z),
+        timestamp: new Date(a.timestamp),
+      })),
+      gyroscope: samples.map(({ gyroscope: g }) => ({ x: g.x, y: g.y, z: g.z, timestamp: new Date(g.timestamp) })),
+      activity: {
+        stepCount: 0,
+        movementIntensity,
+        posture: 'sitting',
+        stability: Math.max(0, 1 - peak / 0.1),
+      },
+    };
+  }
+
+  /**
+   * A full session from startTime, in the form SessionReplayService replays
+   */
+  recording(durationSeconds: number, sessionId?: string): SessionRecording {
+    const { startTime, audioFeatureRate, motionRate } = this.config;
+    const motion = Array.from({ length: Math.floor(durationSeconds * motionRate) }, (_, i) =>
+      this.motionSample(startTime + (i * 1000) / motionRate)
+    );
+
+    return {
+      sessionId,
+      cameraMethod: this.config.method,
+      frames: this.frames(startTime, durationSeconds),
+      audioEnvelope: {
+        sampleRate: audioFeatureRate,
+        samples: Array.from({ length: Math.floor(durationSeconds * audioFeatureRate) }, (_, i) =>
+          this.envelopeSample(startTime + (i * 1000) / audioFeatureRate)
+        ),
+      },
+      motion: {
+        accelerometer: motion.map(sample => sample.accelerometer),
+        gyroscope: motion.map(sample => sample.gyroscope),
+      },
+    };
+  }
+
+  /**
+   * True instantaneous heart rate (bpm) at a timestamp, before beat jitter
+   */
+  heartRateAt(timestamp: number): number {
+    return this.config.heartRate + this.config.rsaAmplitude * (2 * this.lungVolume(timestamp) - 1);
+  }
+
+  /**
+   * True SpO2 (%) at the fingertip at a timestamp
+   */
+  spo2At(timestamp: number): number {
+    const index = Math.floor((timestamp - this.config.startTime) / 1000 / SPO2_STEP_SECONDS - this.config.circulationDelay / SPO2_STEP_SECONDS);
+    if (index <= 0) return this.config.spo2;
+
+    this.extendDesaturation(index);
+    return this.config.spo2 - this.desaturation[index];
+  }
+
+  /**
+   * Breathing phase at a timestamp
+   */
+  breathPhaseAt(timestamp: number): BreathPhase {
+    return this.breathPosition(timestamp).phase;
+  }
+
+  /**
+   * Beat times (ms) in [start, end)
+   */
+  beatTimes(start: number, end: number): number[] {
+    this.extendBeats(end);
+    return this.beats.filter(beat => beat >= start && beat < end);
+  }
+
+  /**
+   * Mean heart rate over consecutive intervals from startTime, from the
+   * beat-to-beat intervals, e.g. for chart data
+   */
+  heartRateSeries(count: number, intervalSeconds: number): number[] {
+    return Array.from({ length: count }, (_, i) => {
+      const start = this.config.startTime + i * intervalSeconds * 1000;
+      const beats = this.beatTimes(start, start + intervalSeconds * 1000);
+      if (beats.length < 2) return this.config.heartRate;
+      return (60000 * (beats.length - 1)) / (beats[beats.length - 1] - beats[0]);
+    });
+  }
+
+  // Helper methods
+
+  private breathPosition(timestamp: number): { phase: BreathPhase; progress: number } {
+    const { inhale, holdAfterInhale, exhale } = this.config.breathing;
+    const seconds = (timestamp - this.config.startTime) / 1000;
+    let t = ((seconds % this.cycleSeconds) + this.cycleSeconds) % this.cycleSeconds;
+
+    if (t < inhale) return { phase: 'inhale', progress: t / inhale };
+    t -= inhale;
+    if (t < holdAfterInhale) return { phase: 'holdAfterInhale', progress: t / holdAfterInhale };
+    t -= holdAfterInhale;
+    if (t < exhale) return { phase: 'exhale', progress: t / exhale };
+    t -= exhale;
+    return { phase: 'holdAfterExhale', progress: t / this.config.breathing.holdAfterExhale };
+  }
+
+  /**
+   * Lung volume above functional residual capacity, 0-1, with smooth
+   * (raised cosine) inhales and exhales
+   */
+  private lungVolume(timestamp: number): number {
+    const { phase, progress } = this.breathPosition(timestamp);
+    switch (phase) {
+      case 'inhale':
+        return (1 - Math.cos(Math.PI * progress)) / 2;
+      case 'holdAfterInhale':
+        return 1;
+      case 'exhale':
+        return (1 + Math.cos(Math.PI * progress)) / 2;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Airflow relative to the peak flow of the shorter breathing phase
+   */
+  private airflow(timestamp: number): { phase: BreathPhase; flow: number } {
+    const { phase, progress } = this.breathPosition(timestamp);
+    if (phase !== 'inhale' && phase !== 'exhale') return { phase, flow: 0 };
+
+    const { inhale, exhale } = this.config.breathing;
+    const duration = phase === 'inhale' ? inhale : exhale;
+    return { phase, flow: (Math.sin(Math.PI * progress) * Math.min(inhale, exhale)) / duration };
+  }
+
+  /**
+   * Volume pulse at a timestamp, 0-1: a systolic peak and a smaller
+   * dicrotic wave within each beat
+   */
+  private pulse(timestamp: number): number {
+    this.extendBeats(timestamp);
+
+    let low = 0;
+    let high = this.beats.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.beats[middle] <= timestamp) low = middle;
+      else high = middle - 1;
+    }
+
+    const phase = (timestamp - this.beats[low]) / (this.beats[low + 1] - this.beats[low]);
+    const wave = (center: number, width: number) => Math.exp(-(((phase - center) / width) ** 2));
+    return (wave(0.15, 0.08) + 0.35 * wave(0.45, 0.1)) / 1.02;
+  }
+
+  /**
+   * Extend the beat sequence past a timestamp; each interval follows the
+   * RSA-modulated heart rate plus Gaussian jitter
+   */
+  private extendBeats(timestamp: number): void {
+    while (this.beats[this.beats.length - 1] <= timestamp + 2000) {
+      const last = this.beats[this.beats.length - 1];
+      const interval = 60000 / this.heartRateAt(last) + this.config.beatJitter * this.normal(this.beatRandom);
+      this.beats.push(last + Math.max(250, interval));
+    }
+  }
+
+  /**
+   * Integrate oxygen debt up to a step index: it builds during holds and
+   * recovers exponentially while breathing
+   */
+  private extendDesaturation(index: number): void {
+    const { startTime, desaturationRate } = this.config;
+    for (let i = this.desaturation.length; i <= index; i++) {
+      const phase = this.breathPhaseAt(startTime + (i - 1) * SPO2_STEP_SECONDS * 1000);
+      const previous = this.desaturation[i - 1];
+      let next = previous;
+      if (phase === 'holdAfterInhale') next += desaturationRate * SPO2_STEP_SECONDS;
+      else if (phase === 'holdAfterExhale') next += 2 * desaturationRate * SPO2_STEP_SECONDS;
+      else next -= (previous * SPO2_STEP_SECONDS) / RECOVERY_SECONDS;
+      this.desaturation.push(Math.max(0, next));
+    }
+  }
+
+  /**
+   * Artifact acceleration (g) at a timestamp: irregular 2-4 Hz shaking
+   * under a smooth envelope, zero outside the configured artifacts
+   */
+  private motionDisplacement(timestamp: number): number {
+    const seconds = (timestamp - this.config.startTime) / 1000;
+    let total = 0;
+
+    this.config.motionArtifacts.forEach((artifact, i) => {
+      const t = seconds - artifact.start;
+      if (t < 0 || t >= artifact.duration) return;
+
+      const envelope = Math.sin((Math.PI * t) / artifact.duration);
+      const phase = 2 * Math.PI * this.uniform(i, NOISE_STREAMS.artifact, 0);
+      total += artifact.intensity * envelope * (0.7 * Math.sin(2 * Math.PI * 2.3 * t + phase) + 0.3 * Math.sin(2 * Math.PI * 4.1 * t));
+    });
+
+    return total;
+  }
+
+  /**
+   * Standard normal noise that depends only on the seed, the timestamp and
+   * the stream, so signals are reproducible in any request order
+   */
+  private gaussian(timestamp: number, stream: number): number {
+    const u1 = Math.max(1e-12, this.uniform(timestamp, stream, 0));
+    const u2 = this.uniform(timestamp, stream, 1);
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  private uniform(key: number, stream: number, draw: number): number {
+    // Microsecond resolution, split into 32-bit halves
+    const micros = Math.round(key * 1000);
+    const low = micros % 4294967296;
+    const high = Math.floor(micros / 4294967296);
+
+    let h = this.config.seed ^ Math.imul(low | 0, 0x9e3779b1) ^ Math.imul(high | 0, 0x85ebca6b) ^ Math.imul(stream * 2 + draw + 1, 0xc2b2ae35);
+    h = Math.imul(h ^ (h >>> 16), 0x21f0aaad);
+    h = Math.imul(h ^ (h >>> 15), 0x735a2d97);
+    h ^= h >>> 15;
+    return (h >>> 0) / 4294967296;
+  }
+
+  /**
+   * Sequential uniform generator (mulberry32) for the beat sequence
+   */
+  private sequence(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private normal(random: () => number): number {
+    const u1 = Math.max(1e-12, random());
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * random());
+  }
+}
@@ -0,0 +1,63 @@
+import { TechniqueCatalogService } from './TechniqueCatalogService';
+
+describe('TechniqueCatalogService', () => {
+  it('resolves ids from navigation params and stored sessions', () => {
+    expect(TechniqueCatalogService.resolveId('nadi-shodhana')).toBe('nadi_shodhana');
+    expect(TechniqueCatalogService.resolveId(' Box_Breathing ')).toBe('box_breathing');
+    expect(TechniqueCatalogService.resolveId('4-7-8-breathing')).toBe('four_seven_eight');
+    expect(TechniqueCatalogService.resolveId('custom')).toBe('custom');
+    expect(TechniqueCatalogService.resolveId('headstand')).toBeNull();
+    expect(TechniqueCatalogService.resolveId(undefined)).toBeNull();
+  });
+
+  it('lists every technique once, filtered by difficulty', () => {
+    const ids = TechniqueCatalogService.list().map(technique => technique.id);
+
+    expect(ids[0]).toBe('box_breathing');
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(TechniqueCatalogService.list('advanced').map(technique => technique.id)).toEqual(['kapalabhati', 'bhastrika']);
+    expect(TechniqueCatalogService.get('custom')).toBeNull();
+  });
+
+  it('hands out copies of default patterns, falling back to box breathing', () => {
+    const pattern = TechniqueCatalogService.getPattern('4_7_8');
+    pattern.inhale = 10;
+
+    expect(TechniqueCatalogService.getPattern('four_seven_eight')).toEqual({
+      inhale: 4,
+      holdAfterInhale: 7,
+      exhale: 8,
+      holdAfterExhale: 0,
+      ratio: '4:7:8:0',
+    });
+    expect(TechniqueCatalogService.getPattern('headstand')).toEqual(TechniqueCatalogService.getPattern('box_breathing'));
+    expect(TechniqueCatalogService.get('kapalabhati')!.rounds).toMatchObject({ pumps: 30, rounds: 3 });
+  });
+
+  it('cues the phases of a breath that have a length', () => {
+    const pattern = TechniqueCatalogService.createPattern(4, 7, 8, 0);
+
+    expect(TechniqueCatalogService.phases(pattern)).toEqual([
+      { phase: 'inhale', duration: 4 },
+      { phase: 'hold', duration: 7 },
+      { phase: 'exhale', duration: 8 },
+    ]);
+    expect(TechniqueCatalogService.cycleSeconds(pattern)).toBe(19);
+  });
+
+  it('alternates nostrils each cycle of Nadi Shodhana', () => {
+    expect(TechniqueCatalogService.getNostril('nadi_shodhana', 'inhale', 1)).toBe('left');
+    expect(TechniqueCatalogService.getNostril('nadi_shodhana', 'exhale', 1)).toBe('right');
+    expect(TechniqueCatalogService.getNostril('nadi_shodhana', 'inhale', 2)).toBe('right');
+    expect(TechniqueCatalogService.getNostril('nadi_shodhana', 'inhale', 3)).toBe('left');
+    expect(TechniqueCatalogService.getNostril('nadi_shodhana', 'hold', 1)).toBeNull();
+    expect(TechniqueCatalogService.getNostril('surya_bhedana', 'inhale', 2)).toBe('right');
+    expect(TechniqueCatalogService.getNostril('box_breathing', 'inhale')).toBeNull();
+  });
+
+  it('prefers the nostril over the technique cue', () => {
+    expect(TechniqueCatalogService.getCue('chandra_bhedana', 'inhale')).toBe('Through left nostril');
+    expect(TechniqueCatalogService.getCue('chandra_bhedana', 'hold')).toBe('Close both nostrils');
+    expect(TechniqueCatalogService.getCue('box_breathing', 'inhale')).toBeNull();
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * Technique Catalog Service
+ * The one catalog of pranayama techniques: metadata, default breathing
+ * pattern (or rounds, for rapid breathing), difficulty, contraindications
+ * and coaching scripts, read by the home screen, activity selector, session
+ * screen, pacer and audio coaching
+ */
+
+import {
+  BreathingPattern,
+  GuidedBreathPhase,
+  NostrilSide,
+  PranayamaTechnique,
+  PranayamaTechniqueDefinition,
+  TechniqueDifficulty,
+} from '../types/session';
+
+type CatalogTechnique = Exclude<PranayamaTechnique, 'custom'>;
+
+interface GuidedPhase {
+  phase: GuidedBreathPhase;
+  duration: number; // seconds
+}
+
+// Ids used by screens and stored sessions before the catalog existed
+const LEGACY_IDS: Record<string, PranayamaTechnique> = {
+  '4_7_8_breathing': 'four_seven_eight',
+  '4_7_8': 'four_seven_eight',
+};
+
+const DEFAULT_TECHNIQUE: CatalogTechnique = 'box_breathing';
+
+const pattern = (inhale: number, holdAfterInhale: number, exhale: number, holdAfterExhale: number): BreathingPattern => ({
+  inhale,
+  holdAfterInhale,
+  exhale,
+  holdAfterExhale,
+  ratio: `${inhale}:${holdAfterInhale}:${exhale}:${holdAfterExhale}`,
+});
+
+// In display order
+const TECHNIQUES: Record<CatalogTechnique, Omit<PranayamaTechniqueDefinition, 'id'>> = {
+  box_breathing: {
+    name: 'Box Breathing',
+    description: 'Equal count inhale, hold, exhale, hold',
+    difficulty: 'beginner',
+    defaultPattern: pattern(4, 4, 4, 4),
+    duration: { min: 5, max: 15, default: 10 },
+    benefits: ['Calms mind', 'Reduces anxiety', 'Improves concentration'],
+    contraindications: ['Uncontrolled high blood pressure (practise without the holds)'],
+    instructions: [
+      'Sit or lie in a comfortable position',
+      'Inhale slowly for 4 counts',
+      'Hold your breath for 4 counts',
+      'Exhale slowly for 4 counts',
+      'Hold empty for 4 counts',
+      'Repeat the cycle',
+    ],
+    coaching: {
+      introduction: 'Box breathing. Each side of the box is four counts: in, hold, out, hold.',
+      cues: {},
+    },
+    appearance: { icon: 'square-outline', emoji: '⬜', color: '#3b82f6', gradient: ['#667eea', '#764ba2'] },
+  },
+  nadi_shodhana: {
+    name: 'Nadi Shodhana',
+    description: 'Alternate nostril breathing for balance and focus',
+    difficulty: 'beginner',
+    defaultPattern: pattern(4, 2, 6, 1),
+    duration: { min: 10, max: 20, default: 10 },
+    benefits: ['Balances nervous system', 'Improves focus', 'Reduces stress'],
+    contraindications: ['Nasal congestion or a blocked nostril'],
+    instructions: [
+      'Sit comfortably with spine straight',
+      'Use right thumb to close right nostril',
+      'Inhale through left nostril for 4 counts',
+      'Close left nostril with ring finger, release thumb',
+      'Exhale through right nostril for 6 counts',
+      'Inhale through right nostril, then switch',
+    ],
+    coaching: {
+      introduction: 'Alternate nostril breathing. Close the right nostril with your thumb to begin.',
+      cues: {
+        hold: 'Close both nostrils',
+        pause: 'Stay on this side for the next inhale',
+      },
+    },
+    nostrils: {
+      pattern: 'alternate_left_first',
+      cycles: [
+        { inhale: 'left', exhale: 'right' },
+        { inhale: 'right', exhale: 'left' },
+      ],
+    },
+    appearance: { icon: 'leaf-outline', emoji: '🌬️', color: '#22c55e', gradient: ['#f093fb', '#f5576c'] },
+  },
+  ujjayi: {
+    name: 'Ujjayi',
+    description: 'Ocean breath with throat constriction',
+    difficulty: 'intermediate',
+    defaultPattern: pattern(5, 1, 7, 1),
+    duration: { min: 5, max: 30, default: 15 },
+    benefits: ['Deep relaxation', 'Improves focus', 'Generates internal heat'],
+    contraindications: ['Sore or inflamed throat'],
+    instructions: [
+      'Breathe through your nose only',
+      'Slightly constrict throat muscles',
+      'Create a soft ocean-like sound',
+      'Inhale for 5 counts with the sound',
+      'Exhale for 7 counts maintaining the sound',
+      'Keep the breath steady and rhythmic',
+    ],
+    coaching: {
+      introduction: 'Ujjayi breath. Gently narrow the back of your throat so the breath sounds like the ocean.',
+      cues: {
+        inhale: 'With throat constriction',
+        exhale: 'With throat constriction',
+      },
+    },
+    appearance: { icon: 'water-outline', emoji: '🌊', color: '#06b6d4', gradient: ['#4facfe', '#00f2fe'] },
+  },
+  bhramari: {
+    name: 'Bhramari',
+    description: 'Humming bee breath for tranquility',
+    difficulty: 'beginner',
+    defaultPattern: pattern(4, 1, 6, 2),
+    duration: { min: 5, max: 10, default: 8 },
+    benefits: ['Calms nervous system', 'Reduces stress', 'Improves concentration'],
+    contraindications: ['Active ear infection'],
+    instructions: [
+      'Sit comfortably with eyes closed',
+      'Place thumbs in ears, index fingers above eyebrows',
+      'Place remaining fingers over closed eyes',
+      'Inhale normally through nose',
+      'Exhale while humming like a bee',
+      'Focus on the vibration and sound',
+    ],
+    coaching: {
+      introduction: 'Bee breath. Close your ears with your thumbs and hum on every exhale.',
+      cues: {
+        exhale: 'Hum like a bee',
+      },
+    },
+    appearance: { icon: 'musical-note-outline', emoji: '🐝', color: '#f59e0b', gradient: ['#43e97b', '#38f9d7'] },
+  },
+  four_seven_eight: {
+    name: '4-7-8 Breathing',
+    description: 'Natural tranquilizer for the nervous system',
+    difficulty: 'intermediate',
+    defaultPattern: pattern(4, 7, 8, 0),
+    duration: { min: 2, max: 8, default: 4 },
+    benefits: ['Promotes sleep', 'Reduces anxiety', 'Lowers heart rate'],
+    contraindications: ['Uncontrolled high blood pressure', 'Pregnancy'],
+    instructions: [
+      'Exhale completely through mouth',
+      'Close mouth, inhale through nose for 4 counts',
+      'Hold breath for 7 counts',
+      'Exhale through mouth for 8 counts with whoosh sound',
+      'This completes one cycle',
+      'Repeat for 3-4 cycles initially',
+    ],
+    coaching: {
+      introduction: 'Four seven eight breathing. Rest the tip of your tongue behind your upper front teeth.',
+      cues: {
+        inhale: 'Through the nose',
+        exhale: 'Through the mouth with a whoosh',
+      },
+    },
+    appearance: { icon: 'timer-outline', emoji: '🌙', color: '#8b5cf6', gradient: ['#a18cd1', '#fbc2eb'] },
+  },
+  three_part: {
+    name: 'Three-Part Breath',
+    description: 'Fill belly, ribs and chest in one slow breath',
+    difficulty: 'beginner',
+    defaultPattern: pattern(6, 0, 6, 0),
+    duration: { min: 5, max: 15, default: 10 },
+    benefits: ['Full use of the lungs', 'Calms mind', 'Builds breath awareness'],
+    contraindications: [],
+    instructions: [
+      'Lie down or sit tall with one hand on belly, one on chest',
+      'Inhale into the belly, then the ribs, then the upper chest',
+      'Exhale from the chest, then the ribs, then the belly',
+      'Keep each breath smooth and unbroken',
+    ],
+    coaching: {
+      introduction: 'Three-part breath. Fill from the belly up, and empty from the chest down.',
+      cues: {
+        inhale: 'Belly, ribs, chest',
+        exhale: 'Chest, ribs, belly',
+      },
+    },
+    appearance: { icon: 'layers-outline', emoji: '🫁', color: '#14b8a6', gradient: ['#84fab0', '#8fd3f4'] },
+  },
+  kapalabhati: {
+    name: 'Kapalabhati',
+    description: 'Skull shining breath with sharp, active exhales',
+    difficulty: 'advanced',
+    defaultPattern: pattern(0.5, 0, 0.5, 0),
+    duration: { min: 3, max: 10, default: 5 },
+    benefits: ['Energizes', 'Clears the mind', 'Strengthens the abdominal muscles'],
+    contraindications: [
+      'Pregnancy',
+      'High blood pressure or heart disease',
+      'Epilepsy',
+      'Hernia or recent abdominal surgery',
+      'Glaucoma',
+    ],
+    instructions: [
+      'Sit tall with hands on knees',
+      'Exhale sharply through the nose by snapping the belly in',
+      'Let the inhale happen passively as the belly releases',
+      'Keep a steady rhythm of about one breath per second',
+      'Rest with normal breathing between rounds',
+    ],
+    coaching: {
+      introduction: 'Skull shining breath. Sharp exhales through the nose; the inhale takes care of itself.',
+      cues: {
+        inhale: 'Let the belly release',
+        exhale: 'Snap the belly in',
+      },
+      stageCues: {
+        pumping: 'Snap the belly in on every beat',
+        retention: 'Breathe in deeply and hold. Tap the circle when you need to breathe',
+        rest: 'Breathe normally',
+      },
+    },
+    rounds: { pumps: 30, tempo: 60, retention: 30, rest: 30, rounds: 3 },
+    appearance: { icon: 'flash-outline', emoji: '⚡', color: '#ef4444', gradient: ['#f6d365', '#fda085'] },
+  },
+  bhastrika: {
+    name: 'Bhastrika',
+    description: 'Bellows breath with forceful inhales and exhales',
+    difficulty: 'advanced',
+    defaultPattern: pattern(1, 0, 1, 0),
+    duration: { min: 3, max: 10, default: 5 },
+    benefits: ['Energizes', 'Warms the body', 'Increases alertness'],
+    contraindications: [
+      'Pregnancy',
+      'High blood pressure or heart disease',
+      'Epilepsy',
+      'Panic disorder',
+    ],
+    instructions: [
+      'Sit tall with a relaxed face and shoulders',
+      'Inhale forcefully through the nose, expanding the belly',
+      'Exhale forcefully through the nose, drawing the belly in',
+      'Keep inhale and exhale equal in force and length',
+      'Rest with normal breathing between rounds',
+    ],
+    coaching: {
+      introduction: 'Bellows breath. Breathe in and out through the nose with equal force.',
+      cues: {
+        inhale: 'Forcefully in',
+        exhale: 'Forcefully out',
+      },
+      stageCues: {
+        pumping: 'In and out with equal force on every beat',
+        retention: 'Breathe in deeply and hold. Tap the circle when you need to breathe',
+        rest: 'Breathe normally',
+      },
+    },
+    rounds: { pumps: 20, tempo: 60, retention: 20, rest: 30, rounds: 3 },
+    appearance: { icon: 'flame-outline', emoji: '🔥', color: '#f97316', gradient: ['#ff9a44', '#fc6076'] },
+  },
+  surya_bhedana: {
+    name: 'Surya Bhedana',
+    description: 'Right nostril breathing to energize',
+    difficulty: 'intermediate',
+    defaultPattern: pattern(4, 4, 6, 0),
+    duration: { min: 5, max: 10, default: 5 },
+    benefits: ['Energizes', 'Warms the body', 'Improves alertness'],
+    contraindications: ['High blood pressure or heart disease', 'Epilepsy', 'Anxiety'],
+    instructions: [
+      'Sit tall and close the left nostril with your ring finger',
+      'Inhale through the right nostril',
+      'Close both nostrils and hold',
+      'Exhale through the left nostril',
+    ],
+    coaching: {
+      introduction: 'Right nostril breathing. Close the left nostril with your ring finger to begin.',
+      cues: {
+        hold: 'Close both nostrils',
+      },
+    },
+    nostrils: {
+      pattern: 'right_in_left_out',
+      cycles: [{ inhale: 'right', exhale: 'left' }],
+    },
+    appearance: { icon: 'sunny-outline', emoji: '☀️', color: '#eab308', gradient: ['#fddb92', '#f6a04d'] },
+  },
+  chandra_bhedana: {
+    name: 'Chandra Bhedana',
+    description: 'Left nostril breathing to cool and calm',
+    difficulty: 'intermediate',
+    defaultPattern: pattern(4, 2, 6, 0),
+    duration: { min: 5, max: 10, default: 5 },
+    benefits: ['Calms nervous system', 'Cools the body', 'Promotes sleep'],
+    contraindications: ['Low blood pressure', 'Asthma or a cold', 'Low mood'],
+    instructions: [
+      'Sit tall and close the right nostril with your thumb',
+      'Inhale through the left nostril',
+      'Close both nostrils and hold',
+      'Exhale through the right nostril',
+    ],
+    coaching: {
+      introduction: 'Left nostril breathing. Close the right nostril with your thumb to begin.',
+      cues: {
+        hold: 'Close both nostrils',
+      },
+    },
+    nostrils: {
+      pattern: 'left_in_right_out',
+      cycles: [{ inhale: 'left', exhale: 'right' }],
+    },
+    appearance: { icon: 'moon-outline', emoji: '🌙', color: '#6366f1', gradient: ['#667eea', '#a18cd1'] },
+  },
+  resonance: {
+    name: 'Resonance Breathing',
+    description: 'Slow paced breathing at your resonance rate',
+    difficulty: 'beginner',
+    // 6 breaths/min until the user's resonance rate has been assessed
+    defaultPattern: pattern(4, 0, 6, 0),
+    duration: { min: 10, max: 20, default: 15 },
+    benefits: ['Maximizes heart rate variability', 'Calms nervous system', 'Improves coherence'],
+    contraindications: [],
+    instructions: [
+      'Sit comfortably and breathe through the nose',
+      'Follow the pacer without forcing the breath',
+      'Let the exhale be slightly longer than the inhale',
+    ],
+    coaching: {
+      introduction: 'Resonance breathing. Breathe smoothly with the pacer, without holding.',
+      cues: {},
+    },
+    appearance: { icon: 'pulse-outline', emoji: '💓', color: '#ec4899', gradient: ['#ff9a9e', '#fecfef'] },
+  },
+};
+
+export class TechniqueCatalogService {
+  /**
+   * All catalogued techniques in display order, optionally of one difficulty
+   */
+  static list(difficulty?: TechniqueDifficulty): PranayamaTechniqueDefinition[] {
+    return (Object.keys(TECHNIQUES) as CatalogTechnique[])
+      .map(id => this.definition(id))
+      .filter(technique => !difficulty || technique.difficulty === difficulty);
+  }
+
+  /**
+   * A technique by id, accepting legacy hyphenated ids such as 'nadi-shodhana'
+   */
+  static get(id?: string | null): PranayamaTechniqueDefinition | null {
+    const resolved = this.resolveId(id);
+    return resolved && resolved !== 'custom' ? this.definition(resolved) : null;
+  }
+
+  /**
+   * Normalize an id from navigation params or stored data to a PranayamaTechnique
+   */
+  static resolveId(id?: string | null): PranayamaTechnique | null {
+    if (!id) return null;
+
+    const normalized = id.trim().toLowerCase().replace(/-/g, '_');
+    if (LEGACY_IDS[normalized]) return LEGACY_IDS[normalized];
+    if (normalized === 'custom' || normalized in TECHNIQUES) return normalized as PranayamaTechnique;
+    return null;
+  }
+
+  /**
+   * Default pattern of a technique, falling back to box breathing for
+   * unknown ids
+   */
+  static getPattern(id?: string | null): BreathingPattern {
+    const technique = this.get(id) ?? this.definition(DEFAULT_TECHNIQUE);
+    return { ...technique.defaultPattern };
+  }
+
+  /**
+   * Build a pattern from phase durations in seconds
+   */
+  static createPattern(inhale: number, holdAfterInhale: number, exhale: number, holdAfterExhale: number): BreathingPattern {
+    return pattern(inhale, holdAfterInhale, exhale, holdAfterExhale);
+  }
+
+  /**
+   * The cued phases of one breath in order, skipping phases of zero length
+   */
+  static phases(breathingPattern: BreathingPattern): GuidedPhase[] {
+    const phases: GuidedPhase[] = [
+      { phase: 'inhale', duration: breathingPattern.inhale },
+      { phase: 'hold', duration: breathingPattern.holdAfterInhale },
+      { phase: 'exhale', duration: breathingPattern.exhale },
+      { phase: 'pause', duration: breathingPattern.holdAfterExhale },
+    ];
+    return phases.filter(phase => phase.duration > 0);
+  }
+
+  /**
+   * Length of one breath in seconds
+   */
+  static cycleSeconds(breathingPattern: BreathingPattern): number {
+    return breathingPattern.inhale + breathingPattern.holdAfterInhale + breathingPattern.exhale + breathingPattern.holdAfterExhale;
+  }
+
+  /**
+   * Nostril to breathe through in a phase of a (1-based) cycle, or null when
+   * the technique does not use one side or the phase is a hold
+   */
+  static getNostril(id: string | null | undefined, phase: GuidedBreathPhase, cycle: number = 1): NostrilSide | null {
+    const sequence = this.get(id)?.nostrils;
+    if (!sequence || (phase !== 'inhale' && phase !== 'exhale')) return null;
+
+    const count = sequence.cycles.length;
+    return sequence.cycles[(((cycle - 1) % count) + count) % count][phase];
+  }
+
+  /**
+   * Technique-specific cue for a phase, e.g. which nostril to breathe through
+   */
+  static getCue(id: string | null | undefined, phase: GuidedBreathPhase, cycle: number = 1): string | null {
+    const nostril = this.getNostril(id, phase, cycle);
+    if (nostril) return `Through ${nostril} nostril`;
+
+    return this.get(id)?.coaching.cues[phase] ?? null;
+  }
+
+  // Helper methods
+
+  private static definition(id: CatalogTechnique): PranayamaTechniqueDefinition {
+    const technique = TECHNIQUES[id];
+    return {
+      id,
+      ...technique,
+      defaultPattern: { ...technique.defaultPattern },
+      rounds: technique.rounds && { ...technique.rounds },
+    };
+  }
+}
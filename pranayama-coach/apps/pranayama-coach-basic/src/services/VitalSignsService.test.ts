@@ -0,0 +1,57 @@
+import { SessionRecording } from '../types/vitalSigns';
+import { SessionReplayService } from './SessionReplayService';
+import { SyntheticVitalSignsGenerator } from './SyntheticVitalSignsGenerator';
+import { VitalSignsService } from './VitalSignsService';
+
+describe('VitalSignsService camera PPG', () => {
+  const recording = (seconds: number): SessionRecording =>
+    new SyntheticVitalSignsGenerator({ seed: 4, heartRate: 72 }).recording(seconds);
+
+  const heartRates = async (input: SessionRecording): Promise<number[]> => {
+    const { session } = await SessionReplayService.replay(input, { cameraVitalSigns: false });
+    return session.vitalSigns.heartRate.map(reading => reading.bpm);
+  };
+
+  afterEach(() => {
+    VitalSignsService.updateProcessingConfig({ ppgChannel: 'red', lowCutoff: 0.7, highCutoff: 3.5 });
+  });
+
+  it('detects beats in the filtered red channel by default', async () => {
+    const bpm = await heartRates(recording(30));
+
+    expect(bpm.length).toBeGreaterThan(10);
+    expect(Math.abs(bpm[bpm.length - 1] - 72)).toBeLessThanOrEqual(3);
+  });
+
+  it('reads the pulse from the configured channel', async () => {
+    // Flatten red so only green carries the pulse
+    const input = recording(30);
+    input.frames = input.frames!.map(frame => ({ ...frame, red: 200 }));
+
+    expect(await heartRates(input)).toHaveLength(0);
+
+    VitalSignsService.updateProcessingConfig({ ppgChannel: 'green' });
+    const bpm = await heartRates(input);
+    expect(Math.abs(bpm[bpm.length - 1] - 72)).toBeLessThanOrEqual(3);
+  });
+
+  it('reads PPG breathing from the configured channel when there is no microphone', async () => {
+    const input = new SyntheticVitalSignsGenerator({
+      seed: 1,
+      breathing: { inhale: 4, exhale: 6, holdAfterInhale: 0, holdAfterExhale: 0 },
+    }).recording(65);
+    input.frames = input.frames!.map(frame => ({ ...frame, red: 200 }));
+    delete input.audioEnvelope;
+    const breathingRates = async () => {
+      const { session } = await SessionReplayService.replay(input, { cameraVitalSigns: false });
+      return session.vitalSigns.breathing.map(reading => reading.breathsPerMinute);
+    };
+
+    expect(await breathingRates()).toHaveLength(0);
+
+    VitalSignsService.updateProcessingConfig({ ppgChannel: 'green' });
+    const rates = await breathingRates();
+    expect(rates.length).toBeGreaterThan(0);
+    rates.forEach(rate => expect(Math.abs(rate - 6)).toBeLessThan(1));
+  });
+});
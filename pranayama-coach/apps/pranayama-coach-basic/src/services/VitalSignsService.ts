@@ -7,6 +7,7 @@ import {
   VitalSigns, 
   HeartRateData, 
   HRVData, 
+  SpO2Data,
   BreathingData, 
   StressData,
   PPGSignal,
@@ -17,13 +18,32 @@ import {
   SessionAnalytics,
   CameraConfig,
   ProcessingConfig,
-  VitalSignsError
+  VitalSignsError,
+  ArtifactReport,
+  RRIntervalSample,
+  CoherenceData,
+  CycleQuality,
+  VitalSignsCycle
 } from '../types/vitalSigns';
 import { MonitoringMethod } from '../context/VitalSignsContext';
 import { CameraService } from './CameraService';
 import { AudioService } from './AudioService';
-import { TensorFlowService } from './TensorFlowService';
+import { BreathSoundAnalysisService } from './BreathSoundAnalysisService';
 import { MotionService } from './MotionService';
+import { SignalProcessingService } from './SignalProcessingService';
+import { HRVAnalysisService } from './HRVAnalysisService';
+import { NonlinearHRVService } from './NonlinearHRVService';
+import { SpO2Service } from './SpO2Service';
+import { RPPGService } from './RPPGService';
+import { PPGRespirationService } from './PPGRespirationService';
+import { ArtifactDetectionService } from './ArtifactDetectionService';
+import { HeartRateFusionService } from './HeartRateFusionService';
+import { PulseQualityService } from './PulseQualityService';
+import { CoherenceService } from './CoherenceService';
+import { BaselineCalibrationService } from './BaselineCalibrationService';
+import { HealthBaselineService } from './HealthBaselineService';
+import { ClockService } from './ClockService';
+import { HealthBaseline } from '../types/user';
 
 export class VitalSignsService {
   private static isInitialized = false;
@@ -35,18 +55,51 @@ export class VitalSignsService {
     windowSize: 10,
     noiseReduction: true,
     realTimeProcessing: true,
+    filterOrder: 4,
+    lowCutoff: 0.7,  // 42 BPM
+    highCutoff: 3.5, // 210 BPM
+    ppgChannel: 'red', // strongest finger signal under the torch
   };
 
   private static dataBuffer: {
     heartRate: HeartRateData[];
     hrv: HRVData[];
+    spo2: SpO2Data[];
     breathing: BreathingData[];
     stress: StressData[];
+    coherence: CoherenceData[];
   } = {
     heartRate: [],
     hrv: [],
+    spo2: [],
     breathing: [],
     stress: [],
+    coherence: [],
+  };
+
+  // Beat-to-beat intervals, each stamped with the time of the beat that ended it
+  private static rrBuffer: RRIntervalSample[] = [];
+  private static lastBeatTime: number | null = null;
+  private static lastBeatAccepted = false;
+  private static lastExternalRRTime: number | null = null;
+  private static readonly EXTERNAL_RR_PRIORITY_MS = 10000;
+  private static readonly RR_BUFFER_MS = 10 * 60 * 1000;
+  private static readonly MIN_BEAT_SEPARATION_MS = 250;
+
+  // Heart-rate readings pushed between collection cycles
+  private static pendingHeartRates: HeartRateData[] = [];
+  private static pendingSpO2: SpO2Data[] = [];
+  private static readonly MAX_PENDING_READINGS = 60;
+
+  // PPG-derived breathing needs several full breaths, even at pranayama pace
+  private static readonly RESPIRATION_WINDOW_SECONDS = 60;
+
+  // Personal resting values; population norms stand in until calibrated
+  private static baseline: HealthBaseline | null = null;
+  private static readonly POPULATION_BASELINE = {
+    heartRate: 70, // bpm
+    rmssd: 40, // ms
+    breathingRate: 16, // breaths/min
   };
 
   /**
@@ -56,11 +109,10 @@ export class VitalSignsService {
     try {
       if (this.isInitialized) return;
 
-      // Initialize TensorFlow for ML processing
-      await TensorFlowService.initialize();
-      
       // Initialize motion sensors
       await MotionService.initialize();
+
+      this.baseline = await HealthBaselineService.getBaseline();
       
       this.isInitialized = true;
       console.log('VitalSignsService initialized successfully');
@@ -104,6 +156,62 @@ export class VitalSignsService {
     }
   }
 
+  /**
+   * Queue a heart-rate reading from a source outside the collection loop
+   * (e.g. a BLE strap); it is fused on the next collection cycle
+   */
+  static submitHeartRate(reading: HeartRateData): void {
+    this.pendingHeartRates.push(reading);
+    if (this.pendingHeartRates.length > this.MAX_PENDING_READINGS) {
+      this.pendingHeartRates = this.pendingHeartRates.slice(-this.MAX_PENDING_READINGS);
+    }
+  }
+
+  /**
+   * Queue an SpO2 reading from an external oximeter; on the next collection
+   * cycle the most recent one replaces the camera estimate
+   */
+  static submitSpO2(reading: SpO2Data): void {
+    this.pendingSpO2.push(reading);
+    if (this.pendingSpO2.length > this.MAX_PENDING_READINGS) {
+      this.pendingSpO2 = this.pendingSpO2.slice(-this.MAX_PENDING_READINGS);
+    }
+  }
+
+  /**
+   * Record RR intervals measured directly by an external sensor (e.g. a BLE
+   * strap), oldest first, the last one ending at endTime. While these arrive
+   * they take priority over camera-detected beats.
+   */
+  static addRRIntervals(intervals: number[], endTime: number = ClockService.now()): void {
+    if (intervals.length === 0) return;
+
+    let beatTime = endTime;
+    const entries = intervals
+      .slice()
+      .reverse()
+      .map(interval => {
+        const entry = { timestamp: beatTime, interval };
+        beatTime -= interval;
+        return entry;
+      })
+      .reverse();
+
+    this.rrBuffer.push(...entries);
+    this.rrBuffer.sort((a, b) => a.timestamp - b.timestamp);
+    this.lastExternalRRTime = Math.max(this.lastExternalRRTime ?? endTime, endTime);
+
+    const cutoff = this.rrBuffer[this.rrBuffer.length - 1].timestamp - this.RR_BUFFER_MS;
+    this.rrBuffer = this.rrBuffer.filter(entry => entry.timestamp >= cutoff);
+  }
+
+  /**
+   * Timestamped RR intervals recorded since the given time (ms), oldest first
+   */
+  static getRRIntervalSamples(since: number = 0): RRIntervalSample[] {
+    return this.rrBuffer.filter(entry => entry.timestamp >= since).map(entry => ({ ...entry }));
+  }
+
   /**
    * Start motion sensor monitoring
    */
@@ -131,31 +239,57 @@ export class VitalSignsService {
   /**
    * Collect latest data from active monitoring methods
    */
-  static async collectLatestData(methods: MonitoringMethod[]): Promise<any> {
+  static async collectLatestData(methods: MonitoringMethod[]): Promise<VitalSignsCycle> {
     try {
-      const collectedData: any = {};
+      const collectedData: VitalSignsCycle = {};
+
+      // Motion first, so the camera pipeline can reject movement artifacts
+      if (methods.includes('motion_sensors')) {
+        collectedData.motion = await this.processMotionData();
+      }
+
+      // Readings from every heart-rate source, plus any pushed by external devices
+      const heartRateReadings: HeartRateData[] = this.pendingHeartRates.splice(0);
 
       for (const method of methods) {
         switch (method) {
-          case 'camera_ppg':
-            collectedData.heartRate = await this.processCameraPPG();
+          case 'camera_ppg': {
+            collectedData.artifacts = await this.detectCameraArtifacts(collectedData.motion);
+            const ppgHeartRate = await this.processCameraPPG(collectedData.artifacts);
+            if (ppgHeartRate) heartRateReadings.push(ppgHeartRate);
+            collectedData.spo2 = await this.processCameraSpO2();
             break;
-          case 'camera_rppg':
-            collectedData.heartRate = await this.processCamerarPPG();
+          }
+          case 'camera_rppg': {
+            const rppgHeartRate = await this.processCamerarPPG();
+            if (rppgHeartRate) heartRateReadings.push(rppgHeartRate);
             break;
+          }
           case 'audio_breathing':
             collectedData.breathing = await this.processAudioBreathing();
             break;
-          case 'motion_sensors':
-            collectedData.motion = await this.processMotionData();
-            break;
         }
       }
 
+      // A dedicated oximeter is far more accurate than the camera estimate
+      const externalSpO2 = this.pendingSpO2.splice(0);
+      if (externalSpO2.length > 0) {
+        collectedData.spo2 = externalSpO2[externalSpO2.length - 1];
+      }
+
+      // One canonical heart rate, with the per-source readings kept as provenance
+      collectedData.heartRate = HeartRateFusionService.update(heartRateReadings);
+
+      // Without a microphone, fall back to breathing derived from the PPG waveform
+      if (!collectedData.breathing && methods.includes('camera_ppg')) {
+        collectedData.breathing = await this.processCameraBreathing();
+      }
+
       // Calculate derived metrics
       if (collectedData.heartRate) {
         collectedData.hrv = await this.calculateHRV(collectedData.heartRate);
         collectedData.stress = await this.calculateStress(collectedData);
+        collectedData.coherence = this.calculateCoherence(collectedData.breathing);
       }
 
       // Store in buffer
@@ -169,40 +303,77 @@ export class VitalSignsService {
   }
 
   /**
-   * Process camera PPG signal for heart rate
+   * Check the camera PPG window for motion and morphology artifacts
    */
-  private static async processCameraPPG(): Promise<HeartRateData | null> {
+  private static async detectCameraArtifacts(motion: MotionData | null | undefined): Promise<ArtifactReport | null> {
+    try {
+      const ppgSignal = await CameraService.getPPGSignal();
+      if (!ppgSignal) {
+        return null;
+      }
+
+      return ArtifactDetectionService.detect(ppgSignal.timestamps, this.ppgChannel(ppgSignal), ppgSignal.fps, motion);
+    } catch (error) {
+      console.error('Camera artifact detection failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Process camera PPG signal for heart rate from accepted beats outside artifacts
+   */
+  private static async processCameraPPG(artifacts: ArtifactReport | null): Promise<HeartRateData | null> {
     try {
       const ppgSignal = await CameraService.getPPGSignal();
       if (!ppgSignal || ppgSignal.quality < 0.5) {
         return null;
       }
+      if (artifacts && !artifacts.usable) {
+        return null;
+      }
 
-      // Apply filtering
+      // Apply the configured filter to the configured channel
+      const channel = this.ppgChannel(ppgSignal);
+      const fps = ppgSignal.fps > 0 ? ppgSignal.fps : this.processingConfig.samplingRate;
       const filteredSignal = this.applyBandpassFilter(
-        ppgSignal.greenChannel, 
-        ppgSignal.fps,
-        0.7, // Low cutoff (42 BPM)
-        3.5  // High cutoff (210 BPM)
+        channel,
+        fps,
+        this.processingConfig.lowCutoff ?? 0.7,
+        this.processingConfig.highCutoff ?? 3.5
       );
 
-      // Detect peaks
-      const peaks = this.detectPeaks(filteredSignal, ppgSignal.fps);
-      if (peaks.length < 2) {
+      // Blood absorbs light, so systolic peaks are intensity minima
+      const pulse = filteredSignal.map(value => -value);
+
+      // Detect beats and score each one (template match, skewness, perfusion)
+      const peaks = PulseQualityService.detectPeaks(pulse, fps);
+      const pulseQuality = PulseQualityService.assessBeats(ppgSignal.timestamps, channel, pulse, peaks, fps);
+      const beats = pulseQuality.beats;
+      if (beats.length < 2) {
         return null;
       }
 
-      // Calculate heart rate
-      const intervals = this.calculateRRIntervals(peaks, ppgSignal.fps);
+      // Calculate heart rate from intervals between accepted beats that do not touch an artifact
+      const intervals = this.calculateRRIntervals(beats.map(beat => beat.index), fps).filter((_, i) =>
+        beats[i].accepted && beats[i + 1].accepted &&
+        (!artifacts || ArtifactDetectionService.isIntervalClean(artifacts, beats[i].timestamp, beats[i + 1].timestamp))
+      );
+      if (intervals.length === 0) {
+        return null;
+      }
       const heartRate = this.calculateHeartRateFromRR(intervals);
 
+      // Successive windows overlap, so record beats by absolute time for HRV
+      this.recordBeats(beats, artifacts);
+
       return {
-        timestamp: new Date(),
+        timestamp: new Date(ClockService.now()),
         bpm: heartRate,
-        confidence: ppgSignal.quality,
+        confidence: ppgSignal.quality * (1 - (artifacts?.artifactFraction ?? 0)),
         source: 'camera_ppg',
-        quality: ppgSignal.quality,
+        quality: pulseQuality.quality,
         signalStrength: this.calculateSignalStrength(filteredSignal),
+        rrIntervals: intervals,
       };
     } catch (error) {
       console.error('Camera PPG processing failed:', error);
@@ -210,6 +381,41 @@ export class VitalSignsService {
     }
   }
 
+  /**
+   * Process camera PPG signal for oxygen saturation
+   */
+  private static async processCameraSpO2(): Promise<SpO2Data | null> {
+    try {
+      const ppgSignal = await CameraService.getPPGSignal();
+      if (!ppgSignal || ppgSignal.quality < 0.5) {
+        return null;
+      }
+
+      // Ratio-of-ratios estimate; null when the confidence gate rejects the window
+      return SpO2Service.estimate(ppgSignal);
+    } catch (error) {
+      console.error('Camera SpO2 processing failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Process camera PPG signal for breathing rate (RIIV/RIAV/RIFV fusion)
+   */
+  private static async processCameraBreathing(): Promise<BreathingData | null> {
+    try {
+      const ppgSignal = await CameraService.getPPGSignal(this.RESPIRATION_WINDOW_SECONDS);
+      if (!ppgSignal || ppgSignal.quality < 0.5) {
+        return null;
+      }
+
+      return PPGRespirationService.estimate(ppgSignal, this.processingConfig.ppgChannel);
+    } catch (error) {
+      console.error('Camera breathing processing failed:', error);
+      return null;
+    }
+  }
+
   /**
    * Process camera rPPG signal for heart rate (remote PPG)
    */
@@ -220,19 +426,9 @@ export class VitalSignsService {
         return null;
       }
 
-      // Use TensorFlow model for rPPG processing
-      const heartRate = await TensorFlowService.processrPPG(rppgSignal);
-      if (!heartRate) {
-        return null;
-      }
-
-      return {
-        timestamp: new Date(),
-        bpm: heartRate.bpm,
-        confidence: heartRate.confidence,
-        source: 'camera_rppg',
-        quality: rppgSignal.quality,
-      };
+      // Chrominance rPPG; POS unless CHROM is explicitly configured
+      const algorithm = this.processingConfig.algorithm === 'chrom' ? 'chrom' : 'pos';
+      return RPPGService.estimateHeartRate(rppgSignal, algorithm);
     } catch (error) {
       console.error('Camera rPPG processing failed:', error);
       return null;
@@ -249,21 +445,7 @@ export class VitalSignsService {
         return null;
       }
 
-      // Use TensorFlow model for breathing analysis
-      const breathingAnalysis = await TensorFlowService.processBreathing(audioSignal);
-      if (!breathingAnalysis) {
-        return null;
-      }
-
-      return {
-        timestamp: new Date(),
-        breathsPerMinute: breathingAnalysis.rate,
-        breathPattern: breathingAnalysis.pattern,
-        inhaleDuration: breathingAnalysis.inhaleDuration,
-        exhaleDuration: breathingAnalysis.exhaleDuration,
-        confidence: breathingAnalysis.confidence,
-        source: 'audio_analysis',
-      };
+      return BreathSoundAnalysisService.analyze(audioSignal);
     } catch (error) {
       console.error('Audio breathing processing failed:', error);
       return null;
@@ -283,23 +465,17 @@ export class VitalSignsService {
   }
 
   /**
-   * Calculate Heart Rate Variability from heart rate data
+   * Calculate Heart Rate Variability from the recorded RR-interval series
    */
   private static async calculateHRV(heartRateData: HeartRateData): Promise<HRVData | null> {
     try {
-      // Need at least 5 minutes of data for reliable HRV
-      const recentHR = this.dataBuffer.heartRate.slice(-150); // Last 5 minutes at 30 FPS
-      if (recentHR.length < 50) {
+      // Use up to 5 minutes of beats, the standard short-term HRV window
+      const samples = HRVAnalysisService.cleanRRSamples(this.getRecentRRSamples(5 * 60 * 1000));
+      const rrIntervals = samples.map(sample => sample.interval);
+      if (rrIntervals.length < 30) {
         return null;
       }
 
-      // Extract R-R intervals
-      const rrIntervals: number[] = [];
-      for (let i = 1; i < recentHR.length; i++) {
-        const interval = 60000 / recentHR[i].bpm; // Convert BPM to ms
-        rrIntervals.push(interval);
-      }
-
       // Calculate RMSSD
       const rmssd = this.calculateRMSSD(rrIntervals);
       
@@ -309,11 +485,24 @@ export class VitalSignsService {
       // Calculate pNN50
       const pnn50 = this.calculatepNN50(rrIntervals);
 
+      // Spectral measures need at least a minute of beats
+      const spectral = HRVAnalysisService.frequencyDomain(samples);
+
+      // Nonlinear measures are filled in once the series is long enough
+      const nonlinear = NonlinearHRVService.analyze(rrIntervals);
+
       return {
-        timestamp: new Date(),
+        timestamp: new Date(ClockService.now()),
         rmssd,
         sdnn,
         pnn50,
+        vlf: spectral?.vlf,
+        lf: spectral?.lf,
+        hf: spectral?.hf,
+        lfHfRatio: spectral?.lfHfRatio,
+        totalPower: spectral?.totalPower,
+        peakFrequency: spectral?.peakFrequency,
+        ...nonlinear,
         confidence: heartRateData.confidence,
         source: heartRateData.source,
       };
@@ -324,41 +513,72 @@ export class VitalSignsService {
   }
 
   /**
-   * Calculate stress level from multiple metrics
+   * Coherence over the latest window of beats. Only microphone breathing is
+   * independent of the pulse, so only its phases are used for synchrony.
    */
-  private static async calculateStress(data: any): Promise<StressData | null> {
+  private static calculateCoherence(breathing: BreathingData | null | undefined): CoherenceData | null {
+    try {
+      if (this.rrBuffer.length === 0) return null;
+
+      const end = this.rrBuffer[this.rrBuffer.length - 1].timestamp;
+      const samples = this.getRRIntervalSamples(end - CoherenceService.WINDOW_SECONDS * 1000);
+      const phases = breathing?.source === 'audio_analysis' ? breathing.phases ?? [] : [];
+
+      return CoherenceService.analyze(samples, phases);
+    } catch (error) {
+      console.error('Coherence calculation failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Calculate stress level from multiple metrics. Each factor is 0-100 and
+   * the result is their weighted mean over the factors that have data, so
+   * with all four present the weights 0.3/0.4/0.3/0.2 come to 25/33/25/17%.
+   */
+  private static async calculateStress(data: VitalSignsCycle): Promise<StressData | null> {
     try {
       let stressScore = 0;
       let factorCount = 0;
-      const factors: any = {};
+      const factors: StressData['factors'] = {};
 
-      // Heart rate factor (30% weight)
+      // Heart rate factor (weight 0.3)
       if (data.heartRate) {
-        const baselineHR = 70; // Would come from user profile
+        const baselineHR = this.baseline?.restingHeartRate ?? this.POPULATION_BASELINE.heartRate;
         const hrDeviation = Math.abs(data.heartRate.bpm - baselineHR) / baselineHR;
         factors.heartRate = Math.min(hrDeviation * 100, 100);
         stressScore += factors.heartRate * 0.3;
         factorCount += 0.3;
       }
 
-      // HRV factor (40% weight)
+      // HRV factor (weight 0.4)
       if (data.hrv) {
-        const baselineRMSSD = 40; // Would come from user profile
+        const baselineRMSSD = this.baseline?.averageHRV ?? this.POPULATION_BASELINE.rmssd;
         const hrvDeviation = Math.max(0, (baselineRMSSD - data.hrv.rmssd) / baselineRMSSD);
         factors.hrv = hrvDeviation * 100;
         stressScore += factors.hrv * 0.4;
         factorCount += 0.4;
       }
 
-      // Breathing factor (30% weight)
+      // Breathing factor (weight 0.3)
       if (data.breathing) {
-        const normalBreathingRate = 16;
+        const normalBreathingRate = this.baseline?.breathingRate ?? this.POPULATION_BASELINE.breathingRate;
         const brDeviation = Math.abs(data.breathing.breathsPerMinute - normalBreathingRate) / normalBreathingRate;
         factors.breathing = Math.min(brDeviation * 100, 100);
         stressScore += factors.breathing * 0.3;
         factorCount += 0.3;
       }
 
+      // Autonomic balance factor (weight 0.2) from DFA-α1 and SD1/SD2
+      if (data.hrv) {
+        const autonomicBalance = NonlinearHRVService.autonomicBalanceScore(data.hrv);
+        if (autonomicBalance !== null) {
+          factors.autonomicBalance = autonomicBalance;
+          stressScore += factors.autonomicBalance * 0.2;
+          factorCount += 0.2;
+        }
+      }
+
       if (factorCount === 0) {
         return null;
       }
@@ -366,7 +586,7 @@ export class VitalSignsService {
       const finalStressLevel = Math.round(stressScore / factorCount);
 
       return {
-        timestamp: new Date(),
+        timestamp: new Date(ClockService.now()),
         value: finalStressLevel,
         factors,
         recommendation: this.getStressRecommendation(finalStressLevel),
@@ -397,16 +617,17 @@ export class VitalSignsService {
   /**
    * Calculate data quality metrics
    */
-  static calculateDataQuality(data: any): any {
-    const quality = {
+  static calculateDataQuality(data: VitalSignsCycle): CycleQuality {
+    const quality: CycleQuality = {
       overall: 0,
+      artifactsDetected: 0,
       confidence: {
         heartRate: 0,
         hrv: 0,
         spo2: 0,
         breathing: 0,
       },
-      flags: [] as string[],
+      flags: [],
     };
 
     let totalWeight = 0;
@@ -432,6 +653,18 @@ export class VitalSignsService {
       totalWeight += 0.3;
     }
 
+    // SpO2 quality
+    if (data.spo2) {
+      const spo2Quality = data.spo2.confidence || 0;
+      quality.confidence.spo2 = spo2Quality;
+      weightedScore += spo2Quality * 0.2;
+      totalWeight += 0.2;
+
+      if (spo2Quality < 0.7) {
+        quality.flags.push('low_spo2_confidence');
+      }
+    }
+
     // Breathing quality
     if (data.breathing) {
       const breathingQuality = data.breathing.confidence || 0;
@@ -446,6 +679,13 @@ export class VitalSignsService {
 
     quality.overall = totalWeight > 0 ? weightedScore / totalWeight : 0;
 
+    // Artifacts in the camera window discount everything measured from it
+    if (data.artifacts) {
+      quality.artifactsDetected = data.artifacts.segments.length;
+      quality.flags.push(...data.artifacts.flags);
+      quality.overall *= 1 - data.artifacts.artifactFraction;
+    }
+
     return quality;
   }
 
@@ -461,11 +701,7 @@ export class VitalSignsService {
         heartRateElevation: 0,
         overallStress: 0,
       },
-      coherence: {
-        heartBrainCoherence: 0,
-        breathingHeartSync: 0,
-        coherenceRatio: 0,
-      },
+      coherence: CoherenceService.summarize(vitalSigns.coherence ?? []),
       trends: {
         heartRateTrend: 'stable',
         hrvTrend: 'stable',
@@ -478,9 +714,35 @@ export class VitalSignsService {
   /**
    * Calibrate baseline measurements
    */
-  static async calibrateBaseline(vitalSigns: VitalSigns): Promise<void> {
-    // Implementation would calculate user baseline from historical data
-    console.log('Calibrating baseline measurements...');
+  static async calibrateBaseline(
+    vitalSigns: VitalSigns,
+    restingPeriods?: { start: Date; end: Date }[]
+  ): Promise<HealthBaseline | null> {
+    try {
+      const baseline = await BaselineCalibrationService.calibrate(vitalSigns, restingPeriods);
+      if (baseline) {
+        this.baseline = baseline;
+      }
+      return baseline;
+    } catch (error) {
+      console.error('Failed to calibrate baseline:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The personal baseline stress scoring is measured against, if calibrated
+   */
+  static getBaseline(): HealthBaseline | null {
+    return this.baseline;
+  }
+
+  /**
+   * Score against a given baseline instead of the stored one (e.g. for a
+   * replay); null falls back to population norms
+   */
+  static setBaseline(baseline: HealthBaseline | null): void {
+    this.baseline = baseline;
   }
 
   /**
@@ -498,36 +760,32 @@ export class VitalSignsService {
     return {
       data: this.dataBuffer,
       timeRange,
-      exportedAt: new Date(),
+      exportedAt: new Date(ClockService.now()),
     };
   }
 
   // Helper methods for signal processing
 
-  private static applyBandpassFilter(signal: number[], sampleRate: number, lowCutoff: number, highCutoff: number): number[] {
-    // Simplified bandpass filter implementation
-    // In production, would use a proper DSP library
-    return signal; // Placeholder
-  }
-
-  private static detectPeaks(signal: number[], sampleRate: number): number[] {
-    const peaks: number[] = [];
-    const threshold = this.calculateAdaptiveThreshold(signal);
-    
-    for (let i = 1; i < signal.length - 1; i++) {
-      if (signal[i] > signal[i - 1] && signal[i] > signal[i + 1] && signal[i] > threshold) {
-        peaks.push(i);
-      }
-    }
-    
-    return peaks;
+  private static ppgChannel(ppgSignal: PPGSignal): number[] {
+    return this.processingConfig.ppgChannel === 'green' ? ppgSignal.greenChannel : ppgSignal.redChannel;
   }
 
-  private static calculateAdaptiveThreshold(signal: number[]): number {
-    const mean = signal.reduce((sum, val) => sum + val, 0) / signal.length;
-    const variance = signal.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / signal.length;
-    const stdDev = Math.sqrt(variance);
-    return mean + 0.5 * stdDev;
+  private static applyBandpassFilter(signal: number[], sampleRate: number, lowCutoff: number, highCutoff: number): number[] {
+    if (signal.length < 2) return signal;
+
+    // Fall back to the configured sampling rate when the source doesn't report one
+    const fs = sampleRate > 0 ? sampleRate : this.processingConfig.samplingRate;
+    const order = this.processingConfig.filterOrder ?? 4;
+
+    // Zero-phase Butterworth so peak positions (and RR intervals) are not shifted
+    return SignalProcessingService.butterworthFilter(
+      SignalProcessingService.removeMean(signal),
+      this.processingConfig.filterType,
+      order,
+      fs,
+      lowCutoff,
+      highCutoff
+    );
   }
 
   private static calculateRRIntervals(peaks: number[], sampleRate: number): number[] {
@@ -585,6 +843,40 @@ export class VitalSignsService {
     return (nn50Count / (rrIntervals.length - 1)) * 100;
   }
 
+  private static recordBeats(
+    beats: { timestamp: number; accepted: boolean }[],
+    artifacts: ArtifactReport | null = null
+  ): void {
+    for (const { timestamp: beatTime, accepted } of beats) {
+      if (this.lastBeatTime !== null) {
+        // Skip beats already recorded from an earlier, overlapping window
+        if (beatTime < this.lastBeatTime + this.MIN_BEAT_SEPARATION_MS) continue;
+        // Both ends must be accepted beats, and an interval spanning an
+        // artifact is not a real beat-to-beat interval
+        const clean = !artifacts || ArtifactDetectionService.isIntervalClean(artifacts, this.lastBeatTime, beatTime);
+        // Camera beats only fill in when no sensor is delivering true RR intervals
+        const external = this.lastExternalRRTime !== null &&
+          Math.abs(beatTime - this.lastExternalRRTime) < this.EXTERNAL_RR_PRIORITY_MS;
+        if (accepted && this.lastBeatAccepted && clean && !external) {
+          this.rrBuffer.push({ timestamp: beatTime, interval: beatTime - this.lastBeatTime });
+        }
+      }
+      this.lastBeatTime = beatTime;
+      this.lastBeatAccepted = accepted;
+    }
+
+    if (this.lastBeatTime !== null) {
+      const cutoff = this.lastBeatTime - this.RR_BUFFER_MS;
+      this.rrBuffer = this.rrBuffer.filter(entry => entry.timestamp >= cutoff);
+    }
+  }
+
+  private static getRecentRRSamples(windowMs: number): RRIntervalSample[] {
+    if (this.rrBuffer.length === 0) return [];
+    const cutoff = this.rrBuffer[this.rrBuffer.length - 1].timestamp - windowMs;
+    return this.getRRIntervalSamples(cutoff);
+  }
+
   private static updateDataBuffer(data: any): void {
     const maxBufferSize = 1000; // Keep last 1000 readings
     
@@ -602,6 +894,13 @@ export class VitalSignsService {
       }
     }
     
+    if (data.spo2) {
+      this.dataBuffer.spo2.push(data.spo2);
+      if (this.dataBuffer.spo2.length > maxBufferSize) {
+        this.dataBuffer.spo2 = this.dataBuffer.spo2.slice(-maxBufferSize);
+      }
+    }
+    
     if (data.breathing) {
       this.dataBuffer.breathing.push(data.breathing);
       if (this.dataBuffer.breathing.length > maxBufferSize) {
@@ -615,14 +914,30 @@ export class VitalSignsService {
         this.dataBuffer.stress = this.dataBuffer.stress.slice(-maxBufferSize);
       }
     }
+
+    if (data.coherence) {
+      this.dataBuffer.coherence.push(data.coherence);
+      if (this.dataBuffer.coherence.length > maxBufferSize) {
+        this.dataBuffer.coherence = this.dataBuffer.coherence.slice(-maxBufferSize);
+      }
+    }
   }
 
   private static clearDataBuffer(): void {
     this.dataBuffer = {
       heartRate: [],
       hrv: [],
+      spo2: [],
       breathing: [],
       stress: [],
+      coherence: [],
     };
+    this.rrBuffer = [];
+    this.lastBeatTime = null;
+    this.lastBeatAccepted = false;
+    this.lastExternalRRTime = null;
+    this.pendingHeartRates = [];
+    this.pendingSpO2 = [];
+    HeartRateFusionService.reset();
   }
 }
\ No newline at end of file
@@ -0,0 +1,197 @@
+/// <reference types="node" />
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { AudioFrame } from '../types/vitalSigns';
+import { BreathSoundAnalysisService } from './BreathSoundAnalysisService';
+import { ClockService } from './ClockService';
+import { FakeClock } from './FakeClock';
+import { WavFileAudioSource } from './WavFileAudioSource';
+
+/**
+ * 25 s of 8-bit mono PCM at 1 kHz, with a LIST chunk of odd length between
+ * fmt and data. After 1 s of silence come four 6 s breaths: a bright 2 s
+ * inhale, a 0.5 s pause, a duller 2.5 s exhale and a 1 s pause.
+ */
+const FIXTURE = path.join(__dirname, '__fixtures__', 'breathing.wav');
+
+interface Chunk {
+  id: string;
+  body: number[];
+}
+
+/**
+ * RIFF/WAVE bytes from chunks, padding odd-length bodies
+ */
+const riff = (chunks: Chunk[]): Uint8Array => {
+  const bytes: number[] = [...ascii('WAVE')];
+  chunks.forEach(({ id, body }) => {
+    bytes.push(...ascii(id), ...uint32(body.length), ...body);
+    if (body.length % 2 === 1) bytes.push(0);
+  });
+  return Uint8Array.from([...ascii('RIFF'), ...uint32(bytes.length), ...bytes]);
+};
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+const uint32 = (value: number) => [...uint16(value & 0xffff), ...uint16(value >>> 16)];
+
+const fmt = (format: number, channels: number, sampleRate: number, bits: number): Chunk => {
+  const blockAlign = (channels * bits) / 8;
+  return {
+    id: 'fmt ',
+    body: [
+      ...uint16(format),
+      ...uint16(channels),
+      ...uint32(sampleRate),
+      ...uint32(sampleRate * blockAlign), // byte rate
+      ...uint16(blockAlign),
+      ...uint16(bits),
+    ],
+  };
+};
+
+type SampleWriter = (view: DataView, offset: number, value: number) => void;
+
+const uint8: SampleWriter = (view, offset, value) => view.setUint8(offset, value);
+const int16: SampleWriter = (view, offset, value) => view.setInt16(offset, value, true);
+const int24: SampleWriter = (view, offset, value) => {
+  view.setUint16(offset, value & 0xffff, true);
+  view.setInt8(offset + 2, value >> 16);
+};
+const int32: SampleWriter = (view, offset, value) => view.setInt32(offset, value, true);
+const float32: SampleWriter = (view, offset, value) => view.setFloat32(offset, value, true);
+const float64: SampleWriter = (view, offset, value) => view.setFloat64(offset, value, true);
+
+/**
+ * A data chunk of little-endian samples
+ */
+const data = (values: number[], bytesPerSample: number, write: SampleWriter): Chunk => {
+  const view = new DataView(new ArrayBuffer(values.length * bytesPerSample));
+  values.forEach((value, i) => write(view, i * bytesPerSample, value));
+  return { id: 'data', body: Array.from(new Uint8Array(view.buffer)) };
+};
+
+describe('WavFileAudioSource.decode', () => {
+  it.each([
+    ['8-bit unsigned', 8, data([0, 64, 128, 255], 1, uint8), [-1, -0.5, 0, 127 / 128]],
+    ['16-bit', 16, data([-32768, -16384, 0, 32767], 2, int16), [-1, -0.5, 0, 32767 / 32768]],
+    ['24-bit', 24, data([-8388608, -4194304, 1, 8388607], 3, int24), [-1, -0.5, 1 / 8388608, 8388607 / 8388608]],
+    ['32-bit', 32, data([-2147483648, -1073741824, 0, 2147483647], 4, int32), [-1, -0.5, 0, 2147483647 / 2147483648]],
+  ])('scales %s PCM to -1..1', (_, bits, samples, expected) => {
+    const wav = WavFileAudioSource.decode(riff([fmt(1, 1, 8000, bits), samples]));
+
+    expect(wav).toEqual({ sampleRate: 8000, channels: 1, samples: expected });
+  });
+
+  it.each([
+    [32, data([-1, -0.5, 0.25, 1], 4, float32)],
+    [64, data([-1, -0.5, 0.25, 1], 8, float64)],
+  ])('reads %i-bit IEEE float samples as they are', (bits, samples) => {
+    expect(WavFileAudioSource.decode(riff([fmt(3, 1, 8000, bits), samples])).samples).toEqual([-1, -0.5, 0.25, 1]);
+  });
+
+  it('takes the sample format of a WAVE_FORMAT_EXTENSIBLE header from its sub-format', () => {
+    const extension = [
+      ...uint16(22), // extension size
+      ...uint16(32), // valid bits per sample
+      ...uint32(0), // channel mask
+      ...uint16(3), // sub-format GUID, starting with the IEEE float tag
+      ...new Array(14).fill(0),
+    ];
+    const extensible: Chunk = { id: 'fmt ', body: [...fmt(0xfffe, 1, 8000, 32).body, ...extension] };
+
+    expect(WavFileAudioSource.decode(riff([extensible, data([0.5], 4, float32)])).samples).toEqual([0.5]);
+  });
+
+  it('mixes channels down to mono', () => {
+    const samples = data([16384, -16384, 32767, 32767], 2, int16);
+    const wav = WavFileAudioSource.decode(riff([fmt(1, 2, 8000, 16), samples]));
+
+    expect(wav.channels).toBe(2);
+    expect(wav.samples).toEqual([0, 32767 / 32768]);
+  });
+
+  it('walks past unknown and odd-length chunks in any order', () => {
+    const wav = WavFileAudioSource.decode(
+      riff([
+        { id: 'JUNK', body: [1, 2, 3] },
+        data([16384], 2, int16),
+        { id: 'LIST', body: [...ascii('INFO'), 9] },
+        fmt(1, 1, 16000, 16),
+      ])
+    );
+
+    expect(wav).toEqual({ sampleRate: 16000, channels: 1, samples: [0.5] });
+  });
+
+  it('stops at a data chunk truncated by the end of the file', () => {
+    const bytes = riff([fmt(1, 1, 8000, 16), data([16384, 16384, 16384], 2, int16)]);
+
+    expect(WavFileAudioSource.decode(bytes.subarray(0, bytes.length - 3)).samples).toEqual([0.5]);
+  });
+
+  it('rejects files it cannot decode', () => {
+    const samples = data([0], 2, int16);
+    const decode = (bytes: Uint8Array) => () => WavFileAudioSource.decode(bytes);
+
+    expect(decode(Uint8Array.from(ascii('RIFF0000AVI ')))).toThrow('Not a RIFF/WAVE file');
+    expect(decode(riff([samples]))).toThrow('missing its fmt or data chunk');
+    expect(decode(riff([fmt(2, 1, 8000, 4), samples]))).toThrow('Unsupported WAV format: 2');
+    expect(decode(riff([fmt(1, 1, 8000, 12), samples]))).toThrow('Unsupported PCM bit depth: 12');
+  });
+});
+
+describe('WavFileAudioSource with a recorded fixture', () => {
+  afterEach(() => ClockService.setClock(null));
+
+  it('decodes the recording', async () => {
+    const source = await WavFileAudioSource.fromFile(FIXTURE, fs.readFile);
+    const { sampleRate, channels, samples } = source.getRecording();
+
+    expect({ sampleRate, channels, length: samples.length }).toEqual({ sampleRate: 1000, channels: 1, length: 25000 });
+    expect(Math.max(...samples.map(Math.abs))).toBeLessThanOrEqual(1);
+    // The leading silence is near silence; the inhale after it is not
+    const rms = (from: number, to: number) =>
+      Math.sqrt(samples.slice(from, to).reduce((sum, value) => sum + value * value, 0) / (to - from));
+    expect(rms(0, 1000)).toBeLessThan(0.01);
+    expect(rms(1000, 3000)).toBeGreaterThan(0.1);
+  });
+
+  it('detects the breaths in the recording', async () => {
+    const { samples, sampleRate } = (await WavFileAudioSource.fromFile(FIXTURE, fs.readFile)).getRecording();
+    const signal = BreathSoundAnalysisService.extractFeatures(samples, sampleRate);
+    const breathing = BreathSoundAnalysisService.analyze(signal)!;
+    const phases = breathing.phases!;
+
+    expect(phases.map(event => event.phase)).toEqual([
+      ...Array(3).fill(['inhale', 'pause', 'exhale', 'pause']).flat(),
+      'inhale', 'pause', 'exhale',
+    ]);
+    phases
+      .filter(event => event.phase === 'inhale')
+      .forEach((event, i) => expect(Math.abs(event.start - (1000 + i * 6000))).toBeLessThanOrEqual(100));
+    expect(breathing).toMatchObject({ breathsPerMinute: 10, breathPattern: 'regular', confidence: 1 });
+    expect(breathing.inhaleDuration).toBeCloseTo(2, 0);
+    expect(breathing.exhaleDuration).toBeCloseTo(2.5, 0);
+    expect(breathing.holdDuration).toBeCloseTo(0.75, 0);
+  });
+
+  it('replays the recording in frames on the injected clock', async () => {
+    const clock = new FakeClock(0);
+    ClockService.setClock(clock);
+    const source = await WavFileAudioSource.fromFile(FIXTURE, fs.readFile, { frameSize: 500, startTime: 1000 });
+    const frames: AudioFrame[] = [];
+
+    await source.start(frame => frames.push(frame));
+    expect(frames).toHaveLength(1);
+
+    clock.advance(1000);
+    expect(frames.map(frame => frame.timestamp)).toEqual([1000, 1500, 2000]);
+
+    clock.advance(24000);
+    expect(frames).toHaveLength(50);
+    expect(frames.every(frame => frame.samples.length === 500 && frame.sampleRate === 1000)).toBe(true);
+    expect(source.isRunning()).toBe(false);
+  });
+});
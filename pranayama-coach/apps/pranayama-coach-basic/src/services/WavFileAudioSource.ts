@@ -0,0 +1,210 @@
+/**
+ * WAV File Audio Source
+ * Decodes PCM WAV recordings and replays them through the breathing analysis
+ * pipeline, so recorded breaths can be analyzed and regression-tested offline
+ */
+
+import { AudioFrame, AudioFrameSource, ClockTimer } from '../types/vitalSigns';
+import { ClockService } from './ClockService';
+
+interface WavReplayOptions {
+  realtime: boolean;  // false delivers every frame as soon as start() is called
+  speed: number;      // playback speed multiplier in realtime mode
+  frameSize: number;  // samples per emitted frame
+  startTime: number;  // ms timestamp of the first sample
+}
+
+export interface DecodedWav {
+  sampleRate: number;
+  channels: number;
+  samples: number[]; // mono mixdown, -1 to 1
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export class WavFileAudioSource implements AudioFrameSource {
+  readonly name = 'wav_file';
+  private wav: DecodedWav;
+  private options: WavReplayOptions;
+  private timer: ClockTimer | null = null;
+  private running = false;
+
+  constructor(wav: DecodedWav, options?: Partial<WavReplayOptions>) {
+    if (wav.samples.length === 0) {
+      throw new Error('WAV recording contains no samples');
+    }
+
+    this.wav = wav;
+    this.options = { realtime: true, speed: 1, frameSize: 1024, startTime: 0, ...options };
+  }
+
+  /**
+   * Decode a RIFF/WAVE file: 8/16/24/32-bit integer PCM or 32/64-bit float,
+   * any channel count (mixed down to mono)
+   */
+  static decode(data: ArrayBuffer | Uint8Array): DecodedWav {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const tag = (offset: number) => String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+
+    if (bytes.length < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+      throw new Error('Not a RIFF/WAVE file');
+    }
+
+    let format = 0;
+    let channels = 0;
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+    let dataOffset = -1;
+    let dataLength = 0;
+
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+      const chunkId = tag(offset);
+      const chunkSize = view.getUint32(offset + 4, true);
+      const body = offset + 8;
+
+      if (chunkId === 'fmt ') {
+        format = view.getUint16(body, true);
+        channels = view.getUint16(body + 2, true);
+        sampleRate = view.getUint32(body + 4, true);
+        bitsPerSample = view.getUint16(body + 14, true);
+        if (format === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+          format = view.getUint16(body + 24, true); // first two bytes of the sub-format GUID
+        }
+      } else if (chunkId === 'data') {
+        dataOffset = body;
+        dataLength = Math.min(chunkSize, bytes.length - body);
+      }
+
+      // Chunks are padded to an even length
+      offset = body + chunkSize + (chunkSize % 2);
+    }
+
+    if (dataOffset < 0 || channels === 0 || sampleRate === 0) {
+      throw new Error('WAV file is missing its fmt or data chunk');
+    }
+    if (format !== WAVE_FORMAT_PCM && format !== WAVE_FORMAT_IEEE_FLOAT) {
+      throw new Error(`Unsupported WAV format: ${format}`);
+    }
+
+    const bytesPerSample = bitsPerSample / 8;
+    const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+    const samples = new Array<number>(frameCount);
+
+    for (let i = 0; i < frameCount; i++) {
+      let sum = 0;
+      for (let channel = 0; channel < channels; channel++) {
+        const position = dataOffset + (i * channels + channel) * bytesPerSample;
+        sum += this.readSample(view, position, format, bitsPerSample);
+      }
+      samples[i] = sum / channels;
+    }
+
+    return { sampleRate, channels, samples };
+  }
+
+  /**
+   * Load a WAV file through a caller-supplied binary reader (fs.promises on a
+   * laptop, a file-system module on device)
+   */
+  static async fromFile(
+    path: string,
+    readFile: (path: string) => Promise<ArrayBuffer | Uint8Array>,
+    options?: Partial<WavReplayOptions>
+  ): Promise<WavFileAudioSource> {
+    return new WavFileAudioSource(this.decode(await readFile(path)), options);
+  }
+
+  async start(onFrame: (frame: AudioFrame) => void): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    const { frameSize } = this.options;
+    const frameCount = Math.ceil(this.wav.samples.length / frameSize);
+
+    if (!this.options.realtime) {
+      for (let index = 0; index < frameCount; index++) {
+        onFrame(this.frameAt(index));
+      }
+      this.running = false;
+      return;
+    }
+
+    const clock = ClockService.getClock();
+    const clockStart = clock.now();
+    let index = 0;
+    const emitDue = () => {
+      if (!this.running) return;
+
+      const elapsed = (clock.now() - clockStart) * this.options.speed;
+      while (index < frameCount && (index * frameSize * 1000) / this.wav.sampleRate <= elapsed) {
+        onFrame(this.frameAt(index));
+        index++;
+      }
+
+      if (index < frameCount) {
+        const due = (index * frameSize * 1000) / this.wav.sampleRate;
+        this.timer = clock.setTimeout(emitDue, Math.max(0, (due - elapsed) / this.options.speed));
+      } else {
+        this.running = false;
+        this.timer = null;
+      }
+    };
+
+    emitDue();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      ClockService.getClock().clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Get the decoded recording
+   */
+  getRecording(): DecodedWav {
+    return { ...this.wav, samples: this.wav.samples.slice() };
+  }
+
+  // Helper methods
+
+  private frameAt(index: number): AudioFrame {
+    const { frameSize, startTime } = this.options;
+    const start = index * frameSize;
+    return {
+      timestamp: startTime + (start / this.wav.sampleRate) * 1000,
+      samples: this.wav.samples.slice(start, start + frameSize),
+      sampleRate: this.wav.sampleRate,
+    };
+  }
+
+  private static readSample(view: DataView, position: number, format: number, bits: number): number {
+    if (format === WAVE_FORMAT_IEEE_FLOAT) {
+      return bits === 64 ? view.getFloat64(position, true) : view.getFloat32(position, true);
+    }
+
+    switch (bits) {
+      case 8:
+        return (view.getUint8(position) - 128) / 128; // 8-bit PCM is unsigned
+      case 16:
+        return view.getInt16(position, true) / 32768;
+      case 24: {
+        const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+        return value / 8388608;
+      }
+      case 32:
+        return view.getInt32(position, true) / 2147483648;
+      default:
+        throw new Error(`Unsupported PCM bit depth: ${bits}`);
+    }
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Bluetooth LE sensor types
+ */
+
+export interface BleDevice {
+  id: string; // platform device identifier (MAC on Android, UUID on iOS)
+  name?: string;
+  rssi?: number;
+  serviceUUIDs?: string[];
+}
+
+export type BleConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+/**
+ * The GATT operations the sensor clients need. UUIDs are full 128-bit,
+ * lower-case strings.
+ */
+export interface BleTransport {
+  readonly name: string;
+  startScan(serviceUUIDs: string[], onDevice: (device: BleDevice) => void): Promise<void>;
+  stopScan(): Promise<void>;
+  connect(deviceId: string, onDisconnect?: (error?: Error) => void): Promise<void>;
+  disconnect(deviceId: string): Promise<void>;
+  read(deviceId: string, serviceUUID: string, characteristicUUID: string): Promise<Uint8Array>;
+  write(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Uint8Array): Promise<void>;
+  subscribe(
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    onValue: (value: Uint8Array) => void
+  ): Promise<() => void>;
+}
+
+export type SensorContactStatus = 'not_supported' | 'no_contact' | 'contact';
+
+export type BodySensorLocation = 'other' | 'chest' | 'wrist' | 'finger' | 'hand' | 'ear_lobe' | 'foot';
+
+/**
+ * One Heart Rate Measurement (0x2A37) notification
+ */
+export interface HeartRateMeasurement {
+  timestamp: Date;
+  bpm: number;
+  sensorContact: SensorContactStatus;
+  energyExpended?: number; // kJ since the last reset
+  rrIntervals: number[]; // ms, oldest first
+}
+
+export type PlxMeasurementStatus =
+  | 'measurement_ongoing'
+  | 'early_estimated_data'
+  | 'validated_data'
+  | 'fully_qualified_data'
+  | 'data_from_storage'
+  | 'data_for_demonstration'
+  | 'data_for_testing'
+  | 'calibration_ongoing'
+  | 'measurement_unavailable'
+  | 'questionable_measurement'
+  | 'invalid_measurement';
+
+export type PlxDeviceStatus =
+  | 'extended_display_update'
+  | 'equipment_malfunction'
+  | 'signal_processing_irregularity'
+  | 'inadequate_signal'
+  | 'poor_signal'
+  | 'low_perfusion'
+  | 'erratic_signal'
+  | 'nonpulsatile_signal'
+  | 'questionable_pulse'
+  | 'signal_analysis_ongoing'
+  | 'sensor_interference'
+  | 'sensor_unconnected'
+  | 'unknown_sensor'
+  | 'sensor_displaced'
+  | 'sensor_malfunction'
+  | 'sensor_disconnected';
+
+/**
+ * One PLX Spot-Check (0x2A5E) or Continuous (0x2A5F) measurement
+ */
+export interface PulseOximeterMeasurement {
+  timestamp: Date; // when received
+  kind: 'spot_check' | 'continuous';
+  spo2: number; // %, NaN when the device reports no value
+  pulseRate: number; // bpm, NaN when the device reports no value
+  fast?: { spo2: number; pulseRate: number }; // continuous only, less averaging
+  slow?: { spo2: number; pulseRate: number }; // continuous only, more averaging
+  deviceTimestamp?: Date; // spot-check only
+  measurementStatus: PlxMeasurementStatus[];
+  deviceStatus: PlxDeviceStatus[];
+  pulseAmplitudeIndex?: number; // %
+}
+
+// Sensor descriptions, mirroring the backend Sensor model (gattProfile,
+// capabilities, dataProcessing) so devices can be supported by configuration
+
+export type GattDataFormat =
+  | 'uint8' | 'uint16' | 'uint32'
+  | 'int8' | 'int16' | 'int32'
+  | 'float32' | 'string' | 'bytes' | 'custom';
+
+export type SensorMetricName =
+  | 'heart_rate'
+  | 'heart_rate_variability'
+  | 'oxygen_saturation'
+  | 'blood_pressure_systolic'
+  | 'blood_pressure_diastolic'
+  | 'body_temperature'
+  | 'breathing_rate'
+  | 'activity_level'
+  | 'step_count'
+  | 'distance'
+  | 'calories'
+  | 'sleep_stage'
+  | 'stress_level'
+  | 'glucose_level'
+  | 'ecg'
+  | 'ppg_signal'
+  | 'accelerometer'
+  | 'gyroscope'
+  | 'magnetometer'
+  | 'ambient_light'
+  | 'environmental_temperature'
+  | 'humidity'
+  | 'air_pressure'
+  | 'custom';
+
+export interface GattCharacteristicDescription {
+  uuid: string;
+  name?: string;
+  properties?: string[]; // read, write, notify, indicate
+  dataFormat?: GattDataFormat;
+  byteOrder?: 'little' | 'big';
+  scaleFactor?: number;
+  offset?: number;
+  unit?: string;
+}
+
+export interface GattServiceDescription {
+  uuid: string;
+  name?: string;
+  characteristics: GattCharacteristicDescription[];
+  isStandard?: boolean;
+}
+
+export interface CharacteristicMapping {
+  metricName: SensorMetricName;
+  characteristicUUID: string;
+  parser?: string; // built-in parser name; dataFormat decoding when absent
+}
+
+export interface StandardProfileMapping {
+  profileName: string;
+  serviceUUID: string;
+  characteristicMappings: CharacteristicMapping[];
+}
+
+export interface SensorMetricCapability {
+  name: SensorMetricName;
+  displayName?: string;
+  unit?: string;
+  range?: { min?: number; max?: number };
+  sampleRate?: number; // Hz
+}
+
+export interface SensorFilterConfig {
+  type: 'lowpass' | 'highpass' | 'bandpass' | 'notch' | 'moving_average' | 'kalman' | 'custom';
+  parameters?: Record<string, number>;
+  enabled?: boolean;
+}
+
+export interface SensorValidationConfig {
+  outlierDetection: boolean;
+  outlierThreshold: number; // standard deviations
+  rangeValidation: boolean;
+  timeoutDetection: boolean;
+  timeoutThreshold: number; // ms
+}
+
+export interface SensorAggregationConfig {
+  windowSize: number; // s
+  method: 'mean' | 'median' | 'max' | 'min' | 'rms';
+  overlap: number; // s
+}
+
+export interface SensorDescription {
+  name: string;
+  manufacturer?: string;
+  model?: string;
+  gattProfile: {
+    services: GattServiceDescription[];
+    standardProfiles?: StandardProfileMapping[];
+  };
+  capabilities?: { metrics: SensorMetricCapability[] };
+  dataProcessing?: {
+    filters?: SensorFilterConfig[];
+    validation?: Partial<SensorValidationConfig>;
+    aggregation?: Partial<SensorAggregationConfig>;
+  };
+}
+
+export type SensorReadingFlag = 'out_of_range' | 'outlier' | 'after_timeout' | 'not_a_number';
+
+/**
+ * A decoded, filtered and validated value from a configured sensor
+ */
+export interface SensorReading {
+  metric: SensorMetricName;
+  value: number; // after filtering
+  rawValue: number; // as decoded, before filtering
+  unit?: string;
+  timestamp: Date;
+  characteristicUUID: string;
+  valid: boolean;
+  flags: SensorReadingFlag[];
+  rrIntervals?: number[]; // ms, from heart-rate measurement parsers
+}
@@ -19,6 +19,10 @@ export interface Session {
   updatedAt: Date;
 }
 
+// What the device keeps of a session until vital signs and feedback are
+// attached to it
+export type SessionRecord = Pick<Session, 'id' | 'sessionType' | 'pranayama' | 'timing' | 'outcome' | 'createdAt'>;
+
 export type SessionType = 
   | 'pranayama'
   | 'meditation_walk'
@@ -37,6 +41,7 @@ export interface PranayamaSession {
     completed: number;
   };
   nostrilPattern?: string;
+  retentionTimes?: number[]; // seconds each breath was held, for rapid breathing in rounds
   guidanceUsed: boolean;
 }
 
@@ -50,6 +55,8 @@ export type PranayamaTechnique =
   | 'surya_bhedana'    // Right nostril breathing
   | 'chandra_bhedana'  // Left nostril breathing
   | 'three_part'       // Three-part breath
+  | 'four_seven_eight' // 4-7-8 relaxing breath
+  | 'resonance'        // Paced at the user's assessed resonance rate
   | 'custom';
 
 export interface BreathingPattern {
@@ -60,6 +67,62 @@ export interface BreathingPattern {
   ratio: string;           // e.g., "4:4:4:4"
 }
 
+// Phase names as cued to the user: the hold after inhaling is "hold", the
+// hold after exhaling is "pause"
+export type GuidedBreathPhase = 'inhale' | 'hold' | 'exhale' | 'pause';
+
+export type TechniqueDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export interface PranayamaTechniqueDefinition {
+  id: PranayamaTechnique;
+  name: string;
+  description: string;
+  difficulty: TechniqueDifficulty;
+  defaultPattern: BreathingPattern;
+  duration: {              // minutes
+    min: number;
+    max: number;
+    default: number;
+  };
+  benefits: string[];
+  contraindications: string[];
+  instructions: string[];
+  coaching: TechniqueCoachingScript;
+  nostrils?: NostrilSequence; // nostril-specific techniques only
+  rounds?: RoundBreathingPattern; // rapid-breathing techniques only
+  appearance: {
+    icon: string;          // Ionicons name
+    emoji: string;
+    color: string;
+    gradient: [string, string];
+  };
+}
+
+export interface TechniqueCoachingScript {
+  introduction: string;
+  cues: Partial<Record<GuidedBreathPhase, string>>; // spoken and shown alongside the phase
+  stageCues?: Partial<Record<RoundStage, string>>;  // for round-based techniques
+}
+
+export type NostrilSide = 'left' | 'right';
+
+export interface NostrilSequence {
+  pattern: string; // recorded as PranayamaSession.nostrilPattern
+  cycles: Array<Record<'inhale' | 'exhale', NostrilSide>>; // one per breath cycle, repeating
+}
+
+// Rapid breathing (kapalabhati, bhastrika) is paced in rounds rather than
+// slow cycles: quick pumps, an optional held breath, then a rest
+export interface RoundBreathingPattern {
+  pumps: number;            // breaths per round
+  tempo: number;            // breaths per minute
+  retention: number | null; // longest breath hold in seconds, ended sooner by the user; null to skip
+  rest: number;             // seconds of normal breathing after each round
+  rounds: number;
+}
+
+export type RoundStage = 'pumping' | 'retention' | 'rest';
+
 export interface MeditationSession {
   activityType: MeditationActivityType;
   location: MeditationLocation;
@@ -218,9 +281,88 @@ export interface SessionState {
   totalCycles?: number;
   currentBreathPhase?: 'inhale' | 'hold_in' | 'exhale' | 'hold_out';
   breathPhaseTime?: number;  // seconds remaining in current phase
+  currentNostril?: NostrilSide; // for nostril-specific techniques
+  currentRound?: number;     // round-based techniques
+  totalRounds?: number;
+  roundStage?: RoundStage;
   realTimeMetrics: RealTimeMetrics;
 }
 
+export type SessionStatus = SessionState['status'];
+
+export type SessionPhase = SessionState['currentPhase'];
+
+export type SessionEventType =
+  | 'status_changed'
+  | 'phase_changed'        // preparation, breathing, ... moved on
+  | 'breath_phase_changed'
+  | 'cycle_completed'        // a breath cycle, or a round of rapid breathing
+  | 'round_stage_changed'    // pumping, retention or rest began
+  | 'tick';                // once per second of active (unpaused) time
+
+export interface SessionEvent {
+  type: SessionEventType;
+  timestamp: number;       // ms, from the session clock
+  state: SessionState;
+  previousStatus?: SessionStatus;   // status_changed
+  breathPhase?: GuidedBreathPhase;  // breath_phase_changed
+  breathPhaseDuration?: number;     // seconds, full length of the new breath phase
+  nostril?: NostrilSide;            // breath_phase_changed, nostril-specific techniques
+  roundStage?: RoundStage;          // round_stage_changed
+}
+
+export interface BreathPosition {
+  phase: GuidedBreathPhase;
+  phaseDuration: number;   // seconds
+  phaseElapsed: number;    // seconds
+  phaseRemaining: number;  // seconds
+  countdown: number;       // whole seconds left, as counted down to the user
+  progress: number;        // 0-1 through the phase
+  cycle: number;           // 1-based
+  cycleElapsed: number;    // seconds into the cycle
+  pattern: BreathingPattern;
+}
+
+export type BreathSchedulerStatus = 'idle' | 'running' | 'paused' | 'completed' | 'stopped';
+
+export type BreathSchedulerEventType =
+  | 'phase_started'
+  | 'countdown'            // whole seconds left in the phase went down
+  | 'cycle_completed'
+  | 'pattern_changed'      // a pattern swap took effect at a cycle boundary
+  | 'completed'            // reached its cycle or duration limit
+  | 'stopped';
+
+export interface BreathSchedulerEvent {
+  type: BreathSchedulerEventType;
+  timestamp: number;       // ms, from the scheduler clock
+  position: BreathPosition;
+}
+
+export interface RoundPosition {
+  round: number;           // 1-based
+  totalRounds: number;
+  stage: RoundStage;
+  pump: number;            // 1-based pump within the round; totalPumps once past pumping
+  totalPumps: number;
+  stageElapsed: number;    // seconds
+  stageRemaining: number;  // seconds; for retention, until its longest hold
+  progress: number;        // 0-1 through the stage
+}
+
+export type RoundSchedulerEventType =
+  | 'stage_started'
+  | 'pump'                 // a pump started; the metronome beat
+  | 'round_completed'
+  | 'completed'
+  | 'stopped';
+
+export interface RoundSchedulerEvent {
+  type: RoundSchedulerEventType;
+  timestamp: number;       // ms, from the scheduler clock
+  position: RoundPosition;
+}
+
 export interface RealTimeMetrics {
   currentHeartRate?: number;
   currentHRV?: number;
@@ -95,5 +95,20 @@ export interface HealthBaseline {
   averageHRV?: number;
   baselineSpO2?: number;
   breathingRate?: number;
+  resonanceBreathingRate?: number; // breaths/min, from the resonance assessment
+  resonanceAssessedAt?: Date;
+  sessionsCalibrated?: number; // sessions that have contributed a resting sample, all time
   lastUpdated: Date;
+}
+
+/**
+ * Resting-state summary of one session, the unit the rolling baseline is built from
+ */
+export interface BaselineSample {
+  timestamp: Date;
+  restingHeartRate?: number; // bpm
+  rmssd?: number; // ms
+  breathingRate?: number; // breaths/min
+  spo2?: number; // %
+  windows: number; // resting windows behind the sample
 }
\ No newline at end of file
@@ -8,15 +8,28 @@ export interface VitalSigns {
   oxygenSaturation: SpO2Data[];
   breathing: BreathingData[];
   stressLevel: StressData[];
+  coherence?: CoherenceData[];
 }
 
+export type HeartRateSource = 'camera_ppg' | 'camera_rppg' | 'ble_heart_rate' | 'ble_pulse_oximeter' | 'manual';
+
 export interface HeartRateData {
   timestamp: Date;
   bpm: number;
   confidence: number; // 0-1
-  source: 'camera_ppg' | 'camera_rppg' | 'manual';
+  source: HeartRateSource; // for a fused reading, the largest contributor
   quality?: number; // 0-1
   signalStrength?: number;
+  rrIntervals?: number[]; // ms, beat-to-beat intervals behind this reading
+  provenance?: HeartRateContribution[]; // set on fused readings
+}
+
+export interface HeartRateContribution {
+  source: HeartRateSource;
+  bpm: number;
+  confidence: number;
+  weight: number; // 0-1 share of this update; 0 when rejected
+  accepted: boolean; // false when gated out as an outlier
 }
 
 export interface HRVData {
@@ -24,16 +37,83 @@ export interface HRVData {
   rmssd: number; // ms
   sdnn: number; // ms
   pnn50: number; // percentage
+  vlf?: number; // ms², 0.0033-0.04 Hz
+  lf?: number; // ms², 0.04-0.15 Hz
+  hf?: number; // ms², 0.15-0.4 Hz
+  lfHfRatio?: number;
+  totalPower?: number; // ms², 0.0033-0.4 Hz
+  peakFrequency?: number; // Hz, dominant peak in 0.04-0.4 Hz
+  sd1?: number; // ms, Poincaré short-term variability
+  sd2?: number; // ms, Poincaré long-term variability
+  sd1Sd2Ratio?: number;
+  sampleEntropy?: number;
+  dfaAlpha1?: number; // short-term DFA scaling exponent
   confidence: number; // 0-1
   source: string;
 }
 
+export interface NonlinearHRV {
+  sd1?: number;
+  sd2?: number;
+  sd1Sd2Ratio?: number;
+  sampleEntropy?: number;
+  dfaAlpha1?: number;
+}
+
+export interface FrequencyDomainHRV {
+  vlf: number; // ms²
+  lf: number; // ms²
+  hf: number; // ms²
+  totalPower: number; // ms²
+  lfHfRatio: number;
+  peakFrequency: number; // Hz
+  lfPeak: number; // Hz
+  hfPeak: number; // Hz
+  frequencies: number[]; // Hz
+  psd: number[]; // ms²/Hz
+}
+
+export interface CoherenceData {
+  timestamp: Date;
+  score: number; // 0-1, share of HR power in the dominant peak
+  ratio: number; // peak power / power outside the peak
+  peakFrequency: number; // Hz, dominant HR rhythm in 0.04-0.26 Hz
+  breathingHeartSync?: number; // 0-1 phase locking of HR to breathing
+  windowSeconds: number;
+}
+
+export interface RRIntervalSample {
+  timestamp: number; // ms, time of the beat that ends the interval
+  interval: number; // ms
+}
+
+// Resonance-frequency assessment types
+export interface ResonanceStepResult {
+  breathsPerMinute: number; // paced rate
+  startTime: Date;
+  endTime: Date;
+  beats: number; // clean intervals analysed
+  lfPower?: number; // ms²
+  lfPeakFrequency?: number; // Hz
+  peakToTrough?: number; // bpm, mean max-min heart rate per breath
+  sdnn?: number; // ms
+  peakMatchesPace: boolean; // LF peak at the paced breathing frequency
+  score: number; // 0-1, relative to the other steps
+}
+
+export interface ResonanceAssessmentResult {
+  steps: ResonanceStepResult[];
+  resonanceRate: number | null; // breaths/min, null when no step had enough data
+  completedAt: Date;
+}
+
 export interface SpO2Data {
   timestamp: Date;
   value: number; // percentage
   confidence: number; // 0-1
-  source: 'camera_analysis' | 'manual';
-  pulseStrength?: number;
+  source: 'camera_analysis' | 'ble_pulse_oximeter' | 'manual';
+  pulseStrength?: number; // perfusion index, %
+  ratioOfRatios?: number;
 }
 
 export interface BreathingData {
@@ -46,16 +126,19 @@ export interface BreathingData {
   amplitude?: number; // breathing depth
   confidence: number; // 0-1
   source: 'audio_analysis' | 'camera_motion' | 'manual';
+  phases?: BreathPhaseEvent[]; // detected phase segments, oldest first
 }
 
 export interface StressData {
   timestamp: Date;
   value: number; // 0-100 scale
   factors: {
-    hrv: number;
-    heartRate: number;
-    breathing: number;
+    // 0-100 each, present only when the cycle had the data behind them
+    hrv?: number;
+    heartRate?: number;
+    breathing?: number;
     movement?: number;
+    autonomicBalance?: number;
   };
   recommendation?: string;
 }
@@ -84,6 +167,72 @@ export interface DataQuality {
   usableForAnalysis: boolean;
 }
 
+/**
+ * Quality of one collection cycle, before it is summarized into DataQuality
+ */
+export interface CycleQuality {
+  overall: number; // 0-1, confidence weighted by metric and discounted by artifacts
+  artifactsDetected: number; // artifact segments in the camera window
+  confidence: DataQuality['confidenceIntervals']; // 0 for metrics not measured
+  flags: string[];
+}
+
+/**
+ * The readings produced by one VitalSignsService collection cycle; metrics
+ * without a reading this cycle are absent or null
+ */
+export interface VitalSignsCycle {
+  heartRate?: HeartRateData | null;
+  hrv?: HRVData | null;
+  spo2?: SpO2Data | null;
+  breathing?: BreathingData | null;
+  stress?: StressData | null;
+  coherence?: CoherenceData | null;
+  motion?: MotionData | null;
+  artifacts?: ArtifactReport | null;
+}
+
+export type BeatRejectionReason = 'template_mismatch' | 'skewness' | 'perfusion' | 'interval';
+
+// What the user should change to get a usable finger PPG
+export type SignalGuidance = 'cover_camera' | 'press_lighter' | 'hold_still';
+
+export interface BeatQuality {
+  index: number; // sample index of the peak
+  timestamp: number; // ms
+  sqi: number; // 0-1
+  templateCorrelation: number; // -1 to 1, against the window's mean beat
+  skewness: number;
+  perfusionIndex: number; // %
+  accepted: boolean;
+  reasons: BeatRejectionReason[];
+}
+
+export interface PulseQualitySummary {
+  beats: BeatQuality[];
+  acceptedRatio: number; // 0-1
+  quality: number; // 0-1, mean SQI of accepted beats times acceptedRatio
+  perfusionIndex: number; // %, median over beats
+  snr: number; // dB, template power over residual power
+  guidance: SignalGuidance | null;
+}
+
+export type ArtifactReason = 'clipping' | 'flatline' | 'amplitude_outlier' | 'baseline_jump' | 'motion';
+
+export interface ArtifactSegment {
+  start: number; // ms, same clock as the signal timestamps
+  end: number; // ms
+  reasons: ArtifactReason[];
+}
+
+export interface ArtifactReport {
+  segments: ArtifactSegment[]; // merged runs of bad analysis segments
+  artifactFraction: number; // 0-1 share of the window marked bad
+  cleanMask: boolean[]; // per sample, false inside an artifact
+  flags: string[]; // e.g. 'motion_artifact', 'signal_clipping'
+  usable: boolean; // enough clean signal left for HR/HRV
+}
+
 export interface SessionAnalytics {
   stressIndicators: {
     hrvStressScore: number;
@@ -120,6 +269,10 @@ export interface ProcessingConfig {
   windowSize: number;
   noiseReduction: boolean;
   realTimeProcessing: boolean;
+  filterOrder?: number;
+  lowCutoff?: number;  // Hz
+  highCutoff?: number; // Hz
+  ppgChannel?: 'red' | 'green'; // camera channel the finger pulse is read from
 }
 
 // PPG/rPPG specific types
@@ -136,6 +289,9 @@ export interface rPPGSignal {
   timestamps: number[];
   faceRegion: FaceRegion;
   roiSignal: number[];
+  redChannel?: number[];   // per-frame ROI means, used by chrominance methods
+  greenChannel?: number[];
+  blueChannel?: number[];
   quality: number;
   fps: number;
 }
@@ -148,6 +304,22 @@ export interface FaceRegion {
   confidence: number;
 }
 
+// Camera frame source types
+export interface CameraFrame {
+  timestamp: number; // ms
+  red: number;       // mean channel intensity over the ROI (0-255)
+  green: number;
+  blue: number;
+  faceRegion?: FaceRegion;
+}
+
+export interface FrameSource {
+  readonly name: string;
+  start(config: CameraConfig, onFrame: (frame: CameraFrame) => void): Promise<void>;
+  stop(): Promise<void>;
+  isRunning(): boolean;
+}
+
 // Breathing analysis types
 export interface AudioBreathingSignal {
   timestamps: number[];
@@ -158,6 +330,25 @@ export interface AudioBreathingSignal {
   nostrilDominance?: 'left' | 'right' | 'both';
 }
 
+export interface AudioFrame {
+  timestamp: number; // ms, time of the first sample
+  samples: number[]; // mono PCM, -1 to 1
+  sampleRate: number; // Hz
+}
+
+export interface AudioFrameSource {
+  readonly name: string;
+  start(onFrame: (frame: AudioFrame) => void): Promise<void>;
+  stop(): Promise<void>;
+  isRunning(): boolean;
+}
+
+export interface BreathPhaseEvent {
+  phase: 'inhale' | 'exhale' | 'pause';
+  start: number; // ms
+  end: number; // ms
+}
+
 export interface BreathingPattern {
   technique: string;
   pattern: {
@@ -173,7 +364,7 @@ export interface BreathingPattern {
 
 // Motion and activity types
 export interface MotionData {
-  accelerometer: {
+  accelerometer: { // g
     x: number;
     y: number;
     z: number;
@@ -194,6 +385,54 @@ export interface MotionData {
   };
 }
 
+export interface MotionSample {
+  timestamp: number; // ms
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MotionSensorSource {
+  readonly name: string;
+  start(
+    intervalMs: number,
+    onAccelerometer: (sample: MotionSample) => void,
+    onGyroscope: (sample: MotionSample) => void
+  ): Promise<void>;
+  stop(): Promise<void>;
+  isRunning(): boolean;
+}
+
+// Time and session replay types
+export type ClockTimer = ReturnType<typeof setTimeout> | number;
+
+export interface Clock {
+  now(): number; // ms
+  monotonicNow?(): number; // ms from an arbitrary origin, never adjusted; now() is used when absent
+  setTimeout(callback: () => void, delayMs: number): ClockTimer;
+  clearTimeout(timer: ClockTimer): void;
+}
+
+export interface AudioEnvelopeSample {
+  timestamp: number; // ms
+  amplitude: number; // RMS of the pre-emphasized block
+  frequency: number; // Hz, RMS frequency
+}
+
+export interface SessionRecording {
+  sessionId?: string;
+  cameraMethod?: 'ppg' | 'rppg'; // how the frames were captured, finger PPG by default
+  frames?: CameraFrame[];
+  audioEnvelope?: {
+    sampleRate: number; // Hz
+    samples: AudioEnvelopeSample[];
+  };
+  motion?: {
+    accelerometer: MotionSample[];
+    gyroscope: MotionSample[];
+  };
+}
+
 // Error and validation types
 export interface VitalSignsError {
   type: 'sensor_error' | 'processing_error' | 'validation_error' | 'network_error';